@@ -15,7 +15,7 @@ import {DynamicFHE} from "./DynamicFHE.sol";
 import "@eigenlayer/contracts/interfaces/IRewardsCoordinator.sol";
 import {IAllocationManager} from "@eigenlayer/contracts/interfaces/IAllocationManager.sol";
 // Fhenix CoFHE imports
-import {FHE, InEuint128, InEuint32, InEuint256, InEuint64, InEuint16, InEaddress, euint128, euint256, euint64, euint32, euint16, eaddress, ebool} from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import {FHE, InEuint128, InEuint32, InEuint256, InEuint64, InEaddress, euint128, euint256, euint64, euint32, eaddress, ebool} from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
 // Simple struct for emitting internal FHE handles with type information
 struct HandleWithType {
@@ -31,9 +31,7 @@ struct HandleWithType {
 contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
     using ECDSAUpgradeable for bytes32;
 
-    // Committee configuration
-    uint256 public constant COMMITTEE_SIZE = 1; // Number of operators per batch
-    uint256 public constant MIN_ATTESTATIONS = 1; // Minimum signatures for consensus
+    uint32 public constant APY_OFFSET = 2**31; // Signed APY encoding: encoded = apyBps + APY_OFFSET
     address public admin;
     
     // Track registered operators for selection
@@ -69,7 +67,7 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
     // Strategy performance tracking
     struct StrategyPerf {
         StrategyNode[] nodes;      // Array of encrypted strategy nodes
-        euint16 encryptedAPY;      // Encrypted APY in basis points (e.g., 1234 = 12.34%)
+        euint32 encryptedAPY;      // Encrypted offset-encoded APY (apyBps + APY_OFFSET, so -1234 = -12.34%)
         euint32 targetChainId;     // Encrypted destination chain ID
         address submitter;         // Strategy owner
         uint256 submittedAt;       // Submission timestamp
@@ -93,14 +91,56 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
     // Winner tracking (after finalization)
     struct Winner {
         address trader;
-        uint256 decryptedAPY;      // Decrypted APY value
+        uint256 decryptedAPY;      // Decrypted offset-encoded APY value
         uint256 allocation;        // Capital allocation based on weights
     }
     mapping(uint256 => Winner[]) public epochWinners; // epoch => winners array
 
+    // What happens to the weight of winner slots left empty (fewer strategies than weights)
+    enum UnfilledWeightPolicy {
+        REDISTRIBUTE,       // Scale the filled slots' weights up to the whole allocated capital
+        RETURN_TO_VAULT,    // Leave the unused capital in the vault
+        ROLL_OVER           // Add the unused capital to the next epoch's allocated capital
+    }
+
+    // How operators rank an epoch's strategies (operator/utils/scoring.ts). Ranking runs off-chain;
+    // the config is published so every operator ranks, and verifies, with the same one.
+    enum ScoringMode {
+        APY,
+        SHARPE,
+        SORTINO,
+        RISK_ADJUSTED
+    }
+
+    struct ScoringConfig {
+        ScoringMode mode;
+        uint32 maxDrawdownCapBps;           // Strategies with a deeper drawdown can't win (0: no cap)
+        uint32 leveragePenaltyBps;          // RISK_ADJUSTED: APY deducted per 1x of leverage above 1x
+        uint32 concentrationPenaltyBps;     // RISK_ADJUSTED: APY deducted per 10% of concentration above the threshold
+        uint32 concentrationThresholdBps;   // RISK_ADJUSTED: concentration allowed without penalty
+    }
+
     // SimpleBoringVault for executing aggregated strategies
     address payable public boringVault;
 
+    // Unfilled winner slots
+    UnfilledWeightPolicy public unfilledWeightPolicy;                           // Applied to epochs started from now on
+    mapping(uint256 => UnfilledWeightPolicy) public epochUnfilledWeightPolicy;  // Policy of each epoch (set at start)
+    mapping(uint256 => uint256) public epochUnallocatedCapital;                 // Capital not allocated to winners
+    uint256 public rolledOverCapital;                                           // Added to the next epoch's capital
+
+    // Committee configuration (see setCommitteeConfig)
+    uint256 public committeeSize;       // Number of operators per batch
+    uint256 public minAttestations;     // Minimum signatures from distinct selected operators for consensus
+
+    // Executions of each epoch (the execution, then recoveries and unwinds), signed into the next one's
+    // consensus payload so a signed plan can't be executed again
+    mapping(uint256 => uint256) public epochExecutionCount;
+
+    // Winner scoring
+    ScoringConfig public scoringConfig;                             // Applied to epochs started from now on
+    mapping(uint256 => ScoringConfig) public epochScoringConfig;    // Config of each epoch (set at start)
+
     modifier onlyOperator() {
         require(
             operatorRegistered[msg.sender],
@@ -131,11 +171,27 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         )
     {
         admin = _admin;
+        committeeSize = 1;
+        minAttestations = 1;
     }
 
     function initialize(address initialOwner, address _rewardsInitiator) external initializer {
         __ServiceManagerBase_init(initialOwner, _rewardsInitiator);
         admin = initialOwner;
+        committeeSize = 1;
+        minAttestations = 1;
+    }
+
+    /**
+     * @notice Default committee configuration for proxies upgraded from the version where it was constant
+     * @dev Call through upgradeAndCall. Leaves a configuration set by initialize or setCommitteeConfig as is.
+     */
+    function initializeCommitteeConfig() external reinitializer(2) {
+        if (committeeSize == 0) {
+            committeeSize = 1;
+            minAttestations = 1;
+            emit CommitteeConfigSet(1, 1);
+        }
     }
 
     /**
@@ -216,6 +272,23 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         uint256[] allocations
     );
 
+    event CapitalUnallocated(
+        uint256 indexed epochNumber,
+        UnfilledWeightPolicy policy,
+        uint256 amount
+    );
+
+    event RolledOverCapitalAdded(
+        uint256 indexed epochNumber,
+        uint256 amount
+    );
+
+    event UnfilledWeightPolicySet(UnfilledWeightPolicy policy);
+
+    event ScoringConfigSet(ScoringConfig config);
+
+    event CommitteeConfigSet(uint256 committeeSize, uint256 minAttestations);
+
     event EpochExecuted(
         uint256 indexed epochNumber,
         uint256 totalDeployed
@@ -235,17 +308,17 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         uint256 operatorCount = registeredOperators.length;
 
         // If not enough operators, return all available
-        if (operatorCount <= COMMITTEE_SIZE) {
+        if (operatorCount <= committeeSize) {
             return registeredOperators;
         }
 
         // Use epoch number for deterministic randomness
         uint256 seed = uint256(keccak256(abi.encode(block.prevrandao, block.number, epochNumber)));
 
-        address[] memory selectedOps = new address[](COMMITTEE_SIZE);
+        address[] memory selectedOps = new address[](committeeSize);
         bool[] memory selected = new bool[](operatorCount);
 
-        for (uint256 i = 0; i < COMMITTEE_SIZE; i++) {
+        for (uint256 i = 0; i < committeeSize; i++) {
             uint256 randomIndex = uint256(keccak256(abi.encode(seed, i))) % operatorCount;
 
             // Linear probing to avoid duplicates
@@ -269,7 +342,7 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
      * @param epochDuration Duration in seconds for strategy submissions
      * @param weights Capital allocation weights for top K winners (must sum to 100)
      * @param notionalPerTrader Fixed simulation amount (e.g., 100k USDC)
-     * @param allocatedCapital Real capital to deploy (e.g., 1M USDC)
+     * @param allocatedCapital Real capital to deploy (e.g., 1M USDC), plus any capital rolled over
      */
     function startEpoch(
         InEuint64 calldata encSimStartTime,
@@ -289,11 +362,21 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         require(notionalPerTrader > 0, "Notional must be positive");
         require(allocatedCapital > 0, "Allocated capital must be positive");
         require(registeredOperators.length > 0, "No operators registered");
+        require(committeeSize > 0, "Committee not configured");
 
         // Increment epoch counter
         currentEpochNumber++;
         uint256 epochNumber = currentEpochNumber;
 
+        // Capital left unallocated by a ROLL_OVER epoch joins this one
+        uint256 rolledOver = rolledOverCapital;
+        if (rolledOver > 0) {
+            rolledOverCapital = 0;
+            emit RolledOverCapitalAdded(epochNumber, rolledOver);
+        }
+        epochUnfilledWeightPolicy[epochNumber] = unfilledWeightPolicy;
+        epochScoringConfig[epochNumber] = scoringConfig;
+
         // Load encrypted simulation times
         euint64 simStart = FHE.asEuint64(encSimStartTime);
         euint64 simEnd = FHE.asEuint64(encSimEndTime);
@@ -322,7 +405,7 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
             epochEndTime: endTime,
             weights: weights,
             notionalPerTrader: notionalPerTrader,
-            allocatedCapital: allocatedCapital,
+            allocatedCapital: allocatedCapital + rolledOver,
             state: EpochState.OPEN,
             selectedOperators: selectedOps,
             createdAt: block.timestamp
@@ -334,7 +417,7 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
             endTime,
             weights,
             notionalPerTrader,
-            allocatedCapital
+            allocatedCapital + rolledOver
         );
     }
 
@@ -369,7 +452,7 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         // Create strategy performance record
         StrategyPerf storage strategy = strategies[currentEpochNumber][msg.sender];
      
-        strategy.encryptedAPY = euint16.wrap(0);
+        strategy.encryptedAPY = euint32.wrap(0);
         strategy.submitter = msg.sender;
         strategy.submittedAt = block.timestamp;
         strategy.finalized = false;
@@ -451,12 +534,12 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
      * @dev Can be called anytime during OPEN state as operators simulate in real-time
      * @param epochNumber The epoch number
      * @param trader The trader whose strategy was simulated
-     * @param encryptedAPY The encrypted APY in basis points (e.g., 1234 = 12.34%)
+     * @param encryptedAPY The encrypted APY in basis points plus APY_OFFSET (e.g., APY_OFFSET + 1234 = 12.34%)
      */
     function reportEncryptedAPY(
         uint256 epochNumber,
         address trader,
-        InEuint16 calldata encryptedAPY
+        InEuint32 calldata encryptedAPY
     ) external onlyOperator {
         require(epochNumber <= currentEpochNumber, "Invalid epoch");
         EpochData storage epoch = epochs[epochNumber];
@@ -475,12 +558,17 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
 
         // Load and store encrypted APY
         StrategyPerf storage strategy = strategies[epochNumber][trader];
-        euint16 apy = FHE.asEuint16(encryptedAPY);
+        euint32 apy = FHE.asEuint32(encryptedAPY);
         FHE.allowThis(apy);
 
         // Grant trader permission to decrypt their own APY (for viewMyAPY)
         FHE.allow(apy, trader);
 
+        // Grant every selected operator permission, so each can rank the epoch independently
+        for (uint256 i = 0; i < epoch.selectedOperators.length; i++) {
+            FHE.allow(apy, epoch.selectedOperators[i]);
+        }
+
         strategy.encryptedAPY = apy;
 
         emit APYReported(epochNumber, trader, msg.sender, block.timestamp);
@@ -506,11 +594,11 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         address[] memory submitters = epochSubmitters[epochNumber];
         for (uint256 i = 0; i < submitters.length; i++) {
             address trader = submitters[i];
-            euint16 encryptedAPY = strategies[epochNumber][trader].encryptedAPY;
+            euint32 encryptedAPY = strategies[epochNumber][trader].encryptedAPY;
 
             // Decrypt APY (triggers decryption request to CoFHE network)
             // Note: Only decrypt if APY has been reported (non-zero handle)
-            if (euint16.unwrap(encryptedAPY) != 0) {
+            if (euint32.unwrap(encryptedAPY) != 0) {
                 FHE.decrypt(encryptedAPY);
             }
         }
@@ -522,20 +610,25 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
     /**
      * @notice Finalize epoch with decrypted APYs and select winners
      * @dev Called by operator after decryption completes off-chain
+     * @dev With fewer winners than weights, the unfilled slots' weight is handled by the
+     *      epoch's UnfilledWeightPolicy
      * @param epochNumber The epoch number to finalize
-     * @param winners Array of winning trader addresses (sorted by APY, highest first)
-     * @param decryptedAPYs Array of decrypted APY values (in basis points)
+     * @param winners Array of distinct winning trader addresses (sorted by APY, highest first)
+     * @param decryptedAPYs Array of decrypted offset-encoded APY values (apyBps + APY_OFFSET)
+     * @param operatorSignatures Selected operators' signatures over
+     *        (chainid, this contract, epochNumber, winners, decryptedAPYs)
      */
     function finalizeEpoch(
         uint256 epochNumber,
         address[] calldata winners,
-        uint256[] calldata decryptedAPYs
+        uint256[] calldata decryptedAPYs,
+        bytes[] calldata operatorSignatures
     ) external onlyOperator {
         require(epochNumber <= currentEpochNumber, "Invalid epoch");
         EpochData storage epoch = epochs[epochNumber];
 
         require(epoch.state == EpochState.CLOSED, "Epoch not closed");
-        require(winners.length == epoch.weights.length, "Winners length must match weights length");
+        require(winners.length <= epoch.weights.length, "More winners than weights");
         require(winners.length == decryptedAPYs.length, "Arrays length mismatch");
 
         // Verify operator is selected for this epoch
@@ -548,16 +641,39 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         }
         require(isSelected, "Operator not selected for this epoch");
 
-        // Calculate allocations and store winners
-        uint256[] memory allocations = new uint256[](winners.length);
+        // Verify consensus signatures over the winner list, for this chain and deployment only
+        bytes32 dataHash = keccak256(abi.encode(block.chainid, address(this), epochNumber, winners, decryptedAPYs));
+        require(_countAttestations(epoch, dataHash, operatorSignatures) >= minAttestations, "Insufficient consensus");
+
+        // Weight of the filled slots
+        uint256 filledWeight;
         for (uint256 i = 0; i < winners.length; i++) {
-            // Verify winner actually submitted a strategy
+            // Verify winner actually submitted a strategy, and only wins one slot
             require(hasSubmittedStrategy[epochNumber][winners[i]], "Winner did not submit strategy");
+            for (uint256 j = 0; j < i; j++) {
+                require(winners[j] != winners[i], "Duplicate winner");
+            }
+            filledWeight += epoch.weights[i];
+        }
+
+        UnfilledWeightPolicy policy = epochUnfilledWeightPolicy[epochNumber];
+        bool redistribute = policy == UnfilledWeightPolicy.REDISTRIBUTE && filledWeight > 0;
 
-            // Calculate allocation based on weight
-            allocations[i] = (epoch.allocatedCapital * epoch.weights[i]) / 100;
+        // Calculate allocations based on weight (relative to the filled weight when redistributing)
+        uint256[] memory allocations = new uint256[](winners.length);
+        uint256 allocated;
+        for (uint256 i = 0; i < winners.length; i++) {
+            allocations[i] = (epoch.allocatedCapital * epoch.weights[i]) / (redistribute ? filledWeight : 100);
+            allocated += allocations[i];
+        }
+        if (redistribute) {
+            // Rounding dust goes to the top winner
+            allocations[0] += epoch.allocatedCapital - allocated;
+            allocated = epoch.allocatedCapital;
+        }
 
-            // Store winner
+        // Store winners
+        for (uint256 i = 0; i < winners.length; i++) {
             epochWinners[epochNumber].push(Winner({
                 trader: winners[i],
                 decryptedAPY: decryptedAPYs[i],
@@ -568,10 +684,45 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
             strategies[epochNumber][winners[i]].finalized = true;
         }
 
+        uint256 unallocated = epoch.allocatedCapital - allocated;
+        if (unallocated > 0) {
+            epochUnallocatedCapital[epochNumber] = unallocated;
+            if (policy == UnfilledWeightPolicy.ROLL_OVER) {
+                rolledOverCapital += unallocated;
+            }
+            emit CapitalUnallocated(epochNumber, policy, unallocated);
+        }
+
         epoch.state = EpochState.FINALIZED;
         emit EpochFinalized(epochNumber, winners, decryptedAPYs, allocations);
     }
 
+    /**
+     * @notice Count signatures over dataHash from distinct operators selected for the epoch
+     * @dev Signatures from other signers, and repeated signers, are not counted
+     */
+    function _countAttestations(
+        EpochData storage epoch,
+        bytes32 dataHash,
+        bytes[] calldata operatorSignatures
+    ) internal view returns (uint256 validSignatures) {
+        bytes32 ethSignedHash = dataHash.toEthSignedMessageHash();
+        bool[] memory counted = new bool[](epoch.selectedOperators.length);
+
+        for (uint256 i = 0; i < operatorSignatures.length; i++) {
+            address signer = ethSignedHash.recover(operatorSignatures[i]);
+
+            // Check if signer is a selected operator not counted yet
+            for (uint256 j = 0; j < epoch.selectedOperators.length; j++) {
+                if (epoch.selectedOperators[j] == signer && !counted[j]) {
+                    counted[j] = true;
+                    validSignatures++;
+                    break;
+                }
+            }
+        }
+    }
+
     /**
      * @notice Execute aggregated strategies for finalized epoch
      * @dev Called by operator with batched/deduplicated strategy calls
@@ -579,7 +730,8 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
      * @param encoders Array of encoder/sanitizer addresses
      * @param targets Array of target protocol addresses
      * @param calldatas Array of calldata (functionSelector + args)
-     * @param operatorSignatures Array of operator signatures for consensus
+     * @param operatorSignatures Selected operators' signatures over (chainid, this contract,
+     *        epochNumber, epochExecutionCount[epochNumber], encoders, targets, calldatas)
      */
     function executeEpochTopStrategiesAggregated(
         uint256 epochNumber,
@@ -607,23 +759,14 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         }
         require(isSelected, "Operator not selected for this epoch");
 
-        // Verify consensus signatures
-        uint256 validSignatures = 0;
-        bytes32 dataHash = keccak256(abi.encode(epochNumber, encoders, targets, calldatas));
-
-        for (uint256 i = 0; i < operatorSignatures.length && i < epoch.selectedOperators.length; i++) {
-            address signer = dataHash.toEthSignedMessageHash().recover(operatorSignatures[i]);
-
-            // Check if signer is a selected operator
-            for (uint256 j = 0; j < epoch.selectedOperators.length; j++) {
-                if (epoch.selectedOperators[j] == signer) {
-                    validSignatures++;
-                    break;
-                }
-            }
-        }
-
-        require(validSignatures >= MIN_ATTESTATIONS, "Insufficient consensus");
+        // Verify consensus signatures, over this execution of the epoch on this chain and deployment only
+        bytes32 dataHash = keccak256(
+            abi.encode(
+                block.chainid, address(this), epochNumber, epochExecutionCount[epochNumber], encoders, targets, calldatas
+            )
+        );
+        require(_countAttestations(epoch, dataHash, operatorSignatures) >= minAttestations, "Insufficient consensus");
+        epochExecutionCount[epochNumber]++;
 
         // Execute aggregated strategies via BoringVault
         uint256 successfulExecutions = 0;
@@ -652,15 +795,48 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         emit BoringVaultSet(_vault);
     }
 
+    /**
+     * @notice Set how epochs started from now on handle winner slots left empty
+     * @param policy REDISTRIBUTE, RETURN_TO_VAULT or ROLL_OVER
+     */
+    function setUnfilledWeightPolicy(UnfilledWeightPolicy policy) external onlyAdmin {
+        unfilledWeightPolicy = policy;
+        emit UnfilledWeightPolicySet(policy);
+    }
+
+    /**
+     * @notice Set how operators rank the strategies of epochs started from now on
+     * @param config Scoring mode, drawdown cap and risk-adjusted penalties
+     */
+    function setScoringConfig(ScoringConfig calldata config) external onlyAdmin {
+        require(config.maxDrawdownCapBps <= 10000, "Drawdown cap above 100%");
+        require(config.concentrationThresholdBps <= 10000, "Concentration threshold above 100%");
+        scoringConfig = config;
+        emit ScoringConfigSet(config);
+    }
+
+    /**
+     * @notice Set the committee for epochs started from now on
+     * @param _committeeSize Operators selected per epoch (all registered operators if fewer)
+     * @param _minAttestations Signatures from distinct selected operators required to finalize and execute
+     */
+    function setCommitteeConfig(uint256 _committeeSize, uint256 _minAttestations) external onlyAdmin {
+        require(_committeeSize > 0, "Committee size must be positive");
+        require(_minAttestations > 0 && _minAttestations <= _committeeSize, "Invalid attestation threshold");
+        committeeSize = _committeeSize;
+        minAttestations = _minAttestations;
+        emit CommitteeConfigSet(_committeeSize, _minAttestations);
+    }
+
     // ============================= VIEW FUNCTIONS =============================
 
     /**
      * @notice Get the encrypted APY for a trader's strategy in an epoch
      * @param epochNumber The epoch number
      * @param trader The trader address
-     * @return The encrypted APY (euint16)
+     * @return The encrypted offset-encoded APY (euint32, apyBps + APY_OFFSET)
      */
-    function getEncryptedAPY(uint256 epochNumber, address trader) external view returns (euint16) {
+    function getEncryptedAPY(uint256 epochNumber, address trader) external view returns (euint32) {
         return strategies[epochNumber][trader].encryptedAPY;
     }
 
@@ -673,12 +849,21 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
         return epochs[epochNumber].state;
     }
 
+    /**
+     * @notice Get the operators selected for an epoch
+     * @param epochNumber The epoch number
+     * @return The selected operator addresses
+     */
+    function getSelectedOperators(uint256 epochNumber) external view returns (address[] memory) {
+        return epochs[epochNumber].selectedOperators;
+    }
+
     /**
      * @notice Get decrypted APYs for all strategies in an epoch
      * @dev Returns 0 for APYs that haven't been decrypted yet
      * @param epochNumber The epoch number
      * @return traders Array of trader addresses
-     * @return decryptedAPYs Array of decrypted APY values (0 if not yet decrypted)
+     * @return decryptedAPYs Array of decrypted offset-encoded APY values (0 if not yet decrypted)
      * @return decrypted Array of booleans indicating if each APY has been decrypted
      */
     function getDecryptedAPYs(uint256 epochNumber)
@@ -697,9 +882,9 @@ contract TradeManager is ECDSAServiceManagerBase, ITradeManager {
 
         for (uint256 i = 0; i < submitters.length; i++) {
             address trader = submitters[i];
-            euint16 encryptedAPY = strategies[epochNumber][trader].encryptedAPY;
+            euint32 encryptedAPY = strategies[epochNumber][trader].encryptedAPY;
 
-            if (euint16.unwrap(encryptedAPY) != 0) {
+            if (euint32.unwrap(encryptedAPY) != 0) {
                 (uint256 result, bool isDecrypted) = FHE.getDecryptResultSafe(encryptedAPY);
                 decryptedAPYs[i] = result;
                 decrypted[i] = isDecrypted;
@@ -6,23 +6,24 @@ import {CoFheUtils} from "./utils/CoFheUtils.sol";
 import {TradeManager} from "../src/TradeManager.sol";
 import {DynamicInE} from "../src/ITradeManager.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {stdStorage, StdStorage} from "forge-std/Test.sol";
+import {UpgradeableProxyLib} from "../script/utils/UpgradeableProxyLib.sol";
 import {
     FHE,
     InEuint64,
     InEuint256,
     InEaddress,
     InEuint32,
-    InEuint16,
     InEuint128,
     euint64,
     euint256,
     euint32,
-    euint16,
     eaddress
 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
 contract TradeManagerTest is CoFheUtils {
     using ECDSA for bytes32;
+    using stdStorage for StdStorage;
 
     TradeManager public tradeManager;
 
@@ -70,6 +71,50 @@ contract TradeManagerTest is CoFheUtils {
         );
     }
 
+    /// @dev Offset-encode a signed APY in basis points the way operators report it
+    function encodeAPY(int256 apyBps) internal view returns (uint32) {
+        return uint32(uint256(int256(uint256(tradeManager.APY_OFFSET())) + apyBps));
+    }
+
+    /// @dev EIP-191 signature of a consensus data hash, as operators sign it
+    function signDataHash(uint256 privateKey, bytes32 dataHash) internal pure returns (bytes memory) {
+        bytes32 ethSigned = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", dataHash));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(privateKey, ethSigned);
+        return abi.encodePacked(r, s, v);
+    }
+
+    /// @dev Consensus data hash of a winner list, bound to this chain and TradeManager
+    function finalizeHash(uint256 epochNumber, address[] memory winners, uint256[] memory decryptedAPYs)
+        internal
+        view
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(block.chainid, address(tradeManager), epochNumber, winners, decryptedAPYs));
+    }
+
+    /// @dev Consensus data hash of an execution plan, bound to this chain and TradeManager
+    function executeHash(
+        uint256 epochNumber,
+        uint256 executionCount,
+        address[] memory encoders,
+        address[] memory targets,
+        bytes[] memory calldatas
+    ) internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(block.chainid, address(tradeManager), epochNumber, executionCount, encoders, targets, calldatas)
+        );
+    }
+
+    /// @dev operator1's attestation of a winner list
+    function signFinalize(uint256 epochNumber, address[] memory winners, uint256[] memory decryptedAPYs)
+        internal
+        view
+        returns (bytes[] memory attestations)
+    {
+        attestations = new bytes[](1);
+        attestations[0] = signDataHash(2, finalizeHash(epochNumber, winners, decryptedAPYs));
+    }
+
     // ========================================= OPERATOR TESTS =========================================
 
     function test_RegisterOperator() public {
@@ -550,20 +595,61 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc);
 
         // Operator reports APY (e.g., 12.34% = 1234 basis points)
-        InEuint16 memory encryptedAPY = createInEuint16(1234, operator1);
+        InEuint32 memory encryptedAPY = createInEuint32(encodeAPY(1234), operator1);
 
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader1, encryptedAPY);
 
         // Get the strategy's encrypted APY
-        euint16 apy = tradeManager.getEncryptedAPY(1, trader1);
+        euint32 apy = tradeManager.getEncryptedAPY(1, trader1);
 
         // Verify trader has decrypt permission
         assertIsAllowed(apy, trader1, "Trader should have decrypt permission for their APY");
+        assertIsAllowed(apy, operator1, "Selected operators should have decrypt permission for the APY");
 
         // Verify the encrypted APY value matches what was reported (using mock storage)
-        uint16 decryptedAPY = uint16(mockStorage(euint16.unwrap(apy)));
-        assertEq(decryptedAPY, 1234, "Decrypted APY should match reported value");
+        uint32 decryptedAPY = uint32(mockStorage(euint32.unwrap(apy)));
+        assertEq(decryptedAPY, encodeAPY(1234), "Decrypted APY should match reported value");
+    }
+
+    function test_ReportNegativeEncryptedAPY() public {
+        // Setup: Register operator, start epoch and submit a strategy
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+
+        uint8[] memory weights = new uint8[](1);
+        weights[0] = 100;
+        InEuint64 memory encSimStart = createInEuint64(uint64(block.timestamp - 7 days), admin);
+        InEuint64 memory encSimEnd = createInEuint64(uint64(block.timestamp - 1 days), admin);
+
+        vm.startPrank(admin);
+        tradeManager.startEpoch(encSimStart, encSimEnd, 1 days, weights, 100_000e6, 1_000_000e6);
+        vm.stopPrank();
+
+        InEaddress[] memory encoders = new InEaddress[](1);
+        InEaddress[] memory targets = new InEaddress[](1);
+        InEuint32[] memory selectors = new InEuint32[](1);
+        DynamicInE[][] memory nodeArgs = new DynamicInE[][](1);
+
+        encoders[0] = createInEaddress(makeAddr("encoder"), trader1);
+        targets[0] = createInEaddress(makeAddr("target"), trader1);
+        selectors[0] = createInEuint32(0x12345678, trader1);
+        nodeArgs[0] = new DynamicInE[](0);
+
+        InEuint32 memory chainIdEnc = createInEuint32(DESTINATION_CHAIN_ID, trader1);
+        vm.prank(trader1);
+        tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc);
+
+        // Operator reports a losing strategy (-7.5% = -750 basis points)
+        InEuint32 memory encryptedAPY = createInEuint32(encodeAPY(-750), operator1);
+
+        vm.prank(operator1);
+        tradeManager.reportEncryptedAPY(1, trader1, encryptedAPY);
+
+        // Decoding the stored value recovers the signed APY
+        euint32 apy = tradeManager.getEncryptedAPY(1, trader1);
+        uint256 stored = mockStorage(euint32.unwrap(apy));
+        assertEq(int256(stored) - int256(uint256(tradeManager.APY_OFFSET())), -750, "Signed APY should round-trip");
     }
 
     function test_RevertWhen_ReportAPYNonOperator() public {
@@ -595,7 +681,7 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc);
 
         // Try to report APY as non-operator
-        InEuint16 memory encryptedAPY = createInEuint16(1234, trader1);
+        InEuint32 memory encryptedAPY = createInEuint32(encodeAPY(1234), trader1);
 
         vm.expectRevert("Operator must be the caller");
         vm.prank(trader1);
@@ -618,7 +704,7 @@ contract TradeManagerTest is CoFheUtils {
         vm.stopPrank();
 
         // Try to report APY without strategy submission
-        InEuint16 memory encryptedAPY = createInEuint16(1234, operator1);
+        InEuint32 memory encryptedAPY = createInEuint32(encodeAPY(1234), operator1);
 
         vm.expectRevert("No strategy submitted");
         vm.prank(operator1);
@@ -658,7 +744,7 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc);
 
         // Report APY
-        InEuint16 memory encryptedAPY = createInEuint16(1234, operator1);
+        InEuint32 memory encryptedAPY = createInEuint32(encodeAPY(1234), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader1, encryptedAPY);
 
@@ -733,11 +819,11 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc2);
 
         // Report APYs
-        InEuint16 memory apy1 = createInEuint16(1234, operator1);
+        InEuint32 memory apy1 = createInEuint32(encodeAPY(1234), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader1, apy1);
 
-        InEuint16 memory apy2 = createInEuint16(5678, operator1);
+        InEuint32 memory apy2 = createInEuint32(encodeAPY(5678), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader2, apy2);
 
@@ -756,8 +842,8 @@ contract TradeManagerTest is CoFheUtils {
         assertEq(traders.length, 2);
         assertEq(traders[0], trader1);
         assertEq(traders[1], trader2);
-        assertEq(decryptedAPYs[0], 1234);
-        assertEq(decryptedAPYs[1], 5678);
+        assertEq(decryptedAPYs[0], encodeAPY(1234));
+        assertEq(decryptedAPYs[1], encodeAPY(5678));
         assertTrue(decrypted[0]);
         assertTrue(decrypted[1]);
     }
@@ -838,11 +924,11 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc2);
 
         // Report APYs
-        InEuint16 memory apy1 = createInEuint16(1234, operator1);
+        InEuint32 memory apy1 = createInEuint32(encodeAPY(1234), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader1, apy1);
 
-        InEuint16 memory apy2 = createInEuint16(5678, operator1);
+        InEuint32 memory apy2 = createInEuint32(encodeAPY(5678), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader2, apy2);
 
@@ -857,11 +943,12 @@ contract TradeManagerTest is CoFheUtils {
         winners[1] = trader1; // 1234 APY
 
         uint256[] memory decryptedAPYs = new uint256[](2);
-        decryptedAPYs[0] = 5678;
-        decryptedAPYs[1] = 1234;
+        decryptedAPYs[0] = encodeAPY(5678);
+        decryptedAPYs[1] = encodeAPY(1234);
 
+        bytes[] memory attestations = signFinalize(1, winners, decryptedAPYs);
         vm.prank(operator1);
-        tradeManager.finalizeEpoch(1, winners, decryptedAPYs);
+        tradeManager.finalizeEpoch(1, winners, decryptedAPYs, attestations);
 
         // Verify epoch state is FINALIZED
         TradeManager.EpochState state = tradeManager.getEpochState(1);
@@ -872,11 +959,11 @@ contract TradeManagerTest is CoFheUtils {
         (address winner2, uint256 apy2Final, uint256 allocation2) = tradeManager.epochWinners(1, 1);
 
         assertEq(winner1, trader2);
-        assertEq(apy1Final, 5678);
+        assertEq(apy1Final, encodeAPY(5678));
         assertEq(allocation1, 600_000e6); // 60% of 1M
 
         assertEq(winner2, trader1);
-        assertEq(apy2Final, 1234);
+        assertEq(apy2Final, encodeAPY(1234));
         assertEq(allocation2, 400_000e6); // 40% of 1M
     }
 
@@ -901,12 +988,371 @@ contract TradeManagerTest is CoFheUtils {
         winners[1] = trader2;
 
         uint256[] memory decryptedAPYs = new uint256[](2);
-        decryptedAPYs[0] = 1234;
-        decryptedAPYs[1] = 5678;
+        decryptedAPYs[0] = encodeAPY(1234);
+        decryptedAPYs[1] = encodeAPY(5678);
 
+        bytes[] memory attestations = signFinalize(1, winners, decryptedAPYs);
         vm.expectRevert("Epoch not closed");
         vm.prank(operator1);
-        tradeManager.finalizeEpoch(1, winners, decryptedAPYs);
+        tradeManager.finalizeEpoch(1, winners, decryptedAPYs, attestations);
+    }
+
+    /// @dev Start an epoch with the given weights, submit and report strategies for trader1 and trader2, and close it
+    function startAndCloseEpochWithTwoStrategies(uint8[] memory weights) internal returns (uint256 epochNumber) {
+        InEuint64 memory encSimStart = createInEuint64(uint64(block.timestamp - 7 days), admin);
+        InEuint64 memory encSimEnd = createInEuint64(uint64(block.timestamp - 1 days), admin);
+
+        vm.prank(admin);
+        tradeManager.startEpoch(encSimStart, encSimEnd, 1 days, weights, 100_000e6, 1_000_000e6);
+        epochNumber = tradeManager.currentEpochNumber();
+
+        InEaddress[] memory encoders = new InEaddress[](1);
+        InEaddress[] memory targets = new InEaddress[](1);
+        InEuint32[] memory selectors = new InEuint32[](1);
+        DynamicInE[][] memory nodeArgs = new DynamicInE[][](1);
+        nodeArgs[0] = new DynamicInE[](0);
+
+        address[2] memory traders = [trader1, trader2];
+        for (uint256 i = 0; i < traders.length; i++) {
+            encoders[0] = createInEaddress(makeAddr("encoder"), traders[i]);
+            targets[0] = createInEaddress(makeAddr("target"), traders[i]);
+            selectors[0] = createInEuint32(0x12345678, traders[i]);
+            InEuint32 memory chainIdEnc = createInEuint32(DESTINATION_CHAIN_ID, traders[i]);
+            vm.prank(traders[i]);
+            tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc);
+
+            InEuint32 memory apy = createInEuint32(encodeAPY(int256(1000 * (i + 1))), operator1);
+            vm.prank(operator1);
+            tradeManager.reportEncryptedAPY(epochNumber, traders[i], apy);
+        }
+
+        vm.warp(block.timestamp + 1 days + 1);
+        vm.prank(operator1);
+        tradeManager.closeEpoch(epochNumber);
+    }
+
+    function threeWeights() internal pure returns (uint8[] memory weights) {
+        weights = new uint8[](3);
+        weights[0] = 50;
+        weights[1] = 30;
+        weights[2] = 20;
+    }
+
+    function twoWinners() internal view returns (address[] memory winners, uint256[] memory decryptedAPYs) {
+        winners = new address[](2);
+        winners[0] = trader2;
+        winners[1] = trader1;
+        decryptedAPYs = new uint256[](2);
+        decryptedAPYs[0] = encodeAPY(2000);
+        decryptedAPYs[1] = encodeAPY(1000);
+    }
+
+    function test_FinalizeEpochFewerWinnersRedistributesWeight() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+
+        // 50 and 30 of the filled 80 share the whole 1M
+        (, , uint256 allocation1) = tradeManager.epochWinners(epochNumber, 0);
+        (, , uint256 allocation2) = tradeManager.epochWinners(epochNumber, 1);
+        assertEq(allocation1, 625_000e6);
+        assertEq(allocation2, 375_000e6);
+        assertEq(tradeManager.epochUnallocatedCapital(epochNumber), 0);
+        assertEq(tradeManager.rolledOverCapital(), 0);
+    }
+
+    function test_FinalizeEpochFewerWinnersReturnsCapitalToVault() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        vm.prank(admin);
+        tradeManager.setUnfilledWeightPolicy(TradeManager.UnfilledWeightPolicy.RETURN_TO_VAULT);
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+
+        (, , uint256 allocation1) = tradeManager.epochWinners(epochNumber, 0);
+        (, , uint256 allocation2) = tradeManager.epochWinners(epochNumber, 1);
+        assertEq(allocation1, 500_000e6);
+        assertEq(allocation2, 300_000e6);
+        assertEq(tradeManager.epochUnallocatedCapital(epochNumber), 200_000e6);
+        assertEq(tradeManager.rolledOverCapital(), 0);
+    }
+
+    function test_FinalizeEpochFewerWinnersRollsCapitalOver() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        vm.prank(admin);
+        tradeManager.setUnfilledWeightPolicy(TradeManager.UnfilledWeightPolicy.ROLL_OVER);
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+
+        assertEq(tradeManager.epochUnallocatedCapital(epochNumber), 200_000e6);
+        assertEq(tradeManager.rolledOverCapital(), 200_000e6);
+
+        // The next epoch gets the unused 200k on top of its own 1M
+        startAndCloseEpochWithTwoStrategies(threeWeights());
+        (, , , , , uint256 allocatedCapital, , ) = tradeManager.epochs(epochNumber + 1);
+        assertEq(allocatedCapital, 1_200_000e6);
+        assertEq(tradeManager.rolledOverCapital(), 0);
+    }
+
+    function test_FinalizeEpochWithoutWinners() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        // Nothing to redistribute to: all capital stays in the vault
+        bytes[] memory attestations = signFinalize(epochNumber, new address[](0), new uint256[](0));
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, new address[](0), new uint256[](0), attestations);
+
+        assertEq(uint256(tradeManager.getEpochState(epochNumber)), uint256(TradeManager.EpochState.FINALIZED));
+        assertEq(tradeManager.epochUnallocatedCapital(epochNumber), 1_000_000e6);
+    }
+
+    function test_RevertWhen_FinalizeEpochDuplicateWinner() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        winners[1] = trader2;
+
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.expectRevert("Duplicate winner");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_FinalizeEpochMoreWinnersThanWeights() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint8[] memory weights = new uint8[](1);
+        weights[0] = 100;
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(weights);
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.expectRevert("More winners than weights");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_NonAdminSetsUnfilledWeightPolicy() public {
+        vm.expectRevert("Only admin can call this function");
+        vm.prank(trader1);
+        tradeManager.setUnfilledWeightPolicy(TradeManager.UnfilledWeightPolicy.ROLL_OVER);
+    }
+
+    function test_StartEpochSnapshotsScoringConfig() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        vm.prank(admin);
+        tradeManager.setScoringConfig(
+            TradeManager.ScoringConfig(TradeManager.ScoringMode.RISK_ADJUSTED, 2000, 200, 50, 5000)
+        );
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        // A later change only applies to later epochs
+        vm.prank(admin);
+        tradeManager.setScoringConfig(TradeManager.ScoringConfig(TradeManager.ScoringMode.APY, 0, 0, 0, 0));
+
+        (
+            TradeManager.ScoringMode mode,
+            uint32 maxDrawdownCapBps,
+            uint32 leveragePenaltyBps,
+            uint32 concentrationPenaltyBps,
+            uint32 concentrationThresholdBps
+        ) = tradeManager.epochScoringConfig(epochNumber);
+        assertEq(uint256(mode), uint256(TradeManager.ScoringMode.RISK_ADJUSTED));
+        assertEq(maxDrawdownCapBps, 2000);
+        assertEq(leveragePenaltyBps, 200);
+        assertEq(concentrationPenaltyBps, 50);
+        assertEq(concentrationThresholdBps, 5000);
+    }
+
+    function test_RevertWhen_NonAdminSetsScoringConfig() public {
+        vm.expectRevert("Only admin can call this function");
+        vm.prank(trader1);
+        tradeManager.setScoringConfig(TradeManager.ScoringConfig(TradeManager.ScoringMode.SHARPE, 0, 0, 0, 0));
+    }
+
+    function test_RevertWhen_ScoringDrawdownCapAbove100Percent() public {
+        vm.expectRevert("Drawdown cap above 100%");
+        vm.prank(admin);
+        tradeManager.setScoringConfig(TradeManager.ScoringConfig(TradeManager.ScoringMode.APY, 10001, 0, 0, 0));
+    }
+
+    // ========================================= CONSENSUS TESTS =========================================
+
+    function test_FinalizeEpochWithCommitteeAttestations() public {
+        vm.prank(admin);
+        tradeManager.setCommitteeConfig(2, 2);
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        vm.prank(operator2);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        address[] memory selected = tradeManager.getSelectedOperators(epochNumber);
+        assertEq(selected.length, 2);
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes32 dataHash = finalizeHash(epochNumber, winners, decryptedAPYs);
+        bytes[] memory attestations = new bytes[](2);
+        attestations[0] = signDataHash(2, dataHash);
+        attestations[1] = signDataHash(3, dataHash);
+
+        vm.prank(operator2);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+        assertEq(uint256(tradeManager.getEpochState(epochNumber)), uint256(TradeManager.EpochState.FINALIZED));
+    }
+
+    function test_RevertWhen_FinalizeEpochRepeatsAttestation() public {
+        vm.prank(admin);
+        tradeManager.setCommitteeConfig(2, 2);
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        vm.prank(operator2);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        // One operator's signature submitted twice counts once
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes memory signature = signDataHash(2, finalizeHash(epochNumber, winners, decryptedAPYs));
+        bytes[] memory attestations = new bytes[](2);
+        attestations[0] = signature;
+        attestations[1] = signature;
+
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_FinalizeEpochAttestationForOtherWinners() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        winners[0] = trader1;
+        winners[1] = trader2;
+
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_FinalizeAttestationReplayedOnOtherChain() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        // Signed for this chain, submitted to the same deployment address on another chain
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = signFinalize(epochNumber, winners, decryptedAPYs);
+        vm.chainId(block.chainid + 1);
+
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_FinalizeAttestationForOtherDeployment() public {
+        vm.prank(operator1);
+        tradeManager.registerOperator();
+        uint256 epochNumber = startAndCloseEpochWithTwoStrategies(threeWeights());
+
+        // Signed for another TradeManager on this chain
+        (address[] memory winners, uint256[] memory decryptedAPYs) = twoWinners();
+        bytes[] memory attestations = new bytes[](1);
+        attestations[0] = signDataHash(
+            2, keccak256(abi.encode(block.chainid, makeAddr("otherTradeManager"), epochNumber, winners, decryptedAPYs))
+        );
+
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.finalizeEpoch(epochNumber, winners, decryptedAPYs, attestations);
+    }
+
+    function test_RevertWhen_SetCommitteeConfigInvalid() public {
+        vm.expectRevert("Invalid attestation threshold");
+        vm.prank(admin);
+        tradeManager.setCommitteeConfig(2, 3);
+
+        vm.expectRevert("Only admin can call this function");
+        vm.prank(operator1);
+        tradeManager.setCommitteeConfig(3, 2);
+    }
+
+    /// @dev TradeManager behind a transparent proxy, initialized like the deployment script does
+    function deployTradeManagerProxy() internal returns (address proxy, address impl) {
+        proxy = UpgradeableProxyLib.setUpEmptyProxy(UpgradeableProxyLib.deployProxyAdmin());
+        impl = address(new TradeManager(
+            avsDirectory, stakeRegistry, rewardsCoordinator, delegationManager, allocationManager, admin
+        ));
+        UpgradeableProxyLib.upgradeAndCall(proxy, impl, abi.encodeCall(TradeManager.initialize, (admin, admin)));
+    }
+
+    function test_UpgradedProxyInitializesCommitteeConfig() public {
+        // Storage of a proxy initialized by the version where the committee configuration was constant
+        (address proxy, address impl) = deployTradeManagerProxy();
+        TradeManager upgraded = TradeManager(proxy);
+        stdstore.target(proxy).sig("committeeSize()").checked_write(uint256(0));
+        stdstore.target(proxy).sig("minAttestations()").checked_write(uint256(0));
+
+        vm.prank(operator1);
+        upgraded.registerOperator();
+
+        uint8[] memory weights = new uint8[](1);
+        weights[0] = 100;
+        InEuint64 memory encSimStart = createInEuint64(uint64(block.timestamp - 7 days), admin);
+        InEuint64 memory encSimEnd = createInEuint64(uint64(block.timestamp - 1 days), admin);
+
+        // No epoch without a committee: it would select no operators
+        vm.expectRevert("Committee not configured");
+        vm.prank(admin);
+        upgraded.startEpoch(encSimStart, encSimEnd, 1 days, weights, 100_000e6, 1_000_000e6);
+
+        // Upgrade with the reinitializer
+        UpgradeableProxyLib.upgradeAndCall(proxy, impl, abi.encodeCall(TradeManager.initializeCommitteeConfig, ()));
+        assertEq(upgraded.committeeSize(), 1);
+        assertEq(upgraded.minAttestations(), 1);
+
+        vm.prank(admin);
+        upgraded.startEpoch(encSimStart, encSimEnd, 1 days, weights, 100_000e6, 1_000_000e6);
+
+        address[] memory selected = upgraded.getSelectedOperators(1);
+        assertEq(selected.length, 1);
+        assertEq(selected[0], operator1);
+
+        vm.expectRevert("Initializable: contract is already initialized");
+        upgraded.initializeCommitteeConfig();
+    }
+
+    function test_InitializeCommitteeConfigKeepsConfiguredCommittee() public {
+        (address proxy, address impl) = deployTradeManagerProxy();
+        TradeManager upgraded = TradeManager(proxy);
+        vm.prank(admin);
+        upgraded.setCommitteeConfig(3, 2);
+
+        UpgradeableProxyLib.upgradeAndCall(proxy, impl, abi.encodeCall(TradeManager.initializeCommitteeConfig, ()));
+
+        assertEq(upgraded.committeeSize(), 3);
+        assertEq(upgraded.minAttestations(), 2);
     }
 
     // ========================================= EPOCH EXECUTION TESTS =========================================
@@ -954,11 +1400,11 @@ contract TradeManagerTest is CoFheUtils {
         tradeManager.submitEncryptedStrategy(encoders, targets, selectors, nodeArgs, chainIdEnc2);
 
         // Report APYs
-        InEuint16 memory apy1 = createInEuint16(1234, operator1);
+        InEuint32 memory apy1 = createInEuint32(encodeAPY(1234), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader1, apy1);
 
-        InEuint16 memory apy2 = createInEuint16(5678, operator1);
+        InEuint32 memory apy2 = createInEuint32(encodeAPY(5678), operator1);
         vm.prank(operator1);
         tradeManager.reportEncryptedAPY(1, trader2, apy2);
 
@@ -974,11 +1420,12 @@ contract TradeManagerTest is CoFheUtils {
         winners[1] = trader1;
 
         uint256[] memory decryptedAPYs = new uint256[](2);
-        decryptedAPYs[0] = 5678;
-        decryptedAPYs[1] = 1234;
+        decryptedAPYs[0] = encodeAPY(5678);
+        decryptedAPYs[1] = encodeAPY(1234);
 
+        bytes[] memory attestations = signFinalize(1, winners, decryptedAPYs);
         vm.prank(operator1);
-        tradeManager.finalizeEpoch(1, winners, decryptedAPYs);
+        tradeManager.finalizeEpoch(1, winners, decryptedAPYs, attestations);
 
         // Execute aggregated strategies
         address[] memory execEncoders = new address[](2);
@@ -995,7 +1442,7 @@ contract TradeManagerTest is CoFheUtils {
 
         // Create operator signature
         bytes[] memory signatures = new bytes[](1);
-        bytes32 messageHash = keccak256(abi.encode(1, execEncoders, execTargets, execCalldatas));
+        bytes32 messageHash = executeHash(1, 0, execEncoders, execTargets, execCalldatas);
         bytes32 ethSigned = keccak256(abi.encodePacked(
             "\x19Ethereum Signed Message:\n32",
             messageHash
@@ -1013,6 +1460,74 @@ contract TradeManagerTest is CoFheUtils {
         assertEq(uint256(state), uint256(TradeManager.EpochState.EXECUTED));
     }
 
+    function test_RevertWhen_ExecutionSignaturesReplayed() public {
+        test_ExecuteEpochTopStrategiesAggregated();
+        assertEq(tradeManager.epochExecutionCount(1), 1);
+
+        address[] memory execEncoders = new address[](1);
+        execEncoders[0] = makeAddr("encoder");
+        address[] memory execTargets = new address[](1);
+        execTargets[0] = makeAddr("target");
+        bytes[] memory execCalldatas = new bytes[](1);
+        execCalldatas[0] = abi.encodeWithSelector(bytes4(0x12345678));
+
+        // Signed for the epoch's first execution: not valid for the second
+        bytes[] memory signatures = new bytes[](1);
+        signatures[0] = signDataHash(2, executeHash(1, 0, execEncoders, execTargets, execCalldatas));
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+
+        // A follow-up plan (recovery, unwind) is signed for the second execution
+        signatures[0] = signDataHash(2, executeHash(1, 1, execEncoders, execTargets, execCalldatas));
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+        assertEq(tradeManager.epochExecutionCount(1), 2);
+
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+    }
+
+    function test_RevertWhen_ExecutionSignedForOtherChainOrDeployment() public {
+        test_ExecuteEpochTopStrategiesAggregated();
+
+        address[] memory execEncoders = new address[](1);
+        execEncoders[0] = makeAddr("encoder");
+        address[] memory execTargets = new address[](1);
+        execTargets[0] = makeAddr("target");
+        bytes[] memory execCalldatas = new bytes[](1);
+        execCalldatas[0] = abi.encodeWithSelector(bytes4(0x12345678));
+
+        // The same plan signed for another chain
+        bytes[] memory signatures = new bytes[](1);
+        signatures[0] = signDataHash(
+            2,
+            keccak256(
+                abi.encode(block.chainid + 1, address(tradeManager), 1, 1, execEncoders, execTargets, execCalldatas)
+            )
+        );
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+
+        // ... and for another TradeManager on this chain
+        signatures[0] = signDataHash(
+            2,
+            keccak256(
+                abi.encode(block.chainid, makeAddr("otherTradeManager"), 1, 1, execEncoders, execTargets, execCalldatas)
+            )
+        );
+        vm.expectRevert("Insufficient consensus");
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+
+        signatures[0] = signDataHash(2, executeHash(1, 1, execEncoders, execTargets, execCalldatas));
+        vm.prank(operator1);
+        tradeManager.executeEpochTopStrategiesAggregated(1, execEncoders, execTargets, execCalldatas, signatures);
+        assertEq(tradeManager.epochExecutionCount(1), 2);
+    }
+
     function test_RevertWhen_ExecuteEpochNotFinalized() public {
         // Setup epoch but don't finalize
         vm.prank(operator1);
@@ -0,0 +1,208 @@
+/**
+ * Archive Epoch - export, verify and import signed epoch bundles
+ *
+ * export  Writes the epoch's on-chain winners and APYs, its configuration with the executed
+ *         aggregated calldata, and the local strategy records to a JSON file signed with the
+ *         operator key. Decrypted nodes are only included in sealed form.
+ * verify  Checks an archive's signature and prints its summary.
+ * import  Restores an epoch from an archive, e.g. on a replacement operator taking over an
+ *         epoch still in progress. The archive must be signed by a registered operator for
+ *         this chain's TradeManager. Nodes sealed with a different key are dropped and those
+ *         strategies are decrypted again when processed.
+ *
+ * Usage:
+ *   ts-node operator/archiveEpoch.ts export <epochNumber> [--out <file>] [--winners-only]
+ *   ts-node operator/archiveEpoch.ts verify <file>
+ *   ts-node operator/archiveEpoch.ts import <file> [--allow-unregistered]
+ */
+
+import * as dotenv from "dotenv";
+import { getEpochData, importEpoch } from "./epochDatabase";
+import { ChainContext, connectChain } from "./utils/chainContext";
+import { formatAPY } from "./utils/apyEncoding";
+import {
+    ARCHIVE_VERSION,
+    EpochArchive,
+    EpochArchivePayload,
+    getEpochWinners,
+    signEpochArchive,
+    verifyEpochArchive
+} from "./utils/epochArchive";
+const fs = require('fs');
+const path = require('path');
+dotenv.config();
+
+const ARCHIVE_DIR = path.resolve(__dirname, 'data/archives');
+const USAGE = `Usage:
+  ts-node operator/archiveEpoch.ts export <epochNumber> [--out <file>] [--winners-only]
+  ts-node operator/archiveEpoch.ts verify <file>
+  ts-node operator/archiveEpoch.ts import <file> [--allow-unregistered]`;
+
+function bigIntReplacer(key: string, value: any): any {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readArchive(file: string): EpochArchive {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+}
+
+function printSummary(archive: EpochArchive): void {
+    const { payload } = archive;
+    console.log(`  Epoch: ${payload.epochNumber} (on-chain state ${payload.onChainState})`);
+    console.log(`  Chain: ${payload.chainId}, TradeManager ${payload.tradeManager}`);
+    console.log(`  Signed by: ${archive.signer} at ${new Date(payload.createdAt).toISOString()}`);
+    console.log(`  Winners: ${payload.winners.length}`);
+    for (const winner of payload.winners) {
+        console.log(`    - ${winner.trader}: ${formatAPY(winner.apyBps)}, allocation ${winner.allocation}`);
+    }
+    console.log(`  Strategies: ${payload.strategies.length}`);
+    for (const [chainId, aggregated] of Object.entries(payload.epoch.execution ?? {})) {
+        console.log(`  Executed on chain ${chainId}: ${aggregated.calldatas.length} calls${aggregated.txHash ? ` (${aggregated.txHash})` : ''}`);
+        if (aggregated.failed?.length || aggregated.recoveries?.length) {
+            const followUps = aggregated.recoveries ?? [];
+            const unwinds = followUps.filter((recovery) => recovery.kind === 'unwind').length;
+            console.log(`    ${aggregated.failed?.length ?? 0} failed, ${followUps.length - unwinds} recoveries, ${unwinds} unwinds`);
+        }
+    }
+}
+
+/**
+ * Write a signed archive of an epoch (default: operator/data/archives/epoch-<chainId>-<epoch>.json)
+ */
+export async function exportEpochArchive(
+    ctx: ChainContext,
+    epochNumber: number,
+    options: { out?: string; winnersOnly?: boolean } = {}
+): Promise<{ file: string; archive: EpochArchive }> {
+    const { chainId, tradeManagerAddress, tradeManager, wallet } = ctx;
+
+    const epochData = getEpochData(epochNumber);
+    if (!epochData) {
+        throw new Error(`Epoch ${epochNumber} not found in local database`);
+    }
+
+    const epoch = await tradeManager.epochs(epochNumber);
+
+    const { strategies, ...config } = epochData;
+    let plaintextOmitted = 0;
+    const records = options.winnersOnly
+        ? []
+        : Object.values(strategies).map((strategy) => {
+            // Archives leave this machine: plaintext nodes are never written to them
+            if (strategy.nodes.length === 0) return strategy;
+            plaintextOmitted++;
+            return { ...strategy, nodes: [] };
+        });
+
+    const payload: EpochArchivePayload = {
+        version: ARCHIVE_VERSION,
+        chainId,
+        tradeManager: tradeManagerAddress,
+        epochNumber,
+        onChainState: Number(epoch.state),
+        createdAt: Date.now(),
+        epoch: config,
+        winners: await getEpochWinners(tradeManager, epochNumber),
+        strategies: records
+    };
+    const archive = await signEpochArchive(payload, wallet);
+
+    const file = path.resolve(options.out ?? path.join(ARCHIVE_DIR, `epoch-${chainId}-${epochNumber}.json`));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(archive, bigIntReplacer, 2));
+
+    if (plaintextOmitted > 0) {
+        console.log(`  ⚠️ Omitted plaintext nodes for ${plaintextOmitted} strategies (seal them with purgeEpochDatabase.ts --seal-plaintext)`);
+    }
+    return { file, archive };
+}
+
+async function exportEpoch(args: string[]) {
+    const epochNumber = Number(args[0]);
+    if (!Number.isInteger(epochNumber) || epochNumber < 0) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const { file, archive } = await exportEpochArchive(await connectChain(), epochNumber, {
+        out: optionValue(args, '--out'),
+        winnersOnly: args.includes('--winners-only')
+    });
+    console.log(`\n📦 Exported epoch ${epochNumber} to ${file}`);
+    printSummary(archive);
+}
+
+async function verifyArchive(args: string[]) {
+    if (!args[0]) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const archive = readArchive(args[0]);
+    verifyEpochArchive(archive);
+    console.log(`\n✅ Valid archive signature`);
+    printSummary(archive);
+}
+
+async function importArchive(args: string[]) {
+    if (!args[0]) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const archive = readArchive(args[0]);
+    const signer = verifyEpochArchive(archive);
+    const { payload } = archive;
+
+    const { chainId, tradeManagerAddress, tradeManager } = await connectChain();
+    if (payload.chainId !== chainId || payload.tradeManager.toLowerCase() !== tradeManagerAddress.toLowerCase()) {
+        console.error(`❌ Archive is for TradeManager ${payload.tradeManager} on chain ${payload.chainId}, connected to ${tradeManagerAddress} on chain ${chainId}`);
+        process.exit(1);
+    }
+    if (!args.includes('--allow-unregistered') && !(await tradeManager.isOperatorRegistered(signer))) {
+        console.error(`❌ Archive signer ${signer} is not a registered operator (use --allow-unregistered to import anyway)`);
+        process.exit(1);
+    }
+
+    const stats = importEpoch({
+        ...payload.epoch,
+        epochNumber: payload.epochNumber,
+        strategies: Object.fromEntries(payload.strategies.map((strategy) => [strategy.submitter, strategy]))
+    });
+
+    console.log(`\n📥 Imported epoch ${payload.epochNumber} from ${signer}`);
+    console.log(`  Epoch config: ${stats.epochCreated ? 'created' : 'kept existing'}`);
+    console.log(`  Strategies imported: ${stats.strategiesImported} (skipped ${stats.strategiesSkipped} older than existing)`);
+    if (stats.nodesDropped.length > 0) {
+        console.log(`  ⚠️ ${stats.nodesDropped.length} strategies were sealed with another key and will be decrypted again:`);
+        stats.nodesDropped.forEach((submitter) => console.log(`    - ${submitter}`));
+    }
+}
+
+async function main() {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'export':
+            return exportEpoch(args);
+        case 'verify':
+            return verifyArchive(args);
+        case 'import':
+            return importArchive(args);
+        default:
+            console.error(USAGE);
+            process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
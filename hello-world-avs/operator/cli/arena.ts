@@ -0,0 +1,91 @@
+/**
+ * Arena CLI - one entry point for the epoch lifecycle and operator admin tasks
+ *
+ * Usage: ts-node operator/cli/arena.ts <group> <command> [args] [options]
+ *   (or: npm run arena -- <group> <command> ...)
+ *
+ * Global options:
+ *   --chain <name|id>   Chain to act on: base (RPC_URL, default), arbitrum (ARB_SEPOLIA_RPC_URL) or a chain ID
+ *   --dry-run           Simulate transactions (staticCall + gas estimate) instead of sending them
+ *   --json              Print the result as JSON on stdout (logs go to stderr)
+ *   --env-file <path>   Load configuration from this file instead of .env
+ */
+
+import * as dotenv from 'dotenv';
+import { parseArgs, stringOption } from './args';
+import { printResult, printError, redirectLogsToStderr } from './output';
+import { CommandGroup, CommandContext } from './types';
+import { epochCommands } from './commands/epoch';
+import { strategyCommands } from './commands/strategy';
+import { operatorCommands } from './commands/operator';
+import { dbCommands } from './commands/db';
+import type { ChainContext } from '../utils/chainContext';
+
+const GROUPS: { [group: string]: CommandGroup } = {
+    epoch: epochCommands,
+    strategy: strategyCommands,
+    operator: operatorCommands,
+    db: dbCommands
+};
+
+function usage(): string {
+    const lines = ['Usage: arena <group> <command> [args] [--chain <name|id>] [--dry-run] [--json] [--env-file <path>]', ''];
+    for (const [group, commands] of Object.entries(GROUPS)) {
+        for (const [name, command] of Object.entries(commands)) {
+            const signature = `${group} ${name} ${command.usage}`.trim();
+            lines.push(`  ${signature.padEnd(52)} ${command.description}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+async function main() {
+    const { positionals, options } = parseArgs(process.argv.slice(2));
+    const json = options.json === true;
+    const [group, name, ...args] = positionals;
+
+    if (options.help || !group || group === 'help') {
+        console.log(usage());
+        return;
+    }
+
+    const command = GROUPS[group]?.[name];
+    if (!command) {
+        console.error(`Unknown command "${[group, name].filter(Boolean).join(' ')}"\n\n${usage()}`);
+        process.exit(1);
+    }
+
+    // Shared configuration: an explicit --env-file wins over .env (neither overrides the environment)
+    dotenv.config({ path: stringOption(options, 'env-file') });
+    if (json) {
+        redirectLogsToStderr();
+    }
+
+    const { resolveChain, connectChain } = await import('../utils/chainContext');
+    const chain = resolveChain(stringOption(options, 'chain'));
+    let connection: Promise<ChainContext> | undefined;
+
+    const ctx: CommandContext = {
+        args,
+        options,
+        dryRun: options['dry-run'] === true,
+        chain,
+        connect: () => (connection ??= connectChain(chain))
+    };
+
+    try {
+        printResult(await command.run(ctx), json);
+    } catch (error: any) {
+        printError(error, json);
+        process.exitCode = 1;
+    }
+}
+
+main().then(
+    // Providers and CoFHE keep handles open; exit once the command is done
+    () => process.exit(),
+    (error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,61 @@
+/**
+ * Arena CLI argument parsing
+ *
+ * Options can appear anywhere: "--name value", "--name=value", or "--flag" for booleans.
+ * Options listed in VALUE_OPTIONS take a value; all others are boolean flags.
+ */
+
+import { ParsedArgs } from './types';
+
+const VALUE_OPTIONS = new Set([
+    'chain', 'env-file', 'out', 'target-chain',
+    'config', 'duration', 'weights', 'notional', 'capital', 'sim-window', 'sim-range', 'sim-length',
+    'unfilled-policy',
+    'schedule', 'wait'
+]);
+
+export function parseArgs(argv: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const options: ParsedArgs['options'] = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const separator = arg.indexOf('=');
+        const name = separator >= 0 ? arg.slice(2, separator) : arg.slice(2);
+        const inline = separator >= 0 ? arg.slice(separator + 1) : undefined;
+        if (!VALUE_OPTIONS.has(name)) {
+            options[name] = inline === undefined ? true : inline;
+        } else if (inline !== undefined) {
+            options[name] = inline;
+        } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+            options[name] = argv[++i];
+        } else {
+            throw new Error(`Option --${name} requires a value`);
+        }
+    }
+
+    return { positionals, options };
+}
+
+/**
+ * A string option's value (undefined when not given)
+ */
+export function stringOption(options: ParsedArgs['options'], name: string): string | undefined {
+    const value = options[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parse an epoch number argument
+ */
+export function parseEpochNumber(value: string | undefined): bigint {
+    if (!value || !/^\d+$/.test(value) || BigInt(value) === 0n) {
+        throw new Error(`Invalid epoch number "${value ?? ''}"`);
+    }
+    return BigInt(value);
+}
@@ -0,0 +1,88 @@
+/**
+ * arena db inspect|export
+ */
+
+import { CommandGroup } from '../types';
+import { stringOption } from '../args';
+
+function parseLocalEpoch(value: string | undefined): number {
+    const epochNumber = Number(value);
+    if (!value || !Number.isInteger(epochNumber) || epochNumber < 0) {
+        throw new Error(`Invalid epoch number "${value ?? ''}"`);
+    }
+    return epochNumber;
+}
+
+export const dbCommands: CommandGroup = {
+    inspect: {
+        usage: '[epoch]',
+        description: 'Epochs in the local database, or one epoch\'s strategy records (nodes are never shown)',
+        async run({ args }) {
+            const { getEpochStore } = await import('../../storage');
+            const { hasStrategyNodes } = await import('../../epochDatabase');
+            const store = getEpochStore();
+
+            if (args[0] === undefined) {
+                return {
+                    backend: store.backend,
+                    path: store.path,
+                    epochs: store.getEpochNumbers().map((epochNumber) => {
+                        const epoch = store.getEpoch(epochNumber)!;
+                        const strategies = Object.values(epoch.strategies);
+                        return {
+                            epochNumber,
+                            strategies: strategies.length,
+                            reported: strategies.filter((strategy) => strategy.status === 'reported').length,
+                            failed: strategies.filter((strategy) => strategy.status === 'failed').length,
+                            purged: strategies.filter((strategy) => strategy.purgedAt).length,
+                            executedAt: epoch.executedAt ? new Date(epoch.executedAt).toISOString() : undefined
+                        };
+                    })
+                };
+            }
+
+            const epochNumber = parseLocalEpoch(args[0]);
+            const epoch = store.getEpoch(epochNumber);
+            if (!epoch) {
+                throw new Error(`Epoch ${epochNumber} not found in local database`);
+            }
+
+            const { strategies, ...config } = epoch;
+            return {
+                ...config,
+                strategies: store.getSubmittersByAPY(epochNumber).map((submitter) => {
+                    const strategy = strategies[submitter];
+                    return {
+                        submitter,
+                        status: strategy.status ?? 'unknown',
+                        simulatedAPY: strategy.simulatedAPY,
+                        targetChainId: strategy.targetChainId,
+                        hasNodes: hasStrategyNodes(strategy),
+                        error: strategy.error,
+                        updatedAt: strategy.updatedAt ? new Date(strategy.updatedAt).toISOString() : undefined,
+                        purgedAt: strategy.purgedAt ? new Date(strategy.purgedAt).toISOString() : undefined
+                    };
+                })
+            };
+        }
+    },
+
+    export: {
+        usage: '<epoch> [--out <file>] [--winners-only]',
+        description: 'Write a signed epoch archive (see archiveEpoch.ts)',
+        async run({ args, options, connect }) {
+            const { exportEpochArchive } = await import('../../archiveEpoch');
+            const { file, archive } = await exportEpochArchive(await connect(), parseLocalEpoch(args[0]), {
+                out: stringOption(options, 'out'),
+                winnersOnly: options['winners-only'] === true
+            });
+            return {
+                file,
+                epochNumber: archive.payload.epochNumber,
+                signer: archive.signer,
+                winners: archive.payload.winners.length,
+                strategies: archive.payload.strategies.length
+            };
+        }
+    }
+};
@@ -0,0 +1,168 @@
+/**
+ * arena epoch start|close|finalize|verify|execute|simulate|recover|unwind|status
+ */
+
+import { CommandGroup } from '../types';
+import { parseEpochNumber } from '../args';
+
+const EPOCH_STATES = ['OPEN', 'CLOSED', 'FINALIZED', 'EXECUTED'];
+
+export const epochCommands: CommandGroup = {
+    start: {
+        usage: '[--config <file>] [--duration <min>] [--weights <a,b>] [--notional <n>] [--capital <n>] [--sim-window <from>:<to> | --sim-range <from>:<to> --sim-length <min>:<max>] [--unfilled-policy <redistribute|return|rollover>]',
+        description: 'Start a new epoch with an encrypted simulation window',
+        async run({ options, connect, dryRun }) {
+            const { startEpoch, getEpochParams } = await import('../../setupAndStartEpoch');
+            const params = getEpochParams(options);
+            return startEpoch(await connect(), params, { dryRun });
+        }
+    },
+
+    close: {
+        usage: '<epoch>',
+        description: 'Close an OPEN epoch (decrypts the sim window and APYs on-chain)',
+        async run({ args, connect, dryRun }) {
+            const { closeEpoch } = await import('../../closeAndFinalizeEpoch');
+            return closeEpoch(await connect(), parseEpochNumber(args[0]), { dryRun });
+        }
+    },
+
+    finalize: {
+        usage: '<epoch> [--wait <seconds>] [--abort-on-gaps]',
+        description: 'Rank a CLOSED epoch from the on-chain APYs and submit its winners',
+        async run({ args, options, connect, dryRun }) {
+            const { finalizeEpoch, getFinalizeOptions } = await import('../../closeAndFinalizeEpoch');
+            return finalizeEpoch(await connect(), parseEpochNumber(args[0]), { ...getFinalizeOptions(options), dryRun });
+        }
+    },
+
+    verify: {
+        usage: '<epoch>',
+        description: "Re-rank a FINALIZED epoch from the on-chain APYs and compare with its winners",
+        async run({ args, connect }) {
+            const { verifyEpochWinners } = await import('../../utils/epochRanking');
+            const result = await verifyEpochWinners(await connect(), parseEpochNumber(args[0]));
+            if (!result.verified) {
+                process.exitCode = 1;
+            }
+            return result;
+        }
+    },
+
+    execute: {
+        usage: '<epoch>',
+        description: "Execute a FINALIZED epoch's aggregated winning strategies",
+        async run({ args, connect, dryRun }) {
+            const { executeEpoch } = await import('../../executeAggregatedStrategies');
+            const result = await executeEpoch(await connect(), parseEpochNumber(args[0]), { dryRun });
+            if (result.executions.some((execution) => execution.error)) {
+                process.exitCode = 1;
+            }
+            return result;
+        }
+    },
+
+    recover: {
+        usage: '<epoch>',
+        description: "Retry the calls that failed in an EXECUTED epoch's latest execution",
+        async run({ args, connect, dryRun }) {
+            const { recoverEpoch } = await import('../../recoverEpochExecution');
+            const result = await recoverEpoch(await connect(), parseEpochNumber(args[0]), { dryRun });
+            if (result.reconciliation && result.reconciliation.failed.length > 0) {
+                process.exitCode = 1;
+            }
+            return result;
+        }
+    },
+
+    unwind: {
+        usage: '<epoch>',
+        description: "Close the positions an EXECUTED epoch opened, so its capital can roll into the next one",
+        async run({ args, connect, dryRun }) {
+            const { unwindEpoch } = await import('../../unwindEpochExecution');
+            const result = await unwindEpoch(await connect(), parseEpochNumber(args[0]), { dryRun });
+            if (result.reconciliation && result.reconciliation.failed.length > 0) {
+                process.exitCode = 1;
+            }
+            return result;
+        }
+    },
+
+    simulate: {
+        usage: '<epoch>',
+        description: "Replay a FINALIZED epoch's aggregated calls on a fork without signing them",
+        async run({ args, connect }) {
+            const { prepareEpochExecution, simulateExecutionPlan } = await import('../../executeAggregatedStrategies');
+            const ctx = await connect();
+            const { payloads } = await prepareEpochExecution(ctx, parseEpochNumber(args[0]));
+            const simulations = [];
+            for (const [targetChainId, aggregated] of payloads.entries()) {
+                console.log(`\n🧪 Simulating aggregated calls for chain ${targetChainId}...`);
+                const simulation = await simulateExecutionPlan(ctx, targetChainId, aggregated);
+                if (simulation && simulation.reverted > 0) {
+                    process.exitCode = 1;
+                }
+                simulations.push(simulation ?? { chainId: targetChainId, simulated: false });
+            }
+            return simulations;
+        }
+    },
+
+    status: {
+        usage: '[epoch]',
+        description: 'On-chain state, winners and local processing status of an epoch (default: current)',
+        async run({ args, connect }) {
+            const { getEpochData } = await import('../../epochDatabase');
+            const { getEpochWinners } = await import('../../utils/epochArchive');
+            const { parseUnfilledWeightPolicy } = await import('../../utils/allocation');
+            const { tradeManager, chainId } = await connect();
+
+            const epochNumber = args[0] ? parseEpochNumber(args[0]) : BigInt(await tradeManager.currentEpochNumber());
+            if (epochNumber === 0n) {
+                throw new Error('No epoch has been started');
+            }
+
+            const epoch = await tradeManager.epochs(epochNumber);
+            const state = Number(epoch.state);
+
+            let submitters = 0;
+            try {
+                while (true) {
+                    await tradeManager.epochSubmitters(epochNumber, submitters);
+                    submitters++;
+                }
+            } catch {
+                // Exhausted submissions
+            }
+
+            const local = getEpochData(Number(epochNumber));
+            const byStatus: { [status: string]: number } = {};
+            for (const strategy of Object.values(local?.strategies ?? {})) {
+                const status = strategy.purgedAt ? 'purged' : strategy.status ?? 'unknown';
+                byStatus[status] = (byStatus[status] ?? 0) + 1;
+            }
+
+            return {
+                chainId,
+                epochNumber: Number(epochNumber),
+                state: EPOCH_STATES[state] ?? state,
+                epochStartTime: new Date(Number(epoch.epochStartTime) * 1000).toISOString(),
+                epochEndTime: new Date(Number(epoch.epochEndTime) * 1000).toISOString(),
+                notionalPerTrader: epoch.notionalPerTrader.toString(),
+                allocatedCapital: epoch.allocatedCapital.toString(),
+                unfilledWeightPolicy: parseUnfilledWeightPolicy(await tradeManager.epochUnfilledWeightPolicy(epochNumber)),
+                unallocatedCapital: (await tradeManager.epochUnallocatedCapital(epochNumber)).toString(),
+                submitters,
+                winners: state >= 2 ? await getEpochWinners(tradeManager, Number(epochNumber)) : [],
+                local: local
+                    ? {
+                        weights: local.weights,
+                        strategies: byStatus,
+                        executedAt: local.executedAt ? new Date(local.executedAt).toISOString() : undefined,
+                        executedChains: Object.keys(local.execution ?? {})
+                    }
+                    : null
+            };
+        }
+    }
+};
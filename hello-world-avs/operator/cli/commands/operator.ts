@@ -0,0 +1,79 @@
+/**
+ * arena operator register|status|committee
+ */
+
+import { ethers } from 'ethers';
+import { CommandGroup } from '../types';
+
+export const operatorCommands: CommandGroup = {
+    register: {
+        usage: '',
+        description: 'Register the wallet (PRIVATE_KEY) as a TradeManager operator',
+        async run({ connect, dryRun }) {
+            const { registerOperator } = await import('../../setupAndStartEpoch');
+            return registerOperator(await connect(), { dryRun });
+        }
+    },
+
+    status: {
+        usage: '',
+        description: 'Operator registration, balance and nonce on the selected chain',
+        async run({ connect }) {
+            const { wallet, provider, chainId, tradeManager, tradeManagerAddress } = await connect();
+
+            const [registered, operatorCount, balance, nonce, pendingNonce] = await Promise.all([
+                tradeManager.isOperatorRegistered(wallet.address),
+                tradeManager.getOperatorCount(),
+                provider.getBalance(wallet.address),
+                provider.getTransactionCount(wallet.address, 'latest'),
+                provider.getTransactionCount(wallet.address, 'pending')
+            ]);
+
+            return {
+                operator: wallet.address,
+                chainId,
+                tradeManager: tradeManagerAddress,
+                registered,
+                operatorCount: Number(operatorCount),
+                balance: `${ethers.formatEther(balance)} ETH`,
+                nonce,
+                pendingTransactions: pendingNonce - nonce
+            };
+        }
+    },
+
+    committee: {
+        usage: '[<size> <min-attestations>]',
+        description: 'Show the operator committee and consensus threshold, or set them for epochs started from now on (admin)',
+        async run({ args, connect, dryRun }) {
+            const { tradeManager, txSender } = await connect();
+
+            if (args.length > 0) {
+                const [size, min] = args;
+                if (!/^\d+$/.test(size ?? '') || !/^\d+$/.test(min ?? '')) {
+                    throw new Error(`Invalid committee "${args.join(' ')}" (expected <size> <min-attestations>)`);
+                }
+                if (dryRun) {
+                    const { gasEstimate } = await txSender.simulate(tradeManager, 'setCommitteeConfig', [BigInt(size), BigInt(min)]);
+                    return { committeeSize: Number(size), minAttestations: Number(min), dryRun: true, gasEstimate: gasEstimate.toString() };
+                }
+                const result = await txSender.send(tradeManager, 'setCommitteeConfig', [BigInt(size), BigInt(min)]);
+                return { committeeSize: Number(size), minAttestations: Number(min), txHash: result.hash };
+            }
+
+            const [committeeSize, minAttestations, currentEpoch, operatorCount] = await Promise.all([
+                tradeManager.committeeSize(),
+                tradeManager.minAttestations(),
+                tradeManager.currentEpochNumber(),
+                tradeManager.getOperatorCount()
+            ]);
+            return {
+                committeeSize: Number(committeeSize),
+                minAttestations: Number(minAttestations),
+                operatorCount: Number(operatorCount),
+                currentEpoch: Number(currentEpoch),
+                selectedOperators: currentEpoch > 0n ? [...await tradeManager.getSelectedOperators(currentEpoch)] : []
+            };
+        }
+    }
+};
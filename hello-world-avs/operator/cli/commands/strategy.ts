@@ -0,0 +1,59 @@
+/**
+ * arena strategy submit|inspect
+ */
+
+import { CommandGroup } from '../types';
+import { parseEpochNumber, stringOption } from '../args';
+
+export const strategyCommands: CommandGroup = {
+    submit: {
+        usage: '[--target-chain <chainId>]',
+        description: 'Encrypt and submit the example strategy (Aave supply + borrow) to the current epoch',
+        async run({ options, connect, dryRun }) {
+            const { submitExampleStrategy } = await import('../../createEncryptedStrategyInputs');
+            const targetChain = stringOption(options, 'target-chain');
+            return submitExampleStrategy(await connect(), {
+                dryRun,
+                targetChainId: targetChain !== undefined ? Number(targetChain) : undefined
+            });
+        }
+    },
+
+    inspect: {
+        usage: '<epoch> [submitter]',
+        description: "A strategy's on-chain submission and local processing record (default: your wallet)",
+        async run({ args, connect }) {
+            const { getStrategy, hasStrategyNodes } = await import('../../epochDatabase');
+            const { tradeManager, wallet } = await connect();
+
+            const epochNumber = parseEpochNumber(args[0]);
+            const submitter = args[1] ?? wallet.address;
+            const submitted: boolean = await tradeManager.hasSubmittedStrategy(epochNumber, submitter);
+            const apyReported = submitted && BigInt(await tradeManager.getEncryptedAPY(epochNumber, submitter)) !== 0n;
+            const nodeCount = submitted ? Number(await tradeManager.getStrategyNodeCount(epochNumber, submitter)) : 0;
+
+            // Decrypted nodes stay sealed; only their presence is reported
+            const record = getStrategy(Number(epochNumber), submitter);
+            return {
+                epochNumber: Number(epochNumber),
+                submitter,
+                onChain: { submitted, nodeCount, apyReported },
+                local: record
+                    ? {
+                        status: record.status ?? 'unknown',
+                        failedStage: record.failedStage,
+                        error: record.error,
+                        simulatedAPY: record.simulatedAPY,
+                        scores: record.scores,
+                        targetChainId: record.targetChainId,
+                        reportTxHash: record.reportTxHash,
+                        hasNodes: hasStrategyNodes(record),
+                        sealed: !!record.sealedNodes,
+                        updatedAt: record.updatedAt ? new Date(record.updatedAt).toISOString() : undefined,
+                        purgedAt: record.purgedAt ? new Date(record.purgedAt).toISOString() : undefined
+                    }
+                    : null
+            };
+        }
+    }
+};
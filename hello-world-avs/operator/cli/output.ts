@@ -0,0 +1,72 @@
+/**
+ * Arena CLI output
+ *
+ * With --json, stdout carries exactly one JSON document (the command result, or
+ * {"error": ...}); progress logs from the lifecycle scripts are moved to stderr.
+ */
+
+function jsonReplacer(key: string, value: any): any {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Send console.log/info/warn to stderr, keeping stdout for the JSON result
+ */
+export function redirectLogsToStderr(): void {
+    console.log = console.error;
+    console.info = console.error;
+    console.warn = console.error;
+}
+
+function formatValue(value: any, indent: string): string[] {
+    if (Array.isArray(value)) {
+        if (value.length === 0) return [`${indent}(none)`];
+        return value.flatMap((item) => {
+            if (item === null || typeof item !== 'object') return [`${indent}- ${item}`];
+            const [first, ...rest] = formatValue(item, `${indent}  `);
+            return [`${indent}- ${first.trimStart()}`, ...rest];
+        });
+    }
+
+    return Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .flatMap(([key, item]) => {
+            if (item !== null && typeof item === 'object') {
+                return [`${indent}${key}:`, ...formatValue(item, `${indent}  `)];
+            }
+            return [`${indent}${key}: ${typeof item === 'bigint' ? item.toString() : item}`];
+        });
+}
+
+/**
+ * Print a command result to stdout
+ */
+export function printResult(result: any, json: boolean): void {
+    if (json) {
+        process.stdout.write(JSON.stringify(result ?? null, jsonReplacer, 2) + '\n');
+        return;
+    }
+    if (result === undefined || result === null) return;
+    if (typeof result !== 'object') {
+        console.log(result);
+        return;
+    }
+    console.log('');
+    formatValue(result, '').forEach((line) => console.log(line));
+}
+
+/**
+ * Print a command failure (to stdout as JSON with --json, so scripts can parse it)
+ */
+export function printError(error: any, json: boolean): void {
+    if (json) {
+        const body = {
+            error: error?.message ?? String(error),
+            ...(error?.reason ? { reason: error.reason } : {}),
+            ...(error?.stage ? { stage: error.stage } : {})
+        };
+        process.stdout.write(JSON.stringify(body, jsonReplacer, 2) + '\n');
+        return;
+    }
+    console.error(`\n❌ ${error?.message ?? error}`);
+}
@@ -0,0 +1,26 @@
+/**
+ * Arena CLI command types
+ */
+
+import type { ChainConfig, ChainContext } from '../utils/chainContext';
+
+export interface ParsedArgs {
+    positionals: string[];
+    options: { [name: string]: string | boolean };
+}
+
+export interface CommandContext {
+    args: string[];                          // Positional arguments after "<group> <command>"
+    options: ParsedArgs['options'];
+    dryRun: boolean;
+    chain: ChainConfig;
+    connect(): Promise<ChainContext>;        // Connects to --chain on first use
+}
+
+export interface Command {
+    usage: string;                           // Arguments, e.g. "<epoch> [--out <file>]"
+    description: string;
+    run(ctx: CommandContext): Promise<any>;  // Result printed as text, or as JSON with --json
+}
+
+export type CommandGroup = { [command: string]: Command };
@@ -1,281 +1,344 @@
 /**
  * Automated admin script for epoch lifecycle management across Base + Arbitrum.
  *
- * Usage: ts-node operator/closeAndFinalizeEpoch.ts <epochNumber>
+ * Before ranking, every submitter is checked against the APYReported events and the local
+ * database (utils/apyReports.ts). --wait re-checks for up to that many seconds while gaps may
+ * still close (before closing, and again before finalizing); --abort-on-gaps refuses to finalize
+ * while any strategy lacks a reported APY or a local record.
+ *
+ * Winners are ranked by the on-chain APYs (utils/epochRanking.ts), so any selected operator can
+ * recompute them; the local database is only cross-checked and its differences reported.
+ * finalizeEpoch needs minAttestations selected operators to sign the winner list: they rebuild it
+ * with selectEpochWinners and answer through their peer servers (utils/consensus.ts).
+ *
+ * Usage: ts-node operator/closeAndFinalizeEpoch.ts <epochNumber> [--wait <seconds>] [--abort-on-gaps]
  */
 
 import { ethers } from "ethers";
 import * as dotenv from "dotenv";
-import { getEpochStrategies } from "./epochDatabase";
-const fs = require("fs");
-const path = require("path");
+import { decodeSignedAPY, encodeSignedAPY } from "./utils/apyEncoding";
+import { ChainContext, ChainConfig, CHAINS, connectChain } from "./utils/chainContext";
+import { getEpochWeights } from "./utils/epochEvents";
+import { APYReportCheck, ExcludedStrategy, checkAPYReports, waitForAPYReports, logExclusions } from "./utils/apyReports";
+import { EpochRanking, RankingMismatch, rankEpoch, logMismatches } from "./utils/epochRanking";
+import { attest, collectAttestations, consensusTopic, finalizeDigest, publishAttestation } from "./utils/consensus";
+import {
+    UnfilledWeightPolicy,
+    computeAllocations,
+    describeUnfilledWeightPolicy,
+    parseUnfilledWeightPolicy
+} from "./utils/allocation";
+import { parseArgs, stringOption } from "./cli/args";
 dotenv.config();
 
-interface RankedStrategy {
-    trader: string;
-    apy: bigint;
+export interface CloseEpochResult {
+    epochNumber: number;
+    previousState: number;     // 0=OPEN, 1=CLOSED, 2=FINALIZED, 3=EXECUTED
+    state: number;             // State after this call (unchanged on dry runs)
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
 }
 
-async function closeAndFinalizeOnChain(
-    epochNumber: bigint,
-    rpcUrl: string | undefined,
-    label: string
-): Promise<void> {
-    if (!rpcUrl) {
-        console.log(`\n⚠️ Skipping ${label}: RPC URL not configured`);
-        return;
-    }
-
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+export interface FinalizeEpochResult {
+    epochNumber: number;
+    weights: number[];
+    winners: { trader: string; apyBps: number }[];
+    policy: UnfilledWeightPolicy;
+    allocations: string[];     // Expected per winner, token base units
+    unallocated: string;       // Capital not allocated to winners, token base units
+    excluded: ExcludedStrategy[];
+    mismatches: RankingMismatch[]; // Local results that differ from the on-chain APYs
+    attestations: number;      // Operator signatures submitted
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+}
 
-    console.log(`\n🔄 Automated Epoch Lifecycle Management (${label})`);
-    console.log(`Operator: ${wallet.address}`);
-    console.log(`Epoch Number: ${epochNumber}\n`);
+export interface EpochWinnerSelection {
+    ranking: EpochRanking;
+    excluded: ExcludedStrategy[];  // Unreported APYs, then the ranking's exclusions
+    weights: number[];
+    winners: { trader: string; apyBps: number }[];
+}
 
-    const chainId = Number((await provider.getNetwork()).chainId);
-    console.log(`Chain ID: ${chainId}`);
+export interface FinalizeOptions {
+    dryRun?: boolean;
+    waitSeconds?: number;      // Re-check gaps for up to this long (default FINALIZE_WAIT_SECONDS or 0)
+    abortOnGaps?: boolean;     // Throw instead of finalizing with gaps (default FINALIZE_ABORT_ON_GAPS)
+}
 
-    const deploymentPath = path.resolve(
-        __dirname,
-        `../contracts/deployments/trade-manager/${chainId}.json`
-    );
-    if (!fs.existsSync(deploymentPath)) {
-        console.log(`  ⚠️ Deployment file not found for chain ${chainId}, skipping ${label}`);
-        return;
+/**
+ * Finalize options from flags, falling back to FINALIZE_WAIT_SECONDS / FINALIZE_ABORT_ON_GAPS
+ */
+export function getFinalizeOptions(options: { [name: string]: string | boolean } = {}): FinalizeOptions {
+    const wait = stringOption(options, 'wait') ?? process.env.FINALIZE_WAIT_SECONDS ?? '0';
+    const waitSeconds = Number(wait);
+    if (!Number.isFinite(waitSeconds) || waitSeconds < 0) {
+        throw new Error(`Invalid wait "${wait}" (expected seconds)`);
     }
-    const avsDeploymentData = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
-    const tradeManagerAddress =
-        avsDeploymentData.addresses.tradeManager || avsDeploymentData.addresses.TradeManager;
-
-    console.log(`TradeManager: ${tradeManagerAddress}\n`);
+    return {
+        waitSeconds,
+        abortOnGaps: options['abort-on-gaps'] === true || process.env.FINALIZE_ABORT_ON_GAPS === 'true'
+    };
+}
 
-    const tradeManagerABI = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, "../abis/TradeManager.json"), "utf8")
-    );
-    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet);
+/**
+ * Close an OPEN epoch (no-op if it is already closed or later)
+ */
+export async function closeEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: { dryRun?: boolean } = {}
+): Promise<CloseEpochResult> {
+    const { tradeManager, txSender } = ctx;
 
-    // ============================================================
-    // STEP 1: Check epoch state and close if needed
-    // ============================================================
-    console.log("Step 1: Checking epoch state...");
+    console.log("Checking epoch state...");
     const epoch = await tradeManager.epochs(epochNumber);
     const epochState = Number(epoch.state);
     const epochEndTime = Number(epoch.epochEndTime);
+    const result: CloseEpochResult = { epochNumber: Number(epochNumber), previousState: epochState, state: epochState };
 
     console.log(`  Epoch State: ${epochState} (0=OPEN, 1=CLOSED, 2=FINALIZED, 3=EXECUTED)`);
     console.log(`  End Time: ${new Date(epochEndTime * 1000).toISOString()}`);
 
-    if (epochState === 0) {
-        console.log("  ⏳ Closing epoch...");
-        try {
-            const nonce1 = await provider.getTransactionCount(wallet.address);
-            const tx1 = await tradeManager.closeEpoch(epochNumber, { nonce: nonce1 });
-            console.log(`  TX: ${tx1.hash}`);
-            await tx1.wait();
-            console.log("  ✅ Epoch closed");
-        } catch (error: any) {
-            console.error(`  ❌ Failed to close epoch: ${error.message}`);
-            return;
-        }
-    } else if (epochState === 1) {
+    if (epochState === 1) {
         console.log("  ✅ Epoch already closed");
+        return result;
     } else if (epochState === 2) {
         console.log("  ℹ️ Epoch already finalized");
-        return;
+        return result;
     } else if (epochState === 3) {
         console.log("  ℹ️ Epoch already executed");
-        return;
+        return result;
     }
 
-    // ============================================================
-    // STEP 2: Fetch all submitted strategies for this epoch
-    // ============================================================
-    console.log("\nStep 2: Fetching all submitted strategies...");
-    const submitters: string[] = [];
-    let idx = 0;
-    try {
-        while (true) {
-            const submitter = await tradeManager.epochSubmitters(epochNumber, idx);
-            submitters.push(submitter);
-            console.log(`    - ${submitter}`);
-            idx++;
-        }
-    } catch {
-        // Exhausted submissions
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, "closeEpoch", [epochNumber]);
+        console.log(`  🧪 Dry run: closeEpoch would succeed (gas ${gasEstimate})`);
+        return { ...result, gasEstimate: gasEstimate.toString() };
+    }
+
+    console.log("  ⏳ Closing epoch...");
+    const tx = await txSender.send(tradeManager, "closeEpoch", [epochNumber]);
+    console.log("  ✅ Epoch closed");
+    return { ...result, state: 1, txHash: tx.hash };
+}
+
+/**
+ * Rank an epoch's reported strategies from the on-chain APYs and take one winner per weight slot.
+ * Every selected operator gets the same winners from the same chain state, so this is what
+ * they attest to. Throws when the epoch's weights can't be read, rather than selecting no winners.
+ */
+export async function selectEpochWinners(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    check?: APYReportCheck
+): Promise<EpochWinnerSelection> {
+    const reports = check ?? await checkAPYReports(ctx, epochNumber);
+
+    // Only an unreported APY keeps a strategy out; local gaps are reported as mismatches
+    const excluded = reports.excluded.filter((strategy) => strategy.reason === "apy-not-reported");
+    const candidates = reports.submitters.filter(
+        (submitter) => !excluded.some((strategy) => strategy.trader === submitter)
+    );
+    const ranking = await rankEpoch(ctx, epochNumber, candidates);
+    excluded.push(...ranking.excluded);
+
+    // Each strategy wins at most one slot; the epoch's policy handles unfilled slots' weight
+    const weights = await getEpochWeights(ctx.tradeManager, epochNumber);
+    if (weights.length === 0) {
+        throw new Error(
+            `EpochStarted event not found for epoch ${epochNumber} on ${ctx.chain.label}: cannot select winners without its weights`
+        );
+    }
+    const winners = ranking.ranked
+        .slice(0, weights.length)
+        .map((strategy) => ({ trader: strategy.trader, apyBps: strategy.apyBps }));
+
+    return { ranking, excluded, weights, winners };
+}
+
+/**
+ * Rank a CLOSED epoch's strategies, select winners for its weights and call finalizeEpoch
+ */
+export async function finalizeEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: FinalizeOptions = {}
+): Promise<FinalizeEpochResult> {
+    const { tradeManager, txSender } = ctx;
+    const { waitSeconds, abortOnGaps } = { ...getFinalizeOptions(), ...options };
+
+    const epochState = Number((await tradeManager.epochs(epochNumber)).state);
+    if (epochState !== 1) {
+        throw new Error(`Epoch ${epochNumber} is not CLOSED (state=${epochState})`);
     }
-    console.log(`  Found ${submitters.length} strategy submissions`);
 
     // ============================================================
-    // STEP 3: Retrieve APYs from local database
+    // STEP 1: Check every submission for a reported APY and a local record
     // ============================================================
-    console.log("\nStep 3: Retrieving APYs from local database...");
-    const strategies = getEpochStrategies(Number(epochNumber)) ?? {};
-    const rankedStrategies: RankedStrategy[] = [];
-
-    for (const submitter of submitters) {
-        const strategy = strategies[submitter];
-        if (!strategy) {
-            console.log(`    - ${submitter}: ⚠️ Not found in database`);
-            continue;
-        }
-        rankedStrategies.push({
-            trader: submitter,
-            apy: BigInt(strategy.simulatedAPY)
-        });
-        console.log(`    - ${submitter}: ${strategy.simulatedAPY} bps (${strategy.simulatedAPY / 100}%)`);
+    console.log("\nStep 1: Checking APY reports for all submitted strategies...");
+    const check = await waitForAPYReports(ctx, epochNumber, { timeoutSeconds: waitSeconds });
+    console.log(`  Found ${check.submitters.length} strategy submissions, ${Object.keys(check.reported).length} APYs reported`);
+    logExclusions(check.excluded);
+
+    if (abortOnGaps && check.excluded.length > 0) {
+        throw new Error(
+            `Not finalizing epoch ${epochNumber}: ${check.excluded.length} gap(s) ` +
+            `(${check.excluded.map((strategy) => `${strategy.trader}: ${strategy.reason}`).join(", ")})`
+        );
     }
 
     // ============================================================
-    // STEP 4: Rank strategies by APY (highest first)
+    // STEP 2: Rank strategies by their on-chain APYs
     // ============================================================
-    console.log("\nStep 4: Ranking strategies...");
-    rankedStrategies.sort((a, b) => (a.apy > b.apy ? -1 : a.apy < b.apy ? 1 : 0));
+    console.log("\nStep 2: Ranking strategies from on-chain APYs...");
+    const { ranking, excluded, weights: weightsArray, winners: selected } = await selectEpochWinners(ctx, epochNumber, check);
+    const rankedStrategies = ranking.ranked;
+
     console.log("  Rankings:");
     rankedStrategies.forEach((strategy, index) => {
         console.log(
-            `    ${index + 1}. ${strategy.trader}: ${Number(strategy.apy)} bps (${Number(strategy.apy) / 100}%)`
+            `    ${index + 1}. ${strategy.trader}: score ${strategy.score.toFixed(4)}, ${strategy.apyBps} bps (${strategy.apyBps / 100}%)`
         );
     });
+    logMismatches(ranking.mismatches);
 
     // ============================================================
-    // STEP 5: Select winners based on weights array
+    // STEP 3: Select winners based on weights array
     // ============================================================
-    console.log("\nStep 5: Selecting winners...");
-    const epochData = await tradeManager.epochs(epochNumber);
-    let weightsArray: number[] = [];
+    console.log("\nStep 3: Selecting winners...");
+    const numWinners = weightsArray.length;
+    console.log(`  Weights: [${weightsArray.join(", ")}]`);
+    console.log(`  Selecting top ${numWinners} strategies`);
 
-    if (epochData.weights && Array.isArray(epochData.weights)) {
-        weightsArray = epochData.weights.map((weight: any) => Number(weight));
+    if (rankedStrategies.length === 0) {
+        console.log("  No ranked strategies available. Proceeding with empty winners for finalization.");
     }
 
-    if (weightsArray.length === 0) {
-        const epochStartedFilter = tradeManager.filters.EpochStarted(epochNumber);
-        const currentBlock = await provider.getBlockNumber();
-        const searchWindow = 5_000;
-        let fromBlock = currentBlock > searchWindow ? currentBlock - searchWindow : 0;
-        let epochEvent: any = null;
-
-        while (!epochEvent && fromBlock >= 0) {
-            const toBlock = fromBlock + searchWindow;
-            try {
-                const events = await tradeManager.queryFilter(epochStartedFilter, fromBlock, toBlock);
-                if (events.length > 0) {
-                    epochEvent = events[0];
-                    break;
-                }
-                if (fromBlock === 0) {
-                    break;
-                }
-                fromBlock = fromBlock > searchWindow ? fromBlock - Math.floor(searchWindow / 2) : 0;
-            } catch (err: any) {
-                if (err?.code === -32062) {
-                    fromBlock = Math.max(0, fromBlock - Math.floor(searchWindow / 2));
-                    continue;
-                }
-                throw err;
-            }
-        }
+    const epochData = await tradeManager.epochs(epochNumber);
+    const policy = parseUnfilledWeightPolicy(await tradeManager.epochUnfilledWeightPolicy(epochNumber));
+    const allocation = computeAllocations(epochData.allocatedCapital, weightsArray, selected.length, policy);
 
-        if (epochEvent) {
-            const parsedEvent = tradeManager.interface.parseLog({
-                topics: epochEvent.topics as string[],
-                data: epochEvent.data
-            });
-            if (parsedEvent?.args?.weights) {
-                console.log(`  Debug - Weights from event:`, parsedEvent.args.weights);
-                weightsArray = Array.from(parsedEvent.args.weights).map((weight: any) => Number(weight));
-            }
-        }
+    if (selected.length < numWinners) {
+        console.log(
+            `  ⚠️ Only ${selected.length} rankable strateg${selected.length === 1 ? "y" : "ies"} for ${numWinners} weights, ` +
+            `unfilled weight ${describeUnfilledWeightPolicy(policy)}`
+        );
     }
+    selected.forEach((winner, i) => {
+        console.log(
+            `    Winner ${i + 1}: ${winner.trader} (${winner.apyBps} bps) → ${ethers.formatUnits(allocation.allocations[i], 6)} USDC`
+        );
+    });
+    if (allocation.unallocated > 0n) {
+        console.log(`  Unallocated: ${ethers.formatUnits(allocation.unallocated, 6)} USDC (${describeUnfilledWeightPolicy(policy)})`);
+    }
+
+    // ============================================================
+    // STEP 4: Collect operator signatures over the winner list
+    // ============================================================
+    console.log("\nStep 4: Collecting operator consensus...");
+
+    // Winner APYs are submitted in the same offset encoding as the encrypted APYs
+    const winners = selected.map((winner) => winner.trader);
+    const encodedWinnerAPYs = selected.map((winner) => encodeSignedAPY(winner.apyBps));
+    const topic = consensusTopic("finalize", ctx.chainId, epochNumber);
+    const digest = finalizeDigest(ctx.chainId, ctx.tradeManagerAddress, epochNumber, winners, encodedWinnerAPYs);
+    const own = await attest(ctx.wallet, topic, digest);
+    publishAttestation(own);
+
+    const signatures = await collectAttestations({
+        topic,
+        digest,
+        own,
+        operators: [...await tradeManager.getSelectedOperators(epochNumber)],
+        threshold: Number(await tradeManager.minAttestations())
+    });
+    const args = [epochNumber, winners, encodedWinnerAPYs, signatures];
+    const summary = {
+        epochNumber: Number(epochNumber),
+        weights: weightsArray,
+        winners: selected,
+        policy,
+        allocations: allocation.allocations.map(String),
+        unallocated: allocation.unallocated.toString(),
+        excluded,
+        mismatches: ranking.mismatches,
+        attestations: signatures.length
+    };
+
+    // ============================================================
+    // STEP 5: Call finalizeEpoch
+    // ============================================================
+    console.log("\nStep 5: Finalizing epoch...");
 
-    if (weightsArray.length === 0) {
-        console.error(`\n❌ Could not fetch weights for this epoch on ${label}`);
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, "finalizeEpoch", args);
+        console.log(`  🧪 Dry run: finalizeEpoch would succeed (gas ${gasEstimate})`);
+        return { ...summary, gasEstimate: gasEstimate.toString() };
     }
 
-    const numWinners = weightsArray.length;
-    console.log(`  Weights: [${weightsArray.join(", ")}]`);
-    console.log(`  Selecting top ${numWinners} strategies`);
+    const result = await txSender.send(tradeManager, "finalizeEpoch", args);
+    console.log(`  ✅ Confirmed in block ${result.blockNumber}`);
 
-    if (rankedStrategies.length === 0) {
-        console.log("  No ranked strategies available. Proceeding with empty winners for finalization.");
+    const finalizedEvent = result.events.find((event) => event.name === "EpochFinalized");
+
+    if (finalizedEvent) {
+        console.log(`\n📋 EpochFinalized Event:`);
+        console.log(`  Epoch: ${finalizedEvent.args.epochNumber}`);
+        console.log(`  Winners:`, finalizedEvent.args.winners);
+        console.log(
+            `  APYs:`,
+            finalizedEvent.args.decryptedAPYs.map((apy: bigint) => `${decodeSignedAPY(apy)} bps`)
+        );
+        console.log(
+            `  Allocations:`,
+            finalizedEvent.args.allocations.map((alloc: bigint) => `${ethers.formatUnits(alloc, 6)} USDC`)
+        );
     }
 
-    const winners: string[] = [];
-    const winnerAPYs: bigint[] = [];
+    const unallocatedEvent = result.events.find((event) => event.name === "CapitalUnallocated");
+    if (unallocatedEvent) {
+        console.log(
+            `  Unallocated: ${ethers.formatUnits(unallocatedEvent.args.amount, 6)} USDC ` +
+            `(${describeUnfilledWeightPolicy(parseUnfilledWeightPolicy(unallocatedEvent.args.policy))})`
+        );
+    }
 
-    if (rankedStrategies.length > 0 && numWinners > 0) {
-        if (rankedStrategies.length < numWinners) {
-            console.log(
-                `  ⚠️ Only ${rankedStrategies.length} strategies submitted, but ${numWinners} weights configured`
-            );
-            console.log("  Repeating best strategies to fill all positions");
-        }
+    return { ...summary, txHash: result.hash };
+}
 
-        for (let i = 0; i < numWinners; i++) {
-            const strategyIdx = Math.min(i, rankedStrategies.length - 1);
-            const strategy = rankedStrategies[strategyIdx];
-            if (strategy) {
-                winners.push(strategy.trader);
-                winnerAPYs.push(strategy.apy);
-                console.log(
-                    `    Winner ${i + 1}: ${strategy.trader} (${Number(strategy.apy)} bps)${
-                        strategyIdx < i ? " [repeated]" : ""
-                    }`
-                );
-            } else {
-                console.log(`    Winner ${i + 1}: <none available>`);
-            }
-        }
-    } else if (numWinners > 0) {
-        console.log("  ℹ️ Contract is configured with non-zero weights; finalizeEpoch may revert without winners.");
+async function closeAndFinalizeOnChain(epochNumber: bigint, chain: ChainConfig, options: FinalizeOptions): Promise<void> {
+    if (!process.env[chain.rpcEnv]) {
+        console.log(`\n⚠️ Skipping ${chain.label}: RPC URL not configured`);
+        return;
     }
 
-    // ============================================================
-    // STEP 6: Call finalizeEpoch
-    // ============================================================
-    console.log("\nStep 6: Finalizing epoch...");
+    const ctx = await connectChain(chain);
+
+    console.log(`\n🔄 Automated Epoch Lifecycle Management (${chain.label})`);
+    console.log(`Operator: ${ctx.wallet.address}`);
+    console.log(`Epoch Number: ${epochNumber}\n`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}\n`);
 
     try {
-        const nonce2 = await provider.getTransactionCount(wallet.address);
-        const tx2 = await tradeManager.finalizeEpoch(epochNumber, winners, winnerAPYs, {
-            nonce: nonce2,
-            gasLimit: 5_000_000
-        });
-
-        console.log(`  TX: ${tx2.hash}`);
-        console.log("  Waiting for confirmation...");
-
-        const receipt = await tx2.wait();
-        console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
-
-        const finalizedEvent = receipt.logs
-            .map((log: any) => {
-                try {
-                    return tradeManager.interface.parseLog(log);
-                } catch {
-                    return null;
-                }
-            })
-            .find((event: any) => event && event.name === "EpochFinalized");
-
-        if (finalizedEvent) {
-            console.log(`\n📋 EpochFinalized Event:`);
-            console.log(`  Epoch: ${finalizedEvent.args.epochNumber}`);
-            console.log(`  Winners:`, finalizedEvent.args.winners);
-            console.log(
-                `  APYs:`,
-                finalizedEvent.args.decryptedAPYs.map((apy: bigint) => `${Number(apy)} bps`)
-            );
-            console.log(
-                `  Allocations:`,
-                finalizedEvent.args.allocations.map((alloc: bigint) => `${ethers.formatUnits(alloc, 6)} USDC`)
-            );
+        // Give late APY reports a chance before closing stops them
+        await waitForAPYReports(ctx, epochNumber, { timeoutSeconds: options.waitSeconds });
+        const closed = await closeEpoch(ctx, epochNumber);
+        if (closed.state !== 1) {
+            return;
         }
+    } catch (error: any) {
+        console.error(`  ❌ Failed to close epoch: ${error.message}`);
+        return;
+    }
 
-        console.log(`\n✅ Epoch ${epochNumber} finalized successfully on ${label}!`);
+    try {
+        await finalizeEpoch(ctx, epochNumber, options);
+        console.log(`\n✅ Epoch ${epochNumber} finalized successfully on ${chain.label}!`);
     } catch (error: any) {
-        console.error(`\n❌ Failed to finalize epoch on ${label}: ${error.message}`);
+        console.error(`\n❌ Failed to finalize epoch on ${chain.label}: ${error.message}`);
         if (error.reason) {
             console.error(`Reason: ${error.reason}`);
         }
@@ -283,19 +346,23 @@ async function closeAndFinalizeOnChain(
 }
 
 async function main() {
-    const epochNumber = process.argv[2] ? BigInt(process.argv[2]) : null;
+    const { positionals, options } = parseArgs(process.argv.slice(2));
+    const epochNumber = positionals[0] ? BigInt(positionals[0]) : null;
     if (!epochNumber) {
-        console.error("Usage: ts-node operator/closeAndFinalizeEpoch.ts <epochNumber>");
+        console.error("Usage: ts-node operator/closeAndFinalizeEpoch.ts <epochNumber> [--wait <seconds>] [--abort-on-gaps]");
         process.exit(1);
     }
+    const finalizeOptions = getFinalizeOptions(options);
 
-    await closeAndFinalizeOnChain(epochNumber, process.env.RPC_URL, "Base");
-    await closeAndFinalizeOnChain(epochNumber, process.env.ARB_SEPOLIA_RPC_URL, "Arbitrum");
+    await closeAndFinalizeOnChain(epochNumber, CHAINS.base, finalizeOptions);
+    await closeAndFinalizeOnChain(epochNumber, CHAINS.arbitrum, finalizeOptions);
 
     console.log("\n✅ Close & finalize script completed for all configured chains.");
 }
 
-main().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-});
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -6,6 +6,7 @@
 
 import { ethers } from 'ethers';
 import { getNetworkConfig } from './utils/cofheConfig';
+import { histogram, counter } from './utils/metrics';
 
 // CoFHE.js for FHE operations - Import FheTypes enum directly from SDK (single source of truth)
 const { cofhejs, Encryptable, FheTypes } = require('cofhejs/node');
@@ -13,6 +14,9 @@ const { cofhejs, Encryptable, FheTypes } = require('cofhejs/node');
 // Re-export FheTypes for convenience
 export { FheTypes };
 
+const decryptDuration = histogram('arena_decrypt_duration_seconds', 'Latency of a single CoFHE unseal, by utype');
+const decryptFailures = counter('arena_decrypt_failures_total', 'CoFHE unseals that failed, by utype');
+
 /**
  * Input for batch encryption with type specification
  * Uses FheTypes from CoFHE.js SDK to ensure correct utype values:
@@ -189,9 +193,13 @@ export const batchEncrypt = async (
  * Batch decrypt values with type-aware unsealing
  * Uses utype from each CoFheItem to correctly decrypt and convert values
  * @param items - Array of encrypted items with utype information
+ * @param concurrency - Unseals in flight at once (default: COFHE_DECRYPT_CONCURRENCY or 1)
  * @returns Array of decrypted values (correctly typed based on utype)
  */
-export const batchDecrypt = async (items: CoFheItem[]): Promise<any[]> => {
+export const batchDecrypt = async (
+    items: CoFheItem[],
+    concurrency: number = Number(process.env.COFHE_DECRYPT_CONCURRENCY || 1)
+): Promise<any[]> => {
     if (!isInitialized) {
         throw new Error("CoFHE.js not initialized. Call initializeCofhe() first.");
     }
@@ -203,19 +211,25 @@ export const batchDecrypt = async (items: CoFheItem[]): Promise<any[]> => {
         const sdkState = cofhejs.store.getState();
         console.log(`DEBUG before decrypt: isTestnet=${sdkState.isTestnet}, fheKeysInitialized=${sdkState.fheKeysInitialized}`);
 
-        // WORKAROUND: Decrypt sequentially instead of in parallel
+        // WORKAROUND: Decrypt sequentially by default instead of in parallel
         // CoFHE.js testnet has issues with parallel decryption of certain types (e.g., Uint32)
-        const results: any[] = [];
+        const results: any[] = new Array(items.length);
+        let nextIndex = 0;
 
-        for (let index = 0; index < items.length; index++) {
+        const unsealNext = async (): Promise<void> => {
+            const index = nextIndex++;
+            if (index >= items.length) return;
             const item = items[index];
             // CRITICAL: Ensure utype is a number, not BigInt (from Solidity uint8)
             const utype = typeof item.utype === 'bigint' ? Number(item.utype) : item.utype;
             console.log(`  [${index}] Decrypting: ctHash=${item.ctHash}, utype=${utype}`);
 
+            const stopTimer = decryptDuration.startTimer({ utype });
             const result = await cofhejs.unseal(item.ctHash, utype);
+            stopTimer();
 
             if (!result.success) {
+                decryptFailures.inc({ utype });
                 throw new Error(`Decryption failed for item ${index}: ${result.error?.message || 'Unknown error'}`);
             }
 
@@ -236,8 +250,12 @@ export const batchDecrypt = async (items: CoFheItem[]): Promise<any[]> => {
             }
 
             console.log(`  [${index}] Decrypted (utype ${utype}): ${decryptedValue}`);
-            results.push(decryptedValue);
-        }
+            results[index] = decryptedValue;
+            return unsealNext();
+        };
+
+        const workers = Math.max(1, Math.min(concurrency, items.length));
+        await Promise.all(Array.from({ length: workers }, () => unsealNext()));
 
         console.log(`✓ Successfully batch decrypted ${results.length} values`);
         return results;
@@ -0,0 +1,176 @@
+/**
+ * Consensus Peer - long-running daemon through which this operator attests epoch payloads for
+ * the leader (the operator finalizing or executing the epoch, see utils/consensus.ts)
+ *
+ * On GET /consensus/<topic> it rebuilds the payload from its own view of the chain and its own
+ * epoch database, and signs it only if it could build it:
+ *   finalize:<chainId>:<epoch>                  CLOSED epoch: winners ranked from the on-chain APYs
+ *   execute:<chainId>:<epoch>:<targetChainId>   FINALIZED epoch: verified winners' aggregated calls,
+ *                                               if none of them reverts on a fork (utils/planSimulation.ts)
+ *   recover:<chainId>:<epoch>:<txHash>          EXECUTED epoch: the calls that failed in that latest
+ *                                               execution, if none of them reverts on a fork
+ *   unwind:<chainId>:<epoch>:<txHash>:<block>   EXECUTED epoch: the calls closing its open positions
+ *                                               after that latest execution, with the Aave debts read
+ *                                               at a recent block, if none of them reverts
+ * Attestations published by other processes (the UEI processor) are served as they are.
+ *
+ * Usage: ts-node operator/consensusPeer.ts [--chain <name|id>]
+ */
+
+import * as dotenv from "dotenv";
+import { selectEpochWinners } from "./closeAndFinalizeEpoch";
+import { getTargetTradeManager, prepareEpochExecution, simulateExecutionPlan } from "./executeAggregatedStrategies";
+import { buildRecoveryPlan } from "./recoverEpochExecution";
+import { buildEpochUnwindPlan } from "./unwindEpochExecution";
+import { encodeSignedAPY } from "./utils/apyEncoding";
+import { ChainContext, connectChain, resolveChain } from "./utils/chainContext";
+import { ConsensusTopic, executeDigest, finalizeDigest, getConsensusConfig, startConsensusServer } from "./utils/consensus";
+import { assertPlanSucceeds } from "./utils/planSimulation";
+import { parseArgs, stringOption } from "./cli/args";
+dotenv.config();
+
+// How far behind the head the block an unwind's debts were read at may be
+const UNWIND_MAX_DEBT_BLOCK_AGE = 50;
+
+let ctx: ChainContext;
+
+/**
+ * Epoch number of a topic for this chain, if the epoch is in the expected state
+ */
+async function epochInState(topic: ConsensusTopic, expectedState: number): Promise<bigint | undefined> {
+    if (topic.chainId !== ctx.chainId) {
+        return undefined;
+    }
+    const epochNumber = BigInt(topic.ids[0]);
+    const state = Number((await ctx.tradeManager.epochs(epochNumber)).state);
+    if (state !== expectedState) {
+        console.log(`⏭️ Epoch ${epochNumber} is in state ${state}, not attesting ${topic.kind}`);
+        return undefined;
+    }
+    return epochNumber;
+}
+
+async function buildFinalizeDigest(topic: ConsensusTopic): Promise<string | undefined> {
+    const epochNumber = await epochInState(topic, 1);
+    if (epochNumber === undefined) {
+        return undefined;
+    }
+    console.log(`\n🔎 Rebuilding the winner list of epoch ${epochNumber}...`);
+    const { winners } = await selectEpochWinners(ctx, epochNumber);
+    return finalizeDigest(
+        ctx.chainId,
+        ctx.tradeManagerAddress,
+        epochNumber,
+        winners.map((winner) => winner.trader),
+        winners.map((winner) => encodeSignedAPY(winner.apyBps))
+    );
+}
+
+async function buildExecuteDigest(topic: ConsensusTopic): Promise<string | undefined> {
+    const epochNumber = await epochInState(topic, 2);
+    if (epochNumber === undefined || topic.ids.length < 2) {
+        return undefined;
+    }
+    console.log(`\n🔎 Rebuilding the execution of epoch ${epochNumber} on chain ${topic.ids[1]}...`);
+    const targetChainId = Number(topic.ids[1]);
+    const aggregated = (await prepareEpochExecution(ctx, epochNumber)).payloads.get(targetChainId);
+    if (!aggregated) {
+        return undefined;
+    }
+    const simulation = await simulateExecutionPlan(ctx, targetChainId, aggregated);
+    if (simulation) {
+        assertPlanSucceeds(simulation);
+    }
+    return executeDigest(
+        targetChainId,
+        getTargetTradeManager(ctx, targetChainId),
+        epochNumber,
+        0n,
+        aggregated.encoders,
+        aggregated.targets,
+        aggregated.calldatas
+    );
+}
+
+async function buildRecoverDigest(topic: ConsensusTopic): Promise<string | undefined> {
+    const epochNumber = await epochInState(topic, 3);
+    if (epochNumber === undefined || topic.ids.length < 2) {
+        return undefined;
+    }
+    console.log(`\n🔎 Rebuilding the recovery of epoch ${epochNumber} execution ${topic.ids[1]}...`);
+    const recovery = await buildRecoveryPlan(ctx, epochNumber);
+    if (!recovery || recovery.recovers.toLowerCase() !== topic.ids[1].toLowerCase()) {
+        console.log(`⏭️ ${topic.ids[1]} is not the latest execution of epoch ${epochNumber} with failed calls`);
+        return undefined;
+    }
+    const simulation = await simulateExecutionPlan(ctx, ctx.chainId, recovery.plan);
+    if (simulation) {
+        assertPlanSucceeds(simulation);
+    }
+    const { plan, executionCount } = recovery;
+    return executeDigest(ctx.chainId, ctx.tradeManagerAddress, epochNumber, executionCount, plan.encoders, plan.targets, plan.calldatas);
+}
+
+async function buildUnwindDigest(topic: ConsensusTopic): Promise<string | undefined> {
+    const epochNumber = await epochInState(topic, 3);
+    if (epochNumber === undefined || topic.ids.length < 3) {
+        return undefined;
+    }
+    const debtBlock = Number(topic.ids[2]);
+    const head = await ctx.provider.getBlockNumber();
+    if (debtBlock > head || head - debtBlock > UNWIND_MAX_DEBT_BLOCK_AGE) {
+        console.log(`⏭️ Debt block ${debtBlock} is not within ${UNWIND_MAX_DEBT_BLOCK_AGE} blocks of the head (${head})`);
+        return undefined;
+    }
+    console.log(`\n🔎 Rebuilding the unwind of epoch ${epochNumber} after ${topic.ids[1]}...`);
+    const unwind = await buildEpochUnwindPlan(ctx, epochNumber, debtBlock);
+    if (unwind.after.toLowerCase() !== topic.ids[1].toLowerCase()) {
+        console.log(`⏭️ ${topic.ids[1]} is not the latest execution of epoch ${epochNumber}`);
+        return undefined;
+    }
+    const { plan, executionCount } = unwind;
+    if (plan.calldatas.length === 0) {
+        console.log(`⏭️ Epoch ${epochNumber} has no open positions`);
+        return undefined;
+    }
+    const simulation = await simulateExecutionPlan(ctx, ctx.chainId, plan);
+    if (simulation) {
+        assertPlanSucceeds(simulation);
+    }
+    return executeDigest(ctx.chainId, ctx.tradeManagerAddress, epochNumber, executionCount, plan.encoders, plan.targets, plan.calldatas);
+}
+
+async function main() {
+    const { options } = parseArgs(process.argv.slice(2));
+    ctx = await connectChain(resolveChain(stringOption(options, 'chain')));
+    const config = getConsensusConfig();
+
+    console.log(`\n🤝 Consensus Peer (${ctx.chain.label})`);
+    console.log(`Operator: ${ctx.wallet.address}`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}`);
+    console.log(`Peers: ${config.peers.length > 0 ? config.peers.join(', ') : 'none'}`);
+
+    if (!(await ctx.tradeManager.isOperatorRegistered(ctx.wallet.address))) {
+        console.log("⚠️ Wallet is not a registered operator: its attestations will not count");
+    }
+
+    startConsensusServer({
+        port: config.port,
+        host: config.host,
+        wallet: ctx.wallet,
+        builders: {
+            finalize: buildFinalizeDigest,
+            execute: buildExecuteDigest,
+            recover: buildRecoverDigest,
+            unwind: buildUnwindDigest
+        }
+    });
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -1,27 +1,40 @@
 /**
  * Helper script to create encrypted strategy inputs for testing
- * Usage: ts-node createEncryptedStrategyInputs.ts
+ * Usage: ts-node createEncryptedStrategyInputs.ts [targetChainId]
  */
 
 import { ethers } from "ethers";
 import * as dotenv from "dotenv";
 import { initializeCofhe, batchEncrypt, FheTypes, EncryptionInput } from "./cofheUtils";
 import { loadMockDeployment, PROTOCOL_FUNCTIONS } from "./utils/protocolMapping";
-const fs = require('fs');
-const path = require('path');
+import { ChainContext, connectChain } from "./utils/chainContext";
 dotenv.config();
 
-const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+export interface SubmitStrategyResult {
+    epochNumber: number;
+    trader: string;
+    nodes: number;
+    targetChainId: number;
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+}
+
+/**
+ * Encrypt and submit the example strategy (Aave supply + borrow) to the current epoch
+ */
+export async function submitExampleStrategy(
+    ctx: ChainContext,
+    options: { dryRun?: boolean; targetChainId?: number } = {}
+): Promise<SubmitStrategyResult> {
+    const { wallet, chainId, tradeManager, tradeManagerAddress, txSender } = ctx;
+    const targetChainId = options.targetChainId ?? chainId;
 
-async function main() {
     console.log("\n🔐 Creating Encrypted Strategy Inputs\n");
 
     // Initialize CoFHE.js
     await initializeCofhe(wallet);
 
     // Load actual deployed addresses based on chain
-    const chainId = Number((await provider.getNetwork()).chainId);
     const deployment = loadMockDeployment(chainId);
 
     // Get Aave functions from protocol mapping
@@ -84,14 +97,9 @@ async function main() {
         console.log();
     });
 
-    // Get TradeManager address from deployment
-    const avsDeploymentData = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, `../contracts/deployments/trade-manager/${chainId}.json`), 'utf8')
-    );
-    const tradeManagerAddress = avsDeploymentData.addresses.tradeManager;
-
     console.log(`TradeManager: ${tradeManagerAddress}`);
     console.log(`User: ${wallet.address}`);
+    console.log(`Target chain: ${targetChainId}`);
     console.log();
 
     // Prepare encryption inputs for all nodes
@@ -126,6 +134,9 @@ async function main() {
         }
     }
 
+    // Destination chain for execution, encrypted like the nodes
+    inputs.push({ value: BigInt(targetChainId), type: FheTypes.Uint32 });
+
     console.log("Encrypting strategy inputs...");
     console.log(`Total inputs to encrypt: ${inputs.length}`);
 
@@ -194,20 +205,19 @@ async function main() {
         nodeArgs.push(encryptedArgs);
     }
 
-    // Initialize TradeManager contract - use full ABI
-    const tradeManagerABI = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
-    );
-    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet);
+    const chainIdInput = {
+        ctHash: encrypted[encryptedIdx].ctHash,
+        securityZone: encrypted[encryptedIdx].securityZone,
+        utype: encrypted[encryptedIdx].utype,
+        signature: encrypted[encryptedIdx].signature
+    };
 
     // Get current epoch
     const currentEpoch = await tradeManager.currentEpochNumber();
     console.log(`Current Epoch: ${currentEpoch}`);
 
     if (currentEpoch === 0n) {
-        console.error("\n❌ No active epoch! Admin must call startEpoch() first.");
-        console.log("To start an epoch, run: forge script contracts/script/StartEpoch.s.sol --broadcast");
-        process.exit(1);
+        throw new Error("No active epoch! Admin must start one first (ts-node operator/cli/arena.ts epoch start)");
     }
 
     // Check epoch state (0=OPEN, 1=CLOSED, 2=FINALIZED, 3=EXECUTED)
@@ -217,45 +227,34 @@ async function main() {
     console.log(`Epoch End Time: ${new Date(Number(epoch.epochEndTime) * 1000).toISOString()}\n`);
 
     if (epochState !== 0) {
-        console.error(`❌ Epoch is not OPEN (state=${epochState}). Cannot submit strategy.`);
-        process.exit(1);
+        throw new Error(`Epoch is not OPEN (state=${epochState}). Cannot submit strategy.`);
     }
 
-    // Get current nonce
-    const nonce = await provider.getTransactionCount(wallet.address);
+    const args = [encoders, targets, selectors, nodeArgs, chainIdInput];
+    const summary = {
+        epochNumber: Number(currentEpoch),
+        trader: wallet.address,
+        nodes: nodes.length,
+        targetChainId
+    };
+
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, 'submitEncryptedStrategy', args);
+        console.log(`🧪 Dry run: submitEncryptedStrategy would succeed (gas ${gasEstimate})`);
+        return { ...summary, gasEstimate: gasEstimate.toString() };
+    }
 
     // Submit encrypted strategy
     console.log("📤 Submitting encrypted strategy to TradeManager...");
 
     try {
-        const tx = await tradeManager.submitEncryptedStrategy(
-            encoders,
-            targets,
-            selectors,
-            nodeArgs,
-            {
-                nonce,
-                gasLimit: 5000000
-            }
-        );
+        const result = await txSender.send(tradeManager, 'submitEncryptedStrategy', args);
 
-        console.log(`  Transaction hash: ${tx.hash}`);
-        console.log("  Waiting for confirmation...");
-
-        const receipt = await tx.wait();
-        console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
-        console.log(`  Gas used: ${receipt.gasUsed.toString()}`);
+        console.log(`  ✅ Confirmed in block ${result.blockNumber}`);
+        console.log(`  Gas used: ${result.gasUsed.toString()}`);
 
         // Parse StrategySubmitted event
-        const event = receipt.logs
-            .map((log: any) => {
-                try {
-                    return tradeManager.interface.parseLog(log);
-                } catch {
-                    return null;
-                }
-            })
-            .find((e: any) => e && e.name === 'StrategySubmitted');
+        const event = result.events.find((e) => e.name === 'StrategySubmitted');
 
         if (event) {
             console.log(`\n📋 StrategySubmitted Event:`);
@@ -271,17 +270,25 @@ async function main() {
         console.log("  3. Operator will simulate and calculate APY");
         console.log("  4. Check operator logs to verify decryption and simulation");
 
+        return { ...summary, txHash: result.hash };
     } catch (error: any) {
         console.error("\n❌ Transaction failed:");
         console.error(error.message);
         if (error.reason) {
             console.error(`Reason: ${error.reason}`);
         }
-        process.exit(1);
+        throw error;
     }
 }
 
-main().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-});
+async function main() {
+    const targetChainId = process.argv[2] ? Number(process.argv[2]) : undefined;
+    await submitExampleStrategy(await connectChain(), { targetChainId });
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -16,6 +16,7 @@ import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import { initializeCofhe, batchEncrypt, EncryptionInput, FheTypes, CoFheItem } from './cofheUtils';
 import { loadDeploymentConfig, getNetworkName } from './config/deploymentConfig';
+import { getTxSender } from './utils/txSender';
 
 dotenv.config();
 
@@ -226,33 +227,20 @@ async function createUSDCTransferUEI() {
         // Submit to TradeManager with DynamicInE structs
         // Each encrypted component is passed with its original type preserved
         // Args can be mixed types (Address, Uint128, etc.) - NO Uint256!
-        const tx = await tradeManager.submitEncryptedUEI(
+        const txSender = getTxSender(wallet);
+        const result = await txSender.send(tradeManager, 'submitEncryptedUEI', [
             decoderStruct,   // InEaddress
             targetStruct,    // InEaddress
             selectorStruct,  // InEuint32
             argsStructs,     // DynamicInE[] - Mixed types!
-            deadline,
-            { nonce: await wallet.getNonce() }  // Add nonce as per project instructions
-        );
-
-        console.log(`  Transaction hash: ${tx.hash}`);
-        console.log("  Waiting for confirmation...");
-
-        const receipt = await tx.wait();
+            deadline
+        ]);
         console.log("✅ UEI submitted successfully!");
 
         // Extract intent ID from TradeSubmitted event
-        const tradeSubmittedEvent = receipt.logs.find((log: any) => {
-            try {
-                const parsed = tradeManager.interface.parseLog(log);
-                return parsed && parsed.name === 'TradeSubmitted';
-            } catch {
-                return false;
-            }
-        });
+        const parsed = result.events.find((event) => event.name === 'TradeSubmitted');
 
-        if (tradeSubmittedEvent) {
-            const parsed = tradeManager.interface.parseLog(tradeSubmittedEvent);
+        if (parsed) {
             const tradeId = parsed?.args[0];
             const batchId = parsed?.args[2];
 
@@ -277,28 +265,16 @@ async function createUSDCTransferUEI() {
             await new Promise(resolve => setTimeout(resolve, 5000));
 
             console.log("\n🔨 Finalizing batch as admin...");
-            const finalizeTx = await tradeManager.finalizeUEIBatch();
-            console.log(`  Transaction hash: ${finalizeTx.hash}`);
-            console.log("  Waiting for confirmation...");
-
-            const finalizeReceipt = await finalizeTx.wait();
+            const finalizeResult = await txSender.send(tradeManager, 'finalizeUEIBatch');
             console.log("✅ Batch finalized!");
 
             // Extract UEIBatchFinalized event
-            const batchFinalizedEvent = finalizeReceipt.logs.find((log: any) => {
-                try {
-                    const parsed = tradeManager.interface.parseLog(log);
-                    return parsed && parsed.name === 'UEIBatchFinalized';
-                } catch {
-                    return false;
-                }
-            });
+            const batchFinalizedEvent = finalizeResult.events.find((event) => event.name === 'UEIBatchFinalized');
 
             if (batchFinalizedEvent) {
-                const parsed = tradeManager.interface.parseLog(batchFinalizedEvent);
-                const finalizedBatchId = parsed?.args[0];
-                const selectedOperators = parsed?.args[1];
-                const finalizedAt = parsed?.args[2];
+                const finalizedBatchId = batchFinalizedEvent.args[0];
+                const selectedOperators = batchFinalizedEvent.args[1];
+                const finalizedAt = batchFinalizedEvent.args[2];
 
                 console.log("\n🎉 Batch Finalized Event:");
                 console.log(`  Batch ID: ${finalizedBatchId}`);
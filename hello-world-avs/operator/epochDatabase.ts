@@ -1,127 +1,222 @@
 /**
- * Epoch Database - Local JSON database for storing decrypted strategies and APYs
+ * Epoch Database - Local database for storing decrypted strategies and APYs
  *
  * This acts as a local cache to avoid re-decrypting strategies from chain.
  * Data is incrementally written as StrategySubmitted events are processed.
+ * Storage is pluggable (see storage/): a locked JSON file by default, or SQLite.
+ * Decrypted strategy nodes are sealed with the operator's key before they reach disk
+ * and only opened in memory (getStrategyNodes).
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+    getEpochStore,
+    EpochStore,
+    EpochData,
+    StrategyData,
+    StrategyNode,
+    StrategyStatus,
+    AggregatedCalldata,
+    RecoveryRecord,
+    MergeStats,
+    mergeEpoch,
+    isEncryptionConfigured,
+    sealJSON,
+    openJSON
+} from './storage';
+import { ScoreVector, ScoringConfig } from './utils/scoring';
+
+export type {
+    EpochData,
+    StrategyData,
+    StrategyNode,
+    StrategyStatus,
+    AggregatedCalldata,
+    CallOrigin,
+    RecoveryRecord
+} from './storage';
 
-// Database file path
-const DB_PATH = path.resolve(__dirname, './data/epochDatabase.json');
+/**
+ * Storage backend selected by EPOCH_DB_BACKEND
+ */
+function store(): EpochStore {
+    return getEpochStore();
+}
 
-// Ensure data directory exists
-const DATA_DIR = path.dirname(DB_PATH);
-if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+/**
+ * Additional data binding sealed nodes to their record
+ */
+function nodesAAD(epochNumber: number, submitter: string): string {
+    return `epoch:${epochNumber}:strategy:${submitter.toLowerCase()}`;
 }
 
+let plaintextWarned = false;
+
 /**
- * Strategy node with all data needed to reconstruct calldata
+ * Prepare decrypted nodes for storage: sealed when a key is configured, plaintext only
+ * with an explicit EPOCH_DB_ALLOW_PLAINTEXT=true (local development)
  */
-export interface StrategyNode {
-    encoder: string;        // Encoder/sanitizer address
-    target: string;         // Protocol target address
-    selector: string;       // Function selector (e.g., "0x617ba037")
-    args: any[];           // Decrypted argument values
-    argTypes: number[];    // FHE utypes for each arg (for encoding)
+function protectNodes(epochNumber: number, submitter: string, nodes: StrategyNode[]): Partial<StrategyData> {
+    if (isEncryptionConfigured()) {
+        return { nodes: [], sealedNodes: sealJSON(nodes, nodesAAD(epochNumber, submitter)) };
+    }
+
+    if (process.env.EPOCH_DB_ALLOW_PLAINTEXT !== 'true') {
+        throw new Error(
+            'Refusing to store decrypted strategy nodes in plaintext: set EPOCH_DB_KEY_FILE or EPOCH_DB_PASSPHRASE ' +
+            '(or EPOCH_DB_ALLOW_PLAINTEXT=true for local development)'
+        );
+    }
+    if (!plaintextWarned) {
+        console.warn('⚠️ EPOCH_DB_ALLOW_PLAINTEXT=true: decrypted strategy nodes are stored unencrypted');
+        plaintextWarned = true;
+    }
+    return { nodes, sealedNodes: undefined };
 }
 
 /**
- * Strategy submission data
+ * Initialize epoch if it doesn't exist
  */
-export interface StrategyData {
-    submitter: string;
-    nodes: StrategyNode[];
-    simulatedAPY: number;      // APY in basis points
-    submittedAt: number;       // Timestamp
-    targetChainId: number;     // Destination chain
+export function initializeEpoch(
+    epochNumber: number,
+    weights: number[],
+    notionalPerTrader: string,
+    allocatedCapital: string,
+    scoring?: ScoringConfig
+): void {
+    const created = store().transaction(() => {
+        if (store().getEpoch(epochNumber)) return false;
+        store().putEpoch({
+            epochNumber,
+            weights,
+            notionalPerTrader,
+            allocatedCapital,
+            ...(scoring ? { scoring } : {})
+        });
+        return true;
+    });
+
+    if (created) {
+        console.log(`✅ Initialized epoch ${epochNumber} in database`);
+    }
 }
 
 /**
- * Epoch data structure
+ * Set the scoring function used to select winners for an epoch
  */
-export interface EpochData {
-    epochNumber: number;
-    weights: number[];         // Capital allocation weights
-    notionalPerTrader: string; // Simulation capital (as string to preserve precision)
-    allocatedCapital: string;  // Real capital to deploy
-    strategies: { [submitter: string]: StrategyData };
+export function setEpochScoring(epochNumber: number, scoring: ScoringConfig): void {
+    store().transaction(() => {
+        const { strategies, ...config } = store().getEpoch(epochNumber) ?? {
+            epochNumber,
+            weights: [],
+            notionalPerTrader: '0',
+            allocatedCapital: '0',
+            strategies: {}
+        };
+        store().putEpoch({ ...config, scoring });
+    });
+    console.log(`✅ Set scoring for epoch ${epochNumber}: ${scoring.mode}`);
 }
 
 /**
- * Database structure
+ * Create an empty epoch if needed (call inside a transaction)
  */
-interface Database {
-    epochs: { [epochNumber: string]: EpochData };
+function ensureEpoch(epochNumber: number): void {
+    if (!store().getEpoch(epochNumber)) {
+        console.warn(`⚠️ Epoch ${epochNumber} not initialized, creating it...`);
+        store().putEpoch({
+            epochNumber,
+            weights: [],
+            notionalPerTrader: '0',
+            allocatedCapital: '0'
+        });
+    }
 }
 
 /**
- * Load database from disk
+ * Merge fields into a strategy record (creating a pending one if needed) and stamp updatedAt
  */
-function loadDatabase(): Database {
-    try {
-        if (fs.existsSync(DB_PATH)) {
-            const data = fs.readFileSync(DB_PATH, 'utf8');
-            return JSON.parse(data);
+function updateStrategy(
+    epochNumber: number,
+    submitter: string,
+    update: Partial<StrategyData>
+): StrategyData {
+    // Read-modify-write under the store's lock so concurrent writers don't drop each other's fields
+    return store().transaction(() => {
+        ensureEpoch(epochNumber);
+
+        const existing: StrategyData = store().getStrategy(epochNumber, submitter) ?? {
+            submitter,
+            nodes: [],
+            simulatedAPY: 0,
+            submittedAt: 0,
+            targetChainId: 0,
+            status: 'pending'
+        };
+
+        const strategy: StrategyData = { ...existing, ...update, updatedAt: Date.now() };
+        if (strategy.status !== 'failed') {
+            delete strategy.failedStage;
+            delete strategy.error;
         }
-    } catch (error) {
-        console.error('⚠️ Error loading database, creating new one:', error);
-    }
+        store().putStrategy(epochNumber, strategy);
+        return strategy;
+    });
+}
 
-    return { epochs: {} };
+/**
+ * Record a newly seen submission as pending (no-op if already tracked)
+ */
+export function markStrategyPending(epochNumber: number, submitter: string, submittedAt: number): void {
+    store().transaction(() => {
+        if (getStrategy(epochNumber, submitter)) return;
+        updateStrategy(epochNumber, submitter, { submittedAt, status: 'pending' });
+    });
 }
 
 /**
- * Custom JSON serializer that handles BigInt
+ * Save decrypted strategy nodes (before simulation)
  */
-function bigIntReplacer(key: string, value: any): any {
-    if (typeof value === 'bigint') {
-        return value.toString();
-    }
-    return value;
+export function saveDecryptedStrategy(
+    epochNumber: number,
+    submitter: string,
+    nodes: StrategyNode[],
+    submittedAt: number,
+    targetChainId: number
+): void {
+    updateStrategy(epochNumber, submitter, {
+        ...protectNodes(epochNumber, submitter, nodes),
+        submittedAt,
+        targetChainId,
+        status: 'decrypted'
+    });
+    console.log(`✅ Saved decrypted strategy for ${submitter} in epoch ${epochNumber}`);
 }
 
 /**
- * Save database to disk
+ * Mark a strategy's APY as reported on-chain
  */
-function saveDatabase(db: Database): void {
-    try {
-        fs.writeFileSync(DB_PATH, JSON.stringify(db, bigIntReplacer, 2), 'utf8');
-    } catch (error) {
-        console.error('❌ Error saving database:', error);
-        throw error;
-    }
+export function markStrategyReported(epochNumber: number, submitter: string, reportTxHash?: string): void {
+    updateStrategy(epochNumber, submitter, {
+        status: 'reported',
+        ...(reportTxHash ? { reportTxHash } : {})
+    });
 }
 
 /**
- * Initialize epoch if it doesn't exist
+ * Mark a strategy as failed at a processing stage
  */
-export function initializeEpoch(
+export function markStrategyFailed(
     epochNumber: number,
-    weights: number[],
-    notionalPerTrader: string,
-    allocatedCapital: string
+    submitter: string,
+    failedStage: StrategyStatus,
+    error: string
 ): void {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
-
-    if (!db.epochs[epochKey]) {
-        db.epochs[epochKey] = {
-            epochNumber,
-            weights,
-            notionalPerTrader,
-            allocatedCapital,
-            strategies: {}
-        };
-        saveDatabase(db);
-        console.log(`✅ Initialized epoch ${epochNumber} in database`);
-    }
+    updateStrategy(epochNumber, submitter, { status: 'failed', failedStage, error });
+    console.log(`❌ Strategy for ${submitter} in epoch ${epochNumber} failed at ${failedStage}: ${error}`);
 }
 
 /**
- * Save a strategy for a specific epoch
+ * Save a simulated strategy for a specific epoch
  */
 export function saveStrategy(
     epochNumber: number,
@@ -129,33 +224,17 @@ export function saveStrategy(
     nodes: StrategyNode[],
     simulatedAPY: number,
     submittedAt: number,
-    targetChainId: number
+    targetChainId: number,
+    scores?: ScoreVector
 ): void {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
-
-    // Ensure epoch exists
-    if (!db.epochs[epochKey]) {
-        console.warn(`⚠️ Epoch ${epochNumber} not initialized, creating it...`);
-        db.epochs[epochKey] = {
-            epochNumber,
-            weights: [],
-            notionalPerTrader: '0',
-            allocatedCapital: '0',
-            strategies: {}
-        };
-    }
-
-    // Save strategy
-    db.epochs[epochKey].strategies[submitter] = {
-        submitter,
-        nodes,
+    updateStrategy(epochNumber, submitter, {
+        ...protectNodes(epochNumber, submitter, nodes),
         simulatedAPY,
         submittedAt,
-        targetChainId
-    };
-
-    saveDatabase(db);
+        targetChainId,
+        ...(scores ? { scores } : {}),
+        status: 'simulated'
+    });
     console.log(`✅ Saved strategy for ${submitter} in epoch ${epochNumber}`);
 }
 
@@ -163,86 +242,215 @@ export function saveStrategy(
  * Get all strategies for an epoch
  */
 export function getEpochStrategies(epochNumber: number): { [submitter: string]: StrategyData } {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
-
-    if (!db.epochs[epochKey]) {
-        return {};
-    }
-
-    return db.epochs[epochKey].strategies;
+    return store().getStrategies(epochNumber);
 }
 
 /**
  * Get a specific strategy
  */
 export function getStrategy(epochNumber: number, submitter: string): StrategyData | null {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
+    return store().getStrategy(epochNumber, submitter);
+}
+
+/**
+ * Whether a strategy record still holds decrypted nodes (sealed or plaintext)
+ */
+export function hasStrategyNodes(strategy: StrategyData | null): boolean {
+    return !!strategy && (!!strategy.sealedNodes || strategy.nodes.length > 0);
+}
 
-    if (!db.epochs[epochKey] || !db.epochs[epochKey].strategies[submitter]) {
-        return null;
+/**
+ * Get a strategy's decrypted nodes, opening the sealed payload in memory
+ */
+export function getStrategyNodes(epochNumber: number, submitter: string): StrategyNode[] {
+    const strategy = store().getStrategy(epochNumber, submitter);
+    if (!strategy) {
+        return [];
+    }
+    if (strategy.sealedNodes) {
+        return openJSON<StrategyNode[]>(strategy.sealedNodes, nodesAAD(epochNumber, submitter));
     }
+    return strategy.nodes;
+}
 
-    return db.epochs[epochKey].strategies[submitter];
+/**
+ * Record the aggregated calldata this operator executed for an epoch on a chain
+ */
+export function markEpochExecuted(epochNumber: number, chainId: number, aggregated: AggregatedCalldata): void {
+    store().transaction(() => {
+        ensureEpoch(epochNumber);
+        const { strategies, ...config } = store().getEpoch(epochNumber)!;
+        store().putEpoch({
+            ...config,
+            executedAt: config.executedAt ?? Date.now(),
+            execution: { ...config.execution, [chainId.toString()]: aggregated }
+        });
+    });
 }
 
 /**
- * Get epoch data
+ * Append a recovery or unwind plan to an epoch's execution record on a chain. `executed` is the
+ * epoch's execution, saved as the execution record when this operator has none (another operator
+ * executed).
  */
-export function getEpochData(epochNumber: number): EpochData | null {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
+export function recordEpochRecovery(
+    epochNumber: number,
+    chainId: number,
+    recovery: RecoveryRecord,
+    executed: AggregatedCalldata
+): void {
+    store().transaction(() => {
+        ensureEpoch(epochNumber);
+        const { strategies, ...config } = store().getEpoch(epochNumber)!;
+        const current = config.execution?.[chainId.toString()] ?? executed;
+        store().putEpoch({
+            ...config,
+            execution: {
+                ...config.execution,
+                [chainId.toString()]: { ...current, recoveries: [...(current.recoveries ?? []), recovery] }
+            }
+        });
+    });
+}
+
+/**
+ * Plans this operator executed for an epoch on a chain: the execution, then its recoveries and unwinds
+ */
+export function getExecutedPlans(epochNumber: number, chainId: number): AggregatedCalldata[] {
+    const execution = store().getEpoch(epochNumber)?.execution?.[chainId.toString()];
+    return execution ? [execution, ...(execution.recoveries ?? []).map((recovery) => recovery.plan)] : [];
+}
 
-    return db.epochs[epochKey] || null;
+/**
+ * Remove decrypted nodes and risk scores for strategies in an epoch (all, or those matching
+ * the filter), keeping a tombstone with the processing status. Returns the number purged.
+ */
+export function purgeEpochStrategies(
+    epochNumber: number,
+    shouldPurge: (strategy: StrategyData) => boolean = () => true
+): number {
+    const purged = store().transaction(() => {
+        let count = 0;
+        for (const strategy of Object.values(store().getStrategies(epochNumber))) {
+            if (strategy.purgedAt || !shouldPurge(strategy)) continue;
+            store().putStrategy(epochNumber, {
+                submitter: strategy.submitter,
+                nodes: [],
+                simulatedAPY: 0,
+                submittedAt: strategy.submittedAt,
+                targetChainId: strategy.targetChainId,
+                ...(strategy.status ? { status: strategy.status } : {}),
+                ...(strategy.reportTxHash ? { reportTxHash: strategy.reportTxHash } : {}),
+                updatedAt: Date.now(),
+                purgedAt: Date.now()
+            });
+            count++;
+        }
+        return count;
+    });
+
+    if (purged > 0) {
+        store().compact();
+        console.log(`🧹 Purged ${purged} strategies from epoch ${epochNumber}`);
+    }
+    return purged;
 }
 
 /**
- * Get all submitters for an epoch (sorted by APY, highest first)
+ * Import an epoch (e.g. from another operator's archive), merging it with local data.
+ * Nodes are re-sealed with the local key; sealed nodes that cannot be opened with it are
+ * dropped, so those strategies are decrypted again when processed.
  */
-export function getEpochSubmitters(epochNumber: number, sortByAPY: boolean = true): string[] {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
+export function importEpoch(epoch: EpochData): MergeStats & { nodesDropped: string[] } {
+    const nodesDropped: string[] = [];
+    const strategies: { [submitter: string]: StrategyData } = {};
+
+    for (const strategy of Object.values(epoch.strategies)) {
+        let nodes = strategy.nodes;
+        if (strategy.sealedNodes) {
+            try {
+                nodes = openJSON<StrategyNode[]>(strategy.sealedNodes, nodesAAD(epoch.epochNumber, strategy.submitter));
+            } catch {
+                nodes = [];
+                nodesDropped.push(strategy.submitter);
+            }
+        }
 
-    if (!db.epochs[epochKey]) {
-        return [];
+        const { sealedNodes, ...record } = strategy;
+        strategies[strategy.submitter] = nodes.length > 0
+            ? { ...record, ...protectNodes(epoch.epochNumber, strategy.submitter, nodes) }
+            : { ...record, nodes: [] };
+    }
+
+    return { ...mergeEpoch(store(), { ...epoch, strategies }), nodesDropped };
+}
+
+/**
+ * Seal plaintext nodes written before encryption at rest was enabled.
+ * Returns the number of strategies sealed.
+ */
+export function sealPlaintextStrategies(): number {
+    if (!isEncryptionConfigured()) {
+        throw new Error('No epoch database key configured: set EPOCH_DB_KEY_FILE or EPOCH_DB_PASSPHRASE');
     }
 
-    const submitters = Object.keys(db.epochs[epochKey].strategies);
+    const sealed = store().transaction(() => {
+        let count = 0;
+        for (const epochNumber of store().getEpochNumbers()) {
+            for (const strategy of Object.values(store().getStrategies(epochNumber))) {
+                if (strategy.sealedNodes || strategy.nodes.length === 0) continue;
+                store().putStrategy(epochNumber, {
+                    ...strategy,
+                    ...protectNodes(epochNumber, strategy.submitter, strategy.nodes)
+                });
+                count++;
+            }
+        }
+        return count;
+    });
+
+    if (sealed > 0) {
+        store().compact();
+    }
+    return sealed;
+}
 
+/**
+ * Get epoch data
+ */
+export function getEpochData(epochNumber: number): EpochData | null {
+    return store().getEpoch(epochNumber);
+}
+
+/**
+ * Get all submitters for an epoch (sorted by APY, highest first)
+ */
+export function getEpochSubmitters(epochNumber: number, sortByAPY: boolean = true): string[] {
     if (sortByAPY) {
-        return submitters.sort((a, b) => {
-            const apyA = db.epochs[epochKey].strategies[a].simulatedAPY;
-            const apyB = db.epochs[epochKey].strategies[b].simulatedAPY;
-            return apyB - apyA; // Descending order (highest APY first)
-        });
+        return store().getSubmittersByAPY(epochNumber); // Descending order (highest APY first)
     }
 
-    return submitters;
+    return Object.keys(store().getStrategies(epochNumber));
 }
 
 /**
  * Check if a strategy exists for a submitter in an epoch
  */
 export function hasStrategy(epochNumber: number, submitter: string): boolean {
-    const db = loadDatabase();
-    const epochKey = epochNumber.toString();
-
-    return !!(db.epochs[epochKey]?.strategies[submitter]);
+    return store().getStrategy(epochNumber, submitter) !== null;
 }
 
 /**
  * Get database path (for debugging)
  */
 export function getDatabasePath(): string {
-    return DB_PATH;
+    return store().path;
 }
 
 /**
  * Clear all data (use with caution!)
  */
 export function clearDatabase(): void {
-    const db: Database = { epochs: {} };
-    saveDatabase(db);
+    store().clear();
     console.log('🗑️ Database cleared');
 }
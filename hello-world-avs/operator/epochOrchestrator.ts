@@ -0,0 +1,482 @@
+/**
+ * Epoch Orchestrator - long-running daemon that drives the epoch lifecycle on one chain
+ *
+ * Watches EpochStarted/APYReported/EpochClosed/EpochFinalized/EpochExecuted through a durable
+ * block cursor and, on every tick, moves the current epoch to its next state:
+ *   OPEN       after epochEndTime and once every submitted strategy has its APY reported → closeEpoch
+ *   CLOSED     once every reported APY (and the sim window) is decrypted → finalizeEpoch
+ *   FINALIZED  → executeEpoch (attempted once: execution is not idempotent across chains)
+ *   EXECUTED   at the next slot of the cron schedule → startEpoch with the epoch config
+ * Waits are bounded by timeouts; strategies still unreported when the report timeout expires
+ * can't win. A stage that keeps failing is marked stuck until it is fixed by hand.
+ *
+ * The wallet (PRIVATE_KEY) must be a selected operator, and the TradeManager admin to start epochs.
+ * It leads finalize and execute: with a committee threshold above one, the other selected operators
+ * run consensusPeer.ts and are listed in CONSENSUS_PEERS.
+ *
+ * Usage: ts-node operator/epochOrchestrator.ts [--chain <name|id>] [--schedule "<cron>"|off] [--config <file>]
+ */
+
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { closeEpoch, finalizeEpoch } from "./closeAndFinalizeEpoch";
+import { executeEpoch, ChainExecution } from "./executeAggregatedStrategies";
+import { startEpoch, getEpochParams } from "./setupAndStartEpoch";
+import { ChainContext, connectChain, resolveChain } from "./utils/chainContext";
+import { CronSchedule, parseCron, nextCronTime } from "./utils/cronSchedule";
+import { BlockCursor } from "./utils/blockCursor";
+import { startPolling } from "./utils/workQueue";
+import { counter, gauge } from "./utils/metrics";
+import { startStatusServer, HealthReport } from "./utils/statusServer";
+import { getConsensusConfig } from "./utils/consensus";
+import { parseArgs, stringOption } from "./cli/args";
+const fs = require('fs');
+const path = require('path');
+dotenv.config();
+
+const STATE_DIR = path.resolve(__dirname, 'data/orchestrator');
+const EPOCH_STATES = ['OPEN', 'CLOSED', 'FINALIZED', 'EXECUTED'];
+const WATCHED_EVENTS = ['EpochStarted', 'APYReported', 'EpochClosed', 'EpochFinalized', 'EpochExecuted'];
+
+type Stage = 'start' | 'close' | 'finalize' | 'execute';
+
+type Phase =
+    | 'idle'                // No schedule: waiting for an epoch to be started by hand
+    | 'waiting-schedule'
+    | 'submissions-open'
+    | 'waiting-reports'
+    | 'waiting-decryption'
+    | 'stuck';
+
+// Per-epoch progress, persisted so restarts don't repeat transitions or reset timeouts
+interface EpochProgress {
+    closedAt?: number;                   // Unix seconds (from EpochClosed)
+    finalizedAt?: number;
+    executedAt?: number;
+    executions?: ChainExecution[];
+    attempts: { [stage: string]: number };
+    stuck?: Stage;                       // Stage given up on, until the epoch moves past it
+    lastError?: string;
+}
+
+interface OrchestratorState {
+    epochs: { [epochNumber: string]: EpochProgress };
+    updatedAt: number;
+}
+
+// Settings (see README "Epoch Orchestrator")
+const pollIntervalMs = Number(process.env.ORCHESTRATOR_POLL_MS || 15000);
+const reportTimeoutSeconds = Number(process.env.ORCHESTRATOR_REPORT_TIMEOUT_MINUTES || 30) * 60;
+const decryptTimeoutSeconds = Number(process.env.ORCHESTRATOR_DECRYPT_TIMEOUT_MINUTES || 30) * 60;
+const maxAttempts = Number(process.env.ORCHESTRATOR_MAX_ATTEMPTS || 3);
+
+const transitions = counter('arena_orchestrator_transitions_total', 'Epoch transitions attempted by the orchestrator, by stage and result');
+const stuckGauge = gauge('arena_orchestrator_stuck', '1 while the orchestrator waits for a stuck stage to be fixed by hand');
+
+let ctx: ChainContext;
+let options: { [name: string]: string | boolean };
+let schedule: CronSchedule | null;
+let cursor: BlockCursor;
+let stateFile: string;
+let state: OrchestratorState;
+
+const startedAt = Date.now();
+let phase: Phase = 'idle';
+let currentEpoch: { epochNumber: number; state: string } | null = null;
+let nextStartAt: Date | null = null;
+let reports: { submitted: number; reported: number; decrypted?: number } | null = null;
+let lastTickAt: number | null = null;
+let lastTickError: string | undefined;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function loadState(): OrchestratorState {
+    try {
+        if (fs.existsSync(stateFile)) {
+            return JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+        }
+    } catch (error) {
+        console.error("⚠️ Error loading orchestrator state, starting fresh:", error);
+    }
+    return { epochs: {}, updatedAt: Date.now() };
+}
+
+/**
+ * Write the state atomically (temp file + rename)
+ */
+function saveState(): void {
+    state.updatedAt = Date.now();
+    if (!fs.existsSync(STATE_DIR)) {
+        fs.mkdirSync(STATE_DIR, { recursive: true });
+    }
+    const tmpPath = `${stateFile}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+    fs.renameSync(tmpPath, stateFile);
+}
+
+function getProgress(epochNumber: bigint | number): EpochProgress {
+    const key = epochNumber.toString();
+    state.epochs[key] ??= { attempts: {} };
+    return state.epochs[key];
+}
+
+/**
+ * Run one transition. Failures are retried on later ticks; after ORCHESTRATOR_MAX_ATTEMPTS
+ * (or the first failure for stages that must not be repeated) the stage is marked stuck.
+ */
+async function runStage(
+    epochNumber: bigint,
+    stage: Stage,
+    transition: () => Promise<void>,
+    retryable: boolean = true
+): Promise<void> {
+    const progress = getProgress(epochNumber);
+    progress.attempts[stage] = (progress.attempts[stage] ?? 0) + 1;
+    saveState();
+
+    console.log(`\n⚙️ Epoch ${epochNumber}: ${stage} (attempt ${progress.attempts[stage]})`);
+    try {
+        await transition();
+        progress.lastError = undefined;
+        transitions.inc({ stage, result: 'ok' });
+    } catch (error: any) {
+        progress.lastError = error?.shortMessage || error?.message || String(error);
+        transitions.inc({ stage, result: 'failed' });
+        console.error(`❌ Epoch ${epochNumber}: ${stage} failed: ${progress.lastError}`);
+
+        if (!retryable || progress.attempts[stage] >= maxAttempts) {
+            progress.stuck = stage;
+            console.error(
+                `🛑 Epoch ${epochNumber}: giving up on ${stage}. Fix it by hand (arena epoch ${stage} ${epochNumber}); ` +
+                `the orchestrator resumes once the epoch moves on`
+            );
+        }
+    }
+    saveState();
+}
+
+/**
+ * Submitted strategies and how many have an APY reported on-chain
+ */
+async function getReportProgress(epochNumber: bigint): Promise<{ submitters: string[]; unreported: string[] }> {
+    const { tradeManager } = ctx;
+    const submitters: string[] = [];
+    try {
+        while (true) {
+            submitters.push(await tradeManager.epochSubmitters(epochNumber, submitters.length));
+        }
+    } catch {
+        // Exhausted submissions
+    }
+
+    const unreported: string[] = [];
+    for (const submitter of submitters) {
+        if (BigInt(await tradeManager.getEncryptedAPY(epochNumber, submitter)) === 0n) {
+            unreported.push(submitter);
+        }
+    }
+    return { submitters, unreported };
+}
+
+/**
+ * OPEN: close once the submission period is over and all APYs are reported (or the wait times out)
+ */
+async function driveOpenEpoch(epochNumber: bigint, epochEndTime: number): Promise<void> {
+    if (now() < epochEndTime) {
+        phase = 'submissions-open';
+        return;
+    }
+
+    const { submitters, unreported } = await getReportProgress(epochNumber);
+    reports = { submitted: submitters.length, reported: submitters.length - unreported.length };
+
+    if (unreported.length > 0) {
+        const waited = now() - epochEndTime;
+        if (waited < reportTimeoutSeconds) {
+            phase = 'waiting-reports';
+            console.log(
+                `⏳ Epoch ${epochNumber}: ${reports.reported}/${reports.submitted} APYs reported, ` +
+                `waiting (${Math.floor((reportTimeoutSeconds - waited) / 60)} min left)`
+            );
+            return;
+        }
+        console.log(`⚠️ Epoch ${epochNumber}: report timeout, closing without APYs for ${unreported.join(', ')}`);
+    }
+
+    await runStage(epochNumber, 'close', async () => {
+        const result = await closeEpoch(ctx, epochNumber);
+        getProgress(epochNumber).closedAt ??= now();
+        console.log(`✅ Epoch ${epochNumber} closed (tx ${result.txHash ?? 'none'})`);
+    });
+}
+
+/**
+ * CLOSED: finalize once the reported APYs and the sim window are decrypted (or the wait times out)
+ */
+async function driveClosedEpoch(epochNumber: bigint): Promise<void> {
+    const { tradeManager } = ctx;
+    const progress = getProgress(epochNumber);
+    if (progress.closedAt === undefined) {
+        // Closed by someone else before we saw the event: time out from now
+        progress.closedAt = now();
+        saveState();
+    }
+
+    const { submitters, unreported } = await getReportProgress(epochNumber);
+    const [traderResult, , decrypted] = await tradeManager.getDecryptedAPYs(epochNumber);
+    const [, , startDecrypted, endDecrypted] = await tradeManager.getDecryptedSimTimes(epochNumber);
+    const traders: string[] = [...traderResult];
+    const reported = traders.filter((trader) => !unreported.includes(trader));
+    const decryptedCount = traders.filter((trader, i) => decrypted[i] && reported.includes(trader)).length;
+    reports = { submitted: submitters.length, reported: reported.length, decrypted: decryptedCount };
+
+    const pending = decryptedCount < reported.length || !startDecrypted || !endDecrypted;
+    if (pending) {
+        const waited = now() - progress.closedAt!;
+        if (waited < decryptTimeoutSeconds) {
+            phase = 'waiting-decryption';
+            console.log(
+                `⏳ Epoch ${epochNumber}: ${decryptedCount}/${reported.length} APYs decrypted` +
+                `${startDecrypted && endDecrypted ? '' : ', sim window pending'}, waiting`
+            );
+            return;
+        }
+        console.log(`⚠️ Epoch ${epochNumber}: decryption timeout, finalizing with ${decryptedCount}/${reported.length} APYs decrypted`);
+    }
+
+    await runStage(epochNumber, 'finalize', async () => {
+        const result = await finalizeEpoch(ctx, epochNumber);
+        getProgress(epochNumber).finalizedAt ??= now();
+        console.log(`✅ Epoch ${epochNumber} finalized with ${result.winners.length} winner(s) (tx ${result.txHash})`);
+    });
+}
+
+/**
+ * FINALIZED: execute the winners once. Any execution sent counts as executed: retrying would
+ * repeat the chains that succeeded, so failed chains are left for manual recovery.
+ */
+async function driveFinalizedEpoch(epochNumber: bigint): Promise<void> {
+    await runStage(epochNumber, 'execute', async () => {
+        const result = await executeEpoch(ctx, epochNumber);
+        const progress = getProgress(epochNumber);
+        progress.executions = result.executions;
+
+        const failed = result.executions.filter((execution) => execution.error);
+        // An epoch without winners has nothing to execute and stays FINALIZED on-chain
+        if (result.executions.length === 0 || result.executions.some((execution) => execution.txHash)) {
+            progress.executedAt = now();
+        }
+        if (failed.length > 0) {
+            throw new Error(`execution failed on chain(s) ${failed.map((execution) => `${execution.chainId}: ${execution.error}`).join('; ')}`);
+        }
+        console.log(`✅ Epoch ${epochNumber} executed`);
+    }, false);
+}
+
+/**
+ * Start the next epoch at the first schedule slot after the previous epoch started
+ * (immediately if that slot passed while the previous epoch was still running)
+ */
+async function maybeStartNextEpoch(currentEpochNumber: bigint, previousStartTime: number | null): Promise<void> {
+    if (!schedule) {
+        phase = 'idle';
+        nextStartAt = null;
+        return;
+    }
+
+    const nextEpochNumber = currentEpochNumber + 1n;
+    if (getProgress(nextEpochNumber).stuck === 'start') {
+        phase = 'stuck';
+        return;
+    }
+
+    nextStartAt = nextCronTime(schedule, previousStartTime !== null ? new Date(previousStartTime * 1000) : new Date(startedAt));
+    if (Date.now() < nextStartAt.getTime()) {
+        phase = 'waiting-schedule';
+        return;
+    }
+
+    await runStage(nextEpochNumber, 'start', async () => {
+        // Re-read the config so edits apply to the next epoch without a restart
+        const result = await startEpoch(ctx, getEpochParams(options));
+        console.log(`✅ Epoch ${result.epochNumber} started, ends at ${result.endsAt}`);
+    });
+}
+
+/**
+ * Move the current epoch one step forward
+ */
+async function advance(): Promise<void> {
+    const { tradeManager } = ctx;
+    const epochNumber = BigInt(await tradeManager.currentEpochNumber());
+    reports = null;
+
+    if (epochNumber === 0n) {
+        currentEpoch = null;
+        await maybeStartNextEpoch(epochNumber, null);
+        return;
+    }
+
+    const epoch = await tradeManager.epochs(epochNumber);
+    const epochState = Number(epoch.state);
+    const progress = getProgress(epochNumber);
+    currentEpoch = { epochNumber: Number(epochNumber), state: EPOCH_STATES[epochState] ?? String(epochState) };
+
+    const stage: Stage | null = (['close', 'finalize', 'execute'] as Stage[])[epochState] ?? null;
+    if (progress.stuck && progress.stuck !== stage) {
+        // The epoch moved past the stuck stage (fixed by hand)
+        console.log(`✅ Epoch ${epochNumber}: ${progress.stuck} resolved, resuming`);
+        progress.stuck = undefined;
+        saveState();
+    }
+    const executed = epochState === 3 || progress.executedAt !== undefined;
+    if (progress.stuck && !executed) {
+        phase = 'stuck';
+        return;
+    }
+
+    if (epochState === 0) {
+        await driveOpenEpoch(epochNumber, Number(epoch.epochEndTime));
+    } else if (epochState === 1) {
+        await driveClosedEpoch(epochNumber);
+    } else if (!executed) {
+        await driveFinalizedEpoch(epochNumber);
+    } else {
+        await maybeStartNextEpoch(epochNumber, Number(epoch.epochStartTime));
+    }
+}
+
+/**
+ * Log lifecycle events and record the transition times they carry
+ */
+const handleEvent = async (log: ethers.Log) => {
+    const parsed = ctx.tradeManager.interface.parseLog({ topics: log.topics as string[], data: log.data });
+    if (!parsed) return;
+
+    const epochNumber = parsed.args.epochNumber as bigint;
+    const progress = getProgress(epochNumber);
+
+    switch (parsed.name) {
+        case 'EpochStarted':
+            console.log(`📣 Epoch ${epochNumber} started, ends at ${new Date(Number(parsed.args.epochEndTime) * 1000).toISOString()}`);
+            break;
+        case 'APYReported':
+            console.log(`📣 Epoch ${epochNumber}: APY reported for ${parsed.args.submitter}`);
+            return;
+        case 'EpochClosed':
+            console.log(`📣 Epoch ${epochNumber} closed with ${parsed.args.totalStrategies} strategies`);
+            progress.closedAt ??= Number(parsed.args.timestamp);
+            break;
+        case 'EpochFinalized':
+            console.log(`📣 Epoch ${epochNumber} finalized, winners: ${parsed.args.winners.join(', ') || 'none'}`);
+            progress.finalizedAt ??= now();
+            break;
+        case 'EpochExecuted':
+            console.log(`📣 Epoch ${epochNumber} executed`);
+            progress.executedAt ??= now();
+            break;
+    }
+    saveState();
+};
+
+const tick = async () => {
+    try {
+        const topics = WATCHED_EVENTS.map((name) => ctx.tradeManager.interface.getEvent(name)!.topicHash);
+        await cursor.sync(
+            (fromBlock, toBlock) => ctx.provider.getLogs({ address: ctx.tradeManagerAddress, topics: [topics], fromBlock, toBlock }),
+            handleEvent
+        );
+        await advance();
+        lastTickError = undefined;
+    } catch (error: any) {
+        lastTickError = error?.shortMessage || error?.message || String(error);
+        throw error;
+    } finally {
+        lastTickAt = Date.now();
+        stuckGauge.set(phase === 'stuck' ? 1 : 0);
+    }
+};
+
+/**
+ * Health report for /health: ticks are running and nothing is stuck
+ */
+const getHealth = async (): Promise<HealthReport> => {
+    const tickAgeMs = lastTickAt !== null ? Date.now() - lastTickAt : null;
+    return {
+        healthy: tickAgeMs !== null && tickAgeMs <= pollIntervalMs * 3 && !lastTickError && phase !== 'stuck',
+        phase,
+        lastTickAt: lastTickAt !== null ? new Date(lastTickAt).toISOString() : null,
+        lastTickError,
+        wallet: ctx.wallet.address,
+        uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000)
+    };
+};
+
+/**
+ * Orchestrator status for /status
+ */
+const getStatus = async () => ({
+    chainId: ctx.chainId,
+    tradeManager: ctx.tradeManagerAddress,
+    schedule: schedule?.expression ?? 'off',
+    phase,
+    epoch: currentEpoch,
+    reports,
+    nextStartAt: nextStartAt?.toISOString() ?? null,
+    progress: currentEpoch ? state.epochs[currentEpoch.epochNumber] ?? null : null
+});
+
+async function main() {
+    options = parseArgs(process.argv.slice(2)).options;
+    const scheduleExpression = stringOption(options, 'schedule') ?? process.env.ORCHESTRATOR_SCHEDULE ?? '@hourly';
+    schedule = scheduleExpression === 'off' ? null : parseCron(scheduleExpression);
+
+    // Fail fast on a bad epoch config rather than at the first scheduled start
+    if (schedule) {
+        getEpochParams(options);
+    }
+
+    ctx = await connectChain(resolveChain(stringOption(options, 'chain')));
+    const name = `orchestrator-${ctx.chainId}-${ctx.tradeManagerAddress.toLowerCase()}`;
+    stateFile = path.join(STATE_DIR, `${name}.json`);
+    state = loadState();
+    cursor = new BlockCursor(name, ctx.provider);
+
+    console.log(`\n🎼 Epoch Orchestrator (${ctx.chain.label})`);
+    console.log(`Wallet: ${ctx.wallet.address}`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}`);
+    console.log(`Schedule: ${schedule ? `${schedule.expression} (UTC)` : 'off (epochs are started by hand)'}`);
+
+    if (!(await ctx.tradeManager.isOperatorRegistered(ctx.wallet.address))) {
+        console.log("⚠️ Wallet is not a registered operator: close/finalize/execute will revert");
+    }
+    if (schedule && (await ctx.tradeManager.admin()).toLowerCase() !== ctx.wallet.address.toLowerCase()) {
+        console.log("⚠️ Wallet is not the TradeManager admin: starting epochs will fail");
+    }
+    const minAttestations = Number(await ctx.tradeManager.minAttestations());
+    const peers = getConsensusConfig().peers;
+    console.log(`Consensus: ${minAttestations} attestation(s), ${peers.length} peer(s)`);
+    if (peers.length < minAttestations - 1) {
+        console.log(`⚠️ Fewer peers than the ${minAttestations - 1} other attestation(s) needed: finalize/execute will time out`);
+    }
+
+    const port = Number(process.env.ORCHESTRATOR_STATUS_PORT ?? 9465);
+    if (port) {
+        startStatusServer({ port, host: process.env.STATUS_HOST, health: getHealth, status: getStatus });
+    }
+
+    try {
+        await tick();
+    } catch (error) {
+        console.error("Error in first orchestrator tick:", error);
+    }
+    startPolling("orchestrator", tick, pollIntervalMs);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
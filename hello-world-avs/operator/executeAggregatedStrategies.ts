@@ -2,21 +2,44 @@
  * Execute Aggregated Strategies - Reconstruct calldata and execute winning strategies
  *
  * This script:
- * 1. Reads finalized epoch winners from chain
+ * 1. Reads finalized epoch winners from chain, and re-ranks the epoch from the on-chain APYs
+ *    to verify them before signing anything
  * 2. Fetches their decrypted strategies from local database
- * 3. Aggregates similar DeFi calls (privacy-preserving)
+ * 3. Scales each winner's amounts from the simulation notional to its allocation
+ *    (utils/strategyScaling.ts), and aggregates the winners' calls: merges, nets and orders them (privacy-preserving)
  * 4. Reconstructs calldata using saved args + argTypes
- * 5. Gets operator consensus signatures
- * 6. Calls executeEpochTopStrategiesAggregated
+ * 5. Replays the aggregated calls on a fork of the target chain (utils/planSimulation.ts) and
+ *    refuses to sign a plan with a reverting call
+ * 6. Gets operator consensus signatures: the other selected operators rebuild the same calls
+ *    with prepareEpochExecution and sign them through their peer servers (utils/consensus.ts)
+ * 7. Calls executeEpochTopStrategiesAggregated
+ * 8. Matches StrategyExecutionFailed logs to the winners' calls and compares the vault's positions
+ *    with the simulation (utils/executionReconciliation.ts); failed calls are retried with
+ *    recoverEpochExecution.ts
  *
  * Usage: ts-node operator/executeAggregatedStrategies.ts <epochNumber>
  */
 
 import { ethers } from "ethers";
 import * as dotenv from "dotenv";
-import { getEpochData, getStrategy, StrategyNode, StrategyData } from "./epochDatabase";
+import { getEpochData, getStrategy, getStrategyNodes, markEpochExecuted, StrategyNode, AggregatedCalldata } from "./epochDatabase";
 import { FheTypes } from "./cofheUtils";
-import { mapAddressForChain, getTradeManagerForChain, CHAIN_IDS } from "./utils/chainAddressMapping";
+import { mapAddressForChain, getTradeManagerForChain } from "./utils/chainAddressMapping";
+import { ChainContext, connectChain } from "./utils/chainContext";
+import { getEpochWinners } from "./utils/epochArchive";
+import { getEpochWeights } from "./utils/epochEvents";
+import { verifyEpochWinners, logMismatches } from "./utils/epochRanking";
+import { aggregateCalls, logAggregationReport } from "./utils/callAggregation";
+import { WinnerScaling, scaleWinnerNodes, logScaling } from "./utils/strategyScaling";
+import {
+    UnfilledWeightPolicy,
+    computeAllocations,
+    describeUnfilledWeightPolicy,
+    parseUnfilledWeightPolicy
+} from "./utils/allocation";
+import { ExecutionReconciliation, decodeExecutionFailures, logReconciliation, reconcileExecution } from "./utils/executionReconciliation";
+import { PlanSimulation, assertPlanSucceeds, logPlanSimulation, simulatePlan } from "./utils/planSimulation";
+import { attest, collectAttestations, consensusTopic, executeDigest, publishAttestation } from "./utils/consensus";
 import { initializeNexus, getNexusSdk, deinitializeNexus } from "./nexus";
 import { ExecuteParams } from "@avail-project/nexus-core";
 const fs = require('fs');
@@ -27,8 +50,36 @@ const tradeManagerABI = JSON.parse(
     fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
 );
 
-const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+export interface ChainExecution {
+    chainId: number;
+    via: 'direct' | 'nexus';
+    calls: number;
+    attestations?: number;     // Operator signatures submitted
+    simulation?: PlanSimulation; // Fork replay of the calls, before signing
+    reconciliation?: ExecutionReconciliation; // Failed calls and vault positions, after a direct execution
+    txHash?: string;
+    gasEstimate?: string;      // Dry run of a direct execution only
+    error?: string;
+}
+
+export interface WinnerAllocation {
+    trader: string;
+    allocation: string;        // Capital allocated by finalizeEpoch, token base units
+}
+
+export interface ExecuteEpochResult {
+    epochNumber: number;
+    winners: string[];
+    policy: UnfilledWeightPolicy;
+    allocations: WinnerAllocation[];
+    unallocated: string;       // Capital not allocated to winners, token base units
+    scaling: WinnerScaling[];  // Original vs scaled amounts, per winner
+    executions: ChainExecution[];
+}
+
+export interface EpochExecutionPlan extends Omit<ExecuteEpochResult, 'executions'> {
+    payloads: Map<number, AggregatedCalldata>;  // Aggregated calls by target chain ID
+}
 
 /**
  * Dynamically reconstruct calldata based on argument types (utype)
@@ -143,84 +194,95 @@ function remapNodeForChain(node: StrategyNode, targetChainId: number): StrategyN
 }
 
 /**
- * Aggregate strategies to combine similar calls
+ * Aggregate the winners' calls into one plan (see utils/callAggregation.ts)
  * For privacy: don't expose individual strategies, only aggregated calls
  */
-function aggregateStrategies(winnerNodes: StrategyNode[][]): {
-    encoders: string[];
-    targets: string[];
-    calldatas: string[];
-} {
+function aggregateStrategies(strategies: { winner: string; nodes: StrategyNode[] }[]): AggregatedCalldata {
     console.log("\n📊 Aggregating strategies...");
 
-    const aggregated: {
-        encoder: string;
-        target: string;
-        calldata: string;
-    }[] = [];
-
-    // For now, simple aggregation: just collect all unique calls
-    // TODO: In production, combine similar calls (e.g., multiple Aave supply → one big supply)
-    for (const nodes of winnerNodes) {
-        for (const node of nodes) {
-            const calldata = reconstructCalldata(node.selector, node.args, node.argTypes);
-
-            aggregated.push({
-                encoder: normalizeAddress(node.encoder),
-                target: normalizeAddress(node.target),
-                calldata
-            });
-        }
-    }
+    const { calls, report } = aggregateCalls(strategies.map((strategy) => strategy.nodes));
+    logAggregationReport(report);
+
+    const aggregated = calls.map((call) => {
+        console.log(`  ${call.label} (${call.sources} call${call.sources === 1 ? '' : 's'})`);
+        return {
+            encoder: normalizeAddress(call.encoder),
+            target: normalizeAddress(call.target),
+            calldata: reconstructCalldata(call.selector, call.args, call.argTypes),
+            origins: call.origins.map(({ strategy, node }) => ({ winner: strategies[strategy].winner, node }))
+        };
+    });
 
     console.log(`  Total aggregated calls: ${aggregated.length}`);
 
     return {
         encoders: aggregated.map(a => a.encoder),
         targets: aggregated.map(a => a.target),
-        calldatas: aggregated.map(a => a.calldata)
+        calldatas: aggregated.map(a => a.calldata),
+        origins: aggregated.map(a => a.origins)
     };
 }
 
 /**
- * Create operator signature for consensus
+ * TradeManager that executes an epoch's plan on a target chain
+ */
+export function getTargetTradeManager(ctx: ChainContext, targetChainId: number): string {
+    return targetChainId === ctx.chainId ? ctx.tradeManagerAddress : getTradeManagerForChain(targetChainId);
+}
+
+/**
+ * Sign an aggregated payload under a consensus topic (execute, recover or unwind) for the epoch's
+ * execution number executionCount on the target chain, and collect the other selected operators'
+ * signatures over it. Signers are checked against this chain's committee for the epoch; the target
+ * chain's TradeManager checks them again against its own.
  */
-async function createOperatorSignature(
+export async function collectPlanSignatures(
+    ctx: ChainContext,
     epochNumber: bigint,
-    encoders: string[],
-    targets: string[],
-    calldatas: string[]
-): Promise<string> {
-    // Create hash of the data (same as contract verification)
-    const dataHash = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-            ['uint256', 'address[]', 'address[]', 'bytes[]'],
-            [epochNumber, encoders, targets, calldatas]
-        )
+    topic: string,
+    aggregated: AggregatedCalldata,
+    executionCount: bigint,
+    targetChainId: number = ctx.chainId
+): Promise<string[]> {
+    const { wallet, tradeManager } = ctx;
+    const digest = executeDigest(
+        targetChainId,
+        getTargetTradeManager(ctx, targetChainId),
+        epochNumber,
+        executionCount,
+        aggregated.encoders,
+        aggregated.targets,
+        aggregated.calldatas
     );
-
-    // Sign with EIP-191 prefix (eth_sign format)
-    const signature = await wallet.signMessage(ethers.getBytes(dataHash));
-
-    console.log(`  Signature created: ${signature.slice(0, 20)}...`);
-    return signature;
+    const own = await attest(wallet, topic, digest);
+    publishAttestation(own);
+
+    return collectAttestations({
+        topic,
+        digest,
+        own,
+        operators: [...await tradeManager.getSelectedOperators(epochNumber)],
+        threshold: Number(await tradeManager.minAttestations())
+    });
 }
 
-async function main() {
-    const epochNumber = process.argv[2] ? BigInt(process.argv[2]) : null;
-
-    if (!epochNumber) {
-        console.error("Usage: ts-node operator/executeAggregatedStrategies.ts <epochNumber>");
-        process.exit(1);
+/**
+ * Replay a target chain's aggregated calls on a fork from its TradeManager and log the result.
+ * Callers refuse to sign the plan unless assertPlanSucceeds passes.
+ */
+export async function simulateExecutionPlan(
+    ctx: ChainContext,
+    targetChainId: number,
+    aggregated: AggregatedCalldata
+): Promise<PlanSimulation | undefined> {
+    const simulation = await simulatePlan(targetChainId, getTargetTradeManager(ctx, targetChainId), aggregated);
+    if (simulation) {
+        logPlanSimulation(simulation);
     }
+    return simulation;
+}
 
-    console.log(`\n🚀 Execute Aggregated Strategies\n`);
-    console.log(`Operator: ${wallet.address}`);
-    console.log(`Epoch Number: ${epochNumber}\n`);
-
-    await initializeNexus(wallet, { network: 'testnet', debug: false });
-    console.log('Nexus SDK initialized successfully with operator wallet:', wallet.address);
-
+async function logUnifiedBalances(): Promise<void> {
     try {
         const nexusSdk = getNexusSdk();
         const unified = await nexusSdk.getUnifiedBalances();
@@ -243,26 +305,97 @@ async function main() {
     } catch (balanceError) {
         console.error('Failed to fetch unified balances summary:', balanceError);
     }
+}
 
+async function executeCrossChainViaNexus(
+    epoch: bigint,
+    targetChainId: number,
+    aggregated: AggregatedCalldata,
+    signatures: string[],
+): Promise<string | undefined> {
+    const tradeManagerAddress = getTradeManagerForChain(targetChainId);
+    const sdk = getNexusSdk();
 
-    // Get chain ID
-    const chainId = Number((await provider.getNetwork()).chainId);
-    console.log(`Chain ID: ${chainId}`);
+    try {
+        console.log(`  → Dispatching executeEpochTopStrategiesAggregated to ${tradeManagerAddress} on chain ${targetChainId}`);
+        const result = await sdk.execute({
+            toChainId: targetChainId,
+            contractAddress: tradeManagerAddress,
+            contractAbi: tradeManagerABI,
+            functionName: 'executeEpochTopStrategiesAggregated',
+            buildFunctionParams: () => ({
+                functionParams: [
+                    epoch,
+                    aggregated.encoders,
+                    aggregated.targets,
+                    aggregated.calldatas,
+                    signatures,
+                ],
+            }),
+            waitForReceipt: true,
+            requiredConfirmations: 1,
+        } as ExecuteParams);
+
+        const txHash: string | undefined = result.receipt?.transactionHash;
+        if (txHash) {
+            console.log(`  ✅ Cross-chain execution included in tx ${txHash}`);
+            console.log(`Nexus execution submitted for Chain ${targetChainId}`);
+        } else {
+            console.log('  ⚠️ Cross-chain execution dispatched; receipt unavailable (check Nexus dashboard).');
+        }
 
-    // Load TradeManager deployment
-    const avsDeploymentData = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, `../contracts/deployments/trade-manager/${chainId}.json`), 'utf8')
-    );
-    const tradeManagerAddress = avsDeploymentData.addresses.tradeManager || avsDeploymentData.addresses.TradeManager;
+        markEpochExecuted(Number(epoch), targetChainId, { ...aggregated, ...(txHash ? { txHash } : {}) });
+        return txHash;
+    } catch (error: any) {
+        console.error(`  ❌ Nexus execution failed for chain ${targetChainId}: ${error?.message ?? error}`);
+        throw error;
+    }
+}
 
-    console.log(`TradeManager: ${tradeManagerAddress}\n`);
+/**
+ * Check the winners' on-chain allocations against the epoch's weights and unfilled weight policy
+ */
+async function verifyAllocations(
+    tradeManager: ethers.Contract,
+    epochNumber: bigint,
+    allocatedCapital: bigint,
+    winners: { trader: string; allocation: string }[]
+): Promise<{ policy: UnfilledWeightPolicy; unallocated: bigint }> {
+    const policy = parseUnfilledWeightPolicy(await tradeManager.epochUnfilledWeightPolicy(epochNumber));
+    const unallocated: bigint = await tradeManager.epochUnallocatedCapital(epochNumber);
+
+    const weights = await getEpochWeights(tradeManager, epochNumber);
+    if (weights.length === 0) {
+        throw new Error(`EpochStarted event not found for epoch ${epochNumber}`);
+    }
+    const expected = computeAllocations(allocatedCapital, weights, winners.length, policy);
 
-    // Load full ABI
-    const tradeManagerABI = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
-    );
+    winners.forEach((winner, i) => {
+        if (BigInt(winner.allocation) !== expected.allocations[i]) {
+            throw new Error(
+                `Allocation of winner ${i + 1} (${winner.trader}) is ${winner.allocation}, expected ${expected.allocations[i]} ` +
+                `for weights [${weights.join(", ")}] under the ${policy} policy`
+            );
+        }
+    });
+    if (unallocated !== expected.unallocated) {
+        throw new Error(`Unallocated capital is ${unallocated}, expected ${expected.unallocated} under the ${policy} policy`);
+    }
 
-    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet);
+    console.log(`  ✅ Allocations match weights [${weights.join(", ")}] (unfilled weight ${describeUnfilledWeightPolicy(policy)})`);
+    if (unallocated > 0n) {
+        console.log(`  Unallocated: ${ethers.formatUnits(unallocated, 6)} USDC`);
+    }
+    return { policy, unallocated };
+}
+
+/**
+ * Steps 1-3 for a FINALIZED epoch: verify its winners and allocations, and aggregate the winners'
+ * decrypted nodes per target chain. Every selected operator builds the same plan from the chain
+ * and its own database, which is what it signs.
+ */
+export async function prepareEpochExecution(ctx: ChainContext, epochNumber: bigint): Promise<EpochExecutionPlan> {
+    const { chainId, tradeManager } = ctx;
 
     // ============================================================
     // STEP 1: Check epoch state
@@ -274,9 +407,7 @@ async function main() {
     console.log(`  Epoch State: ${epochState} (0=OPEN, 1=CLOSED, 2=FINALIZED, 3=EXECUTED)`);
 
     if (epochState !== 2) {
-        console.error(`\n❌ Epoch is not FINALIZED (state=${epochState})`);
-        console.error(`   Run closeAndFinalizeEpoch.ts first`);
-        process.exit(1);
+        throw new Error(`Epoch is not FINALIZED (state=${epochState}); run closeAndFinalizeEpoch.ts first`);
     }
 
     console.log("  ✅ Epoch is FINALIZED");
@@ -286,171 +417,212 @@ async function main() {
     // ============================================================
     console.log("\nStep 2: Fetching winners from chain...");
 
-    let winners: string[] = [];
-    let idx = 0;
-    try {
-        while (true) {
-            const winner = await tradeManager.epochWinners(epochNumber, idx);
-            winners.push(winner.trader);
-            console.log(`    Winner ${idx + 1}: ${winner.trader} (APY: ${winner.decryptedAPY} bps)`);
-            idx++;
-        }
-    } catch {
-        // Index out of bounds
-    }
+    const onChainWinners = await getEpochWinners(tradeManager, Number(epochNumber));
+    onChainWinners.forEach((winner, idx) => {
+        console.log(
+            `    Winner ${idx + 1}: ${winner.trader} (APY: ${winner.apyBps} bps, ${ethers.formatUnits(winner.allocation, 6)} USDC)`
+        );
+    });
+    const winners = onChainWinners.map((winner) => winner.trader);
+    console.log(`  Found ${winners.length} winners`);
+
+    const { policy, unallocated } = await verifyAllocations(tradeManager, epochNumber, epochData.allocatedCapital, onChainWinners);
+    const summary = {
+        epochNumber: Number(epochNumber),
+        winners,
+        policy,
+        allocations: onChainWinners.map(({ trader, allocation }) => ({ trader, allocation })),
+        unallocated: unallocated.toString(),
+        scaling: [] as WinnerScaling[]
+    };
 
     if (winners.length === 0) {
-        console.error("\n❌ No winners found");
-        process.exit(1);
+        console.log(`  ℹ️ No winners, nothing to execute (${ethers.formatUnits(unallocated, 6)} USDC ${describeUnfilledWeightPolicy(policy)})`);
+        return { ...summary, payloads: new Map() };
     }
 
-    console.log(`  Found ${winners.length} winners`);
+    // Independently re-rank the epoch: never sign for a winner list this operator can't reproduce
+    console.log("\n  Verifying winners against the on-chain APYs...");
+    const verification = await verifyEpochWinners(ctx, epochNumber);
+    logMismatches(verification.mismatches);
+    if (!verification.verified) {
+        throw new Error(`Winner list does not match this operator's ranking: ${verification.differences.join("; ")}`);
+    }
+    console.log("  ✅ Winners verified");
 
     // ============================================================
     // STEP 3: Fetch strategies from local database
     // ============================================================
     console.log("\nStep 3: Fetching strategies from local database...");
 
-    const localEpochData = getEpochData(Number(epochNumber));
-
-    if (!localEpochData) {
-        console.error("\n❌ Epoch not found in local database");
-        console.error("   Make sure operator has processed strategies");
-        process.exit(1);
+    if (!getEpochData(Number(epochNumber))) {
+        throw new Error("Epoch not found in local database; make sure the operator has processed strategies");
     }
 
-    const baseStrategyNodes: StrategyNode[][] = [];
-    const crossChainStrategies = new Map<number, StrategyNode[][]>();
+    const baseStrategyNodes: { winner: string; nodes: StrategyNode[] }[] = [];
+    const crossChainStrategies = new Map<number, { winner: string; nodes: StrategyNode[] }[]>();
 
-    for (const winner of winners) {
+    const notional: bigint = epochData.notionalPerTrader;
+    for (const [i, winner] of winners.entries()) {
         const strategy = getStrategy(Number(epochNumber), winner);
 
         if (!strategy) {
-            console.error(`\n❌ Strategy not found for ${winner}`);
-            process.exit(1);
+            throw new Error(`Strategy not found for ${winner}`);
+        }
+
+        // Decrypted nodes are sealed at rest and only opened in memory here
+        const decryptedNodes = getStrategyNodes(Number(epochNumber), winner);
+        if (decryptedNodes.length === 0) {
+            throw new Error(`No decrypted nodes for ${winner} (not processed yet, or purged)`);
         }
 
         const targetChainId = strategy.targetChainId ?? chainId;
-        console.log(`    - ${winner}: ${strategy.nodes.length} nodes (target chain ${targetChainId})`);
+        console.log(`    - ${winner}: ${decryptedNodes.length} nodes (target chain ${targetChainId})`);
+
+        // Simulated on notionalPerTrader, executed with the winner's allocation
+        const { nodes, scaling } = await scaleWinnerNodes(
+            ctx.provider,
+            winner,
+            decryptedNodes,
+            BigInt(onChainWinners[i].allocation),
+            notional
+        );
+        logScaling(scaling);
+        summary.scaling.push(scaling);
 
         const remappedNodes = targetChainId === chainId
-            ? strategy.nodes
-            : strategy.nodes.map((node) => remapNodeForChain(node, targetChainId));
+            ? nodes
+            : nodes.map((node) => remapNodeForChain(node, targetChainId));
 
         if (targetChainId === chainId) {
-            baseStrategyNodes.push(remappedNodes);
+            baseStrategyNodes.push({ winner, nodes: remappedNodes });
         } else {
             if (!crossChainStrategies.has(targetChainId)) {
                 crossChainStrategies.set(targetChainId, []);
             }
-            crossChainStrategies.get(targetChainId)!.push(remappedNodes);
+            crossChainStrategies.get(targetChainId)!.push({ winner, nodes: remappedNodes });
         }
     }
 
-    const baseAggregated = baseStrategyNodes.length > 0 ? aggregateStrategies(baseStrategyNodes) : null;
-    const crossAggregated = new Map<number, { encoders: string[]; targets: string[]; calldatas: string[] }>();
+    const payloads = new Map<number, AggregatedCalldata>();
+    if (baseStrategyNodes.length > 0) {
+        payloads.set(chainId, aggregateStrategies(baseStrategyNodes));
+    }
 
     for (const [targetChainId, nodes] of crossChainStrategies.entries()) {
         console.log(`\n[Cross-chain] Preparing ${nodes.length} strategy bundles for chain ${targetChainId}`);
-        crossAggregated.set(targetChainId, aggregateStrategies(nodes));
+        payloads.set(targetChainId, aggregateStrategies(nodes));
     }
 
-    async function executeCrossChainViaNexus(
-        epoch: bigint,
-        targetChainId: number,
-        aggregated: { encoders: string[]; targets: string[]; calldatas: string[] },
-        signature: string,
-    ): Promise<void> {
-        const tradeManagerAddress = getTradeManagerForChain(targetChainId);
-        const sdk = getNexusSdk();
+    return { ...summary, payloads };
+}
 
-        try {
-            console.log(`  → Dispatching executeEpochTopStrategiesAggregated to ${tradeManagerAddress} on chain ${targetChainId}`);
-            const result = await sdk.execute({
-                toChainId: targetChainId,
-                contractAddress: tradeManagerAddress,
-                contractAbi: tradeManagerABI,
-                functionName: 'executeEpochTopStrategiesAggregated',
-                buildFunctionParams: () => ({
-                    functionParams: [
-                        epoch,
-                        aggregated.encoders,
-                        aggregated.targets,
-                        aggregated.calldatas,
-                        [signature],
-                    ],
-                }),
-                waitForReceipt: true,
-                requiredConfirmations: 1,
-            } as ExecuteParams);
-
-            if (result.receipt) {
-                console.log(`  ✅ Cross-chain execution included in tx ${result.receipt.transactionHash}`);
-                console.log(`Nexus execution submitted for Chain ${targetChainId}`);
-            } else {
-                console.log('  ⚠️ Cross-chain execution dispatched; receipt unavailable (check Nexus dashboard).');
-            }
-        } catch (error: any) {
-            console.error(`  ❌ Nexus execution failed for chain ${targetChainId}: ${error?.message ?? error}`);
-            throw error;
-        }
+/**
+ * Execute a FINALIZED epoch's winning strategies: aggregate their decrypted nodes per target
+ * chain, collect the committee's signatures, and execute on this chain directly and on other
+ * chains via Nexus. Every plan is replayed on a fork first, and not signed if a call would revert.
+ * A dry run builds and signs the calldata and simulates the direct execution only.
+ */
+export async function executeEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: { dryRun?: boolean } = {}
+): Promise<ExecuteEpochResult> {
+    const { wallet, chainId, tradeManager, txSender } = ctx;
+
+    if (!options.dryRun) {
+        await initializeNexus(wallet, { network: 'testnet', debug: false });
+        console.log('Nexus SDK initialized successfully with operator wallet:', wallet.address);
+        await logUnifiedBalances();
     }
 
-    if (baseAggregated) {
-        console.log("\nStep 5: Creating operator signature...");
-        const baseSignature = await createOperatorSignature(
-            epochNumber,
-            baseAggregated.encoders,
-            baseAggregated.targets,
-            baseAggregated.calldatas
-        );
+    const { payloads, ...summary } = await prepareEpochExecution(ctx, epochNumber);
+    const baseAggregated = payloads.get(chainId);
+    const executions: ChainExecution[] = [];
 
-        console.log("\nStep 6: Executing aggregated strategies on base chain...");
+    if (baseAggregated) {
+        const execution: ChainExecution = { chainId, via: 'direct', calls: baseAggregated.calldatas.length };
+        executions.push(execution);
 
         try {
-            const nonce = await provider.getTransactionCount(wallet.address);
-            const tx = await tradeManager.executeEpochTopStrategiesAggregated(
+            console.log("\nStep 4: Simulating aggregated calls...");
+            execution.simulation = await simulateExecutionPlan(ctx, chainId, baseAggregated);
+            if (execution.simulation) {
+                assertPlanSucceeds(execution.simulation);
+            }
+
+            console.log("\nStep 5: Collecting operator consensus...");
+            const signatures = await collectPlanSignatures(
+                ctx,
+                epochNumber,
+                consensusTopic('execute', chainId, epochNumber, chainId),
+                baseAggregated,
+                0n
+            );
+            execution.attestations = signatures.length;
+            const args = [
                 epochNumber,
                 baseAggregated.encoders,
                 baseAggregated.targets,
                 baseAggregated.calldatas,
-                [baseSignature],
-                {
-                    nonce,
-                    gasLimit: 5_000_000
+                signatures
+            ];
+
+            console.log("\nStep 6: Executing aggregated strategies on base chain...");
+            if (options.dryRun) {
+                const { gasEstimate } = await txSender.simulate(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+                execution.gasEstimate = gasEstimate.toString();
+                console.log(`  🧪 Dry run: execution would succeed (gas ${gasEstimate})`);
+            } else {
+                const result = await txSender.send(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+                execution.txHash = result.hash;
+
+                console.log(`  ✅ Confirmed in block ${result.blockNumber}`);
+                console.log(`  Gas used: ${result.gasUsed.toString()}`);
+
+                const executedEvent = result.events.find((e) => e.name === 'EpochExecuted');
+
+                if (executedEvent) {
+                    console.log(`\n📋 EpochExecuted Event:`);
+                    console.log(`  Epoch: ${executedEvent.args.epochNumber}`);
+                    const totalDeployedRaw = executedEvent.args.totalDeployed ?? 0n;
+                    const totalDeployed =
+                        typeof totalDeployedRaw === 'bigint'
+                            ? totalDeployedRaw
+                            : BigInt(totalDeployedRaw.toString());
+                    console.log(`  Capital Deployed: ${ethers.formatUnits(totalDeployed, 6)} USDC`);
                 }
-            );
 
-            console.log(`  TX: ${tx.hash}`);
-            console.log("  Waiting for confirmation...");
-
-            const receipt = await tx.wait();
-            console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
-            console.log(`  Gas used: ${receipt.gasUsed.toString()}`);
-
-            const executedEvent = receipt.logs
-                .map((log: any) => {
-                    try {
-                        return tradeManager.interface.parseLog(log);
-                    } catch {
-                        return null;
-                    }
-                })
-                .find((e: any) => e && e.name === 'EpochExecuted');
-
-            if (executedEvent) {
-                console.log(`\n📋 EpochExecuted Event:`);
-                console.log(`  Epoch: ${executedEvent.args.epochNumber}`);
-                const totalDeployedRaw = executedEvent.args.totalDeployed ?? 0n;
-                const totalDeployed =
-                    typeof totalDeployedRaw === 'bigint'
-                        ? totalDeployedRaw
-                        : BigInt(totalDeployedRaw.toString());
-                console.log(`  Capital Deployed: ${ethers.formatUnits(totalDeployed, 6)} USDC`);
-            }
+                // Starts the retention clock for purging decrypted strategies (purgeEpochDatabase.ts)
+                const failed = decodeExecutionFailures(result.events, baseAggregated);
+                markEpochExecuted(Number(epochNumber), chainId, {
+                    ...baseAggregated,
+                    txHash: result.hash,
+                    failed: failed.map((call) => call.index)
+                });
+
+                try {
+                    execution.reconciliation = await reconcileExecution(
+                        ctx.provider,
+                        baseAggregated,
+                        result.hash,
+                        failed,
+                        execution.simulation
+                    );
+                    logReconciliation(execution.reconciliation, baseAggregated.calldatas.length);
+                } catch (error: any) {
+                    console.log(`  ⚠️ Could not read the vault's positions: ${error.message}`);
+                }
 
-            console.log(`\n✅ Epoch ${epochNumber} executed successfully on base chain!`);
+                if (failed.length > 0) {
+                    console.log(`\n⚠️ Epoch ${epochNumber} executed on base chain with ${failed.length} failed call(s)`);
+                    console.log(`  Retry them with: npm run arena -- epoch recover ${epochNumber}`);
+                } else {
+                    console.log(`\n✅ Epoch ${epochNumber} executed successfully on base chain!`);
+                }
+            }
         } catch (error: any) {
+            execution.error = error.message;
             console.error(`\n❌ Failed to execute strategies on base chain: ${error.message}`);
             if (error.reason) {
                 console.error(`Reason: ${error.reason}`);
@@ -460,19 +632,76 @@ async function main() {
         console.log("\nNo base-chain strategies to execute locally.");
     }
 
-    for (const [targetChainId, aggregated] of crossAggregated.entries()) {
-        console.log(`\n🌐 Executing aggregated strategies on chain ${targetChainId} via Nexus...`);
-        const signature = await createOperatorSignature(
-            epochNumber,
-            aggregated.encoders,
-            aggregated.targets,
-            aggregated.calldatas
-        );
-        await executeCrossChainViaNexus(epochNumber, targetChainId, aggregated, signature);
+    for (const [targetChainId, aggregated] of payloads.entries()) {
+        if (targetChainId === chainId) {
+            continue;
+        }
+        const execution: ChainExecution = { chainId: targetChainId, via: 'nexus', calls: aggregated.calldatas.length };
+        executions.push(execution);
+
+        // A failure on one chain must not drop the chains already sent (or the ones left)
+        try {
+            console.log(`\n🧪 Simulating aggregated calls for chain ${targetChainId}...`);
+            execution.simulation = await simulateExecutionPlan(ctx, targetChainId, aggregated);
+            if (execution.simulation) {
+                assertPlanSucceeds(execution.simulation);
+            }
+
+            if (options.dryRun) {
+                console.log(`\n🧪 Dry run: would execute ${aggregated.calldatas.length} calls on chain ${targetChainId} via Nexus`);
+                continue;
+            }
+
+            console.log(`\n🌐 Executing aggregated strategies on chain ${targetChainId} via Nexus...`);
+            const signatures = await collectPlanSignatures(
+                ctx,
+                epochNumber,
+                consensusTopic('execute', chainId, epochNumber, targetChainId),
+                aggregated,
+                0n,
+                targetChainId
+            );
+            execution.attestations = signatures.length;
+            execution.txHash = await executeCrossChainViaNexus(epochNumber, targetChainId, aggregated, signatures);
+        } catch (error: any) {
+            execution.error = error.message;
+            console.error(`\n❌ Not executed on chain ${targetChainId}: ${error.message}`);
+        }
     }
+
+    return { ...summary, executions };
 }
 
-main().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-});
+async function main() {
+    const epochNumber = process.argv[2] ? BigInt(process.argv[2]) : null;
+
+    if (!epochNumber) {
+        console.error("Usage: ts-node operator/executeAggregatedStrategies.ts <epochNumber>");
+        process.exit(1);
+    }
+
+    const ctx = await connectChain();
+
+    console.log(`\n🚀 Execute Aggregated Strategies\n`);
+    console.log(`Operator: ${ctx.wallet.address}`);
+    console.log(`Epoch Number: ${epochNumber}\n`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}\n`);
+
+    try {
+        const result = await executeEpoch(ctx, epochNumber);
+        if (result.executions.some((execution) => execution.error)) {
+            process.exitCode = 1;
+        }
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}`);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -1,9 +1,30 @@
 import { ethers } from "ethers";
 import * as dotenv from "dotenv";
-import { initializeCofhe, batchDecrypt, batchEncrypt, FheTypes, CoFheItem, EncryptionInput } from "./cofheUtils";
-import { simulate, DecryptedNode } from "./utils/strategySimulator";
-import { getProtocolFunction, getFunctionFromSelector, initializeProtocolAddresses } from "./utils/protocolMapping";
-import { saveStrategy, StrategyNode } from "./epochDatabase";
+import { initializeCofhe, batchDecrypt, batchEncrypt, isCoFheInitialized, FheTypes, CoFheItem, EncryptionInput } from "./cofheUtils";
+import { simulateStrategy, DecryptedNode, InfeasiblePolicy, LiquidationPolicy } from "./utils/strategySimulator";
+import { computeScoreVector } from "./utils/scoring";
+import { encodeSignedAPY } from "./utils/apyEncoding";
+import { createRateSource, RateSource, SimWindow } from "./utils/rateSource";
+import { getProtocolFunction, getFunctionFromSelector, getCallFunction, initializeProtocolAddresses } from "./utils/protocolMapping";
+import {
+    saveStrategy,
+    saveDecryptedStrategy,
+    markStrategyPending,
+    markStrategyReported,
+    markStrategyFailed,
+    getStrategy,
+    getStrategyNodes,
+    hasStrategyNodes,
+    getEpochData,
+    StrategyData,
+    StrategyNode,
+    StrategyStatus
+} from "./epochDatabase";
+import { BlockCursor } from "./utils/blockCursor";
+import { WorkQueue, startPolling } from "./utils/workQueue";
+import { getTxSender } from "./utils/txSender";
+import { counter, gauge, addCollector } from "./utils/metrics";
+import { startStatusServer, HealthReport } from "./utils/statusServer";
 const fs = require('fs');
 const path = require('path');
 dotenv.config();
@@ -35,6 +56,16 @@ if (!Object.keys(process.env).length) {
 const provider = new ethers.JsonRpcProvider(process.env.RPC_URL, undefined, { staticNetwork: true });
 const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
 
+// Single sender (nonces, gas, fee bumps) for every transaction this operator sends
+const txSender = getTxSender(wallet);
+
+// Strategies are decrypted, simulated and reported concurrently, with retries
+const strategyQueue = new WorkQueue('strategies', {
+    concurrency: Number(process.env.STRATEGY_CONCURRENCY || 2),
+    maxAttempts: Number(process.env.STRATEGY_MAX_ATTEMPTS || 3),
+    backoffMs: Number(process.env.STRATEGY_RETRY_BACKOFF_MS || 5000)
+});
+
 console.log(`Using RPC: ${process.env.RPC_URL}`);
 console.log(`Operator Address: ${wallet.address}`);
 
@@ -48,6 +79,22 @@ let delegationManager: ethers.Contract;
 let tradeManager: ethers.Contract;
 let ecdsaRegistryContract: ethers.Contract;
 let avsDirectory: ethers.Contract;
+let rateSource: RateSource;
+let strategyCursor: BlockCursor | undefined;
+
+const startedAt = Date.now();
+
+// Operator metrics (served on /metrics together with decrypt and transaction metrics)
+const strategiesProcessed = counter('arena_strategies_processed_total', 'Strategies processed, by result (reported, skipped, failed)');
+const apyReports = counter('arena_apy_reports_total', 'APY report transactions, by result (sent, failed)');
+const lastProcessedBlockGauge = gauge('arena_last_processed_block', 'Last block fully processed by the strategy cursor');
+const headBlockGauge = gauge('arena_chain_head_block', 'Latest block reported by the RPC');
+const blocksBehindGauge = gauge('arena_blocks_behind', 'Blocks between the chain head and the last processed block');
+const cofheInitializedGauge = gauge('arena_cofhe_initialized', '1 when CoFHE.js is initialized');
+const queueJobsGauge = gauge('arena_strategy_queue_jobs', 'Strategy work queue jobs, by state');
+
+// Decrypted sim windows per epoch (decrypted once, reused for every strategy)
+const simWindowCache = new Map<string, Promise<SimWindow>>();
 
 // Get chain ID from provider
 async function getChainId(): Promise<number> {
@@ -63,6 +110,9 @@ async function initializeContracts() {
     // Initialize protocol addresses from mock deployment
     initializeProtocolAddresses(chainId);
 
+    // Historical rates used to simulate over the epoch's sim window
+    rateSource = createRateSource(chainId);
+
     const avsDeploymentData = JSON.parse(fs.readFileSync(path.resolve(__dirname, `../contracts/deployments/trade-manager/${chainId}.json`), 'utf8'));
     // Load core deployment data
     const coreDeploymentData = JSON.parse(fs.readFileSync(path.resolve(__dirname, `../contracts/deployments/core/${chainId}.json`), 'utf8'));
@@ -88,14 +138,11 @@ async function initializeContracts() {
 const registerOperator = async () => {
     // Registers as an Operator in EigenLayer.
     try {
-        const nonce = await wallet.getNonce();
-        const tx1 = await delegationManager.registerAsOperator(
+        await txSender.send(delegationManager, "registerAsOperator", [
             "0x0000000000000000000000000000000000000000", // initDelegationApprover
             0, // allocationDelay
-            "", // metadataURI
-            { nonce }
-        );
-        await tx1.wait();
+            "" // metadataURI
+        ]);
         console.log("Operator registered to Core EigenLayer contracts");
     } catch (error: any) {
         if (error.data === "0x77e56a06") {
@@ -136,13 +183,10 @@ const registerOperator = async () => {
 
         console.log("Registering Operator to AVS Registry contract");
 
-        const nonce2 = await wallet.getNonce();
-        const tx2 = await ecdsaRegistryContract.registerOperatorWithSignature(
+        await txSender.send(ecdsaRegistryContract, "registerOperatorWithSignature", [
             operatorSignatureWithSaltAndExpiry,
-            wallet.address,
-            { nonce: nonce2 }
-        );
-        await tx2.wait();
+            wallet.address
+        ]);
         console.log("Operator registered on AVS successfully");
     } catch (error: any) {
         if (error.data === "0x42ee68b5" || error.code === "BAD_DATA") {
@@ -159,9 +203,7 @@ const registerOperator = async () => {
             console.log("Operator already registered with TradeManager");
         } else {
             console.log("Registering operator with TradeManager...");
-            const nonce3 = await wallet.getNonce();
-            const tx3 = await tradeManager.registerOperator({ nonce: nonce3 });
-            await tx3.wait();
+            await txSender.send(tradeManager, "registerOperator");
             console.log("Operator successfully registered with TradeManager");
         }
 
@@ -183,321 +225,596 @@ interface StrategySubmission {
 }
 
 /**
- * Process a submitted strategy: decrypt, simulate, and report APY
+ * Get the epoch's simulation window.
+ * Uses the publicly revealed times once the epoch is closed, otherwise unseals
+ * encSimStartTime/encSimEndTime (selected operators are granted access in startEpoch).
  */
-const processStrategy = async (submission: StrategySubmission) => {
-    try {
-        console.log(`\n=== Processing Strategy ===`);
-        console.log(`Epoch: ${submission.epochNumber}`);
-        console.log(`Submitter: ${submission.submitter}`);
-        console.log(`Nodes: ${submission.nodeCount}`);
+const getSimWindow = (epochNumber: bigint): Promise<SimWindow> => {
+    // Cache the lookup itself so concurrent jobs unseal the window only once
+    const cacheKey = epochNumber.toString();
+    let cached = simWindowCache.get(cacheKey);
+    if (!cached) {
+        cached = loadSimWindow(epochNumber);
+        simWindowCache.set(cacheKey, cached);
+        cached.catch(() => simWindowCache.delete(cacheKey));
+    }
+    return cached;
+};
+
+const loadSimWindow = async (epochNumber: bigint): Promise<SimWindow> => {
+    let window: SimWindow | null = null;
 
-        // Step 1: Fetch strategy nodes from contract
-        const nodeCount = Number(submission.nodeCount);
-        const encryptedHandles: CoFheItem[] = [];
-        const nodeStructures: any[] = [];
+    try {
+        const [simStart, simEnd, startDecrypted, endDecrypted] = await tradeManager.getDecryptedSimTimes(epochNumber);
+        if (startDecrypted && endDecrypted) {
+            window = { startTime: Number(simStart), endTime: Number(simEnd) };
+        }
+    } catch {
+        // Not revealed yet - unseal below
+    }
 
-        for (let i = 0; i < nodeCount; i++) {
-            const node = await tradeManager.getStrategyNode(
-                submission.epochNumber,
-                submission.submitter,
-                i
-            );
+    if (!window) {
+        console.log(`Decrypting sim window for epoch ${epochNumber}...`);
+        const epoch = await tradeManager.epochs(epochNumber);
+        const [simStart, simEnd] = await batchDecrypt([
+            { ctHash: BigInt(epoch.encSimStartTime), securityZone: 0, utype: FheTypes.Uint64, signature: '0x' },
+            { ctHash: BigInt(epoch.encSimEndTime), securityZone: 0, utype: FheTypes.Uint64, signature: '0x' }
+        ]);
+        window = { startTime: Number(simStart), endTime: Number(simEnd) };
+    }
 
-            nodeStructures.push(node);
+    if (window.endTime <= window.startTime) {
+        throw new Error(`Invalid sim window for epoch ${epochNumber}: ${window.startTime} → ${window.endTime}`);
+    }
 
-            // Collect all handles for batch decryption
-            // encoder (address), target (address), selector (uint32), args (dynamic)
-            encryptedHandles.push({
-                ctHash: BigInt(node.encoderHandle),
-                securityZone: 0,
-                utype: FheTypes.Uint160,
-                signature: '0x'
-            });
-            encryptedHandles.push({
-                ctHash: BigInt(node.targetHandle),
-                securityZone: 0,
-                utype: FheTypes.Uint160,
-                signature: '0x'
-            });
-            encryptedHandles.push({
-                ctHash: BigInt(node.selectorHandle),
-                securityZone: 0,
-                utype: FheTypes.Uint32,
-                signature: '0x'
-            });
+    return window;
+};
 
-            // Add arg handles
-            for (const arg of node.argHandles) {
-                encryptedHandles.push({
-                    ctHash: BigInt(arg.handle),
-                    securityZone: 0,
-                    utype: arg.utype,
-                    signature: '0x'
-                });
-            }
+/**
+ * Convert a stored strategy node into the simulator's format
+ * (protocol/function from the selector, ERC20 approve included, args by position and semantic name)
+ */
+const toSimulationNode = (node: StrategyNode): DecryptedNode => {
+    const funcDetails = getCallFunction(node.selector);
+    const { protocol, functionName } = funcDetails ?? getProtocolFunction(node.target, node.selector);
+
+    const args: any = {};
+    node.args.forEach((value, j) => {
+        args[`arg${j}`] = value;
+        const argName = funcDetails?.argNames?.[j];
+        if (argName) {
+            args[argName] = value;
         }
+    });
+
+    return { protocol, functionName, target: node.target, args };
+};
+
+/**
+ * Decrypt a submitted strategy's nodes and target chain, and save them as decrypted
+ */
+const decryptStrategy = async (
+    submission: StrategySubmission
+): Promise<{ nodes: StrategyNode[]; targetChainId: number }> => {
+    // Step 1: Fetch strategy nodes from contract
+    const nodeCount = Number(submission.nodeCount);
+    const encryptedHandles: CoFheItem[] = [];
+    const nodeStructures: any[] = [];
+
+    for (let i = 0; i < nodeCount; i++) {
+        const node = await tradeManager.getStrategyNode(
+            submission.epochNumber,
+            submission.submitter,
+            i
+        );
 
-        if (submission.targetChainIdHandle && submission.targetChainIdHandle !== 0n) {
+        nodeStructures.push(node);
+
+        // Collect all handles for batch decryption
+        // encoder (address), target (address), selector (uint32), args (dynamic)
+        encryptedHandles.push({
+            ctHash: BigInt(node.encoderHandle),
+            securityZone: 0,
+            utype: FheTypes.Uint160,
+            signature: '0x'
+        });
+        encryptedHandles.push({
+            ctHash: BigInt(node.targetHandle),
+            securityZone: 0,
+            utype: FheTypes.Uint160,
+            signature: '0x'
+        });
+        encryptedHandles.push({
+            ctHash: BigInt(node.selectorHandle),
+            securityZone: 0,
+            utype: FheTypes.Uint32,
+            signature: '0x'
+        });
+
+        // Add arg handles
+        for (const arg of node.argHandles) {
             encryptedHandles.push({
-                ctHash: BigInt(submission.targetChainIdHandle),
+                ctHash: BigInt(arg.handle),
                 securityZone: 0,
-                utype: FheTypes.Uint32,
+                utype: arg.utype,
                 signature: '0x'
             });
         }
+    }
+
+    if (submission.targetChainIdHandle && submission.targetChainIdHandle !== 0n) {
+        encryptedHandles.push({
+            ctHash: BigInt(submission.targetChainIdHandle),
+            securityZone: 0,
+            utype: FheTypes.Uint32,
+            signature: '0x'
+        });
+    }
+
+    console.log(`\nBatch decrypting ${encryptedHandles.length} FHE values...`);
+
+    // Step 2: Batch decrypt all handles
+    const decryptedValues = await batchDecrypt(encryptedHandles);
+
+    // Step 3: Parse decrypted values into strategy nodes
+    const dbNodes: StrategyNode[] = [];
+    let valueIdx = 0;
+
+    for (let i = 0; i < nodeCount; i++) {
+        const node = nodeStructures[i];
+
+        // Parse encoder, target, selector using type-aware parsing
+        const encoder = parseDecryptedValue(decryptedValues[valueIdx++], FheTypes.Uint160) as string;
+        const target = parseDecryptedValue(decryptedValues[valueIdx++], FheTypes.Uint160) as string;
+        const selectorValue = decryptedValues[valueIdx++];
+        const selector = '0x' + selectorValue.toString(16).padStart(8, '0');
+
+        // Map protocol and function name from target address and selector
+        const funcInfo = getProtocolFunction(target, selector);
+        const { protocol, functionName } = funcInfo;
 
-        console.log(`\nBatch decrypting ${encryptedHandles.length} FHE values...`);
-
-        // Step 2: Batch decrypt all handles
-        const decryptedValues = await batchDecrypt(encryptedHandles);
-
-        // Step 3: Parse decrypted values into DecryptedNode format
-        const decryptedNodes: DecryptedNode[] = [];
-        const dbNodes: StrategyNode[] = []; // For database storage
-        let valueIdx = 0;
-
-        for (let i = 0; i < nodeCount; i++) {
-            const node = nodeStructures[i];
-
-            // Parse encoder, target, selector using type-aware parsing
-            const encoder = parseDecryptedValue(decryptedValues[valueIdx++], FheTypes.Uint160) as string;
-            const target = parseDecryptedValue(decryptedValues[valueIdx++], FheTypes.Uint160) as string;
-            const selectorValue = decryptedValues[valueIdx++];
-            const selector = '0x' + selectorValue.toString(16).padStart(8, '0');
-
-            // Map protocol and function name from target address and selector
-            const funcInfo = getProtocolFunction(target, selector);
-            const { protocol, functionName } = funcInfo;
-
-            // Parse args based on their utypes and map to semantic names
-            const args: any = {};
-            const dbArgs: any[] = []; // Raw args for database
-            const argTypes: number[] = []; // Arg types for database
-
-            for (let j = 0; j < node.argHandles.length; j++) {
-                const argValue = decryptedValues[valueIdx++];
-                const argType = node.argHandles[j].utype;
-                const parsedValue = parseDecryptedValue(argValue, argType);
-
-                // Store with both positional and semantic name
-                args[`arg${j}`] = parsedValue;
-
-                // Save for database (needed for calldata reconstruction)
-                dbArgs.push(parsedValue);
-                argTypes.push(argType);
-
-                // Get semantic name from protocolMapping if available
-                const funcDetails = getFunctionFromSelector(selector);
-                if (funcDetails && funcDetails.argNames && funcDetails.argNames[j]) {
-                    const argName = funcDetails.argNames[j];
-                    args[argName] = parsedValue;
-                    console.log(`    Arg[${j}] (${argName}): utype=${argType}, value=${parsedValue}`);
-                } else {
-                    console.log(`    Arg[${j}]: utype=${argType}, value=${parsedValue}`);
-                }
+        // Parse args based on their utypes
+        const dbArgs: any[] = []; // Raw args for database
+        const argTypes: number[] = []; // Arg types for database
+
+        for (let j = 0; j < node.argHandles.length; j++) {
+            const argValue = decryptedValues[valueIdx++];
+            const argType = node.argHandles[j].utype;
+            const parsedValue = parseDecryptedValue(argValue, argType);
+
+            // Save for database (needed for calldata reconstruction)
+            dbArgs.push(parsedValue);
+            argTypes.push(argType);
+
+            // Get semantic name from protocolMapping if available
+            const funcDetails = getFunctionFromSelector(selector);
+            if (funcDetails && funcDetails.argNames && funcDetails.argNames[j]) {
+                const argName = funcDetails.argNames[j];
+                console.log(`    Arg[${j}] (${argName}): utype=${argType}, value=${parsedValue}`);
+            } else {
+                console.log(`    Arg[${j}]: utype=${argType}, value=${parsedValue}`);
             }
+        }
 
-            console.log(`\nDecrypted Node ${i}:`);
-            console.log(`  Encoder: ${encoder}`);
-            console.log(`  Target: ${target}`);
-            console.log(`  Selector: ${selector}`);
-            console.log(`  Protocol: ${protocol}`);
-            console.log(`  Function: ${functionName}`);
-            console.log(`  Args:`, args);
-
-            // Add to simulation format
-            decryptedNodes.push({
-                protocol,
-                functionName,
-                target,
-                args
-            });
+        console.log(`\nDecrypted Node ${i}:`);
+        console.log(`  Encoder: ${encoder}`);
+        console.log(`  Target: ${target}`);
+        console.log(`  Selector: ${selector}`);
+        console.log(`  Protocol: ${protocol}`);
+        console.log(`  Function: ${functionName}`);
+
+        // Add to database format (for calldata reconstruction)
+        dbNodes.push({
+            encoder,
+            target,
+            selector,
+            args: dbArgs,
+            argTypes
+        });
+    }
 
-            // Add to database format (for calldata reconstruction)
-            dbNodes.push({
-                encoder,
-                target,
-                selector,
-                args: dbArgs,
-                argTypes
-            });
+    // Extract target chain id (appended at end of encryptedHandles)
+    const targetChainIdValue = Number(
+        parseDecryptedValue(
+            decryptedValues[valueIdx++],
+            FheTypes.Uint32
+        )
+    );
+    console.log(`\nTarget Chain ID (decrypted): ${targetChainIdValue}`);
+
+    saveDecryptedStrategy(
+        Number(submission.epochNumber),
+        submission.submitter,
+        dbNodes,
+        Number(submission.submittedAt),
+        targetChainIdValue
+    );
+    return { nodes: dbNodes, targetChainId: targetChainIdValue };
+};
+
+/**
+ * Simulate a decrypted strategy over the epoch's sim window and save its APY and scores
+ */
+const simulateAndSaveStrategy = async (
+    submission: StrategySubmission,
+    nodes: StrategyNode[],
+    targetChainId: number
+): Promise<number> => {
+    // Get epoch config for initial capital
+    const epoch = await tradeManager.epochs(submission.epochNumber);
+    const initialCapital = epoch.notionalPerTrader;
+    console.log(`\nInitial Capital (from epoch): ${initialCapital}`);
+
+    // Simulate strategy over the encrypted sim window and calculate APY
+    const simWindow = await getSimWindow(submission.epochNumber);
+    const simulation = simulateStrategy(chainId, nodes.map(toSimulationNode), initialCapital, {
+        window: simWindow,
+        rateSource,
+        infeasiblePolicy: (process.env.INFEASIBLE_STEP_POLICY as InfeasiblePolicy) || 'penalize',
+        liquidationPolicy: (process.env.LIQUIDATION_POLICY as LiquidationPolicy) || 'zero'
+    });
+    const simulatedAPY = simulation.apyBps;
+    const scores = computeScoreVector(simulation);
+    console.log(`Calculated APY: ${simulatedAPY / 100}% (${simulatedAPY} bps)`);
+    console.log(`Scores: sharpe=${scores.sharpe.toFixed(2)}, sortino=${scores.sortino.toFixed(2)}, maxDD=${scores.maxDrawdownBps} bps, leverage=${scores.leverage.toFixed(2)}x, concentration=${scores.concentrationBps} bps`);
+
+    // Save to local database for later use (signed APY in bps)
+    console.log("Saving strategy to local database...");
+    saveStrategy(
+        Number(submission.epochNumber),
+        submission.submitter,
+        nodes,
+        simulatedAPY,
+        Number(submission.submittedAt),
+        targetChainId,
+        scores
+    );
+
+    return simulatedAPY;
+};
+
+/**
+ * Encrypt a simulated APY and report it to TradeManager. Returns the transaction hash.
+ */
+const reportAPY = async (submission: StrategySubmission, simulatedAPY: number): Promise<string> => {
+    // Encrypt the offset-encoded APY using CoFHE.js (FHE integers are unsigned)
+    console.log("Encrypting APY...");
+    const apyInput: EncryptionInput[] = [{
+        value: encodeSignedAPY(simulatedAPY),
+        type: FheTypes.Uint32
+    }];
+
+    const encryptedAPYs = await batchEncrypt(
+        apyInput,
+        submission.submitter, // userAddress (trader who owns the APY)
+        tradeManagerAddress  // contractAddress
+    );
+
+    const encryptedAPY = encryptedAPYs[0];
+
+    // Report encrypted APY to TradeManager
+    console.log("Reporting encrypted APY to TradeManager...");
+    const result = await txSender.send(tradeManager, "reportEncryptedAPY", [
+        submission.epochNumber,
+        submission.submitter,
+        {
+            ctHash: encryptedAPY.ctHash,
+            securityZone: encryptedAPY.securityZone,
+            utype: encryptedAPY.utype,
+            signature: encryptedAPY.signature
         }
+    ]).catch((error) => {
+        apyReports.inc({ result: 'failed' });
+        throw error;
+    });
+    apyReports.inc({ result: 'sent' });
+    console.log(`APY report confirmed in block ${result.blockNumber}`);
+    return result.hash;
+};
 
-        // Extract target chain id (appended at end of encryptedHandles)
-        const targetChainIdValue = Number(
-            parseDecryptedValue(
-                decryptedValues[valueIdx++],
-                FheTypes.Uint32
-            )
-        );
-        console.log(`\nTarget Chain ID (decrypted): ${targetChainIdValue}`);
+/**
+ * Work out which stage to resume a strategy from, based on its saved status
+ */
+const getResumeStage = (record: StrategyData | null): StrategyStatus => {
+    const nextStage: { [status: string]: StrategyStatus } = {
+        pending: 'decrypted',
+        decrypted: 'simulated',
+        simulated: 'reported',
+        reported: 'reported'
+    };
+
+    if (!record) return 'decrypted';
+
+    // Failed strategies retry the failed stage; ones saved before status tracking were simulated
+    const stage = record.status === 'failed'
+        ? record.failedStage ?? 'decrypted'
+        : nextStage[record.status ?? 'simulated'];
+
+    // Without decrypted nodes there is nothing to resume from
+    return hasStrategyNodes(record) ? stage : 'decrypted';
+};
 
-        // Step 4: Get epoch config for initial capital
-        const epoch = await tradeManager.epochs(submission.epochNumber);
-        const initialCapital = epoch.notionalPerTrader;
-        console.log(`\nInitial Capital (from epoch): ${initialCapital}`);
+/**
+ * Process a submitted strategy: decrypt, simulate, and report APY
+ * Idempotent: skips strategies whose APY is already on-chain and resumes half-finished ones
+ * from the database instead of starting over. Throws on failure so the queue can retry.
+ */
+const processStrategy = async (submission: StrategySubmission) => {
+    const epochNumber = Number(submission.epochNumber);
+    const submitter = submission.submitter;
+    let stage: StrategyStatus = 'decrypted';
 
-        // Step 5: Simulate strategy and calculate APY
-        const simulatedAPY = simulate(chainId, decryptedNodes, initialCapital);
-        console.log(`Calculated APY: ${simulatedAPY / 100}% (${simulatedAPY} bps)`);
+    try {
+        console.log(`\n=== Processing Strategy ===`);
+        console.log(`Epoch: ${submission.epochNumber}`);
+        console.log(`Submitter: ${submitter}`);
+        console.log(`Nodes: ${submission.nodeCount}`);
 
-        // Clamp negative APYs to 0 (FHE doesn't support negative numbers)
-        const clampedAPY = Math.max(0, simulatedAPY);
-        if (simulatedAPY < 0) {
-            console.log(`⚠️ Negative APY detected (${simulatedAPY} bps), clamping to 0 for encryption and storage`);
+        // The contract is the source of truth for whether the APY was reported
+        const reportedHandle = BigInt(await tradeManager.getEncryptedAPY(submission.epochNumber, submitter));
+        const record = getStrategy(epochNumber, submitter);
+        if (reportedHandle !== 0n) {
+            console.log("✅ APY already reported on-chain, skipping");
+            if (record?.status !== 'reported') {
+                markStrategyReported(epochNumber, submitter);
+            }
+            strategiesProcessed.inc({ result: 'skipped' });
+            return;
+        }
+        if (record?.status === 'reported') {
+            console.log("⚠️ Database marks APY as reported but none is on-chain, reporting again");
         }
 
-        // Save to local database for later use (use clamped APY)
-        console.log("Saving strategy to local database...");
-        saveStrategy(
-            Number(submission.epochNumber),
-            submission.submitter,
-            dbNodes,
-            clampedAPY, // Save clamped APY, not negative one
-            Number(submission.submittedAt),
-            targetChainIdValue
-        );
+        markStrategyPending(epochNumber, submitter, Number(submission.submittedAt));
+        stage = getResumeStage(record);
+        if (record && stage !== 'decrypted') {
+            console.log(`↩️ Resuming from saved status "${record.status}" (next: ${stage})`);
+        }
 
-        // Encrypt the APY using CoFHE.js
-        console.log("Encrypting APY...");
-        const apyInput: EncryptionInput[] = [{
-            value: BigInt(clampedAPY),
-            type: FheTypes.Uint16
-        }];
-
-        const encryptedAPYs = await batchEncrypt(
-            apyInput,
-            submission.submitter, // userAddress (trader who owns the APY)
-            tradeManagerAddress  // contractAddress
-        );
+        let nodes: StrategyNode[] = [];
+        let targetChainId = record?.targetChainId ?? 0;
+        let simulatedAPY = record?.simulatedAPY ?? 0;
 
-        const encryptedAPY = encryptedAPYs[0];
+        if (stage === 'decrypted') {
+            ({ nodes, targetChainId } = await decryptStrategy(submission));
+            stage = 'simulated';
+        } else if (stage === 'simulated') {
+            // Resuming: open the sealed nodes saved by the decrypt stage
+            nodes = getStrategyNodes(epochNumber, submitter);
+        }
+        if (stage === 'simulated') {
+            simulatedAPY = await simulateAndSaveStrategy(submission, nodes, targetChainId);
+            stage = 'reported';
+        }
 
-        // Report encrypted APY to TradeManager
-        console.log("Reporting encrypted APY to TradeManager...");
-        const nonce = await wallet.getNonce();
-        const tx = await tradeManager.reportEncryptedAPY(
-            submission.epochNumber,
-            submission.submitter,
-            {
-                ctHash: encryptedAPY.ctHash,
-                securityZone: encryptedAPY.securityZone,
-                utype: encryptedAPY.utype,
-                signature: encryptedAPY.signature
-            },
-            { nonce }
-        );
+        const txHash = await reportAPY(submission, simulatedAPY);
+        markStrategyReported(epochNumber, submitter, txHash);
+        strategiesProcessed.inc({ result: 'reported' });
 
-        console.log(`APY report transaction: ${tx.hash}`);
-        const receipt = await tx.wait();
-        console.log(`APY report confirmed in block ${receipt.blockNumber}`);
+    } catch (error: any) {
+        console.error(`Error processing strategy for ${submitter}:`, error);
+        markStrategyFailed(epochNumber, submitter, stage, error?.shortMessage || error?.message || String(error));
+        strategiesProcessed.inc({ result: 'failed' });
+        throw error; // Let the work queue retry from the failed stage
+    }
+};
 
-    } catch (error) {
-        console.error(`Error processing strategy for ${submission.submitter}:`, error);
+/**
+ * Parse a StrategySubmitted log into a submission
+ */
+const parseSubmission = (log: ethers.Log): StrategySubmission | null => {
+    const parsedLog = tradeManager.interface.parseLog({
+        topics: log.topics as string[],
+        data: log.data
+    });
+    if (!parsedLog) return null;
+
+    return {
+        epochNumber: parsedLog.args[0],
+        submitter: parsedLog.args[1],
+        nodeCount: parsedLog.args[2],
+        submittedAt: parsedLog.args[3],
+        targetChainIdHandle: parsedLog.args[4]
+    };
+};
+
+/**
+ * Load a submission from contract storage (used to resume strategies without their event)
+ */
+const loadSubmission = async (epochNumber: bigint, submitter: string): Promise<StrategySubmission> => {
+    const [nodeCount, targetChainIdHandle, strategy] = await Promise.all([
+        tradeManager.getStrategyNodeCount(epochNumber, submitter),
+        tradeManager.getStrategyChainIdHandle(epochNumber, submitter),
+        tradeManager.strategies(epochNumber, submitter)
+    ]);
+
+    return {
+        epochNumber,
+        submitter,
+        nodeCount,
+        submittedAt: strategy.submittedAt,
+        targetChainIdHandle
+    };
+};
+
+/**
+ * Queue a submission for processing (no-op if it is already queued or running)
+ */
+const enqueueStrategy = (submission: StrategySubmission) => {
+    const key = `${submission.epochNumber}-${submission.submitter.toLowerCase()}`;
+    if (strategyQueue.add(key, () => processStrategy(submission))) {
+        console.log(`📥 Queued strategy ${key} (${JSON.stringify(strategyQueue.stats())})`);
+    }
+};
+
+/**
+ * Queue every strategy of the current epoch. processStrategy skips the ones already
+ * reported on-chain, so this picks up anything left unfinished by a crash or restart.
+ */
+const enqueueCurrentEpochStrategies = async () => {
+    const currentEpochNumber: bigint = await tradeManager.currentEpochNumber();
+    if (currentEpochNumber === 0n) return;
+
+    const submitters: string[] = [];
+    try {
+        for (let i = 0; ; i++) {
+            submitters.push(await tradeManager.epochSubmitters(currentEpochNumber, i));
+        }
+    } catch {
+        // Exhausted submissions
+    }
+
+    console.log(`Found ${submitters.length} submission(s) in epoch ${currentEpochNumber}`);
+    for (const submitter of submitters) {
+        enqueueStrategy(await loadSubmission(currentEpochNumber, submitter));
     }
 };
 
 /**
  * Monitor for strategy submissions and process them
+ * Progress is checkpointed in a durable block cursor, so restarts resume where they left off.
+ * Submissions are handed to the work queue, so a poll tick only reads events.
  */
 const monitorStrategies = async () => {
     console.log("\n✅ Monitoring for strategy submissions...");
 
-    let lastProcessedBlock = await provider.getBlockNumber();
-    const processedSubmissions = new Set<string>();
+    const cursor = new BlockCursor(`strategy-submitted-${chainId}-${tradeManagerAddress.toLowerCase()}`, provider);
+    strategyCursor = cursor;
+    const filter = tradeManager.filters.StrategySubmitted();
 
-    // Get current epoch number
-    const currentEpochNumber = await tradeManager.currentEpochNumber();
-    console.log(`Current epoch: ${currentEpochNumber}`);
+    const handleLog = async (log: ethers.Log) => {
+        const submission = parseSubmission(log);
+        if (!submission) return;
 
-    // Query past StrategySubmitted events for CURRENT EPOCH ONLY
-    try {
-        const filter = tradeManager.filters.StrategySubmitted();
-        const fromBlock = Math.max(0, lastProcessedBlock - 1000);
-        const events = await tradeManager.queryFilter(filter, fromBlock, lastProcessedBlock);
-
-        if (events.length > 0) {
-            console.log(`Found ${events.length} past StrategySubmitted events`);
-            for (const event of events) {
-                const parsedLog = tradeManager.interface.parseLog({
-                    topics: event.topics as string[],
-                    data: event.data
-                });
-                if (parsedLog) {
-                    const submission: StrategySubmission = {
-                        epochNumber: parsedLog.args[0],
-                        submitter: parsedLog.args[1],
-                        nodeCount: parsedLog.args[2],
-                        submittedAt: parsedLog.args[3],
-                        targetChainIdHandle: parsedLog.args[4]
-                    };
-
-                    // Only process strategies from the current epoch
-                    if (submission.epochNumber === currentEpochNumber) {
-                        const key = `${submission.epochNumber}-${submission.submitter}`;
-                        console.log(`  Past strategy (current epoch): Epoch ${submission.epochNumber}, Submitter: ${submission.submitter}`);
-
-                        processedSubmissions.add(key);
-                        // Process the past strategy!
-                        await processStrategy(submission);
-                    } else {
-                        console.log(`  Skipping past epoch ${submission.epochNumber} (current: ${currentEpochNumber})`);
-                    }
-                }
-            }
-        } else {
-            console.log("No past StrategySubmitted events found");
+        // Only process strategies from the current epoch (past epochs no longer accept APY reports)
+        const currentEpochNumber = await tradeManager.currentEpochNumber();
+        if (submission.epochNumber !== currentEpochNumber) {
+            console.log(`  Skipping strategy from past epoch ${submission.epochNumber} (current: ${currentEpochNumber})`);
+            return;
         }
+
+        console.log(`\n🚀 New strategy detected!`);
+        console.log(`  Epoch: ${submission.epochNumber}`);
+        console.log(`  Submitter: ${submission.submitter}`);
+        console.log(`  Block: ${log.blockNumber}`);
+
+        markStrategyPending(Number(submission.epochNumber), submission.submitter, Number(submission.submittedAt));
+        enqueueStrategy(submission);
+    };
+
+    const poll = async () => {
+        await cursor.sync(
+            (fromBlock, toBlock) => tradeManager.queryFilter(filter, fromBlock, toBlock),
+            handleLog
+        );
+    };
+
+    // Resume unfinished strategies, backfill from the last checkpoint, then poll for new events
+    try {
+        await enqueueCurrentEpochStrategies();
+        await poll();
     } catch (error) {
-        console.error("Error querying past events:", error);
+        console.error("Error during startup backfill:", error);
     }
-
-    // Use polling for new events
     console.log("Starting event polling...");
-    setInterval(async () => {
-        try {
-            const currentBlock = await provider.getBlockNumber();
-
-            if (currentBlock > lastProcessedBlock) {
-                const filter = tradeManager.filters.StrategySubmitted();
-                const events = await tradeManager.queryFilter(filter, lastProcessedBlock + 1, currentBlock);
-
-                for (const event of events) {
-                    const parsedLog = tradeManager.interface.parseLog({
-                        topics: event.topics as string[],
-                        data: event.data
-                    });
-
-                    if (parsedLog) {
-                        const submission: StrategySubmission = {
-                            epochNumber: parsedLog.args[0],
-                            submitter: parsedLog.args[1],
-                            nodeCount: parsedLog.args[2],
-                            submittedAt: parsedLog.args[3],
-                            targetChainIdHandle: parsedLog.args[4]
-                        };
-
-                        const key = `${submission.epochNumber}-${submission.submitter}`;
-
-                        if (!processedSubmissions.has(key)) {
-                            console.log(`\n🚀 New strategy detected!`);
-                            console.log(`  Epoch: ${submission.epochNumber}`);
-                            console.log(`  Submitter: ${submission.submitter}`);
-                            console.log(`  Block: ${event.blockNumber}`);
-
-                            processedSubmissions.add(key);
-                            await processStrategy(submission);
-                        }
-                    }
-                }
-
-                lastProcessedBlock = currentBlock;
-            }
-        } catch (error) {
-            console.error("Error in polling:", error);
+    startPolling("strategy polling", poll, 5000); // Poll every 5 seconds
+};
+
+/**
+ * Health report for /health: CoFHE readiness and how far the strategy cursor trails the chain head
+ */
+const getHealth = async (): Promise<HealthReport> => {
+    const maxBlockLag = Number(process.env.STATUS_MAX_BLOCK_LAG || 50);
+    const cofheInitialized = isCoFheInitialized();
+    const lastProcessedBlock = strategyCursor ? await strategyCursor.getLastBlock() : null;
+
+    let headBlock: number | null = null;
+    let rpcLatencyMs: number | null = null;
+    let rpcError: string | undefined;
+    try {
+        const start = Date.now();
+        headBlock = await provider.getBlockNumber();
+        rpcLatencyMs = Date.now() - start;
+    } catch (error: any) {
+        rpcError = error?.shortMessage || error?.message || String(error);
+    }
+
+    const blocksBehind = headBlock !== null && lastProcessedBlock !== null ? headBlock - lastProcessedBlock : null;
+
+    return {
+        healthy: cofheInitialized && !rpcError && blocksBehind !== null && blocksBehind <= maxBlockLag,
+        cofheInitialized,
+        headBlock,
+        lastProcessedBlock,
+        blocksBehind,
+        maxBlockLag,
+        rpcLatencyMs,
+        rpcError,
+        queue: strategyQueue.stats(),
+        operator: wallet.address,
+        uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000)
+    };
+};
+
+/**
+ * Current-epoch processing status for /status, from the epoch database.
+ * Only processing state is exposed: decrypted nodes and APYs stay private.
+ */
+const getEpochStatus = async () => {
+    const currentEpochNumber = Number(await tradeManager.currentEpochNumber());
+    const epochData = getEpochData(currentEpochNumber);
+    const strategies = Object.values(epochData?.strategies ?? {}).map((strategy) => ({
+        submitter: strategy.submitter,
+        status: strategy.status ?? 'unknown',
+        failedStage: strategy.failedStage,
+        error: strategy.error,
+        reportTxHash: strategy.reportTxHash,
+        updatedAt: strategy.updatedAt
+    }));
+
+    const byStatus: { [status: string]: number } = {};
+    for (const strategy of strategies) {
+        byStatus[strategy.status] = (byStatus[strategy.status] ?? 0) + 1;
+    }
+
+    return {
+        epochNumber: currentEpochNumber,
+        tradeManager: tradeManagerAddress,
+        chainId,
+        byStatus,
+        queue: strategyQueue.stats(),
+        strategies
+    };
+};
+
+/**
+ * Start the HTTP status server (disabled with STATUS_PORT=0)
+ */
+const startMonitoring = () => {
+    const port = Number(process.env.STATUS_PORT ?? 9464);
+    if (!port) {
+        console.log("📊 Status server disabled (STATUS_PORT=0)");
+        return;
+    }
+
+    // Refresh gauges on every scrape
+    addCollector(async () => {
+        const health = await getHealth();
+        cofheInitializedGauge.set(health.cofheInitialized ? 1 : 0);
+        if (health.lastProcessedBlock !== null) lastProcessedBlockGauge.set(health.lastProcessedBlock);
+        if (health.headBlock !== null) headBlockGauge.set(health.headBlock);
+        if (health.blocksBehind !== null) blocksBehindGauge.set(health.blocksBehind);
+        for (const [state, count] of Object.entries(strategyQueue.stats())) {
+            queueJobsGauge.set(count, { state });
         }
-    }, 5000); // Poll every 5 seconds
+    });
+
+    startStatusServer({
+        port,
+        host: process.env.STATUS_HOST,
+        health: getHealth,
+        status: getEpochStatus
+    });
 };
 
 const main = async () => {
@@ -506,6 +823,9 @@ const main = async () => {
     // Initialize contracts and load deployment configuration
     await initializeContracts();
 
+    // Expose /health, /metrics and /status for monitoring
+    startMonitoring();
+
     // Initialize CoFHE.js for FHE operations
     await initializeCofhe(wallet);
 
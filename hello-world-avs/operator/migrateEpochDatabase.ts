@@ -0,0 +1,93 @@
+/**
+ * Import existing JSON epoch databases into another storage backend (SQLite by default)
+ *
+ * Epochs are merged: missing epoch configs are copied, and for strategies present in both
+ * the record with the newer updatedAt wins. Safe to run repeatedly.
+ *
+ * Usage: ts-node operator/migrateEpochDatabase.ts [--to sqlite|json] [--out <path>] [json files...]
+ *   Defaults: --to sqlite, --out operator/data/epochDatabase.sqlite, operator/data/epochDatabase.json
+ */
+
+import * as dotenv from "dotenv";
+import { openEpochStore, getDefaultStorePath, mergeEpoch, EpochStore, StorageBackend } from "./storage";
+const fs = require('fs');
+const path = require('path');
+dotenv.config();
+
+interface MigrationStats {
+    epochsCreated: number;
+    strategiesImported: number;
+    strategiesSkipped: number;
+}
+
+function parseArgs(argv: string[]): { to: StorageBackend; out?: string; sources: string[] } {
+    let to: StorageBackend = 'sqlite';
+    let out: string | undefined;
+    const sources: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--to') {
+            to = argv[++i] as StorageBackend;
+        } else if (argv[i] === '--out') {
+            out = path.resolve(argv[++i]);
+        } else {
+            sources.push(path.resolve(argv[i]));
+        }
+    }
+
+    return { to, out, sources: sources.length > 0 ? sources : [getDefaultStorePath('json')] };
+}
+
+/**
+ * Merge every epoch of the source store into the target
+ */
+function importStore(source: EpochStore, target: EpochStore): MigrationStats {
+    const stats: MigrationStats = { epochsCreated: 0, strategiesImported: 0, strategiesSkipped: 0 };
+
+    target.transaction(() => {
+        for (const epochNumber of source.getEpochNumbers()) {
+            const merged = mergeEpoch(target, source.getEpoch(epochNumber)!);
+            if (merged.epochCreated) stats.epochsCreated++;
+            stats.strategiesImported += merged.strategiesImported;
+            stats.strategiesSkipped += merged.strategiesSkipped;
+        }
+    });
+
+    return stats;
+}
+
+async function main() {
+    const { to, out, sources } = parseArgs(process.argv.slice(2));
+    const targetPath = out ?? getDefaultStorePath(to);
+
+    if (sources.includes(targetPath)) {
+        console.error("❌ Output path must differ from the source databases");
+        process.exit(1);
+    }
+
+    console.log(`\n🗄️ Migrating epoch database to ${to}: ${targetPath}`);
+    const target = openEpochStore(to, targetPath);
+
+    try {
+        for (const sourcePath of sources) {
+            if (!fs.existsSync(sourcePath)) {
+                console.log(`  ⚠️ Skipping ${sourcePath}: file not found`);
+                continue;
+            }
+
+            const stats = importStore(openEpochStore('json', sourcePath), target);
+            console.log(`  ✅ ${sourcePath}`);
+            console.log(`     Epochs created: ${stats.epochsCreated}`);
+            console.log(`     Strategies imported: ${stats.strategiesImported} (skipped ${stats.strategiesSkipped} older than existing)`);
+        }
+    } finally {
+        target.close();
+    }
+
+    console.log(`\n✅ Migration complete. Set EPOCH_DB_BACKEND=${to}${out ? ` and EPOCH_DB_PATH=${targetPath}` : ''} to use it.`);
+}
+
+main().catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+});
@@ -0,0 +1,123 @@
+/**
+ * Purge decrypted strategies past their retention period
+ *
+ * An epoch is purged when it is EXECUTED on-chain and its retention period has passed,
+ * counted from the local execution time (or the epoch end time if this operator did not
+ * execute it). Strategies that did not win are purged earlier: once the epoch is FINALIZED
+ * and the non-winner retention period has passed since the epoch ended. Purged strategies
+ * keep a tombstone with their processing status only.
+ *
+ * Usage: ts-node operator/purgeEpochDatabase.ts [--retention-days <days>] [--non-winner-retention-days <days>]
+ *                                               [--dry-run] [--seal-plaintext]
+ *   --retention-days             Days to keep decrypted strategies (default: EPOCH_DB_RETENTION_DAYS or 7)
+ *   --non-winner-retention-days  Days to keep non-winning strategies after the epoch ends
+ *                                (default: EPOCH_DB_NON_WINNER_RETENTION_DAYS or 0)
+ *   --dry-run                    List strategies that would be purged without changing anything
+ *   --seal-plaintext             Also encrypt nodes stored before encryption at rest was enabled
+ */
+
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { getTradeManagerForChain } from "./utils/chainAddressMapping";
+import { getEpochStore } from "./storage";
+import { purgeEpochStrategies, sealPlaintextStrategies } from "./epochDatabase";
+import { getEpochWinners } from "./utils/epochArchive";
+const fs = require('fs');
+const path = require('path');
+dotenv.config();
+
+const EPOCH_STATE_FINALIZED = 2;
+const EPOCH_STATE_EXECUTED = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysOption(args: string[], name: string, envValue: string | undefined, defaultDays: number): number {
+    const index = args.indexOf(name);
+    return index >= 0 ? Number(args[index + 1]) : Number(envValue || defaultDays);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const retentionDays = daysOption(args, '--retention-days', process.env.EPOCH_DB_RETENTION_DAYS, 7);
+    const nonWinnerRetentionDays = daysOption(
+        args, '--non-winner-retention-days', process.env.EPOCH_DB_NON_WINNER_RETENTION_DAYS, 0
+    );
+    const dryRun = args.includes('--dry-run');
+
+    if (![retentionDays, nonWinnerRetentionDays].every((days) => Number.isFinite(days) && days >= 0)) {
+        console.error("Usage: ts-node operator/purgeEpochDatabase.ts [--retention-days <days>] [--non-winner-retention-days <days>] [--dry-run] [--seal-plaintext]");
+        process.exit(1);
+    }
+
+    const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const tradeManagerABI = JSON.parse(
+        fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
+    );
+    const tradeManager = new ethers.Contract(getTradeManagerForChain(chainId), tradeManagerABI, provider);
+
+    const store = getEpochStore();
+    console.log(`\n🧹 Purging executed epochs older than ${retentionDays} day(s) and non-winners ${nonWinnerRetentionDays} day(s) after finalization${dryRun ? ' (dry run)' : ''}`);
+    console.log(`Database: ${store.backend} (${store.path})\n`);
+
+    if (args.includes('--seal-plaintext') && !dryRun) {
+        const sealed = sealPlaintextStrategies();
+        console.log(`🔒 Sealed ${sealed} plaintext strategies\n`);
+    }
+
+    let purgedEpochs = 0;
+    let purgedNonWinners = 0;
+    for (const epochNumber of store.getEpochNumbers()) {
+        const epochData = store.getEpoch(epochNumber)!;
+        const strategies = Object.values(epochData.strategies).filter((strategy) => !strategy.purgedAt);
+        if (strategies.length === 0) continue;
+
+        const epoch = await tradeManager.epochs(epochNumber);
+        const state = Number(epoch.state);
+        if (state < EPOCH_STATE_FINALIZED) {
+            console.log(`  Epoch ${epochNumber}: not finalized (state ${state}), keeping`);
+            continue;
+        }
+
+        const executedAt = epochData.executedAt ?? Number(epoch.epochEndTime) * 1000;
+        const ageDays = (Date.now() - executedAt) / DAY_MS;
+        if (state === EPOCH_STATE_EXECUTED && ageDays >= retentionDays) {
+            if (dryRun) {
+                console.log(`  Epoch ${epochNumber}: would purge ${strategies.length} strategies (executed ${ageDays.toFixed(1)} day(s) ago)`);
+            } else {
+                purgeEpochStrategies(epochNumber);
+            }
+            purgedEpochs++;
+            continue;
+        }
+
+        const endedDays = (Date.now() - Number(epoch.epochEndTime) * 1000) / DAY_MS;
+        if (endedDays < nonWinnerRetentionDays) {
+            console.log(`  Epoch ${epochNumber}: ended ${endedDays.toFixed(1)} day(s) ago, keeping`);
+            continue;
+        }
+
+        const winners = new Set(
+            (await getEpochWinners(tradeManager, epochNumber)).map((winner) => winner.trader.toLowerCase())
+        );
+        const isNonWinner = (strategy: { submitter: string }) => !winners.has(strategy.submitter.toLowerCase());
+        const nonWinners = strategies.filter(isNonWinner).length;
+        if (nonWinners === 0) {
+            console.log(`  Epoch ${epochNumber}: only winners left, keeping until executed and past retention`);
+            continue;
+        }
+
+        if (dryRun) {
+            console.log(`  Epoch ${epochNumber}: would purge ${nonWinners} non-winning strategies (${winners.size} winners kept)`);
+        } else {
+            purgeEpochStrategies(epochNumber, isNonWinner);
+        }
+        purgedNonWinners += nonWinners;
+    }
+
+    console.log(`\n✅ ${dryRun ? 'Would purge' : 'Purged'} ${purgedEpochs} executed epoch(s) and ${purgedNonWinners} non-winning strategies`);
+}
+
+main().catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+});
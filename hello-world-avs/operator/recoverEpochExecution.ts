@@ -0,0 +1,198 @@
+/**
+ * Recover Epoch Execution - retry the calls that failed when an epoch was executed
+ *
+ * executeEpochTopStrategiesAggregated emits StrategyExecutionFailed for each call that reverted
+ * and still moves the epoch to EXECUTED. The follow-up plan is the failed subset of the latest
+ * execution transaction of the epoch on this chain, in its original order:
+ * 1. Finds the latest EpochExecuted transaction and its StrategyExecutionFailed logs
+ * 2. Rebuilds the executed plan from the transaction's input, and maps the failed calls to the
+ *    winners' nodes when this operator built the plan. Executions sent through Nexus can't be
+ *    rebuilt by peers, so they are refused
+ * 3. Replays the failed calls on a fork (utils/planSimulation.ts), and refuses the plan if any
+ *    of them would revert again
+ * 4. Gets operator consensus signatures on recover:<chainId>:<epoch>:<txHash>: peers rebuild the
+ *    same plan from the chain with buildRecoveryPlan (consensusPeer.ts)
+ * 5. Executes it through executeEpochTopStrategiesAggregated, reconciles the result, and records
+ *    the recovery in the epoch database
+ * Everything is rebuilt from the chain, so a recovery can be run again until nothing fails.
+ *
+ * Usage: ts-node operator/recoverEpochExecution.ts <epochNumber> [--chain <name|id>]
+ */
+
+import * as dotenv from "dotenv";
+import { recordEpochRecovery, AggregatedCalldata } from "./epochDatabase";
+import { collectPlanSignatures, simulateExecutionPlan } from "./executeAggregatedStrategies";
+import { ChainContext, connectChain, resolveChain } from "./utils/chainContext";
+import { consensusTopic } from "./utils/consensus";
+import {
+    ExecutionReconciliation,
+    FailedCall,
+    decodeExecutionFailures,
+    getEpochExecutions,
+    logFailedCalls,
+    logReconciliation,
+    reconcileExecution
+} from "./utils/executionReconciliation";
+import { PlanSimulation, assertPlanSucceeds } from "./utils/planSimulation";
+import { parseArgs, stringOption } from "./cli/args";
+dotenv.config();
+
+export interface RecoveryPlan {
+    epochNumber: number;
+    chainId: number;
+    recovers: string;          // Execution transaction whose failed calls are retried
+    executed: AggregatedCalldata; // The plan that transaction executed
+    failed: FailedCall[];
+    plan: AggregatedCalldata;  // The failed calls, in their original order
+    executionCount: bigint;    // Executions of the epoch on this chain, signed with the plan
+}
+
+export interface RecoverEpochResult {
+    epochNumber: number;
+    chainId: number;
+    recovers?: string;
+    calls: number;             // 0: nothing to recover
+    failed: FailedCall[];
+    simulation?: PlanSimulation;
+    attestations?: number;
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+    reconciliation?: ExecutionReconciliation;
+}
+
+/**
+ * The failed calls of an EXECUTED epoch's latest execution on this chain, as a follow-up plan
+ * (null when that execution had no failed calls). Every operator rebuilds the same plan.
+ */
+export async function buildRecoveryPlan(ctx: ChainContext, epochNumber: bigint): Promise<RecoveryPlan | null> {
+    const executions = await getEpochExecutions(ctx, epochNumber);
+    const latest = executions[executions.length - 1];
+    if (!latest) {
+        throw new Error(`EpochExecuted event of epoch ${epochNumber} not found`);
+    }
+    if (latest.failed.length === 0) {
+        return null;
+    }
+
+    const { plan: executed, failed } = latest;
+    return {
+        epochNumber: Number(epochNumber),
+        chainId: ctx.chainId,
+        recovers: latest.txHash,
+        executed,
+        failed,
+        plan: {
+            encoders: failed.map((call) => executed.encoders[call.index]),
+            targets: failed.map((call) => executed.targets[call.index]),
+            calldatas: failed.map((call) => call.calldata),
+            origins: failed.map((call) => call.origins)
+        },
+        executionCount: BigInt(await ctx.tradeManager.epochExecutionCount(epochNumber))
+    };
+}
+
+/**
+ * Retry the failed calls of an EXECUTED epoch on this chain. A dry run builds, simulates and
+ * signs the plan and estimates the execution without sending it.
+ */
+export async function recoverEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: { dryRun?: boolean } = {}
+): Promise<RecoverEpochResult> {
+    const { chainId, tradeManager, txSender } = ctx;
+
+    console.log("Step 1: Finding failed calls...");
+    const recovery = await buildRecoveryPlan(ctx, epochNumber);
+    if (!recovery) {
+        console.log(`  ✅ The latest execution of epoch ${epochNumber} has no failed calls`);
+        return { epochNumber: Number(epochNumber), chainId, calls: 0, failed: [] };
+    }
+
+    const { recovers, executed, failed, plan, executionCount } = recovery;
+    console.log(`  ${failed.length}/${executed.calldatas.length} calls failed in ${recovers}:`);
+    logFailedCalls(failed);
+    const result: RecoverEpochResult = { epochNumber: Number(epochNumber), chainId, recovers, calls: failed.length, failed };
+
+    console.log("\nStep 2: Simulating the failed calls...");
+    result.simulation = await simulateExecutionPlan(ctx, chainId, plan);
+    if (result.simulation) {
+        assertPlanSucceeds(result.simulation);
+    }
+
+    console.log("\nStep 3: Collecting operator consensus...");
+    const signatures = await collectPlanSignatures(ctx, epochNumber, consensusTopic('recover', chainId, epochNumber, recovers), plan, executionCount);
+    result.attestations = signatures.length;
+    const args = [epochNumber, plan.encoders, plan.targets, plan.calldatas, signatures];
+
+    console.log("\nStep 4: Executing the recovery plan...");
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+        result.gasEstimate = gasEstimate.toString();
+        console.log(`  🧪 Dry run: recovery would succeed (gas ${gasEstimate})`);
+        return result;
+    }
+
+    const sent = await txSender.send(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+    result.txHash = sent.hash;
+    console.log(`  ✅ Confirmed in block ${sent.blockNumber}`);
+    console.log(`  Gas used: ${sent.gasUsed.toString()}`);
+
+    const stillFailed = decodeExecutionFailures(sent.events, plan);
+    recordEpochRecovery(
+        Number(epochNumber),
+        chainId,
+        {
+            kind: 'retry',
+            recovers,
+            plan: { ...plan, txHash: sent.hash, failed: stillFailed.map((call) => call.index) },
+            createdAt: Date.now()
+        },
+        executed
+    );
+
+    try {
+        result.reconciliation = await reconcileExecution(ctx.provider, plan, sent.hash, stillFailed, result.simulation);
+        logReconciliation(result.reconciliation, plan.calldatas.length);
+    } catch (error: any) {
+        console.log(`  ⚠️ Could not read the vault's positions: ${error.message}`);
+    }
+
+    if (stillFailed.length > 0) {
+        console.log(`\n⚠️ ${stillFailed.length} call(s) failed again; run the recovery again once they can succeed`);
+    } else {
+        console.log(`\n✅ All failed calls of epoch ${epochNumber} recovered`);
+    }
+    return result;
+}
+
+async function main() {
+    const { positionals, options } = parseArgs(process.argv.slice(2));
+    const epochNumber = positionals[0] ? BigInt(positionals[0]) : null;
+    if (!epochNumber) {
+        console.error("Usage: ts-node operator/recoverEpochExecution.ts <epochNumber> [--chain <name|id>]");
+        process.exit(1);
+    }
+
+    const ctx = await connectChain(resolveChain(stringOption(options, 'chain')));
+
+    console.log(`\n🩹 Recover Epoch Execution\n`);
+    console.log(`Operator: ${ctx.wallet.address}`);
+    console.log(`Epoch Number: ${epochNumber}`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}\n`);
+
+    try {
+        await recoverEpoch(ctx, epochNumber);
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}`);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -2,68 +2,155 @@
  * Simple script to register operator and start epoch
  * No mock deployments needed - just pure TradeManager interaction
  *
- * Usage: ts-node operator/setupAndStartEpoch.ts
+ * Epoch parameters come from an epoch config file and/or flags (see utils/epochConfig.ts),
+ * defaulting to 5 minutes, weights [50, 50], 100k USDC and a sim window of 7 to 1 days ago.
+ *
+ * Usage: ts-node operator/setupAndStartEpoch.ts [--config <file>] [--duration <minutes>] [--weights <a,b,...>]
+ *            [--notional <USDC>] [--capital <USDC>] [--sim-window <startDaysAgo>:<endDaysAgo>]
+ *            [--sim-range <earliestDaysAgo>:<latestDaysAgo> --sim-length <minDays>:<maxDays>]
+ *            [--unfilled-policy <redistribute|return|rollover>]
  */
 
 import { ethers } from "ethers";
 import * as dotenv from "dotenv";
 import { initializeCofhe, batchEncrypt, FheTypes } from "./cofheUtils";
-import { getTradeManagerForChain } from "./utils/chainAddressMapping";
-const fs = require('fs');
-const path = require('path');
+import { ChainContext, ChainConfig, CHAINS, connectChain } from "./utils/chainContext";
+import {
+    assertScoringVerifiable,
+    describeScoringConfig,
+    parseOnChainScoringConfig,
+    sameScoringConfig,
+    toOnChainScoringConfig
+} from "./utils/scoring";
+import {
+    EpochParams,
+    loadEpochConfigFile,
+    parseEpochConfigFlags,
+    resolveEpochParams,
+    drawSimWindow,
+    describeSimWindow
+} from "./utils/epochConfig";
+import {
+    describeUnfilledWeightPolicy,
+    parseUnfilledWeightPolicy,
+    unfilledWeightPolicyIndex
+} from "./utils/allocation";
+import { initializeEpoch, setEpochScoring } from "./epochDatabase";
+import { parseArgs, stringOption } from "./cli/args";
 dotenv.config();
 
-async function startEpochOnChain(rpcUrl: string | undefined, label: string) {
-    if (!rpcUrl) {
-        console.log(`\n⚠️ Skipping ${label}: RPC URL not configured`);
-        return;
-    }
+export interface RegisterOperatorResult {
+    operator: string;
+    alreadyRegistered: boolean;
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+}
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+export interface StartEpochResult {
+    epochNumber?: number;      // Missing on dry runs
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+    endsAt: string;
+    durationSeconds: number;
+    weights: number[];
+    notionalPerTrader: string;
+    allocatedCapital: string;  // As configured, before capital rolled over from earlier epochs
+    rolledOverCapital: string;
+    unfilledWeightPolicy: string;
+    policyTxHash?: string;     // setUnfilledWeightPolicy, when the on-chain policy had to change
+    simWindow: string;         // Config only: a random window is never revealed
+    scoring: string;
+    scoringTxHash?: string;    // setScoringConfig, when the on-chain scoring config had to change
+}
 
-    console.log(`\n🚀 Setup and Start Epoch (${label})`);
-    console.log(`Wallet: ${wallet.address}`);
+/**
+ * Load epoch parameters from --config (or EPOCH_CONFIG) and flag overrides, validated
+ */
+export function getEpochParams(options: { [name: string]: string | boolean }): EpochParams {
+    const configPath = stringOption(options, 'config') ?? process.env.EPOCH_CONFIG;
+    const file = configPath ? loadEpochConfigFile(configPath) : {};
+    return resolveEpochParams(file, parseEpochConfigFlags(options));
+}
 
-    const chainId = Number((await provider.getNetwork()).chainId);
-    console.log(`Chain ID: ${chainId}`);
+/**
+ * Check the on-chain preconditions of startEpoch (caller is admin, operators registered), and
+ * that the committee can verify the epoch's scoring
+ */
+export async function preflightStartEpoch(ctx: ChainContext, params: EpochParams): Promise<void> {
+    const { wallet, tradeManager } = ctx;
+    const [admin, operatorCount, minAttestations] = await Promise.all([
+        tradeManager.admin(),
+        tradeManager.getOperatorCount(),
+        tradeManager.minAttestations()
+    ]);
+    const errors: string[] = [];
 
-    const tradeManagerAddress = getTradeManagerForChain(chainId);
-    console.log(`TradeManager: ${tradeManagerAddress}\n`);
+    if (admin.toLowerCase() !== wallet.address.toLowerCase()) {
+        errors.push(`${wallet.address} is not the TradeManager admin (${admin})`);
+    }
+    if (BigInt(operatorCount) === 0n) {
+        errors.push('no operators registered (run: arena operator register)');
+    }
+    try {
+        assertScoringVerifiable(params.scoring, BigInt(minAttestations));
+    } catch (error: any) {
+        errors.push(error.message);
+    }
 
-    const tradeManagerABI = JSON.parse(
-        fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
-    );
+    if (errors.length > 0) {
+        throw new Error(`Cannot start epoch:\n  - ${errors.join('\n  - ')}`);
+    }
+}
 
-    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet);
+/**
+ * Register the wallet as a TradeManager operator (no-op if already registered)
+ */
+export async function registerOperator(ctx: ChainContext, options: { dryRun?: boolean } = {}): Promise<RegisterOperatorResult> {
+    const { wallet, tradeManager, txSender } = ctx;
+    const operator = wallet.address;
 
-    console.log("Step 1: Checking operator registration...");
-    const isRegistered = await tradeManager.operatorRegistered(wallet.address);
-
-    if (!isRegistered) {
-        console.log("  Operator not registered. Registering...");
-        try {
-            const nonce1 = await provider.getTransactionCount(wallet.address);
-            const tx1 = await tradeManager.registerOperator({ nonce: nonce1 });
-            console.log(`  TX: ${tx1.hash}`);
-            await tx1.wait();
-            console.log("  ✅ Operator registered");
-        } catch (error: any) {
-            console.log(`  ℹ️ Registration might have failed: ${error.message}`);
-        }
-    } else {
+    if (await tradeManager.operatorRegistered(operator)) {
         console.log("  ✅ Operator already registered");
+        return { operator, alreadyRegistered: true };
+    }
+
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, "registerOperator");
+        console.log(`  🧪 Dry run: registerOperator would succeed (gas ${gasEstimate})`);
+        return { operator, alreadyRegistered: false, gasEstimate: gasEstimate.toString() };
     }
 
-    console.log("\nStep 2: Encrypting simulation window...");
+    console.log("  Operator not registered. Registering...");
+    const result = await txSender.send(tradeManager, "registerOperator");
+    console.log("  ✅ Operator registered");
+    return { operator, alreadyRegistered: false, txHash: result.hash };
+}
+
+/**
+ * Start a new epoch with an encrypted simulation window and record its config locally
+ */
+export async function startEpoch(
+    ctx: ChainContext,
+    params: EpochParams,
+    options: { dryRun?: boolean } = {}
+): Promise<StartEpochResult> {
+    const { wallet, tradeManager, tradeManagerAddress, txSender } = ctx;
+
+    console.log("\nChecking startEpoch preconditions...");
+    await preflightStartEpoch(ctx, params);
+    console.log("  ✅ Admin wallet, operators registered, scoring verifiable by the committee");
+
+    console.log("\nEncrypting simulation window...");
     await initializeCofhe(wallet);
 
     const now = Math.floor(Date.now() / 1000);
-    const simStartTime = now - (7 * 24 * 60 * 60);
-    const simEndTime = now - (1 * 24 * 60 * 60);
+    const { startTime: simStartTime, endTime: simEndTime } = drawSimWindow(params.simWindow, now);
 
-    console.log(`  Start: ${new Date(simStartTime * 1000).toISOString()}`);
-    console.log(`  End: ${new Date(simEndTime * 1000).toISOString()}`);
+    console.log(`  Window: ${describeSimWindow(params.simWindow)}`);
+    if (params.simWindow.mode === 'fixed') {
+        console.log(`  Start: ${new Date(simStartTime * 1000).toISOString()}`);
+        console.log(`  End: ${new Date(simEndTime * 1000).toISOString()}`);
+    }
 
     const encryptedTimes = await batchEncrypt(
         [
@@ -78,54 +165,130 @@ async function startEpochOnChain(rpcUrl: string | undefined, label: string) {
     const encSimEndTime = encryptedTimes[1];
     console.log("  ✅ Encrypted");
 
-    console.log("\nStep 3: Starting epoch...");
+    console.log("\nStarting epoch...");
 
-    const epochDuration = 5 * 60;
-    const weights = [50,50];
-    const notionalPerTrader = ethers.parseUnits("100000", 6);
-    const allocatedCapital = ethers.parseUnits("100000", 6);
+    const { durationSeconds: epochDuration, weights, notionalPerTrader, allocatedCapital, tokenDecimals, scoring } = params;
 
     console.log(`  Duration: ${epochDuration / 60} minutes`);
     console.log(`  Weights: [${weights.join(', ')}]`);
-    console.log(`  Notional: ${ethers.formatUnits(notionalPerTrader, 6)} USDC`);
-    console.log(`  Capital: ${ethers.formatUnits(allocatedCapital, 6)} USDC`);
+    console.log(`  Notional: ${ethers.formatUnits(notionalPerTrader, tokenDecimals)} USDC`);
+    console.log(`  Capital: ${ethers.formatUnits(allocatedCapital, tokenDecimals)} USDC`);
+    console.log(`  Scoring: ${describeScoringConfig(scoring)}`);
 
+    const rolledOverCapital: bigint = await tradeManager.rolledOverCapital();
+    if (rolledOverCapital > 0n) {
+        console.log(`  Rolled over: +${ethers.formatUnits(rolledOverCapital, tokenDecimals)} USDC from earlier epochs`);
+    }
+
+    // The policy and scoring config are snapshotted by startEpoch, so they must be set first
+    const currentPolicy = parseUnfilledWeightPolicy(await tradeManager.unfilledWeightPolicy());
+    console.log(`  Unfilled winner slots: ${describeUnfilledWeightPolicy(params.unfilledWeightPolicy)}`);
+    const currentScoring = parseOnChainScoringConfig(await tradeManager.scoringConfig());
+    const scoringChanged = !sameScoringConfig(currentScoring, scoring);
+
+    const args = [
+        {
+            ctHash: encSimStartTime.ctHash,
+            securityZone: encSimStartTime.securityZone,
+            utype: encSimStartTime.utype,
+            signature: encSimStartTime.signature
+        },
+        {
+            ctHash: encSimEndTime.ctHash,
+            securityZone: encSimEndTime.securityZone,
+            utype: encSimEndTime.utype,
+            signature: encSimEndTime.signature
+        },
+        epochDuration,
+        weights,
+        notionalPerTrader,
+        allocatedCapital
+    ];
+    const summary = {
+        endsAt: new Date((now + epochDuration) * 1000).toISOString(),
+        durationSeconds: epochDuration,
+        weights,
+        notionalPerTrader: notionalPerTrader.toString(),
+        allocatedCapital: allocatedCapital.toString(),
+        rolledOverCapital: rolledOverCapital.toString(),
+        unfilledWeightPolicy: params.unfilledWeightPolicy,
+        simWindow: describeSimWindow(params.simWindow),
+        scoring: describeScoringConfig(scoring)
+    };
+
+    if (options.dryRun) {
+        if (currentPolicy !== params.unfilledWeightPolicy) {
+            console.log(`  🧪 Dry run: would change the unfilled weight policy from ${currentPolicy} to ${params.unfilledWeightPolicy}`);
+        }
+        if (scoringChanged) {
+            console.log(`  🧪 Dry run: would change the scoring config from ${describeScoringConfig(currentScoring)} to ${describeScoringConfig(scoring)}`);
+        }
+        const { gasEstimate } = await txSender.simulate(tradeManager, "startEpoch", args);
+        console.log(`  🧪 Dry run: startEpoch would succeed (gas ${gasEstimate})`);
+        return { ...summary, gasEstimate: gasEstimate.toString() };
+    }
+
+    let policyTxHash: string | undefined;
+    if (currentPolicy !== params.unfilledWeightPolicy) {
+        console.log(`  ⏳ Changing unfilled weight policy from ${currentPolicy} to ${params.unfilledWeightPolicy}...`);
+        const policyTx = await txSender.send(tradeManager, "setUnfilledWeightPolicy", [
+            unfilledWeightPolicyIndex(params.unfilledWeightPolicy)
+        ]);
+        policyTxHash = policyTx.hash;
+    }
+
+    let scoringTxHash: string | undefined;
+    if (scoringChanged) {
+        console.log(`  ⏳ Changing scoring config from ${describeScoringConfig(currentScoring)} to ${describeScoringConfig(scoring)}...`);
+        const scoringTx = await txSender.send(tradeManager, "setScoringConfig", [toOnChainScoringConfig(scoring)]);
+        scoringTxHash = scoringTx.hash;
+    }
+
+    const result = await txSender.send(tradeManager, "startEpoch", args);
+    console.log(`  ✅ Confirmed in block ${result.blockNumber}`);
+
+    const epochNumber = Number(await tradeManager.currentEpochNumber());
+    const epochCapital: bigint = (await tradeManager.epochs(epochNumber)).allocatedCapital;
+
+    // Record the epoch config locally (ranking reads the scoring config from the chain)
+    initializeEpoch(
+        epochNumber,
+        weights,
+        notionalPerTrader.toString(),
+        epochCapital.toString(),
+        scoring
+    );
+    setEpochScoring(epochNumber, scoring);
+
+    return { ...summary, epochNumber, txHash: result.hash, policyTxHash, scoringTxHash };
+}
+
+async function startEpochOnChain(chain: ChainConfig, params: EpochParams) {
+    if (!process.env[chain.rpcEnv]) {
+        console.log(`\n⚠️ Skipping ${chain.label}: RPC URL not configured`);
+        return;
+    }
+
+    const ctx = await connectChain(chain);
+
+    console.log(`\n🚀 Setup and Start Epoch (${chain.label})`);
+    console.log(`Wallet: ${ctx.wallet.address}`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}\n`);
+
+    console.log("Step 1: Checking operator registration...");
     try {
-        const nonce2 = await provider.getTransactionCount(wallet.address);
-        const tx = await tradeManager.startEpoch(
-            {
-                ctHash: encSimStartTime.ctHash,
-                securityZone: encSimStartTime.securityZone,
-                utype: encSimStartTime.utype,
-                signature: encSimStartTime.signature
-            },
-            {
-                ctHash: encSimEndTime.ctHash,
-                securityZone: encSimEndTime.securityZone,
-                utype: encSimEndTime.utype,
-                signature: encSimEndTime.signature
-            },
-            epochDuration,
-            weights,
-            notionalPerTrader,
-            allocatedCapital,
-            {
-                nonce: nonce2,
-                gasLimit: 5_000_000
-            }
-        );
-
-        console.log(`  TX: ${tx.hash}`);
-        console.log("  Waiting for confirmation...");
-
-        const receipt = await tx.wait();
-        console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
-
-        const epochNumber = await tradeManager.currentEpochNumber();
-        console.log(`\n✅ Epoch ${epochNumber} started on ${label}!`);
-        console.log(`Ends at: ${new Date((now + epochDuration) * 1000).toISOString()}`);
+        await registerOperator(ctx);
     } catch (error: any) {
-        console.error(`\n❌ Failed to start epoch on ${label}:`);
+        console.log(`  ℹ️ Registration might have failed: ${error.message}`);
+    }
+
+    try {
+        const result = await startEpoch(ctx, params);
+        console.log(`\n✅ Epoch ${result.epochNumber} started on ${chain.label}!`);
+        console.log(`Ends at: ${result.endsAt}`);
+    } catch (error: any) {
+        console.error(`\n❌ Failed to start epoch on ${chain.label}:`);
         console.error(error.message);
         if (error.data) {
             console.error("Error data:", error.data);
@@ -135,12 +298,17 @@ async function startEpochOnChain(rpcUrl: string | undefined, label: string) {
 }
 
 async function main() {
-    await startEpochOnChain(process.env.RPC_URL, "Base");
-    await startEpochOnChain(process.env.ARB_SEPOLIA_RPC_URL, "Arbitrum");
+    // Validate the config before touching any chain
+    const params = getEpochParams(parseArgs(process.argv.slice(2)).options);
+
+    await startEpochOnChain(CHAINS.base, params);
+    await startEpochOnChain(CHAINS.arbitrum, params);
     console.log("\n✅ Setup script completed for all configured chains.");
 }
 
-main().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-});
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,134 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+type Encryption = typeof import('./encryption');
+
+const ENV = ['EPOCH_DB_KEY_FILE', 'EPOCH_DB_PASSPHRASE'] as const;
+
+// Same additional data as epochDatabase.ts binds each strategy's nodes to
+const aad = (epochNumber: number, submitter: string) => `epoch:${epochNumber}:strategy:${submitter}`;
+
+const nodes = [{ encoder: '0xe', target: '0xt', selector: '0x617ba037', args: ['0xasset', 10n ** 24n], argTypes: [7, 8] }];
+
+/**
+ * Load a fresh copy of the module, since it caches keys for the life of the process
+ */
+function load(env: Partial<Record<(typeof ENV)[number], string>>): Encryption {
+    for (const name of ENV) {
+        if (env[name] === undefined) delete process.env[name];
+        else process.env[name] = env[name];
+    }
+    let module!: Encryption;
+    jest.isolateModules(() => {
+        module = require('./encryption');
+    });
+    return module;
+}
+
+describe('encryption', () => {
+    const saved = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+    let dir: string;
+
+    function keyFile(name: string, contents: string | Buffer = crypto.randomBytes(32).toString('hex')): string {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, contents);
+        return file;
+    }
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'epoch-key-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        for (const name of ENV) {
+            if (saved[name] === undefined) delete process.env[name];
+            else process.env[name] = saved[name];
+        }
+    });
+
+    it('round-trips a value under a key file, with bigints as decimal strings', () => {
+        const { sealJSON, openJSON } = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex') });
+
+        const sealed = sealJSON(nodes, aad(3, '0xabc'));
+
+        expect(sealed).toMatchObject({ v: 1, kdf: 'keyfile' });
+        expect(sealed.salt).toBeUndefined();
+        expect(Buffer.from(sealed.data, 'base64').toString('utf8')).not.toContain('0x617ba037');
+        expect(openJSON(sealed, aad(3, '0xabc'))).toEqual([{ ...nodes[0], args: ['0xasset', (10n ** 24n).toString()] }]);
+    });
+
+    it('seals the same value differently every time', () => {
+        const { sealJSON } = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex') });
+
+        const [a, b] = [sealJSON(nodes, aad(3, '0xabc')), sealJSON(nodes, aad(3, '0xabc'))];
+
+        expect(a.iv).not.toBe(b.iv);
+        expect(a.data).not.toBe(b.data);
+    });
+
+    it('reads base64 and raw 32-byte key files', () => {
+        const key = crypto.randomBytes(32);
+        const sealed = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex', `0x${key.toString('hex')}\n`) }).sealJSON(nodes, aad(1, '0xa'));
+
+        for (const file of [keyFile('key.b64', key.toString('base64')), keyFile('key.bin', key)]) {
+            expect(load({ EPOCH_DB_KEY_FILE: file }).openJSON(sealed, aad(1, '0xa'))).toHaveLength(1);
+        }
+    });
+
+    it('refuses a key file that does not hold 32 bytes', () => {
+        const { sealJSON } = load({ EPOCH_DB_KEY_FILE: keyFile('short.key', 'abcd') });
+
+        expect(() => sealJSON(nodes, aad(1, '0xa'))).toThrow('EPOCH_DB_KEY_FILE must contain a 32-byte key');
+    });
+
+    it('fails to open a payload moved onto another record', () => {
+        const { sealJSON, openJSON } = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex') });
+        const sealed = sealJSON(nodes, aad(3, '0xabc'));
+
+        for (const other of [aad(3, '0xdef'), aad(4, '0xabc'), '']) {
+            expect(() => openJSON(sealed, other)).toThrow('Failed to decrypt epoch database payload');
+        }
+    });
+
+    it('fails to open a payload under another key', () => {
+        const sealed = load({ EPOCH_DB_KEY_FILE: keyFile('a.key') }).sealJSON(nodes, aad(3, '0xabc'));
+
+        expect(() => load({ EPOCH_DB_KEY_FILE: keyFile('b.key') }).openJSON(sealed, aad(3, '0xabc')))
+            .toThrow('Failed to decrypt epoch database payload');
+    });
+
+    it('fails to open a tampered ciphertext or tag', () => {
+        const { sealJSON, openJSON } = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex') });
+        const sealed = sealJSON(nodes, aad(3, '0xabc'));
+        const flip = (base64: string) => {
+            const bytes = Buffer.from(base64, 'base64');
+            bytes[0] ^= 1;
+            return bytes.toString('base64');
+        };
+
+        expect(() => openJSON({ ...sealed, data: flip(sealed.data) }, aad(3, '0xabc'))).toThrow('wrong key or tampered record');
+        expect(() => openJSON({ ...sealed, tag: flip(sealed.tag) }, aad(3, '0xabc'))).toThrow('wrong key or tampered record');
+    });
+
+    it('round-trips under a passphrase and refuses another passphrase', () => {
+        const sealed = load({ EPOCH_DB_PASSPHRASE: 'correct horse' }).sealJSON({ apy: 1_250 }, aad(2, '0xb'));
+
+        expect(sealed).toMatchObject({ kdf: 'scrypt', salt: expect.any(String) });
+        expect(load({ EPOCH_DB_PASSPHRASE: 'correct horse' }).openJSON(sealed, aad(2, '0xb'))).toEqual({ apy: 1_250 });
+        expect(() => load({ EPOCH_DB_PASSPHRASE: 'battery staple' }).openJSON(sealed, aad(2, '0xb')))
+            .toThrow('Failed to decrypt epoch database payload');
+    });
+
+    it('names the missing key setting', () => {
+        const sealed = load({ EPOCH_DB_KEY_FILE: keyFile('key.hex') }).sealJSON(nodes, aad(1, '0xa'));
+        const { isEncryptionConfigured, sealJSON, openJSON } = load({});
+
+        expect(isEncryptionConfigured()).toBe(false);
+        expect(() => sealJSON(nodes, aad(1, '0xa'))).toThrow('set EPOCH_DB_KEY_FILE or EPOCH_DB_PASSPHRASE');
+        expect(() => openJSON(sealed, aad(1, '0xa'))).toThrow('set EPOCH_DB_KEY_FILE to read it');
+        expect(() => openJSON({ ...sealed, kdf: 'scrypt', salt: 'AAAA' }, aad(1, '0xa'))).toThrow('set EPOCH_DB_PASSPHRASE to read it');
+    });
+});
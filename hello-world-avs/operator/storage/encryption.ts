@@ -0,0 +1,126 @@
+/**
+ * Encryption at rest for sensitive epoch database fields (decrypted strategy nodes)
+ *
+ * Payloads are sealed with AES-256-GCM under an operator-held key:
+ *   EPOCH_DB_KEY_FILE   - file holding a 32-byte key (hex, base64 or raw bytes)
+ *   EPOCH_DB_PASSPHRASE - passphrase, stretched with scrypt (salt stored in each payload)
+ * Each payload is bound to its record (epoch + submitter) through the GCM additional data,
+ * so a ciphertext copied onto another record fails to open.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+export interface SealedPayload {
+    v: 1;
+    kdf: 'keyfile' | 'scrypt';
+    salt?: string;      // base64 scrypt salt (passphrase keys only)
+    iv: string;         // base64 12-byte GCM nonce
+    tag: string;        // base64 GCM auth tag
+    data: string;       // base64 ciphertext
+}
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+let keyFileKey: Buffer | null = null;
+let writeSalt: Buffer | null = null;
+const passphraseKeys = new Map<string, Buffer>();   // salt (base64) → derived key
+
+function readKeyFile(filePath: string): Buffer {
+    const raw = fs.readFileSync(filePath);
+    const text = raw.toString('utf8').trim();
+
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(text)) {
+        return Buffer.from(text.replace(/^0x/, ''), 'hex');
+    }
+    const decoded = Buffer.from(text, 'base64');
+    if (decoded.length === 32 && decoded.toString('base64').replace(/=+$/, '') === text.replace(/=+$/, '')) {
+        return decoded;
+    }
+    if (raw.length === 32) {
+        return raw;
+    }
+    throw new Error(`EPOCH_DB_KEY_FILE must contain a 32-byte key (hex, base64 or raw), got ${raw.length} bytes`);
+}
+
+function passphraseKey(salt: Buffer): Buffer {
+    const cacheKey = salt.toString('base64');
+    let key = passphraseKeys.get(cacheKey);
+    if (!key) {
+        key = crypto.scryptSync(process.env.EPOCH_DB_PASSPHRASE!, salt, 32, SCRYPT_PARAMS);
+        passphraseKeys.set(cacheKey, key);
+    }
+    return key;
+}
+
+/**
+ * True when a key file or passphrase is configured
+ */
+export function isEncryptionConfigured(): boolean {
+    return !!(process.env.EPOCH_DB_KEY_FILE || process.env.EPOCH_DB_PASSPHRASE);
+}
+
+/**
+ * Encrypt a JSON value, bound to the given additional data (e.g. "epoch:submitter")
+ */
+export function sealJSON(value: any, aad: string): SealedPayload {
+    let key: Buffer;
+    let salt: Buffer | undefined;
+
+    if (process.env.EPOCH_DB_KEY_FILE) {
+        keyFileKey = keyFileKey ?? readKeyFile(process.env.EPOCH_DB_KEY_FILE);
+        key = keyFileKey;
+    } else if (process.env.EPOCH_DB_PASSPHRASE) {
+        // One salt per process, so the expensive scrypt derivation runs once
+        writeSalt = writeSalt ?? crypto.randomBytes(16);
+        salt = writeSalt;
+        key = passphraseKey(salt);
+    } else {
+        throw new Error('No epoch database key configured: set EPOCH_DB_KEY_FILE or EPOCH_DB_PASSPHRASE');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const plaintext = Buffer.from(JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v)), 'utf8');
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+        v: 1,
+        kdf: salt ? 'scrypt' : 'keyfile',
+        ...(salt ? { salt: salt.toString('base64') } : {}),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+}
+
+/**
+ * Decrypt a payload produced by sealJSON (in memory only)
+ */
+export function openJSON<T>(payload: SealedPayload, aad: string): T {
+    let key: Buffer;
+
+    if (payload.kdf === 'keyfile') {
+        if (!process.env.EPOCH_DB_KEY_FILE) {
+            throw new Error('Payload was sealed with a key file: set EPOCH_DB_KEY_FILE to read it');
+        }
+        keyFileKey = keyFileKey ?? readKeyFile(process.env.EPOCH_DB_KEY_FILE);
+        key = keyFileKey;
+    } else {
+        if (!process.env.EPOCH_DB_PASSPHRASE) {
+            throw new Error('Payload was sealed with a passphrase: set EPOCH_DB_PASSPHRASE to read it');
+        }
+        key = passphraseKey(Buffer.from(payload.salt!, 'base64'));
+    }
+
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+        decipher.setAAD(Buffer.from(aad, 'utf8'));
+        decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+        return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+        throw new Error('Failed to decrypt epoch database payload (wrong key or tampered record)');
+    }
+}
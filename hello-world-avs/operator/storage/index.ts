@@ -0,0 +1,60 @@
+/**
+ * Epoch storage backends
+ *
+ * EPOCH_DB_BACKEND selects the backend used by epochDatabase.ts:
+ *   json   - data/epochDatabase.json (default)
+ *   sqlite - data/epochDatabase.sqlite (requires better-sqlite3)
+ * EPOCH_DB_PATH overrides the file location.
+ */
+
+import * as path from 'path';
+import { EpochStore, StorageBackend } from './types';
+import { JsonEpochStore } from './jsonStore';
+import { SqliteEpochStore } from './sqliteStore';
+
+export * from './types';
+export * from './encryption';
+export * from './merge';
+export { JsonEpochStore } from './jsonStore';
+export { SqliteEpochStore } from './sqliteStore';
+
+const DATA_DIR = path.resolve(__dirname, '../data');
+
+const DEFAULT_PATHS: { [backend in StorageBackend]: string } = {
+    json: path.join(DATA_DIR, 'epochDatabase.json'),
+    sqlite: path.join(DATA_DIR, 'epochDatabase.sqlite')
+};
+
+let store: EpochStore | null = null;
+
+/**
+ * Default file path for a backend
+ */
+export function getDefaultStorePath(backend: StorageBackend): string {
+    return DEFAULT_PATHS[backend];
+}
+
+/**
+ * Open a store for a specific backend and path (e.g. for migrations)
+ */
+export function openEpochStore(backend: StorageBackend, filePath: string = getDefaultStorePath(backend)): EpochStore {
+    switch (backend) {
+        case 'json':
+            return new JsonEpochStore(filePath);
+        case 'sqlite':
+            return new SqliteEpochStore(filePath);
+        default:
+            throw new Error(`Unknown EPOCH_DB_BACKEND "${backend}" (expected json or sqlite)`);
+    }
+}
+
+/**
+ * The store configured by EPOCH_DB_BACKEND / EPOCH_DB_PATH (opened once per process)
+ */
+export function getEpochStore(): EpochStore {
+    if (!store) {
+        const backend = (process.env.EPOCH_DB_BACKEND || 'json') as StorageBackend;
+        store = openEpochStore(backend, process.env.EPOCH_DB_PATH || undefined);
+    }
+    return store;
+}
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonEpochStore } from './jsonStore';
+import { mergeEpoch } from './merge';
+import { EpochConfig, EpochData, StrategyData } from './types';
+
+const config = (epochNumber: number, weights = [60, 40]): EpochConfig => ({
+    epochNumber,
+    weights,
+    notionalPerTrader: '1000000000',
+    allocatedCapital: '5000000000'
+});
+
+const strategy = (submitter: string, simulatedAPY: number, updatedAt = 1_000): StrategyData => ({
+    submitter,
+    nodes: [],
+    simulatedAPY,
+    submittedAt: 1_700_000_000,
+    targetChainId: 84532,
+    status: 'reported',
+    updatedAt
+});
+
+describe('JsonEpochStore', () => {
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'epoch-store-'));
+        dbPath = path.join(dir, 'epochDatabase.json');
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('round-trips epochs and strategies through the file', () => {
+        const store = new JsonEpochStore(dbPath);
+        store.putEpoch({ ...config(2), scoring: { mode: 'sharpe' } });
+        store.putEpoch(config(1));
+        store.putStrategy(2, strategy('0xa', 500));
+        store.putStrategy(2, strategy('0xb', 1_200));
+
+        const reopened = new JsonEpochStore(dbPath);
+
+        expect(reopened.getEpochNumbers()).toEqual([1, 2]);
+        expect(reopened.getEpoch(2)).toMatchObject({ ...config(2), scoring: { mode: 'sharpe' } });
+        expect(reopened.getStrategy(2, '0xb')).toEqual(strategy('0xb', 1_200));
+        expect(reopened.getSubmittersByAPY(2)).toEqual(['0xb', '0xa']);
+        expect(reopened.getEpoch(3)).toBeNull();
+    });
+
+    it('stores bigint node arguments as decimal strings', () => {
+        const store = new JsonEpochStore(dbPath);
+        store.putEpoch(config(1));
+        store.putStrategy(1, {
+            ...strategy('0xa', 500),
+            nodes: [{ encoder: '0xe', target: '0xt', selector: '0x617ba037', args: ['0xasset', 10n ** 30n], argTypes: [7, 8] }]
+        });
+
+        expect(new JsonEpochStore(dbPath).getStrategy(1, '0xa')!.nodes[0].args).toEqual(['0xasset', (10n ** 30n).toString()]);
+    });
+
+    it('keeps existing strategies when an epoch config is rewritten', () => {
+        const store = new JsonEpochStore(dbPath);
+        store.putEpoch(config(1));
+        store.putStrategy(1, strategy('0xa', 500));
+
+        store.putEpoch(config(1, [100]));
+
+        expect(store.getEpoch(1)).toMatchObject({ weights: [100], strategies: { '0xa': strategy('0xa', 500) } });
+    });
+
+    it('refuses strategies for an unknown epoch', () => {
+        expect(() => new JsonEpochStore(dbPath).putStrategy(9, strategy('0xa', 500))).toThrow('Epoch 9 does not exist');
+    });
+
+    it('leaves the file untouched when a transaction throws, and releases the lock', () => {
+        const store = new JsonEpochStore(dbPath);
+        store.putEpoch(config(1));
+        const before = fs.readFileSync(dbPath, 'utf8');
+
+        expect(() => store.transaction(() => {
+            store.putStrategy(1, strategy('0xa', 500));
+            throw new Error('simulation failed');
+        })).toThrow('simulation failed');
+
+        expect(fs.readFileSync(dbPath, 'utf8')).toBe(before);
+        expect(fs.existsSync(`${dbPath}.lock`)).toBe(false);
+        expect(store.getStrategies(1)).toEqual({});
+    });
+
+    it('writes nested transactions once, when the outer one commits', () => {
+        const store = new JsonEpochStore(dbPath);
+
+        store.transaction(() => {
+            store.putEpoch(config(1));
+            store.putStrategy(1, strategy('0xa', 500));
+            expect(fs.existsSync(dbPath)).toBe(false);
+            expect(fs.existsSync(`${dbPath}.lock`)).toBe(true);
+        });
+
+        expect(new JsonEpochStore(dbPath).getStrategy(1, '0xa')).not.toBeNull();
+        expect(fs.readdirSync(dir)).toEqual(['epochDatabase.json']);
+    });
+
+    it('does not lose updates between stores sharing the file', () => {
+        const daemon = new JsonEpochStore(dbPath);
+        const script = new JsonEpochStore(dbPath);
+        daemon.putEpoch(config(1));
+
+        script.putStrategy(1, strategy('0xa', 500));
+        daemon.putStrategy(1, strategy('0xb', 700));
+
+        expect(Object.keys(script.getStrategies(1)).sort()).toEqual(['0xa', '0xb']);
+    });
+
+    it('takes over a stale lock left by a crashed writer', () => {
+        const lockPath = `${dbPath}.lock`;
+        fs.writeFileSync(lockPath, '12345\n');
+        const old = new Date(Date.now() - 60_000);
+        fs.utimesSync(lockPath, old, old);
+
+        new JsonEpochStore(dbPath).putEpoch(config(1));
+
+        expect(new JsonEpochStore(dbPath).getEpochNumbers()).toEqual([1]);
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('refuses a corrupt file instead of replacing it with an empty database', () => {
+        const store = new JsonEpochStore(dbPath);
+        store.putEpoch(config(1));
+        const truncated = fs.readFileSync(dbPath, 'utf8').slice(0, 40);
+        fs.writeFileSync(dbPath, truncated);
+
+        expect(() => store.getEpochNumbers()).toThrow(`Epoch database ${dbPath} is unreadable`);
+        expect(() => store.putEpoch(config(2))).toThrow('is unreadable');
+        expect(fs.readFileSync(dbPath, 'utf8')).toBe(truncated);
+        expect(fs.existsSync(`${dbPath}.lock`)).toBe(false);
+    });
+
+    it('refuses a file without an epochs object', () => {
+        fs.writeFileSync(dbPath, '[]');
+
+        expect(() => new JsonEpochStore(dbPath).getEpoch(1)).toThrow('has no "epochs" object');
+    });
+});
+
+describe('mergeEpoch', () => {
+    let dir: string;
+    let store: JsonEpochStore;
+
+    const epoch = (strategies: StrategyData[], weights = [60, 40]): EpochData => ({
+        ...config(1, weights),
+        strategies: Object.fromEntries(strategies.map((s) => [s.submitter, s]))
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'epoch-merge-'));
+        store = new JsonEpochStore(path.join(dir, 'epochDatabase.json'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('creates a missing epoch with all its strategies', () => {
+        const stats = mergeEpoch(store, epoch([strategy('0xa', 500), strategy('0xb', 700)]));
+
+        expect(stats).toEqual({ epochCreated: true, strategiesImported: 2, strategiesSkipped: 0 });
+        expect(store.getEpoch(1)).toEqual(epoch([strategy('0xa', 500), strategy('0xb', 700)]));
+    });
+
+    it('keeps the newer record of a strategy present on both sides', () => {
+        store.putEpoch(config(1));
+        store.putStrategy(1, strategy('0xa', 500, 2_000));
+        store.putStrategy(1, strategy('0xb', 700, 1_000));
+
+        const stats = mergeEpoch(store, epoch([strategy('0xa', 900, 1_000), strategy('0xb', 800, 2_000)]));
+
+        expect(stats).toEqual({ epochCreated: false, strategiesImported: 1, strategiesSkipped: 1 });
+        expect(store.getStrategy(1, '0xa')!.simulatedAPY).toBe(500);
+        expect(store.getStrategy(1, '0xb')!.simulatedAPY).toBe(800);
+    });
+
+    it('only replaces an existing epoch config when it is a placeholder without weights', () => {
+        store.putEpoch({ ...config(1, []), scoring: { mode: 'sortino' } });
+        mergeEpoch(store, epoch([], [100]));
+
+        expect(store.getEpoch(1)).toMatchObject({ weights: [100], scoring: { mode: 'sortino' } });
+
+        mergeEpoch(store, epoch([], [50, 50]));
+
+        expect(store.getEpoch(1)!.weights).toEqual([100]);
+    });
+});
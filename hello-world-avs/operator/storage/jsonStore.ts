@@ -0,0 +1,204 @@
+/**
+ * JSON Epoch Store - the epoch database as a single JSON file
+ *
+ * Writers take an exclusive lock file (<db>.lock) and write through a temp file + rename,
+ * so the operator daemon and admin scripts can share the file without clobbering each
+ * other's updates and readers never see a torn file. A file that doesn't parse is refused
+ * rather than replaced with an empty database.
+ */
+
+import * as fs from 'fs';
+import { dirname, basename } from 'path';
+import { EpochStore, EpochConfig, EpochData, StrategyData } from './types';
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+interface Database {
+    epochs: { [epochNumber: string]: EpochData };
+}
+
+/**
+ * Custom JSON serializer that handles BigInt
+ */
+function bigIntReplacer(key: string, value: any): any {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    return value;
+}
+
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+export class JsonEpochStore implements EpochStore {
+    readonly backend = 'json' as const;
+    private readonly lockPath: string;
+    private txDb: Database | null = null;    // Working copy while a transaction is open
+    private txDepth = 0;
+
+    constructor(readonly path: string) {
+        this.lockPath = `${path}.lock`;
+        const dir = dirname(path);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    }
+
+    getEpoch(epochNumber: number): EpochData | null {
+        return this.read().epochs[epochNumber.toString()] || null;
+    }
+
+    getEpochNumbers(): number[] {
+        return Object.keys(this.read().epochs).map(Number).sort((a, b) => a - b);
+    }
+
+    putEpoch(config: EpochConfig): void {
+        this.transaction(() => {
+            const db = this.txDb!;
+            const epochKey = config.epochNumber.toString();
+            const strategies = db.epochs[epochKey]?.strategies ?? {};
+            db.epochs[epochKey] = { ...config, strategies };
+        });
+    }
+
+    getStrategy(epochNumber: number, submitter: string): StrategyData | null {
+        return this.getEpoch(epochNumber)?.strategies[submitter] || null;
+    }
+
+    getStrategies(epochNumber: number): { [submitter: string]: StrategyData } {
+        return this.getEpoch(epochNumber)?.strategies ?? {};
+    }
+
+    getSubmittersByAPY(epochNumber: number): string[] {
+        const strategies = this.getStrategies(epochNumber);
+        return Object.keys(strategies).sort((a, b) => strategies[b].simulatedAPY - strategies[a].simulatedAPY);
+    }
+
+    putStrategy(epochNumber: number, strategy: StrategyData): void {
+        this.transaction(() => {
+            const epoch = this.txDb!.epochs[epochNumber.toString()];
+            if (!epoch) {
+                throw new Error(`Epoch ${epochNumber} does not exist`);
+            }
+            epoch.strategies[strategy.submitter] = strategy;
+        });
+    }
+
+    transaction<T>(fn: () => T): T {
+        if (this.txDepth > 0) {
+            this.txDepth++;
+            try {
+                return fn();
+            } finally {
+                this.txDepth--;
+            }
+        }
+
+        this.acquireLock();
+        try {
+            this.txDb = this.load();
+            this.txDepth = 1;
+            const result = fn();
+            this.save(this.txDb);
+            return result;
+        } finally {
+            // On error the working copy is dropped, leaving the file untouched
+            this.txDb = null;
+            this.txDepth = 0;
+            this.releaseLock();
+        }
+    }
+
+    clear(): void {
+        this.transaction(() => {
+            this.txDb!.epochs = {};
+        });
+    }
+
+    compact(): void {
+        // Every save rewrites the whole file, so removed records are already gone from it
+    }
+
+    close(): void {
+        // Nothing held open between calls
+    }
+
+    private read(): Database {
+        return this.txDb ?? this.load();
+    }
+
+    private load(): Database {
+        if (!fs.existsSync(this.path)) {
+            return { epochs: {} };
+        }
+
+        // Never fall back to an empty database here: the next save would overwrite every epoch with it
+        let db: Database;
+        try {
+            db = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+        } catch (error: any) {
+            throw new Error(
+                `Epoch database ${this.path} is unreadable (${error.message}). ` +
+                'Restore it from a backup or epoch archive, or move it aside to start an empty one.'
+            );
+        }
+        if (typeof db?.epochs !== 'object' || db.epochs === null || Array.isArray(db.epochs)) {
+            throw new Error(`Epoch database ${this.path} has no "epochs" object. Restore it from a backup or epoch archive.`);
+        }
+        return db;
+    }
+
+    private save(db: Database): void {
+        const tmpPath = `${this.path}.${process.pid}.tmp`;
+        try {
+            fs.writeFileSync(tmpPath, JSON.stringify(db, bigIntReplacer, 2), 'utf8');
+            fs.renameSync(tmpPath, this.path);
+        } catch (error) {
+            console.error('❌ Error saving database:', error);
+            throw error;
+        }
+    }
+
+    private acquireLock(): void {
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+        while (true) {
+            try {
+                const fd = fs.openSync(this.lockPath, 'wx');
+                fs.writeSync(fd, `${process.pid}\n`);
+                fs.closeSync(fd);
+                return;
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') throw error;
+            }
+
+            // A crashed writer leaves its lock behind; take over once it is clearly stale
+            try {
+                if (Date.now() - fs.statSync(this.lockPath).mtimeMs > LOCK_STALE_MS) {
+                    console.warn(`⚠️ Removing stale database lock ${basename(this.lockPath)}`);
+                    fs.unlinkSync(this.lockPath);
+                    continue;
+                }
+            } catch {
+                // Lock released between the open and the stat
+                continue;
+            }
+
+            if (Date.now() > deadline) {
+                throw new Error(`Timed out waiting for database lock ${this.lockPath}`);
+            }
+            sleepSync(LOCK_RETRY_MS);
+        }
+    }
+
+    private releaseLock(): void {
+        try {
+            fs.unlinkSync(this.lockPath);
+        } catch {
+            // Already removed (e.g. taken over as stale)
+        }
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Merge epoch data into a store (used by database migration and archive import)
+ */
+
+import { EpochStore, EpochData } from './types';
+
+export interface MergeStats {
+    epochCreated: boolean;
+    strategiesImported: number;
+    strategiesSkipped: number;
+}
+
+/**
+ * Merge one epoch into the target store in a single transaction. The epoch config is only
+ * copied when the target has none (or a placeholder without weights); for strategies present
+ * on both sides, the record with the newer updatedAt wins.
+ */
+export function mergeEpoch(target: EpochStore, epoch: EpochData): MergeStats {
+    const stats: MergeStats = { epochCreated: false, strategiesImported: 0, strategiesSkipped: 0 };
+
+    target.transaction(() => {
+        const { strategies, ...config } = epoch;
+        const existing = target.getEpoch(epoch.epochNumber);
+
+        if (!existing || existing.weights.length === 0) {
+            target.putEpoch({ ...config, scoring: config.scoring ?? existing?.scoring });
+            stats.epochCreated = !existing;
+        }
+
+        for (const strategy of Object.values(strategies)) {
+            const current = existing?.strategies[strategy.submitter];
+            if (current && (current.updatedAt ?? 0) >= (strategy.updatedAt ?? 0)) {
+                stats.strategiesSkipped++;
+                continue;
+            }
+            target.putStrategy(epoch.epochNumber, strategy);
+            stats.strategiesImported++;
+        }
+    });
+
+    return stats;
+}
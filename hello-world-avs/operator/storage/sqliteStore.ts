@@ -0,0 +1,215 @@
+/**
+ * SQLite Epoch Store - the epoch database in an embedded SQLite file
+ *
+ * Uses better-sqlite3 (optional dependency, loaded on first use). WAL mode lets the operator
+ * daemon and admin scripts read while another process writes, updates run in real
+ * transactions, and strategies are indexed by epoch, submitter, status and APY.
+ * Strategy records are stored as JSON with the queried fields in their own columns.
+ * secure_delete is on, so deleted or overwritten records are zeroed in the file.
+ */
+
+import * as fs from 'fs';
+import { dirname } from 'path';
+import { EpochStore, EpochConfig, EpochData, StrategyData } from './types';
+
+// Subset of the better-sqlite3 API used here
+interface Statement {
+    run(...params: any[]): unknown;
+    get(...params: any[]): any;
+    all(...params: any[]): any[];
+}
+
+interface SqliteDatabase {
+    pragma(source: string): unknown;
+    exec(source: string): unknown;
+    prepare(source: string): Statement;
+    transaction<F extends (...args: any[]) => any>(fn: F): F;
+    close(): void;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS epochs (
+    epoch_number        INTEGER PRIMARY KEY,
+    weights             TEXT NOT NULL,
+    notional_per_trader TEXT NOT NULL,
+    allocated_capital   TEXT NOT NULL,
+    scoring             TEXT,
+    executed_at         INTEGER,
+    execution           TEXT
+);
+
+CREATE TABLE IF NOT EXISTS strategies (
+    epoch_number    INTEGER NOT NULL REFERENCES epochs(epoch_number) ON DELETE CASCADE,
+    submitter       TEXT NOT NULL,
+    status          TEXT,
+    simulated_apy   INTEGER NOT NULL DEFAULT 0,
+    submitted_at    INTEGER NOT NULL DEFAULT 0,
+    target_chain_id INTEGER NOT NULL DEFAULT 0,
+    updated_at      INTEGER,
+    data            TEXT NOT NULL,
+    PRIMARY KEY (epoch_number, submitter)
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategies_submitter ON strategies (submitter);
+CREATE INDEX IF NOT EXISTS idx_strategies_epoch_apy ON strategies (epoch_number, simulated_apy DESC);
+CREATE INDEX IF NOT EXISTS idx_strategies_epoch_status ON strategies (epoch_number, status);
+`;
+
+function bigIntReplacer(key: string, value: any): any {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function loadDriver(): new (filename: string) => SqliteDatabase {
+    try {
+        return require('better-sqlite3');
+    } catch (error: any) {
+        throw new Error(
+            `EPOCH_DB_BACKEND=sqlite requires the better-sqlite3 package (npm install better-sqlite3): ${error.message}`
+        );
+    }
+}
+
+export class SqliteEpochStore implements EpochStore {
+    readonly backend = 'sqlite' as const;
+    private db: SqliteDatabase;
+
+    constructor(readonly path: string) {
+        const dir = dirname(path);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const Database = loadDriver();
+        this.db = new Database(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('busy_timeout = 10000');
+        this.db.pragma('foreign_keys = ON');
+        this.db.pragma('secure_delete = ON');
+        this.db.exec(SCHEMA);
+        this.addMissingColumns();
+    }
+
+    /**
+     * Bring databases created by older versions up to the current schema
+     */
+    private addMissingColumns(): void {
+        const columns = new Set(this.db.prepare('PRAGMA table_info(epochs)').all().map((row) => row.name));
+        if (!columns.has('executed_at')) {
+            this.db.exec('ALTER TABLE epochs ADD COLUMN executed_at INTEGER');
+        }
+        if (!columns.has('execution')) {
+            this.db.exec('ALTER TABLE epochs ADD COLUMN execution TEXT');
+        }
+    }
+
+    getEpoch(epochNumber: number): EpochData | null {
+        const row = this.db.prepare('SELECT * FROM epochs WHERE epoch_number = ?').get(epochNumber);
+        if (!row) return null;
+
+        return {
+            epochNumber: row.epoch_number,
+            weights: JSON.parse(row.weights),
+            notionalPerTrader: row.notional_per_trader,
+            allocatedCapital: row.allocated_capital,
+            ...(row.scoring ? { scoring: JSON.parse(row.scoring) } : {}),
+            ...(row.executed_at !== null ? { executedAt: row.executed_at } : {}),
+            ...(row.execution ? { execution: JSON.parse(row.execution) } : {}),
+            strategies: this.getStrategies(epochNumber)
+        };
+    }
+
+    getEpochNumbers(): number[] {
+        return this.db.prepare('SELECT epoch_number FROM epochs ORDER BY epoch_number')
+            .all()
+            .map((row) => row.epoch_number);
+    }
+
+    putEpoch(config: EpochConfig): void {
+        this.db.prepare(`
+            INSERT INTO epochs (epoch_number, weights, notional_per_trader, allocated_capital, scoring, executed_at, execution)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (epoch_number) DO UPDATE SET
+                weights = excluded.weights,
+                notional_per_trader = excluded.notional_per_trader,
+                allocated_capital = excluded.allocated_capital,
+                scoring = excluded.scoring,
+                executed_at = excluded.executed_at,
+                execution = excluded.execution
+        `).run(
+            config.epochNumber,
+            JSON.stringify(config.weights),
+            config.notionalPerTrader,
+            config.allocatedCapital,
+            config.scoring ? JSON.stringify(config.scoring) : null,
+            config.executedAt ?? null,
+            config.execution ? JSON.stringify(config.execution) : null
+        );
+    }
+
+    getStrategy(epochNumber: number, submitter: string): StrategyData | null {
+        const row = this.db.prepare('SELECT data FROM strategies WHERE epoch_number = ? AND submitter = ?')
+            .get(epochNumber, submitter);
+        return row ? JSON.parse(row.data) : null;
+    }
+
+    getStrategies(epochNumber: number): { [submitter: string]: StrategyData } {
+        const strategies: { [submitter: string]: StrategyData } = {};
+        const rows = this.db.prepare('SELECT submitter, data FROM strategies WHERE epoch_number = ? ORDER BY rowid')
+            .all(epochNumber);
+        for (const row of rows) {
+            strategies[row.submitter] = JSON.parse(row.data);
+        }
+        return strategies;
+    }
+
+    getSubmittersByAPY(epochNumber: number): string[] {
+        return this.db.prepare('SELECT submitter FROM strategies WHERE epoch_number = ? ORDER BY simulated_apy DESC')
+            .all(epochNumber)
+            .map((row) => row.submitter);
+    }
+
+    putStrategy(epochNumber: number, strategy: StrategyData): void {
+        this.db.prepare(`
+            INSERT INTO strategies (epoch_number, submitter, status, simulated_apy, submitted_at, target_chain_id, updated_at, data)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (epoch_number, submitter) DO UPDATE SET
+                status = excluded.status,
+                simulated_apy = excluded.simulated_apy,
+                submitted_at = excluded.submitted_at,
+                target_chain_id = excluded.target_chain_id,
+                updated_at = excluded.updated_at,
+                data = excluded.data
+        `).run(
+            epochNumber,
+            strategy.submitter,
+            strategy.status ?? null,
+            strategy.simulatedAPY,
+            strategy.submittedAt,
+            strategy.targetChainId,
+            strategy.updatedAt ?? null,
+            JSON.stringify(strategy, bigIntReplacer)
+        );
+    }
+
+    transaction<T>(fn: () => T): T {
+        // better-sqlite3 runs nested transactions as savepoints; IMMEDIATE takes the write lock up front
+        const run = this.db.transaction(fn) as unknown as { immediate: () => T };
+        return run.immediate();
+    }
+
+    compact(): void {
+        // Fold the WAL back into the main file and rebuild it without free pages
+        this.db.pragma('wal_checkpoint(TRUNCATE)');
+        this.db.exec('VACUUM');
+    }
+
+    clear(): void {
+        this.transaction(() => {
+            this.db.exec('DELETE FROM strategies; DELETE FROM epochs;');
+        });
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
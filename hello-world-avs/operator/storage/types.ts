@@ -0,0 +1,128 @@
+/**
+ * Epoch storage types shared by the epoch database and its storage backends
+ */
+
+import { ScoreVector, ScoringConfig } from '../utils/scoring';
+import { SealedPayload } from './encryption';
+
+/**
+ * Strategy node with all data needed to reconstruct calldata
+ */
+export interface StrategyNode {
+    encoder: string;        // Encoder/sanitizer address
+    target: string;         // Protocol target address
+    selector: string;       // Function selector (e.g., "0x617ba037")
+    args: any[];           // Decrypted argument values
+    argTypes: number[];    // FHE utypes for each arg (for encoding)
+}
+
+/**
+ * Processing status of a strategy, in order:
+ * pending → decrypted → simulated → reported, or failed (see failedStage)
+ */
+export type StrategyStatus = 'pending' | 'decrypted' | 'simulated' | 'reported' | 'failed';
+
+/**
+ * Strategy submission data
+ */
+export interface StrategyData {
+    submitter: string;
+    nodes: StrategyNode[];     // Empty when sealed (see sealedNodes) or purged
+    sealedNodes?: SealedPayload; // Nodes encrypted at rest (read with getStrategyNodes)
+    simulatedAPY: number;      // Signed APY in basis points (decoded, may be negative)
+    submittedAt: number;       // Timestamp
+    targetChainId: number;     // Destination chain
+    scores?: ScoreVector;      // Risk metrics from the simulation
+    status?: StrategyStatus;   // Missing for strategies saved before status tracking
+    failedStage?: StrategyStatus; // Stage being attempted when processing failed
+    error?: string;            // Failure reason
+    reportTxHash?: string;     // reportEncryptedAPY transaction
+    updatedAt?: number;        // Last status change (ms)
+    purgedAt?: number;         // Nodes and scores removed after the retention period (ms)
+}
+
+/**
+ * A winner's strategy node merged or netted into an aggregated call
+ */
+export interface CallOrigin {
+    winner: string;
+    node: number;              // Index in the winner's strategy
+}
+
+/**
+ * Aggregated calldata executed for an epoch on one chain
+ */
+export interface AggregatedCalldata {
+    encoders: string[];
+    targets: string[];
+    calldatas: string[];
+    txHash?: string;           // Execution transaction (when known)
+    origins?: CallOrigin[][];  // Per call: the nodes it came from (plans this operator built)
+    failed?: number[];         // Calls that emitted StrategyExecutionFailed
+    recoveries?: RecoveryRecord[]; // Follow-up plans, oldest first
+}
+
+/**
+ * Follow-up plan: a retry of the calls that failed in an earlier execution transaction, or an
+ * unwind of the positions the epoch's executions opened
+ */
+export interface RecoveryRecord {
+    kind: 'retry' | 'unwind';
+    recovers: string;          // Execution transaction whose failed calls this plan retries (unwind: the latest one before it)
+    plan: AggregatedCalldata;  // With its own txHash and failed calls once executed
+    createdAt: number;         // ms
+}
+
+/**
+ * Epoch configuration without its strategies
+ */
+export interface EpochConfig {
+    epochNumber: number;
+    weights: number[];         // Capital allocation weights
+    notionalPerTrader: string; // Simulation capital (as string to preserve precision)
+    allocatedCapital: string;  // Real capital to deploy
+    scoring?: ScoringConfig;   // Scoring function for winner selection (default: APY)
+    executedAt?: number;       // When this operator executed the epoch's strategies (ms)
+    execution?: { [chainId: string]: AggregatedCalldata }; // What was executed, per target chain
+}
+
+/**
+ * Epoch data structure
+ */
+export interface EpochData extends EpochConfig {
+    strategies: { [submitter: string]: StrategyData };
+}
+
+export type StorageBackend = 'json' | 'sqlite';
+
+/**
+ * Storage backend for the epoch database. All methods are synchronous so callers can
+ * read-modify-write inside transaction() without interleaving with other writers.
+ */
+export interface EpochStore {
+    readonly backend: StorageBackend;
+    readonly path: string;
+
+    getEpoch(epochNumber: number): EpochData | null;
+    getEpochNumbers(): number[];
+    putEpoch(config: EpochConfig): void;
+
+    getStrategy(epochNumber: number, submitter: string): StrategyData | null;
+    getStrategies(epochNumber: number): { [submitter: string]: StrategyData };
+    getSubmittersByAPY(epochNumber: number): string[];     // Highest APY first
+    putStrategy(epochNumber: number, strategy: StrategyData): void;
+
+    /**
+     * Run fn atomically: no other writer (in this or another process) interleaves with it.
+     * Nested calls join the outer transaction.
+     */
+    transaction<T>(fn: () => T): T;
+
+    /**
+     * Reclaim space and scrub deleted data after a purge
+     */
+    compact(): void;
+
+    clear(): void;
+    close(): void;
+}
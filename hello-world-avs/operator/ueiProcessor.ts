@@ -10,8 +10,9 @@
  *    - Decode ctBlob to get encrypted handles
  *    - Batch decrypt all components using FHEVM
  *    - Reconstruct calldata (for POC: simple transfer)
- *    - Get consensus signatures from other operators
- *    - Call processUEI(intentId, decoder, target, calldata, signatures)
+ *    - Sign it and publish the attestation for the other operators (utils/consensus.ts)
+ *    - The trade's elected leader collects minAttestations signatures from its peers
+ *      and calls processUEI(intentId, decoder, target, calldata, signatures)
  * 5. Log execution results
  */
 
@@ -20,6 +21,10 @@ import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import { initializeCofhe, batchDecrypt, FheTypes, CoFheItem } from './cofheUtils';
 import { loadDeploymentConfig, getNetworkName } from './config/deploymentConfig';
+import { BlockCursor } from './utils/blockCursor';
+import { startPolling } from './utils/workQueue';
+import { getTxSender } from './utils/txSender';
+import { attest, collectAttestations, consensusTopic, electLeader, publishAttestation, ueiDigest } from './utils/consensus';
 
 dotenv.config();
 
@@ -29,6 +34,7 @@ const PRIVATE_KEY = process.env.PRIVATE_KEY || '';
 // Dynamic addresses loaded from deployment files
 let SWAP_MANAGER: string;
 let BORING_VAULT: string;
+let CHAIN_ID: number;
 
 /**
  * Decode event data to extract internal FHE handles with type information
@@ -167,31 +173,6 @@ function reconstructCalldata(
     return calldata;
 }
 
-/**
- * Create operator signature for consensus
- */
-async function createOperatorSignature(
-    operatorWallet: ethers.Wallet,
-    intentId: string,
-    decoder: string,
-    target: string,
-    reconstructedData: string
-): Promise<string> {
-    // Create hash of the data
-    const dataHash = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-            ['bytes32', 'address', 'address', 'bytes'],
-            [intentId, decoder, target, reconstructedData]
-        )
-    );
-
-    // Sign with EIP-191 prefix (eth_sign format)
-    const signature = await operatorWallet.signMessage(ethers.getBytes(dataHash));
-
-    console.log(`  Signature created: ${signature.slice(0, 20)}...`);
-    return signature;
-}
-
 /**
  * Process a single UEI trade
  */
@@ -199,7 +180,8 @@ async function processUEITrade(
     tradeManager: ethers.Contract,
     intentId: string,
     encodedData: string,
-    operatorWallet: ethers.Wallet
+    operatorWallet: ethers.Wallet,
+    selectedOperators: string[]
 ): Promise<void> {
     try {
         console.log("\n" + "=".repeat(80));
@@ -237,15 +219,26 @@ async function processUEITrade(
         // Step 3: Dynamically reconstruct calldata based on arg types
         const calldata = reconstructCalldata(selector, args, argTypes);
 
-        // Step 4: Create operator signature
+        // Step 4: Attest the reconstructed call; the elected leader collects and submits
         console.log("\n✍️  Creating operator signature...");
-        const signature = await createOperatorSignature(
-            operatorWallet,
-            intentId,
-            decoder,
-            target,
-            calldata
-        );
+        const topic = consensusTopic('uei', CHAIN_ID, intentId);
+        const digest = ueiDigest(intentId, decoder, target, calldata);
+        const own = await attest(operatorWallet, topic, digest);
+        publishAttestation(own);
+
+        const leader = electLeader(selectedOperators, topic);
+        if (leader.toLowerCase() !== operatorWallet.address.toLowerCase()) {
+            console.log(`  📣 Attestation published, ${leader} submits this trade`);
+            return;
+        }
+
+        const signatures = await collectAttestations({
+            topic,
+            digest,
+            own,
+            operators: selectedOperators,
+            threshold: Number(await tradeManager.minAttestations())
+        });
 
         // Step 5: Submit to processUEI
         console.log("\n📤 Submitting processUEI transaction...");
@@ -254,21 +247,16 @@ async function processUEITrade(
         console.log(`  Target: ${target}`);
         console.log(`  Calldata length: ${calldata.length} chars`);
 
-        const tx = await tradeManager.processUEI(
+        const result = await getTxSender(operatorWallet).send(tradeManager, 'processUEI', [
             intentId,
             decoder,
             target,
             calldata,
-            [signature],
-            { nonce: await operatorWallet.getNonce() }
-        );
-
-        console.log(`  Transaction hash: ${tx.hash}`);
-        console.log("  Waiting for confirmation...");
+            signatures
+        ]);
 
-        const receipt = await tx.wait();
         console.log("✅ UEI processed successfully!");
-        console.log(`  Gas used: ${receipt.gasUsed.toString()}`);
+        console.log(`  Gas used: ${result.gasUsed.toString()}`);
 
         // Check execution result
         const execution = await tradeManager.getUEIExecution(intentId);
@@ -353,7 +341,7 @@ async function handleBatchFinalized(
 
             console.log(`\n📥 Processing trade ${i + 1}/${events.length}...`);
 
-            await processUEITrade(tradeManager, intentId, encodedData, operatorWallet);
+            await processUEITrade(tradeManager, intentId, encodedData, operatorWallet, selectedOperators);
 
             // Small delay between processing trades
             if (i < events.length - 1) {
@@ -385,6 +373,7 @@ async function startUEIProcessor() {
         // Load deployment config based on chain ID
         const network = await provider.getNetwork();
         const chainId = Number(network.chainId);
+        CHAIN_ID = chainId;
         const config = loadDeploymentConfig(chainId);
 
         SWAP_MANAGER = config.tradeManager;
@@ -408,42 +397,40 @@ async function startUEIProcessor() {
         console.log("(Ankr RPC doesn't support eth_newFilter)");
         console.log("=" .repeat(80));
 
-        // Track processed batches and blocks
-        let lastProcessedBlock = await provider.getBlockNumber();
-        const processedBatches = new Set<string>();
+        // Durable cursor: resumes from the last checkpoint after restarts
+        const cursor = new BlockCursor(`uei-batch-finalized-${chainId}-${SWAP_MANAGER.toLowerCase()}`, provider);
+        const filter = tradeManager.filters.UEIBatchFinalized();
+
+        const handleLog = async (event: ethers.Log | ethers.EventLog) => {
+            if (!('args' in event) || !event.args) return;
+
+            const batchId = event.args[0];
+            const selectedOperators = event.args[1];
+            console.log(`\n🔔 UEIBatchFinalized event at block ${event.blockNumber}`);
+
+            await handleBatchFinalized(
+                provider,
+                tradeManager,
+                batchId,
+                selectedOperators,
+                operatorWallet
+            ).catch(error => {
+                console.error("Error processing batch:", error);
+            });
+        };
 
-        // Query past UEIBatchFinalized events first (last 1000 blocks)
+        const poll = async () => {
+            await cursor.sync(
+                (fromBlock, toBlock) => tradeManager.queryFilter(filter, fromBlock, toBlock),
+                handleLog
+            );
+        };
+
+        // Backfill UEIBatchFinalized events since the last checkpoint
         try {
-            const filter = tradeManager.filters.UEIBatchFinalized();
-            const fromBlock = Math.max(0, lastProcessedBlock - 1000);
-            const events = await tradeManager.queryFilter(filter, fromBlock, lastProcessedBlock);
-
-            if (events.length > 0) {
-                console.log(`\n📜 Found ${events.length} past UEIBatchFinalized events`);
-                for (const event of events) {
-                    if (!('args' in event) || !event.args) continue;
-
-                    const batchId = event.args[0];
-                    const selectedOperators = event.args[1];
-
-                    if (!processedBatches.has(batchId)) {
-                        processedBatches.add(batchId);
-                        await handleBatchFinalized(
-                            provider,
-                            tradeManager,
-                            batchId,
-                            selectedOperators,
-                            operatorWallet
-                        ).catch(error => {
-                            console.error("Error processing past batch:", error);
-                        });
-                    }
-                }
-            } else {
-                console.log("\n📜 No past UEIBatchFinalized events found");
-            }
-        } catch (error) {
-            console.error("Error querying past events:", error);
+            await poll();
+        } catch (error: any) {
+            console.error("Error in polling:", error.message);
         }
 
         // Check if operator is admin (can bypass time constraints)
@@ -455,50 +442,11 @@ async function startUEIProcessor() {
         console.log(`Auto-finalizing batches every 20 seconds (when non-empty${isAdmin ? ', as admin - no time constraint' : ', respecting MAX_BATCH_IDLE'})...`);
         console.log("Press Ctrl+C to stop\n");
 
-        // Poll for new events every 5 seconds
-        setInterval(async () => {
-            try {
-                const currentBlock = await provider.getBlockNumber();
-
-                if (currentBlock > lastProcessedBlock) {
-                    const filter = tradeManager.filters.UEIBatchFinalized();
-                    const events = await tradeManager.queryFilter(
-                        filter,
-                        lastProcessedBlock + 1,
-                        currentBlock
-                    );
-
-                    for (const event of events) {
-                        if (!('args' in event) || !event.args) continue;
-
-                        const batchId = event.args[0];
-                        const selectedOperators = event.args[1];
-
-                        if (!processedBatches.has(batchId)) {
-                            processedBatches.add(batchId);
-                            console.log(`\n🔔 New UEIBatchFinalized event detected at block ${event.blockNumber}`);
-
-                            await handleBatchFinalized(
-                                provider,
-                                tradeManager,
-                                batchId,
-                                selectedOperators,
-                                operatorWallet
-                            ).catch(error => {
-                                console.error("Error processing batch:", error);
-                            });
-                        }
-                    }
-
-                    lastProcessedBlock = currentBlock;
-                }
-            } catch (error: any) {
-                console.error("Error in polling:", error.message);
-            }
-        }, 5000); // Poll every 5 seconds
+        // Poll for new events every 5 seconds (ticks never overlap)
+        startPolling("UEI batch polling", poll, 5000);
 
         // Auto-finalize batches every 20 seconds (independent of processUEI)
-        setInterval(async () => {
+        startPolling("batch auto-finalization", async () => {
             try {
                 console.log("\n⏰ Checking if batch should be finalized...");
 
@@ -542,15 +490,8 @@ async function startUEIProcessor() {
                 console.log(`  🎯 Batch ${batchId} has ${batch.intentIds.length} intent(s), triggering finalization...`);
 
                 // Call finalizeUEIBatch
-                const tx = await tradeManager.finalizeUEIBatch({
-                    nonce: await operatorWallet.getNonce()
-                });
-
-                console.log(`  📤 Finalization transaction sent: ${tx.hash}`);
-                console.log("  ⏳ Waiting for confirmation...");
-
-                const receipt = await tx.wait();
-                console.log(`  ✅ Batch finalized successfully! Gas used: ${receipt.gasUsed.toString()}`);
+                const result = await getTxSender(operatorWallet).send(tradeManager, 'finalizeUEIBatch');
+                console.log(`  ✅ Batch finalized successfully! Gas used: ${result.gasUsed.toString()}`);
 
             } catch (error: any) {
                 // Handle specific errors gracefully
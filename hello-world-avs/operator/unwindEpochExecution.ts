@@ -0,0 +1,203 @@
+/**
+ * Unwind Epoch Execution - close the positions an executed epoch opened through the vault
+ *
+ * The unwind plan is built from the chain, so every operator builds the same one:
+ * 1. Rebuilds every execution transaction of the epoch on this chain (the execution, recoveries
+ *    and earlier unwinds) with its failed calls and receipt logs (utils/executionReconciliation.ts)
+ * 2. Replays their successful calls on a ledger of the vault's positions and emits the inverse
+ *    calls, last-opened position first (utils/unwindPlan.ts): repay borrows, withdraw
+ *    collateral, sell PT back to the token it was bought with through swapExactPtForToken.
+ *    Aave positions are closed in full (type(uint256).max); the repay approves the live debt
+ *    read at a pinned block, plus headroom for the interest accrued until the unwind is mined
+ * 3. Replays the unwind on a fork (utils/planSimulation.ts), and refuses it if a call would revert
+ * 4. Gets operator consensus signatures on unwind:<chainId>:<epoch>:<txHash>:<block>, txHash being
+ *    the latest execution the unwind was built after and block the one the debts were read at:
+ *    peers rebuild the same plan (consensusPeer.ts)
+ * 5. Executes it through executeEpochTopStrategiesAggregated, reconciles the result, and records
+ *    the unwind in the epoch database
+ * Calls that fail leave their positions open, so the unwind can be run again until none are left.
+ *
+ * Usage: ts-node operator/unwindEpochExecution.ts <epochNumber> [--chain <name|id>]
+ */
+
+import * as dotenv from "dotenv";
+import { recordEpochRecovery, AggregatedCalldata } from "./epochDatabase";
+import { collectPlanSignatures, simulateExecutionPlan } from "./executeAggregatedStrategies";
+import { ChainContext, connectChain, resolveChain } from "./utils/chainContext";
+import { consensusTopic } from "./utils/consensus";
+import {
+    ExecutionReconciliation,
+    decodeExecutionFailures,
+    getEpochExecutions,
+    logReconciliation,
+    reconcileExecution
+} from "./utils/executionReconciliation";
+import { PlanSimulation, assertPlanSucceeds } from "./utils/planSimulation";
+import { OpenPosition, buildUnwindPlan, getOpenAaveDebts, logUnwindPlan } from "./utils/unwindPlan";
+import { readAaveDebt } from "./utils/vaultPositions";
+import { parseArgs, stringOption } from "./cli/args";
+dotenv.config();
+
+// Allowance above the live debt, for the interest accrued between the pinned block and the repay
+const DEBT_HEADROOM_BPS = 10n;
+
+export interface EpochUnwindPlan {
+    epochNumber: number;
+    chainId: number;
+    after: string;             // Latest execution transaction of the epoch the plan was built after
+    debtBlock: number;         // Block the live Aave debts were read at
+    executed: AggregatedCalldata; // The epoch's first execution on this chain
+    positions: OpenPosition[]; // In closing order
+    labels: string[];
+    ignored: string[];
+    plan: AggregatedCalldata;
+    executionCount: bigint;    // Executions of the epoch on this chain, signed with the plan
+}
+
+export interface UnwindEpochResult {
+    epochNumber: number;
+    chainId: number;
+    positions: OpenPosition[];
+    calls: number;             // 0: nothing left to unwind
+    simulation?: PlanSimulation;
+    attestations?: number;
+    txHash?: string;
+    gasEstimate?: string;      // Dry run only
+    reconciliation?: ExecutionReconciliation;
+}
+
+/**
+ * The calls closing the positions an EXECUTED epoch left open on this chain (no calls when none
+ * are open). Every operator rebuilds the same plan from the same debt block.
+ *
+ * @param debtBlock - Block to read the live Aave debts at (default: the latest block)
+ */
+export async function buildEpochUnwindPlan(ctx: ChainContext, epochNumber: bigint, debtBlock?: number): Promise<EpochUnwindPlan> {
+    const executions = await getEpochExecutions(ctx, epochNumber);
+    if (executions.length === 0) {
+        throw new Error(`EpochExecuted event of epoch ${epochNumber} not found`);
+    }
+    const vault: string = await ctx.tradeManager.boringVault();
+    const block = debtBlock ?? await ctx.provider.getBlockNumber();
+
+    const repayAllowances: { [key: string]: bigint } = {};
+    for (const debt of getOpenAaveDebts(executions, vault)) {
+        const live = await readAaveDebt(ctx.provider, debt.pool, debt.asset, debt.interestRateMode, vault, block);
+        repayAllowances[debt.key] = live + (live * DEBT_HEADROOM_BPS) / 10000n + 1n;
+    }
+
+    const unwind = buildUnwindPlan(executions, vault, repayAllowances);
+    return {
+        epochNumber: Number(epochNumber),
+        chainId: ctx.chainId,
+        after: executions[executions.length - 1].txHash,
+        debtBlock: block,
+        executed: executions[0].plan,
+        ...unwind,
+        executionCount: BigInt(await ctx.tradeManager.epochExecutionCount(epochNumber))
+    };
+}
+
+/**
+ * Close the positions of an EXECUTED epoch on this chain. A dry run builds, simulates and signs
+ * the plan and estimates the execution without sending it.
+ */
+export async function unwindEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: { dryRun?: boolean } = {}
+): Promise<UnwindEpochResult> {
+    const { chainId, tradeManager, txSender } = ctx;
+
+    console.log("Step 1: Building the unwind plan...");
+    const unwind = await buildEpochUnwindPlan(ctx, epochNumber);
+    const { plan, positions, after, debtBlock, executed, executionCount } = unwind;
+    const result: UnwindEpochResult = { epochNumber: Number(epochNumber), chainId, positions, calls: plan.calldatas.length };
+    logUnwindPlan(unwind);
+    if (plan.calldatas.length === 0) {
+        console.log(`  ✅ Epoch ${epochNumber} has no open positions`);
+        return result;
+    }
+
+    console.log("\nStep 2: Simulating the unwind...");
+    result.simulation = await simulateExecutionPlan(ctx, chainId, plan);
+    if (result.simulation) {
+        assertPlanSucceeds(result.simulation);
+    }
+
+    console.log("\nStep 3: Collecting operator consensus...");
+    const signatures = await collectPlanSignatures(ctx, epochNumber, consensusTopic('unwind', chainId, epochNumber, after, debtBlock), plan, executionCount);
+    result.attestations = signatures.length;
+    const args = [epochNumber, plan.encoders, plan.targets, plan.calldatas, signatures];
+
+    console.log("\nStep 4: Executing the unwind plan...");
+    if (options.dryRun) {
+        const { gasEstimate } = await txSender.simulate(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+        result.gasEstimate = gasEstimate.toString();
+        console.log(`  🧪 Dry run: unwind would succeed (gas ${gasEstimate})`);
+        return result;
+    }
+
+    const sent = await txSender.send(tradeManager, 'executeEpochTopStrategiesAggregated', args);
+    result.txHash = sent.hash;
+    console.log(`  ✅ Confirmed in block ${sent.blockNumber}`);
+    console.log(`  Gas used: ${sent.gasUsed.toString()}`);
+
+    const failed = decodeExecutionFailures(sent.events, plan);
+    recordEpochRecovery(
+        Number(epochNumber),
+        chainId,
+        {
+            kind: 'unwind',
+            recovers: after,
+            plan: { ...plan, txHash: sent.hash, failed: failed.map((call) => call.index) },
+            createdAt: Date.now()
+        },
+        executed
+    );
+
+    try {
+        result.reconciliation = await reconcileExecution(ctx.provider, plan, sent.hash, failed, result.simulation);
+        logReconciliation(result.reconciliation, plan.calldatas.length);
+    } catch (error: any) {
+        console.log(`  ⚠️ Could not read the vault's positions: ${error.message}`);
+    }
+
+    if (failed.length > 0) {
+        console.log(`\n⚠️ ${failed.length} call(s) failed; their positions are still open, run the unwind again`);
+    } else {
+        console.log(`\n✅ All positions of epoch ${epochNumber} closed`);
+    }
+    return result;
+}
+
+async function main() {
+    const { positionals, options } = parseArgs(process.argv.slice(2));
+    const epochNumber = positionals[0] ? BigInt(positionals[0]) : null;
+    if (!epochNumber) {
+        console.error("Usage: ts-node operator/unwindEpochExecution.ts <epochNumber> [--chain <name|id>]");
+        process.exit(1);
+    }
+
+    const ctx = await connectChain(resolveChain(stringOption(options, 'chain')));
+
+    console.log(`\n⏪ Unwind Epoch Execution\n`);
+    console.log(`Operator: ${ctx.wallet.address}`);
+    console.log(`Epoch Number: ${epochNumber}`);
+    console.log(`Chain ID: ${ctx.chainId}`);
+    console.log(`TradeManager: ${ctx.tradeManagerAddress}\n`);
+
+    try {
+        await unwindEpoch(ctx, epochNumber);
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}`);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Error:", error);
+        process.exit(1);
+    });
+}
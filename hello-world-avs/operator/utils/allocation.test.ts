@@ -0,0 +1,63 @@
+import {
+    computeAllocations,
+    parseUnfilledWeightPolicy,
+    unfilledWeightPolicyIndex
+} from './allocation';
+
+describe('computeAllocations', () => {
+    const weights = [50, 30, 20];
+
+    it('gives every winner its weight when all slots are filled', () => {
+        for (const policy of ['redistribute', 'return', 'rollover'] as const) {
+            expect(computeAllocations(1_000n, weights, 3, policy)).toEqual({
+                policy,
+                allocations: [500n, 300n, 200n],
+                unallocated: 0n
+            });
+        }
+    });
+
+    it('redistributes unfilled slots in proportion to the filled weights, dust to the top winner', () => {
+        // 1001 * 50/80 = 625.6, 1001 * 30/80 = 375.4
+        expect(computeAllocations(1_001n, weights, 2, 'redistribute')).toEqual({
+            policy: 'redistribute',
+            allocations: [626n, 375n],
+            unallocated: 0n
+        });
+    });
+
+    it('leaves unfilled slots to the vault with return and rollover', () => {
+        expect(computeAllocations(1_001n, weights, 2, 'return')).toEqual({
+            policy: 'return',
+            allocations: [500n, 300n],
+            unallocated: 201n
+        });
+        expect(computeAllocations(1_001n, weights, 2, 'rollover').unallocated).toBe(201n);
+    });
+
+    it('allocates nothing without winners', () => {
+        expect(computeAllocations(1_000n, weights, 0, 'redistribute')).toEqual({
+            policy: 'redistribute',
+            allocations: [],
+            unallocated: 1_000n
+        });
+    });
+
+    it('refuses more winners than weight slots', () => {
+        expect(() => computeAllocations(1_000n, weights, 4, 'return')).toThrow('4 winners for 3 weight slots');
+    });
+});
+
+describe('parseUnfilledWeightPolicy', () => {
+    it('parses names and on-chain enum values', () => {
+        expect(parseUnfilledWeightPolicy('rollover')).toBe('rollover');
+        expect(parseUnfilledWeightPolicy('1')).toBe('return');
+        expect(parseUnfilledWeightPolicy(0n)).toBe('redistribute');
+        expect(unfilledWeightPolicyIndex(parseUnfilledWeightPolicy(2))).toBe(2);
+    });
+
+    it('refuses unknown policies', () => {
+        expect(() => parseUnfilledWeightPolicy('burn')).toThrow('Invalid unfilled weight policy "burn"');
+        expect(() => parseUnfilledWeightPolicy(3)).toThrow('Invalid unfilled weight policy "3"');
+    });
+});
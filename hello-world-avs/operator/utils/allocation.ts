@@ -0,0 +1,82 @@
+/**
+ * Winner Allocations - the capital each winner of an epoch gets, as TradeManager.finalizeEpoch computes it
+ *
+ * An epoch's weights give one slot per winner rank. With fewer distinct strategies than slots,
+ * the unfilled slots' weight is handled by the epoch's policy (snapshotted when it starts):
+ *   redistribute   filled slots share the whole capital in proportion to their weights
+ *                  (rounding dust goes to the top winner)
+ *   return         each winner gets its weight of the capital, the rest stays in the vault
+ *   rollover       as "return", and the rest is added to the next epoch's allocated capital
+ */
+
+export type UnfilledWeightPolicy = 'redistribute' | 'return' | 'rollover';
+
+// TradeManager.UnfilledWeightPolicy enum order
+export const UNFILLED_WEIGHT_POLICIES: UnfilledWeightPolicy[] = ['redistribute', 'return', 'rollover'];
+
+export interface EpochAllocation {
+    policy: UnfilledWeightPolicy;
+    allocations: bigint[];      // Per winner, in rank order (token base units)
+    unallocated: bigint;        // Capital left to the vault (or rolled over)
+}
+
+/**
+ * Policy from its name or its on-chain enum value
+ */
+export function parseUnfilledWeightPolicy(value: string | number | bigint): UnfilledWeightPolicy {
+    const policy = typeof value === 'string' && !/^\d+$/.test(value)
+        ? UNFILLED_WEIGHT_POLICIES.find((name) => name === value)
+        : UNFILLED_WEIGHT_POLICIES[Number(value)];
+    if (!policy) {
+        throw new Error(`Invalid unfilled weight policy "${value}" (expected ${UNFILLED_WEIGHT_POLICIES.join(', ')})`);
+    }
+    return policy;
+}
+
+/**
+ * On-chain enum value of a policy
+ */
+export function unfilledWeightPolicyIndex(policy: UnfilledWeightPolicy): number {
+    return UNFILLED_WEIGHT_POLICIES.indexOf(policy);
+}
+
+/**
+ * Allocations of the top `winnerCount` weight slots, mirroring TradeManager.finalizeEpoch
+ */
+export function computeAllocations(
+    allocatedCapital: bigint,
+    weights: number[],
+    winnerCount: number,
+    policy: UnfilledWeightPolicy
+): EpochAllocation {
+    if (winnerCount > weights.length) {
+        throw new Error(`${winnerCount} winners for ${weights.length} weight slots`);
+    }
+
+    const filledWeight = weights.slice(0, winnerCount).reduce((sum, weight) => sum + BigInt(weight), 0n);
+    const redistribute = policy === 'redistribute' && filledWeight > 0n;
+    const divisor = redistribute ? filledWeight : 100n;
+
+    const allocations = weights.slice(0, winnerCount).map((weight) => (allocatedCapital * BigInt(weight)) / divisor);
+    let allocated = allocations.reduce((sum, allocation) => sum + allocation, 0n);
+    if (redistribute) {
+        allocations[0] += allocatedCapital - allocated;
+        allocated = allocatedCapital;
+    }
+
+    return { policy, allocations, unallocated: allocatedCapital - allocated };
+}
+
+/**
+ * Describe where unfilled slots' capital goes
+ */
+export function describeUnfilledWeightPolicy(policy: UnfilledWeightPolicy): string {
+    switch (policy) {
+        case 'redistribute':
+            return 'redistributed to the winners';
+        case 'return':
+            return 'returned to the vault';
+        case 'rollover':
+            return 'rolled over to the next epoch';
+    }
+}
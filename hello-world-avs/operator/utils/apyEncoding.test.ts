@@ -0,0 +1,27 @@
+import { APY_OFFSET, decodeSignedAPY, encodeSignedAPY } from './apyEncoding';
+
+describe('encodeSignedAPY', () => {
+    it('round-trips signed APYs', () => {
+        for (const apyBps of [-10000, -1, 0, 1, 1250, 2 ** 31 - 1, -(2 ** 31)]) {
+            expect(decodeSignedAPY(encodeSignedAPY(apyBps))).toBe(apyBps);
+        }
+    });
+
+    it('keeps the order of signed APYs within the uint32 range', () => {
+        const encoded = [-750, -1, 0, 300].map(encodeSignedAPY);
+
+        expect([...encoded].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))).toEqual(encoded);
+        expect(encodeSignedAPY(-(2 ** 31))).toBe(0n);
+        expect(encodeSignedAPY(2 ** 31 - 1)).toBe(2n ** 32n - 1n);
+    });
+
+    it('decodes on-chain values given as strings', () => {
+        expect(decodeSignedAPY((APY_OFFSET - 750n).toString())).toBe(-750);
+    });
+
+    it('refuses APYs it cannot encode', () => {
+        expect(() => encodeSignedAPY(12.5)).toThrow('integer number of basis points');
+        expect(() => encodeSignedAPY(2 ** 31)).toThrow('outside the encodable range');
+        expect(() => encodeSignedAPY(-(2 ** 31) - 1)).toThrow('outside the encodable range');
+    });
+});
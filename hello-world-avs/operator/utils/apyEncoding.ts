@@ -0,0 +1,40 @@
+/**
+ * Signed APY Encoding
+ *
+ * FHE integers are unsigned, so APYs are reported as euint32 with a fixed offset:
+ *   encoded = apyBps + APY_OFFSET   (APY_OFFSET = 2^31, matches TradeManager.APY_OFFSET)
+ * Encoded values keep the ordering of the signed APYs, so losing strategies still rank
+ * among themselves, and the range covers ±2^31 bps instead of 0-655.35%.
+ */
+
+export const APY_OFFSET = 2n ** 31n;
+
+const MIN_APY_BPS = -Number(APY_OFFSET);
+const MAX_APY_BPS = Number(APY_OFFSET) - 1;
+
+/**
+ * Encode a signed APY (basis points) for encryption as Uint32
+ */
+export function encodeSignedAPY(apyBps: number): bigint {
+    if (!Number.isInteger(apyBps)) {
+        throw new Error(`APY must be an integer number of basis points, got ${apyBps}`);
+    }
+    if (apyBps < MIN_APY_BPS || apyBps > MAX_APY_BPS) {
+        throw new Error(`APY ${apyBps} bps is outside the encodable range [${MIN_APY_BPS}, ${MAX_APY_BPS}]`);
+    }
+    return BigInt(apyBps) + APY_OFFSET;
+}
+
+/**
+ * Decode an offset-encoded APY (decrypted euint32, or finalizeEpoch/epochWinners value) to signed basis points
+ */
+export function decodeSignedAPY(encoded: bigint | number | string): number {
+    return Number(BigInt(encoded) - APY_OFFSET);
+}
+
+/**
+ * Format signed basis points as a percentage, e.g. -750 → "-7.5%"
+ */
+export function formatAPY(apyBps: number): string {
+    return `${apyBps / 100}% (${apyBps} bps)`;
+}
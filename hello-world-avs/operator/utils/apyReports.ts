@@ -0,0 +1,162 @@
+/**
+ * APY Report Gate - which of an epoch's strategies can be ranked, and why the others can't
+ *
+ * Every epochSubmitters entry is checked against the epoch's APYReported events and this
+ * operator's epoch database. A strategy is excluded when:
+ *   apy-not-reported   no APYReported event (simulation late or failed, or never picked up)
+ *   not-in-database    reported on-chain, but this operator has no record of it
+ *   not-simulated      in the database, but without a simulated APY yet
+ *   not-decrypted      reported, but its APY could not be read on-chain (added when ranking)
+ *   ineligible         excluded by the epoch's scoring rules (added when ranking)
+ * Gaps are the first three: the strategy might have won, so finalizing without it may be unfair.
+ * Ranking uses the on-chain APYs (utils/epochRanking.ts), so only apy-not-reported keeps a
+ * strategy out of it; the local gaps show up in its mismatch report.
+ */
+
+import { ChainContext } from './chainContext';
+import { findEpochStartedLog, queryLogsSince } from './epochEvents';
+import { getEpochStrategies } from '../epochDatabase';
+import { StrategyData } from '../storage';
+
+export type ExclusionReason = 'apy-not-reported' | 'not-in-database' | 'not-simulated' | 'not-decrypted' | 'ineligible';
+
+export interface ExcludedStrategy {
+    trader: string;
+    reason: ExclusionReason;
+    detail?: string;
+}
+
+export interface APYReport {
+    operator: string;
+    blockNumber: number;
+    txHash: string;
+}
+
+export interface APYReportCheck {
+    epochNumber: number;
+    submitters: string[];
+    reported: { [trader: string]: APYReport };   // Keyed by submitter as listed on-chain
+    excluded: ExcludedStrategy[];
+}
+
+/**
+ * Whether the database record holds a simulated APY (legacy records without a status do)
+ */
+export function hasSimulatedAPY(strategy: StrategyData): boolean {
+    if (strategy.status === 'failed') {
+        return strategy.failedStage === 'reported';
+    }
+    return strategy.status === undefined || strategy.status === 'simulated' || strategy.status === 'reported';
+}
+
+function describeLocalStatus(strategy: StrategyData | undefined): string {
+    if (!strategy) {
+        return 'no local record';
+    }
+    if (strategy.status === 'failed') {
+        return `local processing failed at ${strategy.failedStage ?? 'unknown stage'}${strategy.error ? `: ${strategy.error}` : ''}`;
+    }
+    return `local status "${strategy.status ?? 'unknown'}"`;
+}
+
+/**
+ * Every trader that submitted a strategy for the epoch
+ */
+export async function getEpochSubmitters(ctx: ChainContext, epochNumber: bigint): Promise<string[]> {
+    const submitters: string[] = [];
+    try {
+        while (true) {
+            submitters.push(await ctx.tradeManager.epochSubmitters(epochNumber, submitters.length));
+        }
+    } catch {
+        // Exhausted submissions
+    }
+    return submitters;
+}
+
+/**
+ * Check every submitter against the APYReported events and the local database
+ */
+export async function checkAPYReports(ctx: ChainContext, epochNumber: bigint): Promise<APYReportCheck> {
+    const { tradeManager } = ctx;
+    const submitters = await getEpochSubmitters(ctx, epochNumber);
+    const strategies = getEpochStrategies(Number(epochNumber)) ?? {};
+
+    const startedLog = await findEpochStartedLog(tradeManager, epochNumber);
+    if (!startedLog) {
+        throw new Error(`EpochStarted event not found for epoch ${epochNumber}`);
+    }
+
+    const reportsByTrader = new Map<string, APYReport>();
+    for (const log of await queryLogsSince(tradeManager, tradeManager.filters.APYReported(epochNumber), startedLog.blockNumber)) {
+        reportsByTrader.set(String(log.args.submitter).toLowerCase(), {
+            operator: log.args.operator,
+            blockNumber: log.blockNumber,
+            txHash: log.transactionHash
+        });
+    }
+
+    const check: APYReportCheck = { epochNumber: Number(epochNumber), submitters, reported: {}, excluded: [] };
+    for (const submitter of submitters) {
+        const report = reportsByTrader.get(submitter.toLowerCase());
+        const strategy = strategies[submitter];
+
+        if (!report) {
+            check.excluded.push({ trader: submitter, reason: 'apy-not-reported', detail: describeLocalStatus(strategy) });
+            continue;
+        }
+        check.reported[submitter] = report;
+
+        if (!strategy) {
+            check.excluded.push({ trader: submitter, reason: 'not-in-database', detail: `reported by ${report.operator}` });
+        } else if (!hasSimulatedAPY(strategy)) {
+            check.excluded.push({ trader: submitter, reason: 'not-simulated', detail: describeLocalStatus(strategy) });
+        }
+    }
+
+    return check;
+}
+
+/**
+ * Re-check until no gap is left that could still close, or the timeout expires.
+ * Unreported APYs can only arrive while the epoch is OPEN; the local database can catch up any time.
+ */
+export async function waitForAPYReports(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    options: { timeoutSeconds?: number; pollIntervalMs?: number } = {}
+): Promise<APYReportCheck> {
+    const deadline = Date.now() + (options.timeoutSeconds ?? 0) * 1000;
+    const pollIntervalMs = options.pollIntervalMs ?? 10_000;
+
+    while (true) {
+        const check = await checkAPYReports(ctx, epochNumber);
+        const epochOpen = Number((await ctx.tradeManager.epochs(epochNumber)).state) === 0;
+        const closable = check.excluded.filter((excluded) => excluded.reason !== 'apy-not-reported' || epochOpen);
+
+        if (closable.length === 0 || Date.now() >= deadline) {
+            return check;
+        }
+
+        console.log(
+            `  ⏳ ${Object.keys(check.reported).length}/${check.submitters.length} APYs reported, ` +
+            `${closable.length} gap(s) may still close, re-checking in ${Math.round(pollIntervalMs / 1000)}s ` +
+            `(${Math.ceil((deadline - Date.now()) / 1000)}s left)`
+        );
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+}
+
+/**
+ * Log the excluded strategies and why
+ */
+export function logExclusions(excluded: ExcludedStrategy[]): void {
+    if (excluded.length === 0) {
+        console.log("  ✅ No strategies excluded");
+        return;
+    }
+    console.log(`  ⚠️ ${excluded.length} strateg${excluded.length === 1 ? 'y' : 'ies'} excluded:`);
+    for (const { trader, reason, detail } of excluded) {
+        console.log(`    - ${trader}: ${reason}${detail ? ` (${detail})` : ''}`);
+    }
+}
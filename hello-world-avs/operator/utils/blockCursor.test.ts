@@ -0,0 +1,195 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlockCursor, BlockCursorOptions } from './blockCursor';
+
+// Checkpoints are written under operator/data/cursors (a module constant)
+const dataDir = path.resolve(__dirname, '../data');
+const cursorDir = path.join(dataDir, 'cursors');
+const PREFIX = 'block-cursor-test-';
+
+type TestLog = { blockNumber: number; index: number; transactionHash: string; blockHash: string };
+
+/**
+ * Chain stub: blocks up to `head` with hashes that a reorg can replace, and logs placed in blocks
+ */
+function chain(head: number) {
+    const state = {
+        head,
+        forks: new Map<number, number>(),      // Block number → fork generation
+        logs: [] as Array<{ blockNumber: number; index: number; tx: string }>,
+        fetched: [] as Array<[number, number]>
+    };
+    const hash = (blockNumber: number) => ethers.id(`block${blockNumber}:${state.forks.get(blockNumber) ?? 0}`);
+    const provider = {
+        getBlockNumber: async () => state.head,
+        getBlock: async (blockNumber: number) => (blockNumber <= state.head ? { hash: hash(blockNumber) } : null)
+    };
+
+    return {
+        state,
+        provider: provider as unknown as ethers.Provider,
+        /** Put a log in a block */
+        emit(blockNumber: number, tx: string, index = 0) {
+            state.logs.push({ blockNumber, index, tx });
+        },
+        /** Replace every block from `fromBlock` up to the head */
+        reorg(fromBlock: number) {
+            for (let n = fromBlock; n <= state.head; n++) state.forks.set(n, (state.forks.get(n) ?? 0) + 1);
+        },
+        async fetchLogs(fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+            state.fetched.push([fromBlock, toBlock]);
+            const logs: TestLog[] = state.logs
+                .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+                .map((log) => ({ blockNumber: log.blockNumber, index: log.index, transactionHash: log.tx, blockHash: hash(log.blockNumber) }));
+            return logs.reverse() as unknown as ethers.Log[];
+        }
+    };
+}
+
+describe('BlockCursor', () => {
+    const existed = [dataDir, cursorDir].filter((dir) => fs.existsSync(dir));
+    let cursorNumber = 0;
+    let name: string;
+
+    function cursor(testChain: ReturnType<typeof chain>, options: BlockCursorOptions = {}): BlockCursor {
+        return new BlockCursor(name, testChain.provider, { confirmations: 2, chunkSize: 20, initialLookback: 50, ...options });
+    }
+
+    /**
+     * Sync once and return the transaction hashes handled, in order
+     */
+    async function sync(blockCursor: BlockCursor, testChain: ReturnType<typeof chain>): Promise<string[]> {
+        const handled: string[] = [];
+        await blockCursor.sync((from, to) => testChain.fetchLogs(from, to), async (log) => {
+            handled.push(log.transactionHash);
+        });
+        return handled;
+    }
+
+    beforeEach(() => {
+        name = `${PREFIX}${++cursorNumber}`;
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        for (const file of fs.existsSync(cursorDir) ? fs.readdirSync(cursorDir) : []) {
+            if (file.startsWith(PREFIX)) {
+                fs.rmSync(path.join(cursorDir, file));
+            }
+        }
+        jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        for (const dir of [cursorDir, dataDir]) {
+            if (!existed.includes(dir) && fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+                fs.rmdirSync(dir);
+            }
+        }
+    });
+
+    it('backfills from the initial lookback in bounded chunks up to the confirmed head', async () => {
+        const testChain = chain(100);
+        testChain.emit(40, 'before-lookback');
+        testChain.emit(60, 'b', 1);
+        testChain.emit(60, 'a', 0);
+        testChain.emit(75, 'c');
+        const blockCursor = cursor(testChain);
+
+        expect(await sync(blockCursor, testChain)).toEqual(['a', 'b', 'c']);
+        expect(testChain.state.fetched).toEqual([[50, 69], [70, 89], [90, 98]]);
+        expect(await blockCursor.getLastBlock()).toBe(98);
+    });
+
+    it('starts from the configured start block', async () => {
+        const testChain = chain(100);
+        testChain.emit(40, 'a');
+
+        expect(await sync(cursor(testChain, { startBlock: 30, chunkSize: 100 }), testChain)).toEqual(['a']);
+        expect(testChain.state.fetched).toEqual([[30, 98]]);
+    });
+
+    it('waits for the configured confirmations before reading a block', async () => {
+        const testChain = chain(100);
+        testChain.emit(99, 'a');
+        const blockCursor = cursor(testChain);
+
+        expect(await sync(blockCursor, testChain)).toEqual([]);
+
+        testChain.state.head = 101;
+        expect(await sync(blockCursor, testChain)).toEqual(['a']);
+        expect(testChain.state.fetched.slice(-1)).toEqual([[99, 99]]);
+        expect(await sync(blockCursor, testChain)).toEqual([]);
+    });
+
+    it('resumes from the saved checkpoint after a restart', async () => {
+        const testChain = chain(100);
+        testChain.emit(60, 'a');
+        await sync(cursor(testChain), testChain);
+
+        testChain.emit(105, 'b');
+        testChain.state.head = 110;
+        testChain.state.fetched = [];
+
+        expect(await sync(cursor(testChain), testChain)).toEqual(['b']);
+        expect(testChain.state.fetched).toEqual([[99, 108]]);
+        expect(fs.existsSync(path.join(cursorDir, `${name}.json`))).toBe(true);
+        expect(fs.existsSync(path.join(cursorDir, `${name}.json.tmp`))).toBe(false);
+    });
+
+    it('rewinds to the last canonical checkpoint and re-delivers only logs whose block changed', async () => {
+        const testChain = chain(100);
+        testChain.emit(85, 'kept');
+        testChain.emit(92, 'unchanged');
+        testChain.emit(96, 'reorged');
+        const blockCursor = cursor(testChain);
+        await sync(blockCursor, testChain);
+
+        // Blocks 95+ replaced: checkpoint 98 is gone, checkpoint 89 still matches
+        testChain.reorg(95);
+        testChain.state.fetched = [];
+
+        expect(await sync(blockCursor, testChain)).toEqual(['reorged']);
+        expect(testChain.state.fetched).toEqual([[90, 98]]);
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('rewinding from block 98 to 89'));
+    });
+
+    it('rescans the whole tracked range when no checkpoint survived', async () => {
+        const testChain = chain(100);
+        testChain.emit(60, 'before-checkpoints');
+        testChain.emit(75, 'a');
+        const blockCursor = cursor(testChain);
+        await sync(blockCursor, testChain);
+
+        // Checkpoints 69, 89 and 98 all replaced
+        testChain.reorg(50);
+        testChain.state.fetched = [];
+
+        expect(await sync(blockCursor, testChain)).toEqual(['a']);
+        expect(testChain.state.fetched[0]).toEqual([69, 88]);
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Deep reorg detected, rewinding from block 98 to 68'));
+    });
+
+    it('retries from the failing log without re-delivering the logs before it', async () => {
+        const testChain = chain(100);
+        testChain.emit(60, 'a', 0);
+        testChain.emit(60, 'b', 1);
+        testChain.emit(80, 'c');
+        const blockCursor = cursor(testChain);
+        const handled: string[] = [];
+        let fail = true;
+        const handle = async (log: ethers.Log) => {
+            if (log.transactionHash === 'b' && fail) throw new Error('RPC down');
+            handled.push(log.transactionHash);
+        };
+
+        await expect(blockCursor.sync((from, to) => testChain.fetchLogs(from, to), handle)).rejects.toThrow('RPC down');
+        expect(await blockCursor.getLastBlock()).toBe(59);
+
+        fail = false;
+        await blockCursor.sync((from, to) => testChain.fetchLogs(from, to), handle);
+
+        expect(handled).toEqual(['a', 'b', 'c']);
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Block Cursor - durable event log cursor for operator polling loops
+ *
+ * Persists the last fully processed block (next to epochDatabase.json) so a restart resumes
+ * from the checkpoint instead of a fixed lookback. Only blocks with enough confirmations are
+ * read, backfill uses bounded queryFilter ranges, and recent block hashes are kept to detect
+ * reorgs: the cursor rewinds to the last block whose hash still matches and re-delivers events
+ * whose block hash changed.
+ */
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const CURSOR_DIR = path.resolve(__dirname, '../data/cursors');
+
+export interface BlockCursorOptions {
+    confirmations?: number;     // Blocks behind head considered final (default: CURSOR_CONFIRMATIONS or 2)
+    chunkSize?: number;         // Max blocks per queryFilter call (default: CURSOR_CHUNK_SIZE or 2000)
+    startBlock?: number;        // First block to scan without a checkpoint (default: CURSOR_START_BLOCK or head - initialLookback)
+    initialLookback?: number;   // Blocks to backfill without a checkpoint or start block (default 1000)
+    reorgDepth?: number;        // Recent block hashes kept for reorg detection (default 64)
+}
+
+/**
+ * Fetch logs for an inclusive block range (e.g., contract.queryFilter(filter, from, to))
+ */
+export type LogFetcher = (fromBlock: number, toBlock: number) => Promise<Array<ethers.Log | ethers.EventLog>>;
+
+/**
+ * Handle one log; throwing stops the sync and the log is retried on the next poll
+ */
+export type LogHandler = (log: ethers.Log | ethers.EventLog) => Promise<void>;
+
+interface CursorState {
+    lastBlock: number;                                  // Last block fully processed
+    blockHashes: { [blockNumber: string]: string };    // Recent checkpoint hashes
+    processed: { [logId: string]: { blockNumber: number; blockHash: string } };
+    updatedAt: number;
+}
+
+function envNumber(name: string): number | undefined {
+    const value = process.env[name];
+    return value !== undefined && value !== '' ? Number(value) : undefined;
+}
+
+export class BlockCursor {
+    private state: CursorState | null = null;
+    private readonly filePath: string;
+    private readonly confirmations: number;
+    private readonly chunkSize: number;
+    private readonly reorgDepth: number;
+
+    /**
+     * @param name - Unique cursor name (file name under operator/data/cursors)
+     * @param provider - Provider used for head and block hash lookups
+     */
+    constructor(
+        public readonly name: string,
+        private provider: ethers.Provider,
+        private options: BlockCursorOptions = {}
+    ) {
+        this.filePath = path.join(CURSOR_DIR, `${name}.json`);
+        this.confirmations = options.confirmations ?? envNumber('CURSOR_CONFIRMATIONS') ?? 2;
+        this.chunkSize = options.chunkSize ?? envNumber('CURSOR_CHUNK_SIZE') ?? 2000;
+        this.reorgDepth = options.reorgDepth ?? 64;
+    }
+
+    /**
+     * Last fully processed block (loads the checkpoint on first use)
+     */
+    async getLastBlock(): Promise<number> {
+        return (await this.load()).lastBlock;
+    }
+
+    /**
+     * Process all confirmed logs since the checkpoint. Returns the number of logs handled.
+     * Callers must not overlap syncs on one cursor (see startPolling in workQueue.ts).
+     */
+    async sync(fetchLogs: LogFetcher, handle: LogHandler): Promise<number> {
+        const state = await this.load();
+        await this.handleReorg(state);
+
+        const head = await this.provider.getBlockNumber();
+        const safeHead = head - this.confirmations;
+        let handled = 0;
+
+        for (let from = state.lastBlock + 1; from <= safeHead; from += this.chunkSize) {
+            const to = Math.min(from + this.chunkSize - 1, safeHead);
+            const logs = await fetchLogs(from, to);
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+            for (const log of logs) {
+                const logId = `${log.transactionHash}:${log.index}`;
+                if (state.processed[logId]?.blockHash === log.blockHash) continue;
+
+                try {
+                    await handle(log);
+                } catch (error) {
+                    // Checkpoint before the failing block so it is retried
+                    await this.checkpoint(state, log.blockNumber - 1);
+                    throw error;
+                }
+
+                state.processed[logId] = { blockNumber: log.blockNumber, blockHash: log.blockHash };
+                handled++;
+                this.save(state);
+            }
+
+            await this.checkpoint(state, to);
+        }
+
+        return handled;
+    }
+
+    /**
+     * Rewind the cursor if the checkpoint block is no longer canonical
+     */
+    private async handleReorg(state: CursorState): Promise<void> {
+        const checkpoints = Object.keys(state.blockHashes).map(Number).sort((a, b) => b - a);
+        if (checkpoints.length === 0) return;
+
+        for (const blockNumber of checkpoints) {
+            const block = await this.provider.getBlock(blockNumber);
+            if (block?.hash === state.blockHashes[blockNumber]) {
+                if (blockNumber !== state.lastBlock) {
+                    console.log(`⚠️ [${this.name}] Reorg detected, rewinding from block ${state.lastBlock} to ${blockNumber}`);
+                    this.rewind(state, blockNumber);
+                }
+                return;
+            }
+        }
+
+        // No recent checkpoint survived: rescan the whole tracked range
+        const rewindTo = Math.max(0, checkpoints[checkpoints.length - 1] - 1);
+        console.log(`⚠️ [${this.name}] Deep reorg detected, rewinding from block ${state.lastBlock} to ${rewindTo}`);
+        this.rewind(state, rewindTo);
+    }
+
+    private rewind(state: CursorState, blockNumber: number): void {
+        state.lastBlock = blockNumber;
+        for (const key of Object.keys(state.blockHashes)) {
+            if (Number(key) > blockNumber) delete state.blockHashes[key];
+        }
+        // Processed logs above the rewind point stay recorded: they are only re-delivered
+        // if they come back with a different block hash
+        this.save(state);
+    }
+
+    /**
+     * Mark every block up to blockNumber as processed and record its hash
+     */
+    private async checkpoint(state: CursorState, blockNumber: number): Promise<void> {
+        if (blockNumber <= state.lastBlock) return;
+
+        const block = await this.provider.getBlock(blockNumber);
+        state.lastBlock = blockNumber;
+        if (block?.hash) {
+            state.blockHashes[blockNumber] = block.hash;
+        }
+
+        // Only keep hashes and processed logs within the reorg window
+        const horizon = blockNumber - this.reorgDepth;
+        for (const key of Object.keys(state.blockHashes)) {
+            if (Number(key) < horizon) delete state.blockHashes[key];
+        }
+        for (const [logId, entry] of Object.entries(state.processed)) {
+            if (entry.blockNumber < horizon) delete state.processed[logId];
+        }
+
+        this.save(state);
+    }
+
+    private async load(): Promise<CursorState> {
+        if (this.state) return this.state;
+
+        try {
+            if (fs.existsSync(this.filePath)) {
+                this.state = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as CursorState;
+                console.log(`📍 [${this.name}] Resuming from block ${this.state.lastBlock}`);
+                return this.state;
+            }
+        } catch (error) {
+            console.error(`⚠️ [${this.name}] Error loading cursor, starting fresh:`, error);
+        }
+
+        const head = await this.provider.getBlockNumber();
+        const startBlock = this.options.startBlock ?? envNumber('CURSOR_START_BLOCK') ??
+            Math.max(0, head - (this.options.initialLookback ?? 1000));
+
+        this.state = { lastBlock: startBlock - 1, blockHashes: {}, processed: {}, updatedAt: Date.now() };
+        console.log(`📍 [${this.name}] No checkpoint, starting from block ${startBlock}`);
+        this.save(this.state);
+        return this.state;
+    }
+
+    /**
+     * Write the checkpoint atomically (temp file + rename) so a crash never leaves a torn file
+     */
+    private save(state: CursorState): void {
+        state.updatedAt = Date.now();
+        if (!fs.existsSync(CURSOR_DIR)) {
+            fs.mkdirSync(CURSOR_DIR, { recursive: true });
+        }
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+        fs.renameSync(tmpPath, this.filePath);
+    }
+}
@@ -0,0 +1,140 @@
+import { ethers } from 'ethers';
+import { StrategyNode } from '../storage';
+import { AggregatedCall, aggregateCalls } from './callAggregation';
+import { getAmountArg, getCallFunction } from './protocolMapping';
+
+// Only the utype values are used here; the CoFHE SDK itself isn't needed to aggregate
+jest.mock('../cofheUtils', () => ({
+    FheTypes: { Bool: 0, Uint8: 2, Uint16: 3, Uint32: 4, Uint64: 5, Uint128: 6, Uint160: 7, Address: 7, Uint256: 8 }
+}));
+
+const ADDRESS = 7;
+const UINT = 8;
+
+const address = (name: string) => ethers.getAddress(ethers.id(name).slice(0, 42));
+
+const encoder = address('encoder');
+const vault = address('vault');
+const other = address('other');
+const aave = address('aave');
+const compound = address('compound');
+const pendle = address('pendle');
+const market = address('market.sUSDE');
+const USDC = address('USDC');
+const USDT = address('USDT');
+const WETH = address('WETH');
+
+function node(target: string, signature: string, args: any[]): StrategyNode {
+    const types = ethers.FunctionFragment.from(signature).inputs.map((input) => input.type === 'address' ? ADDRESS : UINT);
+    return { encoder, target, selector: ethers.id(signature).slice(0, 10), args, argTypes: types };
+}
+
+const approve = (token: string, spender: string, amount: bigint) => node(token, 'approve(address,uint256)', [spender, amount]);
+const supply = (asset: string, amount: bigint) => node(aave, 'supply(address,uint256,address,uint16)', [asset, amount, vault, 0n]);
+const withdraw = (asset: string, amount: bigint, to = vault) => node(aave, 'withdraw(address,uint256,address)', [asset, amount, to]);
+const borrow = (asset: string, amount: bigint) => node(aave, 'borrow(address,uint256,uint256,uint16,address)', [asset, amount, 2n, 0n, vault]);
+const buyPT = (amount: bigint) => node(pendle, 'swapExactTokenForPt(address,address,address,uint256)', [vault, market, USDC, amount]);
+
+/**
+ * "protocol.function amount" of an aggregated call
+ */
+function summary(call: AggregatedCall): string {
+    return `${call.label} ${call.args[getAmountArg(getCallFunction(call.selector)!)!.index]}`;
+}
+
+function callsOf(winnerNodes: StrategyNode[][]): string[] {
+    return aggregateCalls(winnerNodes).calls.map(summary);
+}
+
+describe('aggregateCalls', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('merges calls that only differ in their amount', () => {
+        const { calls, report } = aggregateCalls([
+            [approve(USDC, aave, 1_000n), supply(USDC, 1_000n)],
+            [approve(USDC, aave, 500n), supply(USDC, 500n)]
+        ]);
+
+        expect(calls.map(summary)).toEqual(['erc20.approve 1500', 'aave.supply 1500']);
+        expect(calls[1].origins).toEqual([{ strategy: 0, node: 1 }, { strategy: 1, node: 1 }]);
+        expect(calls[1].argTypes[1]).toBe(UINT);
+        expect(report).toMatchObject({ strategies: 2, inputCalls: 4, outputCalls: 2, merged: 2, opaque: 0 });
+    });
+
+    it('compares addresses regardless of their case', () => {
+        const lowercase = { ...supply(USDC, 500n), target: aave.toLowerCase() };
+        lowercase.args = [USDC.toLowerCase(), 500n, vault.toLowerCase(), 0n];
+
+        expect(callsOf([[supply(USDC, 1_000n)], [lowercase]])).toEqual(['aave.supply 1500']);
+    });
+
+    it('nets a withdraw against a supply of the same asset', () => {
+        const { calls, report } = aggregateCalls([[supply(USDC, 1_000n)], [withdraw(USDC, 400n)]]);
+
+        expect(calls.map(summary)).toEqual(['aave.supply 600']);
+        expect(calls[0].sources).toBe(2);
+        expect(report.netted).toEqual([
+            { label: 'aave.supply', position: USDC.toLowerCase(), increase: '1000', decrease: '400', net: '600' }
+        ]);
+    });
+
+    it('drops both sides when they cancel out', () => {
+        const { calls, report } = aggregateCalls([[supply(USDC, 500n)], [withdraw(USDC, 500n)]]);
+
+        expect(calls).toEqual([]);
+        expect(report.netted.map((flow) => flow.net)).toEqual(['0']);
+    });
+
+    it('does not net flows for different accounts', () => {
+        expect(callsOf([[supply(USDC, 1_000n)], [withdraw(USDC, 400n, other)]])).toEqual([
+            'aave.withdraw 400',
+            'aave.supply 1000'
+        ]);
+    });
+
+    it('never merges or nets type(uint256).max amounts', () => {
+        const max = ethers.MaxUint256;
+
+        expect(callsOf([[supply(USDC, 1_000n), withdraw(USDC, max)], [withdraw(USDC, max)]])).toEqual([
+            `aave.withdraw ${max}`,
+            'aave.supply 1000',
+            `aave.withdraw ${max}`
+        ]);
+    });
+
+    it("keeps each strategy's call order and puts unordered calls in phase order", () => {
+        expect(callsOf([
+            [supply(WETH, 1_000n), borrow(USDC, 600n), approve(USDC, pendle, 600n), buyPT(600n)],
+            [approve(USDT, compound, 300n)]
+        ])).toEqual([
+            'erc20.approve 300',
+            'aave.supply 1000',
+            'aave.borrow 600',
+            'erc20.approve 600',
+            'pendle.swapExactTokenForPt 600'
+        ]);
+    });
+
+    it('falls back to phase order for calls the strategies order differently', () => {
+        expect(callsOf([
+            [supply(WETH, 1_000n), borrow(USDC, 600n)],
+            [borrow(USDC, 400n), supply(WETH, 800n)]
+        ])).toEqual(['aave.supply 1800', 'aave.borrow 1000']);
+    });
+
+    it('builds the same plan for the same winners', () => {
+        const winners = () => [
+            [approve(USDC, aave, 1_000n), supply(USDC, 1_000n), borrow(WETH, 300n)],
+            [approve(USDC, pendle, 700n), buyPT(700n), withdraw(USDC, 200n)],
+            [borrow(WETH, 100n), supply(USDC, 400n)]
+        ];
+
+        expect(aggregateCalls(winners())).toEqual(aggregateCalls(winners()));
+    });
+});
@@ -0,0 +1,353 @@
+/**
+ * Call Aggregation - one execution plan for all of an epoch's winning strategies on a chain
+ *
+ * The winners' nodes are combined so the public execution does not replay each strategy verbatim:
+ *   merge   calls to the same encoder/target/function with the same non-amount arguments
+ *           (asset, market, receiver...) become one call with the summed amount
+ *   net     opposing flows on the same position collapse into their difference
+ *           (supply vs withdraw, borrow vs repay); dropped entirely when they cancel out
+ *   order   every strategy's own call order is kept (approve before supply, swap before using
+ *           its output, supply before borrow); calls left unordered by the strategies, and
+ *           conflicting orders, follow PHASE_ORDER
+ * Calls to unknown functions, and amounts of type(uint256).max ("all"), are never merged or netted.
+ * The plan only depends on the winner nodes and their rank order, so every operator builds the
+ * same calls to sign.
+ */
+
+import { ethers } from 'ethers';
+import { FheTypes } from '../cofheUtils';
+import { StrategyNode } from '../storage';
+import { ProtocolFunction, AMOUNT_ARG_TOKENS, getAmountArg, getCallFunction } from './protocolMapping';
+
+export interface NodeOrigin {
+    strategy: number;          // Index of the strategy in the aggregated winner nodes
+    node: number;              // Index of the node in the strategy
+}
+
+export interface AggregatedCall extends StrategyNode {
+    label: string;             // protocol.function
+    sources: number;           // Strategy nodes merged or netted into this call
+    origins: NodeOrigin[];     // Those nodes
+}
+
+export interface NettedFlow {
+    label: string;             // Surviving side, e.g. "aave.supply"
+    position: string;
+    increase: string;          // Summed amounts, token base units
+    decrease: string;
+    net: string;               // Remaining amount of the surviving side (0: both dropped)
+}
+
+export interface AggregationReport {
+    strategies: number;
+    inputCalls: number;
+    outputCalls: number;
+    merged: number;            // Calls saved by merging
+    netted: NettedFlow[];
+    opaque: number;            // Calls to unknown functions, passed through as they are
+}
+
+export interface AggregationPlan {
+    calls: AggregatedCall[];   // In execution order
+    report: AggregationReport;
+}
+
+// Execution order of calls the strategies leave unordered
+const PHASE_ORDER = ['approve', 'repay', 'withdraw', 'swapExactPtForToken', 'swapExactTokenForPt', 'supply', 'borrow'];
+
+// Opposing flows on one position: arguments identifying the position on each side
+const NETTING_PAIRS: { protocol: string; increase: string; decrease: string; position: { [functionName: string]: string[] } }[] = [
+    { protocol: 'aave', increase: 'supply', decrease: 'withdraw', position: { supply: ['asset'], withdraw: ['asset'] } },
+    {
+        protocol: 'aave',
+        increase: 'borrow',
+        decrease: 'repay',
+        position: { borrow: ['asset', 'interestRateMode'], repay: ['asset', 'interestRateMode'] }
+    },
+    { protocol: 'morpho', increase: 'supply', decrease: 'withdraw', position: { supply: ['collateralToken'], withdraw: ['asset'] } },
+    {
+        protocol: 'morpho',
+        increase: 'borrow',
+        decrease: 'repay',
+        position: { borrow: ['loanToken', 'collateralToken'], repay: ['loanToken', 'collateralToken'] }
+    },
+    { protocol: 'compound', increase: 'supply', decrease: 'withdraw', position: { supply: ['asset'], withdraw: ['asset'] } }
+];
+
+interface CallGroup {
+    key: string;
+    fn: ProtocolFunction | null;
+    amountIndex: number;       // -1 when not mergeable
+    node: StrategyNode;        // First node of the group, with the summed amount
+    amount: bigint;
+    origins: NodeOrigin[];
+    cancelled: boolean;        // Netted away entirely
+    predecessors: Set<string>;
+}
+
+function isAddressType(argType: number): boolean {
+    return argType === FheTypes.Uint160 || argType === FheTypes.Address || argType === 7;
+}
+
+/**
+ * Canonical form of an argument for comparisons (addresses lowercased, numbers in decimal)
+ */
+function argKey(value: any, argType: number): string {
+    if (isAddressType(Number(argType))) {
+        const hex = typeof value === 'string' ? value.trim().replace(/^(0x)+/i, '') : BigInt(value).toString(16);
+        return `0x${hex.padStart(40, '0').toLowerCase()}`;
+    }
+    return typeof value === 'boolean' ? String(value) : BigInt(value).toString();
+}
+
+function phaseOf(group: CallGroup): number {
+    const phase = group.fn ? PHASE_ORDER.indexOf(group.fn.functionName) : -1;
+    return phase >= 0 ? phase : PHASE_ORDER.length;
+}
+
+function argByName(group: CallGroup, name: string): string | undefined {
+    const index = group.fn?.argNames.indexOf(name) ?? -1;
+    return index >= 0 ? argKey(group.node.args[index], group.node.argTypes[index]) : undefined;
+}
+
+/**
+ * Address arguments that are neither the position nor the amount: who the flow is for
+ * (onBehalfOf, receiver, to...). Netting is only safe when both sides agree on them.
+ */
+function accountArgs(group: CallGroup, position: string[]): string[] {
+    return group.node.args
+        .map((arg, i) => ({ name: group.fn!.argNames[i], key: argKey(arg, group.node.argTypes[i]), type: group.node.argTypes[i] }))
+        .filter(({ name, type }) => isAddressType(Number(type)) && !position.includes(name) && !(name in AMOUNT_ARG_TOKENS))
+        .map(({ key }) => key);
+}
+
+/**
+ * Merge the nodes into one group per call shape, keeping each strategy's call order as edges
+ */
+function groupCalls(winnerNodes: StrategyNode[][]): Map<string, CallGroup> {
+    const groups = new Map<string, CallGroup>();
+
+    winnerNodes.forEach((nodes, strategyIndex) => {
+        let previous: CallGroup | null = null;
+
+        nodes.forEach((node, nodeIndex) => {
+            const fn = getCallFunction(node.selector);
+            let amountIndex = fn && fn.argNames.length === node.args.length ? getAmountArg(fn)?.index ?? -1 : -1;
+            const amount = amountIndex >= 0 ? BigInt(node.args[amountIndex]) : 0n;
+            if (amount === ethers.MaxUint256) {
+                amountIndex = -1;
+            }
+
+            const shape = [
+                argKey(node.encoder, FheTypes.Address),
+                argKey(node.target, FheTypes.Address),
+                node.selector.toLowerCase(),
+                ...node.args.map((arg, i) => (i === amountIndex ? '*' : argKey(arg, node.argTypes[i])))
+            ].join('|');
+            // Unmergeable calls stay one group per node
+            const key = amountIndex >= 0 ? shape : `${shape}|#${strategyIndex}.${nodeIndex}`;
+
+            let group = groups.get(key);
+            if (!group) {
+                group = { key, fn, amountIndex, node, amount: 0n, origins: [], cancelled: false, predecessors: new Set() };
+                groups.set(key, group);
+            }
+            group.amount += amount;
+            group.origins.push({ strategy: strategyIndex, node: nodeIndex });
+
+            if (previous && previous !== group) {
+                group.predecessors.add(previous.key);
+            }
+            previous = group;
+        });
+    });
+
+    return groups;
+}
+
+/**
+ * Collapse opposing flows on the same position into their difference
+ */
+function netGroups(groups: Map<string, CallGroup>): NettedFlow[] {
+    const netted: NettedFlow[] = [];
+    const mergeable = [...groups.values()].filter((group) => group.fn && group.amountIndex >= 0);
+
+    for (const pair of NETTING_PAIRS) {
+        const side = (functionName: string) => mergeable.filter(
+            (group) => group.fn!.protocol === pair.protocol && group.fn!.functionName === functionName
+        );
+        const positionOf = (group: CallGroup) => [
+            argKey(group.node.encoder, FheTypes.Address),
+            argKey(group.node.target, FheTypes.Address),
+            ...pair.position[group.fn!.functionName].map((name) => argByName(group, name))
+        ].join('|');
+
+        for (const increase of side(pair.increase)) {
+            const position = positionOf(increase);
+            const decreases = side(pair.decrease).filter((group) => positionOf(group) === position);
+            const increases = side(pair.increase).filter((group) => positionOf(group) === position);
+            // Only a single call per side can be netted unambiguously
+            if (decreases.length !== 1 || increases.length !== 1 || increase.amount === 0n) {
+                continue;
+            }
+            const decrease = decreases[0];
+            const accounts = new Set([
+                ...accountArgs(increase, pair.position[pair.increase]),
+                ...accountArgs(decrease, pair.position[pair.decrease])
+            ]);
+            if (accounts.size > 1 || decrease.amount === 0n) {
+                continue;
+            }
+
+            const [survivor, dropped] = increase.amount >= decrease.amount ? [increase, decrease] : [decrease, increase];
+            const flow: NettedFlow = {
+                label: `${pair.protocol}.${survivor.fn!.functionName}`,
+                position: pair.position[pair.increase].map((name) => argByName(increase, name)).join('/'),
+                increase: increase.amount.toString(),
+                decrease: decrease.amount.toString(),
+                net: (survivor.amount - dropped.amount).toString()
+            };
+            survivor.amount -= dropped.amount;
+            survivor.origins.push(...dropped.origins);
+            survivor.cancelled = survivor.amount === 0n;
+            dropped.cancelled = true;
+            netted.push(flow);
+        }
+    }
+
+    return netted;
+}
+
+/**
+ * Topological order of the groups: strategies' order first, then phase, then key.
+ * Calls the strategies order differently (a cycle) are kept together in phase order.
+ */
+function orderGroups(groups: Map<string, CallGroup>): CallGroup[] {
+    const compare = (a: CallGroup, b: CallGroup) => phaseOf(a) - phaseOf(b) || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+    const successors = new Map([...groups.keys()].map((key) => [key, [] as string[]]));
+    for (const group of groups.values()) {
+        for (const predecessor of group.predecessors) {
+            successors.get(predecessor)!.push(group.key);
+        }
+    }
+
+    // Strongly connected components (Tarjan), each sorted by phase
+    const components: CallGroup[][] = [];
+    const componentOf = new Map<string, number>();
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const visit = (key: string): void => {
+        index.set(key, index.size);
+        lowLink.set(key, index.get(key)!);
+        stack.push(key);
+        for (const next of successors.get(key)!) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+            } else if (!componentOf.has(next)) {
+                lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+            }
+        }
+        if (lowLink.get(key) === index.get(key)) {
+            const members: CallGroup[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                componentOf.set(member, components.length);
+                members.push(groups.get(member)!);
+            } while (member !== key);
+            components.push(members.sort(compare));
+        }
+    };
+    [...groups.values()].sort(compare).forEach((group) => index.has(group.key) || visit(group.key));
+
+    // Kahn's algorithm over the components, the earliest ready one first
+    const blockers = components.map(() => new Set<number>());
+    components.forEach((members, i) => members.forEach((group) => group.predecessors.forEach((predecessor) => {
+        if (componentOf.get(predecessor) !== i) {
+            blockers[i].add(componentOf.get(predecessor)!);
+        }
+    })));
+
+    const ordered: CallGroup[] = [];
+    const remaining = new Set(components.keys());
+    while (remaining.size > 0) {
+        const next = [...remaining]
+            .filter((i) => blockers[i].size === 0)
+            .sort((a, b) => compare(components[a][0], components[b][0]))[0];
+        if (components[next].length > 1) {
+            console.log(`  ⚠️ Strategies order ${components[next].map(describeGroup).join(', ')} inconsistently, using phase order`);
+        }
+        ordered.push(...components[next]);
+        remaining.delete(next);
+        blockers.forEach((blocking) => blocking.delete(next));
+    }
+
+    return ordered;
+}
+
+function describeGroup(group: CallGroup): string {
+    return group.fn ? `${group.fn.protocol}.${group.fn.functionName}` : `unknown ${group.node.selector}`;
+}
+
+/**
+ * Aggregate the winners' nodes (already mapped to the target chain) into one execution plan
+ */
+export function aggregateCalls(winnerNodes: StrategyNode[][]): AggregationPlan {
+    const groups = groupCalls(winnerNodes);
+    const netted = netGroups(groups);
+
+    const calls: AggregatedCall[] = [];
+    for (const group of orderGroups(groups)) {
+        if (group.cancelled) {
+            continue;
+        }
+
+        const mergeable = group.fn !== null && group.amountIndex >= 0;
+        const args = [...group.node.args];
+        const argTypes = [...group.node.argTypes];
+        if (mergeable) {
+            // Sums may outgrow the submitted utype; every amount parameter is a uint256 in the ABI
+            args[group.amountIndex] = group.amount;
+            argTypes[group.amountIndex] = FheTypes.Uint256;
+        }
+        calls.push({
+            ...group.node,
+            args,
+            argTypes,
+            label: describeGroup(group),
+            sources: group.origins.length,
+            origins: group.origins
+        });
+    }
+
+    const inputCalls = winnerNodes.reduce((sum, nodes) => sum + nodes.length, 0);
+    return {
+        calls,
+        report: {
+            strategies: winnerNodes.length,
+            inputCalls,
+            outputCalls: calls.length,
+            merged: inputCalls - groups.size,
+            netted,
+            opaque: [...groups.values()].filter((group) => group.fn === null).length
+        }
+    };
+}
+
+/**
+ * Log what aggregation did
+ */
+export function logAggregationReport(report: AggregationReport): void {
+    console.log(
+        `  ${report.inputCalls} calls from ${report.strategies} strateg${report.strategies === 1 ? 'y' : 'ies'} → ` +
+        `${report.outputCalls} aggregated call(s) (${report.merged} merged, ${report.netted.length} flow(s) netted)`
+    );
+    for (const flow of report.netted) {
+        console.log(`    - ${flow.position}: +${flow.increase} / -${flow.decrease} → ${flow.net === '0' ? 'cancelled out' : `${flow.label} ${flow.net}`}`);
+    }
+    if (report.opaque > 0) {
+        console.log(`  ⚠️ ${report.opaque} call(s) to unknown functions executed as submitted`);
+    }
+}
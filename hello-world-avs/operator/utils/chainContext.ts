@@ -0,0 +1,115 @@
+/**
+ * Chain Context - provider, wallet and TradeManager for one configured chain
+ *
+ * Chains are selected by name or chain ID; each reads its RPC URL from its own variable:
+ *   base     - RPC_URL (Base Sepolia, the chain strategies are submitted and ranked on)
+ *   arbitrum - ARB_SEPOLIA_RPC_URL (Arbitrum Sepolia)
+ * Any other chain ID uses RPC_URL. The TradeManager address comes from the local deployment
+ * file when present (contracts/deployments/trade-manager/<chainId>.json), otherwise from the
+ * known deployments in chainAddressMapping.
+ */
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CHAIN_IDS, CHAIN_DEPLOYMENTS } from './chainAddressMapping';
+import { TxSender, getTxSender } from './txSender';
+
+export interface ChainConfig {
+    name: string;
+    label: string;
+    rpcEnv: string;            // Environment variable holding the RPC URL
+    expectedChainId?: number;  // Set when selected by chain ID (checked on connect)
+}
+
+export interface ChainContext {
+    chain: ChainConfig;
+    chainId: number;
+    provider: ethers.JsonRpcProvider;
+    wallet: ethers.Wallet;
+    tradeManagerAddress: string;
+    tradeManager: ethers.Contract;   // Connected to the wallet
+    txSender: TxSender;
+}
+
+export const CHAINS: { [name: string]: ChainConfig } = {
+    base: { name: 'base', label: 'Base', rpcEnv: 'RPC_URL' },
+    arbitrum: { name: 'arbitrum', label: 'Arbitrum', rpcEnv: 'ARB_SEPOLIA_RPC_URL' }
+};
+
+const CHAIN_NAMES: { [chainId: number]: string } = {
+    [CHAIN_IDS.BASE_SEPOLIA]: 'base',
+    [CHAIN_IDS.ARBITRUM_SEPOLIA]: 'arbitrum'
+};
+
+const tradeManagerABI = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, '../../abis/TradeManager.json'), 'utf8')
+);
+
+/**
+ * Look up a chain by name or chain ID (default: base)
+ */
+export function resolveChain(nameOrId: string = 'base'): ChainConfig {
+    const key = nameOrId.toLowerCase();
+    if (CHAINS[key]) {
+        return CHAINS[key];
+    }
+
+    const chainId = Number(nameOrId);
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+        throw new Error(`Unknown chain "${nameOrId}" (expected ${Object.keys(CHAINS).join(', ')} or a chain ID)`);
+    }
+    const known = CHAINS[CHAIN_NAMES[chainId]];
+    return known
+        ? { ...known, expectedChainId: chainId }
+        : { name: chainId.toString(), label: `Chain ${chainId}`, rpcEnv: 'RPC_URL', expectedChainId: chainId };
+}
+
+/**
+ * TradeManager address for a chain: local deployment file first, then the known deployments
+ */
+export function getTradeManagerAddress(chainId: number): string {
+    const deploymentPath = path.resolve(__dirname, `../../contracts/deployments/trade-manager/${chainId}.json`);
+    if (fs.existsSync(deploymentPath)) {
+        const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
+        const address = deployment.addresses?.tradeManager || deployment.addresses?.TradeManager;
+        if (address) return address;
+    }
+
+    const known = CHAIN_DEPLOYMENTS[chainId];
+    if (!known) {
+        throw new Error(`No TradeManager deployment found for chain ${chainId}`);
+    }
+    return known.tradeManager;
+}
+
+/**
+ * Connect to a chain with the operator wallet (PRIVATE_KEY)
+ */
+export async function connectChain(chain: ChainConfig = CHAINS.base): Promise<ChainContext> {
+    const rpcUrl = process.env[chain.rpcEnv];
+    if (!rpcUrl) {
+        throw new Error(`${chain.label}: RPC URL not configured (set ${chain.rpcEnv})`);
+    }
+    if (!process.env.PRIVATE_KEY) {
+        throw new Error('PRIVATE_KEY not configured');
+    }
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+    const chainId = Number((await provider.getNetwork()).chainId);
+    if (chain.expectedChainId !== undefined && chain.expectedChainId !== chainId) {
+        throw new Error(`${chain.label}: ${chain.rpcEnv} points to chain ${chainId}, expected ${chain.expectedChainId}`);
+    }
+
+    const tradeManagerAddress = getTradeManagerAddress(chainId);
+    return {
+        chain,
+        chainId,
+        provider,
+        wallet,
+        tradeManagerAddress,
+        tradeManager: new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet),
+        txSender: getTxSender(wallet)
+    };
+}
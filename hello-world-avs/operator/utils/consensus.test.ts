@@ -0,0 +1,180 @@
+import { ethers } from 'ethers';
+import { once } from 'events';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import {
+    ConsensusConfig,
+    DigestBuilder,
+    attest,
+    collectAttestations,
+    consensusTopic,
+    executeDigest,
+    finalizeDigest,
+    recoverAttestationSigner,
+    startConsensusServer
+} from './consensus';
+
+const address = (name: string) => ethers.getAddress(ethers.id(name).slice(0, 42));
+
+const tradeManager = address('tradeManager');
+const winners = [address('trader2'), address('trader1')];
+const decryptedAPYs = [2_147_485_648n, 2_147_484_648n];
+
+describe('consensus digests', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('hashes the winner list the way finalizeEpoch does', () => {
+        const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint256', 'address', 'uint256', 'address[]', 'uint256[]'],
+            [84532, tradeManager, 3n, winners, decryptedAPYs]
+        );
+
+        expect(finalizeDigest(84532, tradeManager, 3n, winners, decryptedAPYs)).toBe(ethers.keccak256(encoded));
+    });
+
+    it('binds finalize and execute digests to the chain and TradeManager', () => {
+        const plan: [string[], string[], string[]] = [[address('encoder')], [address('aave')], ['0x12345678']];
+        const execute = (chainId: number, contract: string) => executeDigest(chainId, contract, 3n, 0n, ...plan);
+        const finalize = (chainId: number, contract: string) => finalizeDigest(chainId, contract, 3n, winners, decryptedAPYs);
+
+        for (const digest of [finalize, execute]) {
+            expect(digest(84532, tradeManager)).not.toBe(digest(421614, tradeManager));
+            expect(digest(84532, tradeManager)).not.toBe(digest(84532, address('otherTradeManager')));
+        }
+        expect(executeDigest(84532, tradeManager, 3n, 1n, ...plan)).not.toBe(execute(84532, tradeManager));
+    });
+
+    it('signs digests so the signer can be recovered', async () => {
+        const wallet = new ethers.Wallet(ethers.id('operator1'));
+        const attestation = await attest(wallet, 'finalize:84532:3', finalizeDigest(84532, tradeManager, 3n, winners, decryptedAPYs));
+
+        expect(recoverAttestationSigner(attestation)).toBe(wallet.address);
+        expect(recoverAttestationSigner({ ...attestation, digest: finalizeDigest(1, tradeManager, 3n, winners, decryptedAPYs) }))
+            .not.toBe(wallet.address);
+    });
+});
+
+describe('consensus peer protocol', () => {
+    // Attestations are published under operator/data/consensus (a module constant)
+    const dataDir = path.resolve(__dirname, '../data');
+    const consensusDir = path.join(dataDir, 'consensus');
+    const existed = [dataDir, consensusDir].filter((dir) => fs.existsSync(dir));
+
+    const [leader, op2, op3, stranger] = ['op1', 'op2', 'op3', 'stranger'].map((name) => new ethers.Wallet(ethers.id(name)));
+    const operators = [leader, op2, op3].map((wallet) => wallet.address);
+    const digest = finalizeDigest(31337, tradeManager, 999_001n, winners, decryptedAPYs);
+    const servers: http.Server[] = [];
+    let topicNumber = 0;
+    let topic: string;
+
+    /**
+     * Start a local operator's peer server and return its base URL
+     */
+    async function peer(wallet: ethers.Wallet, builder?: DigestBuilder): Promise<string> {
+        const server = startConsensusServer({ port: 0, wallet, builders: builder ? { finalize: builder } : {} });
+        servers.push(server);
+        await once(server, 'listening');
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    function config(peers: string[]): ConsensusConfig {
+        return { peers, host: '127.0.0.1', port: 0, timeoutSeconds: 0.3, pollIntervalMs: 20 };
+    }
+
+    function get(url: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            http.get(url, (res) => {
+                res.resume();
+                resolve(res.statusCode ?? 0);
+            }).on('error', reject);
+        });
+    }
+
+    beforeEach(() => {
+        topic = consensusTopic('finalize', 31337, 999_000 + ++topicNumber);
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+        for (const file of fs.existsSync(consensusDir) ? fs.readdirSync(consensusDir) : []) {
+            if (file.startsWith('finalize_31337_999')) {
+                fs.rmSync(path.join(consensusDir, file));
+            }
+        }
+        jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        for (const dir of [consensusDir, dataDir]) {
+            if (!existed.includes(dir) && fs.readdirSync(dir).length === 0) {
+                fs.rmdirSync(dir);
+            }
+        }
+    });
+
+    it('listens on loopback by default', async () => {
+        await peer(op2);
+
+        expect((servers[0].address() as AddressInfo).address).toBe('127.0.0.1');
+    });
+
+    it('collects the attestations of local operators that built the same payload', async () => {
+        const peers = [await peer(op2, async () => digest), await peer(op3, async () => digest)];
+        const own = await attest(leader, topic, digest);
+
+        const signatures = await collectAttestations({ topic, digest, own, operators, threshold: 3, config: config(peers) });
+
+        expect(signatures[0]).toBe(own.signature);
+        expect(signatures.map((signature) => ethers.verifyMessage(ethers.getBytes(digest), signature)).sort())
+            .toEqual([...operators].sort());
+    });
+
+    it('does not count a peer that built a different payload', async () => {
+        const other = finalizeDigest(31337, tradeManager, 999_001n, [winners[1], winners[0]], decryptedAPYs);
+        const peers = [await peer(op2, async () => digest), await peer(op3, async () => other)];
+        const own = await attest(leader, topic, digest);
+
+        await expect(collectAttestations({ topic, digest, own, operators, threshold: 3, config: config(peers) }))
+            .rejects.toThrow(`Insufficient consensus for ${topic}: 2/3 attestation(s), 1 peer(s) built a different payload`);
+    });
+
+    it('does not count signers outside the selected operators', async () => {
+        const peers = [await peer(stranger, async () => digest)];
+        const own = await attest(leader, topic, digest);
+
+        await expect(collectAttestations({ topic, digest, own, operators, threshold: 2, config: config(peers) }))
+            .rejects.toThrow('1/2 attestation(s)');
+    });
+
+    it('keeps asking a peer until it has something to attest', async () => {
+        let ready = false;
+        const peers = [await peer(op2, async () => (ready ? digest : undefined))];
+        const own = await attest(leader, topic, digest);
+        setTimeout(() => (ready = true), 50);
+
+        const signatures = await collectAttestations({
+            topic, digest, own, operators, threshold: 2, config: { ...config(peers), timeoutSeconds: 5 }
+        });
+
+        expect(signatures).toHaveLength(2);
+    });
+
+    it('answers unknown topics and kinds without signing', async () => {
+        const url = await peer(op2, async () => undefined);
+
+        expect(await get(`${url}/consensus/${topic}`)).toBe(404);
+        expect(await get(`${url}/consensus/${consensusTopic('execute', 31337, 999_000, 31337)}`)).toBe(404);
+        expect(await get(`${url}/consensus/sign:anything`)).toBe(400);
+        expect(fs.existsSync(consensusDir) ? fs.readdirSync(consensusDir).filter((file) => file.includes('31337_999')) : []).toEqual([]);
+    });
+});
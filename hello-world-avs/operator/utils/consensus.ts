@@ -0,0 +1,392 @@
+/**
+ * Operator Consensus - attestations from the selected operators over HTTP
+ *
+ * finalizeEpoch, executeEpochTopStrategiesAggregated and processUEI need signatures from
+ * minAttestations distinct operators selected for the epoch (or batch). Each payload has a topic:
+ *   finalize:<chainId>:<epoch>                  (chainId, tradeManager, epochNumber, winners, decryptedAPYs)
+ *   execute:<chainId>:<epoch>:<targetChainId>   (targetChainId, its tradeManager, epochNumber, executionCount,
+ *                                                encoders, targets, calldatas)
+ *   recover:<chainId>:<epoch>:<txHash>          same, the calls that failed in that execution
+ *   unwind:<chainId>:<epoch>:<txHash>:<block>   same, the calls closing the epoch's positions after it
+ *                                               (Aave debts read at block)
+ * executionCount is the number of times the epoch was already executed on the target chain (0 for
+ * execute), so a signed plan is valid for one execution only. The chain ID and TradeManager address
+ * keep a signature from being replayed on another chain or deployment.
+ *   uei:<chainId>:<intentId>                    (intentId, decoder, target, calldata)
+ * Every operator rebuilds the payload from its own view of the chain and its own database, and
+ * signs only what it built itself: the leader asks its peers for their attestation of a topic
+ * (GET /consensus/<topic> on CONSENSUS_PEERS) and never sends them a payload to sign. Peers that
+ * built something else are reported as disagreeing and not counted.
+ *
+ * Attestations are published under data/consensus/ per topic and signer, so a peer server
+ * (consensusPeer.ts) also serves the ones its wallet signed in other processes, like the UEI
+ * processor, and several operators can share one data directory.
+ *
+ * Anyone who can reach a peer server can make it rebuild and sign payloads, so it listens on
+ * loopback unless CONSENSUS_HOST says otherwise; expose it only to the other operators.
+ */
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+
+const CONSENSUS_DIR = path.resolve(__dirname, '../data/consensus');
+const REBUILD_AFTER_MS = 30_000;
+
+export type ConsensusKind = 'finalize' | 'execute' | 'recover' | 'unwind' | 'uei';
+
+const CONSENSUS_KINDS: ConsensusKind[] = ['finalize', 'execute', 'recover', 'unwind', 'uei'];
+
+export interface ConsensusTopic {
+    kind: ConsensusKind;
+    chainId: number;
+    ids: string[];             // Epoch number (and target chain ID or transaction), or intent ID
+}
+
+export interface Attestation {
+    topic: string;
+    digest: string;            // keccak256 of the ABI-encoded payload, as the contract hashes it
+    signer: string;
+    signature: string;         // EIP-191 signature over the digest
+    signedAt: number;          // Unix milliseconds
+}
+
+export interface ConsensusConfig {
+    peers: string[];           // Base URLs of the other operators' peer servers
+    host: string;              // Peer server bind address
+    port: number;
+    timeoutSeconds: number;
+    pollIntervalMs: number;
+}
+
+export interface CollectOptions {
+    topic: string;
+    digest: string;
+    own: Attestation;
+    operators: string[];       // Signers that count (the epoch's or batch's selected operators)
+    threshold: number;         // minAttestations
+    config?: ConsensusConfig;
+}
+
+/**
+ * Digest builds a topic's payload from this operator's own data (undefined: nothing to attest yet)
+ */
+export type DigestBuilder = (topic: ConsensusTopic) => Promise<string | undefined>;
+
+export interface ConsensusServerOptions {
+    port: number;
+    host?: string;             // Default 127.0.0.1
+    wallet: ethers.Wallet;
+    builders: { [kind in ConsensusKind]?: DigestBuilder };
+}
+
+/**
+ * Consensus settings from CONSENSUS_PEERS, CONSENSUS_HOST, CONSENSUS_PORT, CONSENSUS_TIMEOUT_SECONDS
+ * and CONSENSUS_POLL_MS
+ */
+export function getConsensusConfig(): ConsensusConfig {
+    return {
+        peers: (process.env.CONSENSUS_PEERS ?? '')
+            .split(',')
+            .map((peer) => peer.trim().replace(/\/+$/, ''))
+            .filter((peer) => peer.length > 0),
+        host: process.env.CONSENSUS_HOST || '127.0.0.1',
+        port: Number(process.env.CONSENSUS_PORT ?? 9466),
+        timeoutSeconds: Number(process.env.CONSENSUS_TIMEOUT_SECONDS ?? 120),
+        pollIntervalMs: Number(process.env.CONSENSUS_POLL_MS ?? 5000)
+    };
+}
+
+export function consensusTopic(kind: ConsensusKind, chainId: number, ...ids: (string | number | bigint)[]): string {
+    return [kind, chainId, ...ids].map(String).join(':');
+}
+
+export function parseConsensusTopic(topic: string): ConsensusTopic {
+    const [kind, chainId, ...ids] = topic.split(':');
+    if (!CONSENSUS_KINDS.includes(kind as ConsensusKind) || !/^\d+$/.test(chainId ?? '') || ids.length === 0) {
+        throw new Error(`Invalid consensus topic "${topic}"`);
+    }
+    if (ids.some((id) => !/^(\d+|0x[0-9a-fA-F]+)$/.test(id))) {
+        throw new Error(`Invalid consensus topic "${topic}"`);
+    }
+    return { kind: kind as ConsensusKind, chainId: Number(chainId), ids };
+}
+
+/**
+ * Digest of a winner list, bound to the chain and TradeManager that finalize it
+ */
+export function finalizeDigest(
+    chainId: number,
+    tradeManager: string,
+    epochNumber: bigint,
+    winners: string[],
+    decryptedAPYs: bigint[]
+): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint256', 'address', 'uint256', 'address[]', 'uint256[]'],
+            [chainId, tradeManager, epochNumber, winners, decryptedAPYs]
+        )
+    );
+}
+
+/**
+ * Digest of an execution plan, bound to the chain and TradeManager that execute it
+ */
+export function executeDigest(
+    chainId: number,
+    tradeManager: string,
+    epochNumber: bigint,
+    executionCount: bigint,
+    encoders: string[],
+    targets: string[],
+    calldatas: string[]
+): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint256', 'address', 'uint256', 'uint256', 'address[]', 'address[]', 'bytes[]'],
+            [chainId, tradeManager, epochNumber, executionCount, encoders, targets, calldatas]
+        )
+    );
+}
+
+export function ueiDigest(intentId: string, decoder: string, target: string, calldata: string): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(['bytes32', 'address', 'address', 'bytes'], [intentId, decoder, target, calldata])
+    );
+}
+
+/**
+ * Sign a digest with EIP-191 prefix (eth_sign format), as the contract recovers it
+ */
+export async function attest(wallet: ethers.Wallet, topic: string, digest: string): Promise<Attestation> {
+    const signature = await wallet.signMessage(ethers.getBytes(digest));
+    console.log(`  Signature created: ${signature.slice(0, 20)}...`);
+    return { topic, digest, signer: wallet.address, signature, signedAt: Date.now() };
+}
+
+export function recoverAttestationSigner(attestation: Attestation): string {
+    return ethers.verifyMessage(ethers.getBytes(attestation.digest), attestation.signature);
+}
+
+/**
+ * Deterministic leader for a topic among the selected operators
+ */
+export function electLeader(operators: string[], topic: string): string {
+    if (operators.length === 0) {
+        throw new Error(`No operators to elect a leader for ${topic}`);
+    }
+    const index = BigInt(ethers.id(topic)) % BigInt(operators.length);
+    return operators[Number(index)];
+}
+
+function attestationPath(topic: string, signer: string): string {
+    return path.join(CONSENSUS_DIR, `${topic.replace(/:/g, '_')}_${signer.toLowerCase()}.json`);
+}
+
+/**
+ * Store an attestation for peer servers to serve (atomically: temp file + rename)
+ */
+export function publishAttestation(attestation: Attestation): void {
+    if (!fs.existsSync(CONSENSUS_DIR)) {
+        fs.mkdirSync(CONSENSUS_DIR, { recursive: true });
+    }
+    const filePath = attestationPath(attestation.topic, attestation.signer);
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(attestation, null, 2), 'utf8');
+    fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * The attestation of a topic signed by `signer`, if one was published
+ */
+export function getPublishedAttestation(topic: string, signer: string): Attestation | null {
+    const filePath = attestationPath(topic, signer);
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: any): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Start the peer server: GET /consensus/<topic> answers with this operator's attestation
+ *   200  attestation (published, or built and signed now)
+ *   202  still building it, ask again
+ *   404  nothing to attest (unknown topic, or no builder for it)
+ *   503  building failed (retried on the next request)
+ * Topics with a builder are rebuilt once their attestation is older than REBUILD_AFTER_MS, so a
+ * peer that attested before every APY was decrypted catches up instead of disagreeing for good.
+ */
+export function startConsensusServer(options: ConsensusServerOptions): http.Server {
+    const building = new Map<string, Promise<void>>();
+    const failures = new Map<string, string>();
+
+    const build = (topic: string, builder: DigestBuilder) => {
+        failures.delete(topic);
+        const pending = builder(parseConsensusTopic(topic))
+            .then(async (digest) => {
+                if (digest) {
+                    publishAttestation(await attest(options.wallet, topic, digest));
+                    console.log(`✍️ Attested ${topic}: ${digest}`);
+                }
+            })
+            .catch((error: any) => {
+                failures.set(topic, error?.message || String(error));
+                console.error(`❌ Could not attest ${topic}: ${failures.get(topic)}`);
+            })
+            .finally(() => building.delete(topic));
+        building.set(topic, pending);
+        return pending;
+    };
+
+    const server = http.createServer(async (req, res) => {
+        if (req.method !== 'GET') {
+            sendJson(res, 405, { error: 'Method not allowed' });
+            return;
+        }
+
+        const match = (req.url || '/').split('?')[0].match(/^\/consensus\/([^/]+)$/);
+        if (!match) {
+            sendJson(res, 404, { error: 'Not found', routes: ['/consensus/<topic>'] });
+            return;
+        }
+
+        try {
+            const topic = decodeURIComponent(match[1]);
+            const builder = options.builders[parseConsensusTopic(topic).kind];
+
+            const published = getPublishedAttestation(topic, options.wallet.address);
+            const stale = !published || Date.now() - published.signedAt > REBUILD_AFTER_MS;
+            if (builder && stale && !building.has(topic)) {
+                // Answer from the build when it is quick, otherwise let the leader poll
+                await Promise.race([build(topic, builder), new Promise((resolve) => setTimeout(resolve, 2000))]);
+            }
+
+            const attestation = getPublishedAttestation(topic, options.wallet.address);
+            if (attestation) {
+                sendJson(res, 200, attestation);
+            } else if (building.has(topic)) {
+                sendJson(res, 202, { topic, status: 'building' });
+            } else if (failures.has(topic)) {
+                sendJson(res, 503, { topic, error: failures.get(topic) });
+            } else {
+                sendJson(res, 404, { topic, error: builder ? 'Nothing to attest yet' : 'No attestation for this topic' });
+            }
+        } catch (error: any) {
+            sendJson(res, 400, { error: error?.message || String(error) });
+        }
+    });
+
+    server.on('error', (error) => {
+        console.error(`⚠️ Consensus server error: ${error.message}`);
+    });
+
+    const host = options.host ?? '127.0.0.1';
+    server.listen(options.port, host, () => {
+        console.log(`🤝 Consensus server listening on http://${host}:${options.port} (/consensus/<topic>)`);
+    });
+
+    return server;
+}
+
+function getJson(url: string, timeoutMs: number): Promise<{ statusCode: number; body: any }> {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('https:') ? https : http;
+        const req = client.get(url, { timeout: timeoutMs }, (res) => {
+            let data = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk) => (data += chunk));
+            res.on('end', () => {
+                try {
+                    resolve({ statusCode: res.statusCode ?? 0, body: data ? JSON.parse(data) : null });
+                } catch {
+                    reject(new Error(`Invalid response from ${url}`));
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy(new Error(`Timed out after ${timeoutMs}ms`)));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Gather attestations of a digest until `threshold` distinct selected operators signed it.
+ * Returns the signatures to submit, this operator's first; throws when the timeout expires.
+ */
+export async function collectAttestations(options: CollectOptions): Promise<string[]> {
+    const { topic, digest, own, threshold } = options;
+    const config = options.config ?? getConsensusConfig();
+    const operators = new Set(options.operators.map((operator) => operator.toLowerCase()));
+    const deadline = Date.now() + config.timeoutSeconds * 1000;
+
+    const signatures = new Map<string, string>();   // Signer (lowercased) → signature
+    const disagreements = new Map<string, string>(); // Peer → digest it built
+    const counted = new Set<string>();               // Peers whose attestation counts
+    const accept = (attestation: Attestation, source: string): boolean => {
+        if (attestation.topic !== topic) {
+            console.log(`  ⚠️ ${source} answered for ${attestation.topic}, not ${topic}`);
+            return false;
+        }
+        if (attestation.digest !== digest) {
+            if (disagreements.get(source) !== attestation.digest) {
+                console.log(`  ⚠️ ${source} (${attestation.signer}) built a different payload: ${attestation.digest}`);
+            }
+            disagreements.set(source, attestation.digest);
+            return false;
+        }
+        const signer = recoverAttestationSigner(attestation).toLowerCase();
+        if (!operators.has(signer)) {
+            console.log(`  ⚠️ ${source}: signer ${signer} is not a selected operator`);
+            return false;
+        }
+        disagreements.delete(source);
+        signatures.set(signer, attestation.signature);
+        return true;
+    };
+
+    accept(own, 'this operator');
+    console.log(`🤝 Collecting ${threshold} attestation(s) for ${topic} from ${config.peers.length} peer(s)`);
+
+    while (signatures.size < threshold) {
+        const missing = config.peers.filter((peer) => !counted.has(peer));
+        await Promise.all(missing.map(async (peer) => {
+            try {
+                const { statusCode, body } = await getJson(`${peer}/consensus/${encodeURIComponent(topic)}`, 10_000);
+                if (statusCode === 200) {
+                    if (accept(body as Attestation, peer)) {
+                        counted.add(peer);
+                    }
+                } else if (statusCode !== 202 && statusCode !== 404) {
+                    console.log(`  ⚠️ ${peer}: ${statusCode} ${body?.error ?? ''}`);
+                }
+            } catch (error: any) {
+                console.log(`  ⚠️ ${peer} unreachable: ${error.message}`);
+            }
+        }));
+
+        console.log(`  ${Math.min(signatures.size, threshold)}/${threshold} attestations`);
+        if (signatures.size >= threshold) {
+            break;
+        }
+        if (Date.now() >= deadline) {
+            throw new Error(
+                `Insufficient consensus for ${topic}: ${signatures.size}/${threshold} attestation(s)` +
+                `${disagreements.size > 0 ? `, ${disagreements.size} peer(s) built a different payload` : ''}`
+            );
+        }
+        await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+
+    const ownSigner = own.signer.toLowerCase();
+    return [
+        ...(signatures.has(ownSigner) ? [signatures.get(ownSigner)!] : []),
+        ...[...signatures.entries()].filter(([signer]) => signer !== ownSigner).map(([, signature]) => signature)
+    ];
+}
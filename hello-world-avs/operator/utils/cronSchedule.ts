@@ -0,0 +1,126 @@
+/**
+ * Cron Schedule - minimal 5-field cron expressions for the epoch orchestrator
+ *
+ *   minute hour day-of-month month day-of-week     (UTC)
+ *
+ * Each field accepts "*", numbers, ranges ("1-5"), lists ("0,30") and steps ("*\/15", "0-30/10").
+ * Day of week is 0-6 (Sunday = 0, 7 is also Sunday). As in cron, when both day fields are
+ * restricted a time matches if either does. Shortcuts: @hourly, @daily, @weekly, @monthly.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;        // 1-12
+    daysOfWeek: Set<number>;    // 0-6
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const SHORTCUTS: { [name: string]: string } = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *'
+};
+
+// Give up looking for a matching time after this many years (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        let from: number;
+        let to: number;
+
+        if (range === '*') {
+            from = min;
+            to = max;
+        } else if (range.includes('-')) {
+            [from, to] = range.split('-').map(Number);
+        } else {
+            from = Number(range);
+            to = stepText === undefined ? from : max;
+        }
+
+        if (![from, to, step].every(Number.isInteger) || step <= 0 || from < min || to > max || from > to) {
+            throw new Error(`Invalid cron ${name} field "${field}" (allowed ${min}-${max})`);
+        }
+        for (let value = from; value <= to; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+    const expanded = SHORTCUTS[expression.trim()] ?? expression;
+    const fields = expanded.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}" (expected 5 fields: minute hour day month weekday)`);
+    }
+
+    const daysOfWeek = parseField(fields[4], 0, 7, 'day-of-week');
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        expression,
+        minutes: parseField(fields[0], 0, 59, 'minute'),
+        hours: parseField(fields[1], 0, 23, 'hour'),
+        daysOfMonth: parseField(fields[2], 1, 31, 'day-of-month'),
+        months: parseField(fields[3], 1, 12, 'month'),
+        daysOfWeek,
+        dayOfMonthRestricted: fields[2] !== '*',
+        dayOfWeekRestricted: fields[4] !== '*'
+    };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First scheduled time strictly after `after` (minute precision, UTC)
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+    // Skip whole months, days and hours that can't match before stepping minutes
+    while (date.getTime() <= limit) {
+        if (!schedule.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0, 0, 0);
+        } else if (!schedule.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        } else {
+            return date;
+        }
+    }
+
+    throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
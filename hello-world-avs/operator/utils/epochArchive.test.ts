@@ -0,0 +1,117 @@
+import { ethers } from 'ethers';
+import {
+    ARCHIVE_VERSION,
+    EpochArchive,
+    EpochArchivePayload,
+    archiveDigest,
+    canonicalJSON,
+    signEpochArchive,
+    verifyEpochArchive
+} from './epochArchive';
+
+const address = (name: string) => ethers.getAddress(ethers.id(name).slice(0, 42));
+
+const operator = new ethers.Wallet(ethers.id('operator1'));
+
+function payload(): EpochArchivePayload {
+    return {
+        version: ARCHIVE_VERSION,
+        chainId: 84532,
+        tradeManager: address('tradeManager'),
+        epochNumber: 3,
+        onChainState: 3,
+        createdAt: 1_700_000_000_000,
+        epoch: { epochNumber: 3, weights: [60, 40], notionalPerTrader: '1000000000', allocatedCapital: '5000000000' },
+        winners: [
+            { trader: address('trader1'), apyBps: 1_250, allocation: '3000000000' },
+            { trader: address('trader2'), apyBps: -40, allocation: '2000000000' }
+        ],
+        strategies: [
+            { submitter: address('trader1'), nodes: [], simulatedAPY: 1_250, submittedAt: 1_699_999_000, targetChainId: 84532 }
+        ]
+    };
+}
+
+/**
+ * Archive as `archive verify` and `archive import` read it back from its file
+ */
+function reread(archive: EpochArchive): EpochArchive {
+    return JSON.parse(JSON.stringify(archive, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+describe('canonicalJSON', () => {
+    it('sorts object keys at every depth', () => {
+        expect(canonicalJSON({ b: 1, a: { d: [{ z: 1, y: 2 }], c: 'x' } })).toBe('{"a":{"c":"x","d":[{"y":2,"z":1}]},"b":1}');
+        expect(canonicalJSON({ b: 1, a: 2 })).toBe(canonicalJSON({ a: 2, b: 1 }));
+    });
+
+    it('keeps array order', () => {
+        expect(canonicalJSON([3, 1, 2])).toBe('[3,1,2]');
+        expect(canonicalJSON([3, 1, 2])).not.toBe(canonicalJSON([1, 2, 3]));
+    });
+
+    it('serializes bigints as decimal strings', () => {
+        expect(canonicalJSON({ allocation: 10n ** 30n })).toBe(`{"allocation":"${(10n ** 30n).toString()}"}`);
+        expect(canonicalJSON({ allocation: 5_000_000_000n })).toBe(canonicalJSON({ allocation: '5000000000' }));
+    });
+
+    it('drops undefined fields and writes undefined array items as null, like JSON.stringify', () => {
+        const value = { a: 1, skipped: undefined, list: [1, undefined] };
+
+        expect(canonicalJSON(value)).toBe('{"a":1,"list":[1,null]}');
+        expect(canonicalJSON(value)).toBe(canonicalJSON(JSON.parse(JSON.stringify(value))));
+    });
+});
+
+describe('epoch archive signatures', () => {
+    it('verifies an archive after it was written to and read from a file', async () => {
+        const archive = await signEpochArchive(payload(), operator);
+
+        expect(archive.signer).toBe(operator.address);
+        expect(verifyEpochArchive(reread(archive))).toBe(operator.address);
+    });
+
+    it('signs a bigint field the same as its decimal string', async () => {
+        const withBigint = { ...payload(), epoch: { ...payload().epoch, allocatedCapital: 5_000_000_000n as any } };
+        const archive = await signEpochArchive(withBigint, operator);
+
+        expect(archiveDigest(withBigint)).toBe(archiveDigest(payload()));
+        expect(verifyEpochArchive(reread(archive))).toBe(operator.address);
+    });
+
+    it('does not depend on key order in the file', async () => {
+        const archive = await signEpochArchive(payload(), operator);
+        const { strategies, winners, ...rest } = archive.payload;
+        const reordered = { ...archive, payload: { winners, strategies, ...rest } };
+
+        expect(verifyEpochArchive(reordered)).toBe(operator.address);
+    });
+
+    it('accepts the claimed signer in any letter case and returns it checksummed', async () => {
+        const archive = await signEpochArchive(payload(), operator);
+
+        expect(verifyEpochArchive({ ...archive, signer: operator.address.toLowerCase() })).toBe(operator.address);
+    });
+
+    it('rejects an archive whose payload was modified', async () => {
+        const archive = await signEpochArchive(payload(), operator);
+        const tampered = reread(archive);
+        tampered.payload.winners[1].allocation = '2500000000';
+
+        expect(() => verifyEpochArchive(tampered)).toThrow(`not the claimed signer ${operator.address}`);
+    });
+
+    it('rejects a payload re-signed by another key under the original signer', async () => {
+        const archive = await signEpochArchive(payload(), operator);
+        const forged = await signEpochArchive({ ...payload(), strategies: [] }, new ethers.Wallet(ethers.id('attacker')));
+
+        expect(() => verifyEpochArchive({ ...forged, signer: archive.signer })).toThrow('Archive signature is from');
+    });
+
+    it('rejects other versions and incomplete archives', async () => {
+        const archive = await signEpochArchive({ ...payload(), version: ARCHIVE_VERSION + 1 }, operator);
+
+        expect(() => verifyEpochArchive(archive)).toThrow(`Unsupported epoch archive version ${ARCHIVE_VERSION + 1}`);
+        expect(() => verifyEpochArchive({ ...archive, signature: '' })).toThrow('Not an epoch archive');
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Epoch Archives - signed, self-contained JSON bundles of one epoch
+ *
+ * An archive holds the on-chain winners with their APYs and allocations, the epoch
+ * configuration including the aggregated calldata this operator executed, and the local
+ * strategy records (decrypted nodes only in sealed form). The payload is serialized
+ * canonically (sorted keys) and signed with the operator key, so anyone can check which
+ * operator produced it and that it was not modified.
+ */
+
+import { ethers } from 'ethers';
+import { EpochConfig, StrategyData } from '../storage';
+import { decodeSignedAPY } from './apyEncoding';
+
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchivedWinner {
+    trader: string;
+    apyBps: number;            // Signed APY in basis points (decoded)
+    allocation: string;        // Capital allocated on-chain (as string to preserve precision)
+}
+
+export interface EpochArchivePayload {
+    version: number;
+    chainId: number;
+    tradeManager: string;
+    epochNumber: number;
+    onChainState: number;      // EpochState when the archive was created
+    createdAt: number;         // ms
+    epoch: EpochConfig;
+    winners: ArchivedWinner[];
+    strategies: StrategyData[];
+}
+
+export interface EpochArchive {
+    payload: EpochArchivePayload;
+    signer: string;
+    signature: string;         // EIP-191 signature over archiveDigest(payload)
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal payloads always hash the same
+ */
+export function canonicalJSON(value: any): string {
+    if (typeof value === 'bigint') {
+        return JSON.stringify(value.toString());
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalJSON(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter((key) => value[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Hash signed by the archive's operator
+ */
+export function archiveDigest(payload: EpochArchivePayload): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(canonicalJSON(payload)));
+}
+
+/**
+ * Read an epoch's winners from the contract (empty until the epoch is finalized)
+ */
+export async function getEpochWinners(tradeManager: ethers.Contract, epochNumber: number): Promise<ArchivedWinner[]> {
+    const winners: ArchivedWinner[] = [];
+    try {
+        while (true) {
+            const winner = await tradeManager.epochWinners(epochNumber, winners.length);
+            winners.push({
+                trader: winner.trader,
+                apyBps: decodeSignedAPY(winner.decryptedAPY),
+                allocation: winner.allocation.toString()
+            });
+        }
+    } catch {
+        // Index out of bounds
+    }
+    return winners;
+}
+
+/**
+ * Sign an archive payload with the operator wallet
+ */
+export async function signEpochArchive(payload: EpochArchivePayload, signer: ethers.Signer): Promise<EpochArchive> {
+    const signature = await signer.signMessage(ethers.getBytes(archiveDigest(payload)));
+    return { payload, signer: await signer.getAddress(), signature };
+}
+
+/**
+ * Check an archive's version and signature. Returns the signer address; throws if the
+ * archive was modified or signed by a different key than it claims.
+ */
+export function verifyEpochArchive(archive: EpochArchive): string {
+    if (!archive?.payload || !archive.signature || !archive.signer) {
+        throw new Error('Not an epoch archive: expected payload, signer and signature');
+    }
+    if (archive.payload.version !== ARCHIVE_VERSION) {
+        throw new Error(`Unsupported epoch archive version ${archive.payload.version} (expected ${ARCHIVE_VERSION})`);
+    }
+
+    const recovered = ethers.verifyMessage(ethers.getBytes(archiveDigest(archive.payload)), archive.signature);
+    if (recovered.toLowerCase() !== archive.signer.toLowerCase()) {
+        throw new Error(`Archive signature is from ${recovered}, not the claimed signer ${archive.signer}`);
+    }
+    return recovered;
+}
@@ -0,0 +1,249 @@
+/**
+ * Epoch Configuration - parameters for startEpoch from a config file and/or flags
+ *
+ * Config file (JSON, see config/epoch.example.json; path from --config or EPOCH_CONFIG):
+ *   durationMinutes     Submission period
+ *   weights             Capital allocation per winner rank, summing to 100
+ *   notionalPerTrader   Simulation capital per strategy, in token units (e.g. "100000" USDC)
+ *   allocatedCapital    Real capital deployed across the winners, in token units
+ *   tokenDecimals       Decimals of the capital token (default 6)
+ *   simWindow           { mode: "fixed", startDaysAgo, endDaysAgo } or
+ *                       { mode: "random", earliestDaysAgo, latestDaysAgo, minLengthDays, maxLengthDays }
+ *   unfilledWeightPolicy  Weight of winner slots left empty: "redistribute" (default), "return"
+ *                       or "rollover" (see utils/allocation.ts)
+ *   scoring             Winner scoring, published with the epoch (default { mode: "apy" },
+ *                       see utils/scoring.ts)
+ *
+ * A random sim window is drawn with a CSPRNG inside the configured range when the epoch
+ * starts and only ever leaves this process encrypted, so the admin does not know it either.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { ScoringConfig, validateScoringConfig } from './scoring';
+import { UnfilledWeightPolicy, UNFILLED_WEIGHT_POLICIES } from './allocation';
+
+const DAY = 24 * 60 * 60;
+
+export type SimWindowConfig =
+    | { mode: 'fixed'; startDaysAgo: number; endDaysAgo: number }
+    | { mode: 'random'; earliestDaysAgo: number; latestDaysAgo: number; minLengthDays: number; maxLengthDays: number };
+
+export interface EpochConfigFile {
+    durationMinutes?: number;
+    weights?: number[];
+    notionalPerTrader?: string | number;
+    allocatedCapital?: string | number;
+    tokenDecimals?: number;
+    simWindow?: SimWindowConfig;
+    unfilledWeightPolicy?: UnfilledWeightPolicy;
+    scoring?: ScoringConfig;
+}
+
+export interface EpochParams {
+    durationSeconds: number;
+    weights: number[];
+    notionalPerTrader: bigint;  // Token base units
+    allocatedCapital: bigint;   // Token base units
+    tokenDecimals: number;
+    simWindow: SimWindowConfig;
+    unfilledWeightPolicy: UnfilledWeightPolicy;
+    scoring: ScoringConfig;
+}
+
+export const DEFAULT_EPOCH_CONFIG: Required<EpochConfigFile> = {
+    durationMinutes: 5,
+    weights: [50, 50],
+    notionalPerTrader: '100000',
+    allocatedCapital: '100000',
+    tokenDecimals: 6,
+    simWindow: { mode: 'fixed', startDaysAgo: 7, endDaysAgo: 1 },
+    unfilledWeightPolicy: 'redistribute',
+    scoring: { mode: 'apy' }
+};
+
+/**
+ * Read an epoch config file
+ */
+export function loadEpochConfigFile(filePath: string): EpochConfigFile {
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Epoch config file not found: ${resolved}`);
+    }
+    try {
+        return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Invalid epoch config file ${resolved}: ${error.message}`);
+    }
+}
+
+/**
+ * "a:b" → [a, b]
+ */
+function parseRange(value: string, name: string): [number, number] {
+    const parts = value.split(':').map(Number);
+    if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) {
+        throw new Error(`--${name} expects <from>:<to>, got "${value}"`);
+    }
+    return [parts[0], parts[1]];
+}
+
+/**
+ * Config overrides from flags:
+ *   --duration <minutes> --weights <a,b,...> --notional <units> --capital <units>
+ *   --sim-window <startDaysAgo>:<endDaysAgo>
+ *   --sim-range <earliestDaysAgo>:<latestDaysAgo> --sim-length <minDays>:<maxDays>
+ *   --unfilled-policy <redistribute|return|rollover>
+ */
+export function parseEpochConfigFlags(options: { [name: string]: string | boolean }): EpochConfigFile {
+    const flag = (name: string): string | undefined =>
+        typeof options[name] === 'string' ? options[name] as string : undefined;
+    const overrides: EpochConfigFile = {};
+
+    if (flag('duration') !== undefined) overrides.durationMinutes = Number(flag('duration'));
+    if (flag('weights') !== undefined) overrides.weights = flag('weights')!.split(',').map(Number);
+    if (flag('notional') !== undefined) overrides.notionalPerTrader = flag('notional');
+    if (flag('capital') !== undefined) overrides.allocatedCapital = flag('capital');
+    if (flag('unfilled-policy') !== undefined) overrides.unfilledWeightPolicy = flag('unfilled-policy') as UnfilledWeightPolicy;
+
+    if (flag('sim-window') !== undefined) {
+        const [startDaysAgo, endDaysAgo] = parseRange(flag('sim-window')!, 'sim-window');
+        overrides.simWindow = { mode: 'fixed', startDaysAgo, endDaysAgo };
+    } else if (flag('sim-range') !== undefined || flag('sim-length') !== undefined) {
+        if (flag('sim-range') === undefined || flag('sim-length') === undefined) {
+            throw new Error('--sim-range and --sim-length must be used together');
+        }
+        const [earliestDaysAgo, latestDaysAgo] = parseRange(flag('sim-range')!, 'sim-range');
+        const [minLengthDays, maxLengthDays] = parseRange(flag('sim-length')!, 'sim-length');
+        overrides.simWindow = { mode: 'random', earliestDaysAgo, latestDaysAgo, minLengthDays, maxLengthDays };
+    }
+
+    return overrides;
+}
+
+function parseUnits(value: string | number, decimals: number, name: string): bigint {
+    try {
+        return ethers.parseUnits(String(value), decimals);
+    } catch {
+        throw new Error(`Invalid ${name} "${value}" (expected a token amount with up to ${decimals} decimals)`);
+    }
+}
+
+/**
+ * Merge defaults, the config file and flag overrides (later wins), then validate
+ */
+export function resolveEpochParams(file: EpochConfigFile = {}, overrides: EpochConfigFile = {}): EpochParams {
+    const config = { ...DEFAULT_EPOCH_CONFIG, ...file, ...overrides };
+    const params: EpochParams = {
+        durationSeconds: Math.round(Number(config.durationMinutes) * 60),
+        weights: config.weights,
+        notionalPerTrader: parseUnits(config.notionalPerTrader, config.tokenDecimals, 'notionalPerTrader'),
+        allocatedCapital: parseUnits(config.allocatedCapital, config.tokenDecimals, 'allocatedCapital'),
+        tokenDecimals: config.tokenDecimals,
+        simWindow: config.simWindow,
+        unfilledWeightPolicy: config.unfilledWeightPolicy,
+        scoring: config.scoring
+    };
+
+    validateEpochParams(params);
+    return params;
+}
+
+/**
+ * Check parameters against TradeManager.startEpoch's requires (and sanity limits of the
+ * sim window). Throws one error listing every problem.
+ */
+export function validateEpochParams(params: EpochParams): void {
+    const errors: string[] = [];
+    const isWholeNumber = (value: number) => Number.isInteger(value) && value >= 0;
+
+    if (!Array.isArray(params.weights) || params.weights.length === 0) {
+        errors.push('weights must list at least one winner weight');
+    } else {
+        if (!params.weights.every((weight) => isWholeNumber(weight) && weight <= 255)) {
+            errors.push(`weights must be whole numbers between 0 and 255 (uint8), got [${params.weights.join(', ')}]`);
+        }
+        const total = params.weights.reduce((sum, weight) => sum + weight, 0);
+        if (total !== 100) {
+            errors.push(`weights must sum to 100, got ${total}`);
+        }
+    }
+
+    if (!Number.isInteger(params.durationSeconds) || params.durationSeconds <= 0) {
+        errors.push('duration must be positive');
+    }
+    if (params.notionalPerTrader <= 0n) {
+        errors.push('notionalPerTrader must be positive');
+    }
+    if (params.allocatedCapital <= 0n) {
+        errors.push('allocatedCapital must be positive');
+    }
+
+    if (!UNFILLED_WEIGHT_POLICIES.includes(params.unfilledWeightPolicy)) {
+        errors.push(`unfilledWeightPolicy must be one of ${UNFILLED_WEIGHT_POLICIES.join(', ')}, got "${params.unfilledWeightPolicy}"`);
+    }
+
+    if (params.scoring && typeof params.scoring === 'object') {
+        errors.push(...validateScoringConfig(params.scoring));
+    } else {
+        errors.push('scoring must be an object with a mode');
+    }
+
+    const window = params.simWindow;
+    if (window?.mode === 'fixed') {
+        if (!(window.startDaysAgo > window.endDaysAgo)) {
+            errors.push(`simWindow.startDaysAgo (${window.startDaysAgo}) must be greater than endDaysAgo (${window.endDaysAgo})`);
+        }
+        if (!(window.endDaysAgo >= 0)) {
+            errors.push('simWindow must end in the past (endDaysAgo >= 0)');
+        }
+    } else if (window?.mode === 'random') {
+        if (!(window.latestDaysAgo >= 0)) {
+            errors.push('simWindow must end in the past (latestDaysAgo >= 0)');
+        }
+        if (!(window.minLengthDays > 0 && window.maxLengthDays >= window.minLengthDays)) {
+            errors.push(`simWindow length must satisfy 0 < minLengthDays <= maxLengthDays, got ${window.minLengthDays}:${window.maxLengthDays}`);
+        }
+        if (!(window.earliestDaysAgo - window.latestDaysAgo >= window.maxLengthDays)) {
+            errors.push(
+                `simWindow range ${window.earliestDaysAgo}:${window.latestDaysAgo} days ago is shorter than maxLengthDays (${window.maxLengthDays})`
+            );
+        }
+    } else {
+        errors.push('simWindow.mode must be "fixed" or "random"');
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid epoch config:\n  - ${errors.join('\n  - ')}`);
+    }
+}
+
+/**
+ * Pick the sim window (unix seconds). Random windows are drawn uniformly: first the length,
+ * then the start among all positions that fit in the range.
+ */
+export function drawSimWindow(config: SimWindowConfig, now: number = Math.floor(Date.now() / 1000)): { startTime: number; endTime: number } {
+    if (config.mode === 'fixed') {
+        return {
+            startTime: now - Math.round(config.startDaysAgo * DAY),
+            endTime: now - Math.round(config.endDaysAgo * DAY)
+        };
+    }
+
+    const earliest = now - Math.round(config.earliestDaysAgo * DAY);
+    const latest = now - Math.round(config.latestDaysAgo * DAY);
+    const length = crypto.randomInt(Math.round(config.minLengthDays * DAY), Math.round(config.maxLengthDays * DAY) + 1);
+    const startTime = crypto.randomInt(earliest, latest - length + 1);
+    return { startTime, endTime: startTime + length };
+}
+
+/**
+ * Describe the sim window config without revealing a drawn window
+ */
+export function describeSimWindow(config: SimWindowConfig): string {
+    return config.mode === 'fixed'
+        ? `${config.startDaysAgo} to ${config.endDaysAgo} days ago`
+        : `random ${config.minLengthDays}-${config.maxLengthDays} days between ${config.earliestDaysAgo} and ${config.latestDaysAgo} days ago`;
+}
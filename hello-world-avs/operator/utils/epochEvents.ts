@@ -0,0 +1,78 @@
+/**
+ * Epoch Events - bounded log queries for one epoch's TradeManager events
+ *
+ * RPCs limit the block range of eth_getLogs, so queries walk the chain in windows:
+ * backwards from the head to find an epoch's EpochStarted event, then forwards from it.
+ */
+
+import { ethers } from 'ethers';
+
+const SEARCH_WINDOW = 5_000;
+const RANGE_TOO_LARGE = -32062;
+
+/**
+ * Query logs in a block range, halving the window whenever the RPC rejects it as too large
+ */
+async function queryRange(
+    contract: ethers.Contract,
+    filter: ethers.ContractEventName,
+    fromBlock: number,
+    toBlock: number
+): Promise<ethers.EventLog[]> {
+    try {
+        return (await contract.queryFilter(filter, fromBlock, toBlock)) as ethers.EventLog[];
+    } catch (error: any) {
+        if ((error?.code === RANGE_TOO_LARGE || error?.error?.code === RANGE_TOO_LARGE) && toBlock > fromBlock) {
+            const middle = Math.floor((fromBlock + toBlock) / 2);
+            return [
+                ...(await queryRange(contract, filter, fromBlock, middle)),
+                ...(await queryRange(contract, filter, middle + 1, toBlock))
+            ];
+        }
+        throw error;
+    }
+}
+
+/**
+ * The EpochStarted log of an epoch, searching backwards from the head (null if not found)
+ */
+export async function findEpochStartedLog(tradeManager: ethers.Contract, epochNumber: bigint): Promise<ethers.EventLog | null> {
+    const filter = tradeManager.filters.EpochStarted(epochNumber);
+    const provider = tradeManager.runner!.provider!;
+    let toBlock = await provider.getBlockNumber();
+
+    while (toBlock >= 0) {
+        const fromBlock = Math.max(0, toBlock - SEARCH_WINDOW + 1);
+        const logs = await queryRange(tradeManager, filter, fromBlock, toBlock);
+        if (logs.length > 0) {
+            return logs[0];
+        }
+        toBlock = fromBlock - 1;
+    }
+    return null;
+}
+
+/**
+ * All logs matching the filter from fromBlock to the head
+ */
+export async function queryLogsSince(
+    contract: ethers.Contract,
+    filter: ethers.ContractEventName,
+    fromBlock: number
+): Promise<ethers.EventLog[]> {
+    const head = await contract.runner!.provider!.getBlockNumber();
+    const logs: ethers.EventLog[] = [];
+    for (let from = fromBlock; from <= head; from += SEARCH_WINDOW) {
+        logs.push(...(await queryRange(contract, filter, from, Math.min(from + SEARCH_WINDOW - 1, head))));
+    }
+    return logs;
+}
+
+/**
+ * Allocation weights of an epoch (from its EpochStarted event, as epochs() does not return them;
+ * empty if the event is not found)
+ */
+export async function getEpochWeights(tradeManager: ethers.Contract, epochNumber: bigint): Promise<number[]> {
+    const startedLog = await findEpochStartedLog(tradeManager, epochNumber);
+    return startedLog ? Array.from(startedLog.args.weights).map((weight: any) => Number(weight)) : [];
+}
@@ -0,0 +1,243 @@
+/**
+ * Epoch Ranking - winners derived from the on-chain APYs, so every selected operator can recompute them
+ *
+ * APYs come from the chain, not from this operator's database:
+ *   decrypted   publicly decrypted by closeEpoch (getDecryptedAPYs)
+ *   unsealed    decrypted with this operator's CoFHE permit (selected operators are allowed on every
+ *               reported APY), for APYs whose public decryption is not ready yet
+ * The local simulation results are only cross-checked against them, and the differences reported:
+ *   apy-differs             local APY is not the on-chain APY
+ *   missing-local           no local record of the strategy
+ *   not-simulated-locally   local record without a simulated APY
+ * The scoring config is the one published for the epoch (TradeManager.epochScoringConfig). Modes
+ * other than "apy", and a drawdown cap, score on the local score vectors (falling back to the
+ * on-chain APY without one), which other operators can't reproduce: they are refused when the
+ * committee needs more than one attestation, as peers would reject each other's winner lists.
+ */
+
+import { ChainContext } from './chainContext';
+import { decodeSignedAPY } from './apyEncoding';
+import { ExcludedStrategy, getEpochSubmitters, hasSimulatedAPY } from './apyReports';
+import { getEpochWeights } from './epochEvents';
+import { getEpochWinners } from './epochArchive';
+import {
+    ScoringConfig,
+    assertScoringVerifiable,
+    describeScoringConfig,
+    parseOnChainScoringConfig,
+    scoreStrategy
+} from './scoring';
+import { initializeCofhe, batchDecrypt, isCoFheInitialized, FheTypes } from '../cofheUtils';
+import { getEpochStrategies } from '../epochDatabase';
+
+export type APYSource = 'decrypted' | 'unsealed';
+
+export type MismatchKind = 'apy-differs' | 'missing-local' | 'not-simulated-locally';
+
+export interface OnChainAPY {
+    apyBps: number;
+    source: APYSource;
+}
+
+export interface RankingMismatch {
+    trader: string;
+    kind: MismatchKind;
+    onChainAPYBps: number;
+    localAPYBps?: number;
+}
+
+export interface RankedStrategy {
+    trader: string;
+    apyBps: number;            // On-chain APY
+    score: number;
+}
+
+export interface EpochRanking {
+    epochNumber: number;
+    scoring: ScoringConfig;
+    ranked: RankedStrategy[];  // Best first
+    excluded: ExcludedStrategy[];
+    mismatches: RankingMismatch[];
+}
+
+export interface WinnerVerification {
+    epochNumber: number;
+    verified: boolean;
+    expected: { trader: string; apyBps: number }[];
+    actual: { trader: string; apyBps: number }[];
+    differences: string[];
+    mismatches: RankingMismatch[];
+}
+
+/**
+ * APYs of the given traders as readable on-chain, keyed by lowercased trader. Traders without a
+ * reported APY are missing. Failing to unseal reported ones throws: ranking without them would
+ * finalize (or verify) a different winner list than a working operator would.
+ */
+export async function readOnChainAPYs(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    traders: string[]
+): Promise<Map<string, OnChainAPY>> {
+    const { tradeManager, wallet } = ctx;
+    const apys = new Map<string, OnChainAPY>();
+
+    const [decryptedTraders, decryptedAPYs, decrypted] = await tradeManager.getDecryptedAPYs(epochNumber);
+    decryptedTraders.forEach((trader: string, i: number) => {
+        if (decrypted[i]) {
+            apys.set(trader.toLowerCase(), { apyBps: decodeSignedAPY(decryptedAPYs[i]), source: 'decrypted' });
+        }
+    });
+
+    const sealed: { trader: string; ctHash: bigint }[] = [];
+    for (const trader of traders) {
+        if (apys.has(trader.toLowerCase())) {
+            continue;
+        }
+        const ctHash = BigInt(await tradeManager.getEncryptedAPY(epochNumber, trader));
+        if (ctHash !== 0n) {
+            sealed.push({ trader, ctHash });
+        }
+    }
+
+    if (sealed.length > 0) {
+        console.log(`  Unsealing ${sealed.length} APY(s) not publicly decrypted yet...`);
+        try {
+            if (!isCoFheInitialized()) {
+                await initializeCofhe(wallet);
+            }
+            const values = await batchDecrypt(
+                sealed.map(({ ctHash }) => ({ ctHash, securityZone: 0, utype: FheTypes.Uint32, signature: '0x' }))
+            );
+            sealed.forEach(({ trader }, i) => {
+                apys.set(trader.toLowerCase(), { apyBps: decodeSignedAPY(values[i]), source: 'unsealed' });
+            });
+        } catch (error: any) {
+            throw new Error(`Could not unseal ${sealed.length} APY(s) of epoch ${epochNumber}: ${error.message}`);
+        }
+    }
+
+    return apys;
+}
+
+/**
+ * Rank an epoch's strategies by their on-chain APYs (or local score vectors under another
+ * scoring mode), with the scoring config published for the epoch, best first with the APY
+ * breaking ties. Candidates default to every submitter.
+ */
+export async function rankEpoch(
+    ctx: ChainContext,
+    epochNumber: bigint,
+    candidates?: string[]
+): Promise<EpochRanking> {
+    const traders = candidates ?? await getEpochSubmitters(ctx, epochNumber);
+    const strategies = getEpochStrategies(Number(epochNumber)) ?? {};
+    const scoring = parseOnChainScoringConfig(await ctx.tradeManager.epochScoringConfig(epochNumber));
+    assertScoringVerifiable(scoring, BigInt(await ctx.tradeManager.minAttestations()));
+    const onChainAPYs = await readOnChainAPYs(ctx, epochNumber, traders);
+
+    const ranking: EpochRanking = { epochNumber: Number(epochNumber), scoring, ranked: [], excluded: [], mismatches: [] };
+    console.log(`  Scoring: ${describeScoringConfig(scoring)}`);
+    console.log(`  ${onChainAPYs.size}/${traders.length} APYs read on-chain`);
+
+    for (const trader of traders) {
+        const onChain = onChainAPYs.get(trader.toLowerCase());
+        if (!onChain) {
+            ranking.excluded.push({ trader, reason: 'not-decrypted', detail: 'no decrypted or unsealable APY on-chain' });
+            continue;
+        }
+
+        // Cross-check the local simulation
+        const strategy = strategies[trader];
+        const simulated = strategy !== undefined && hasSimulatedAPY(strategy);
+        if (!strategy) {
+            ranking.mismatches.push({ trader, kind: 'missing-local', onChainAPYBps: onChain.apyBps });
+        } else if (!simulated) {
+            ranking.mismatches.push({ trader, kind: 'not-simulated-locally', onChainAPYBps: onChain.apyBps });
+        } else if (strategy.simulatedAPY !== onChain.apyBps) {
+            ranking.mismatches.push({
+                trader,
+                kind: 'apy-differs',
+                onChainAPYBps: onChain.apyBps,
+                localAPYBps: strategy.simulatedAPY
+            });
+        }
+
+        // APY mode ranks on the on-chain APY alone; other modes and the drawdown cap need the local score vector
+        let score = onChain.apyBps;
+        if (strategy && simulated && strategy.scores) {
+            const localScore = scoreStrategy(strategy.scores, scoring);
+            if (localScore === null) {
+                const detail = `max drawdown ${strategy.scores.maxDrawdownBps} bps over cap`;
+                console.log(`    - ${trader}: ❌ Not eligible (${detail})`);
+                ranking.excluded.push({ trader, reason: 'ineligible', detail });
+                continue;
+            }
+            if (scoring.mode !== 'apy') {
+                score = localScore;
+            }
+        } else if (scoring.mode !== 'apy') {
+            console.log(`    - ${trader}: ⚠️ No local score vector, ranking by on-chain APY`);
+        }
+
+        ranking.ranked.push({ trader, apyBps: onChain.apyBps, score });
+        console.log(
+            `    - ${trader}: ${onChain.apyBps} bps (${onChain.apyBps / 100}%, ${onChain.source}), score ${score.toFixed(4)}`
+        );
+    }
+
+    ranking.ranked.sort((a, b) => (b.score !== a.score ? b.score - a.score : b.apyBps - a.apyBps));
+    return ranking;
+}
+
+/**
+ * Log how the local simulation results differ from the on-chain APYs
+ */
+export function logMismatches(mismatches: RankingMismatch[]): void {
+    if (mismatches.length === 0) {
+        console.log("  ✅ Local results match the on-chain APYs");
+        return;
+    }
+    console.log(`  ⚠️ ${mismatches.length} local result(s) differ from the on-chain APYs:`);
+    for (const { trader, kind, onChainAPYBps, localAPYBps } of mismatches) {
+        console.log(
+            `    - ${trader}: ${kind} (on-chain ${onChainAPYBps} bps${localAPYBps !== undefined ? `, local ${localAPYBps} bps` : ''})`
+        );
+    }
+}
+
+/**
+ * Recompute a FINALIZED (or EXECUTED) epoch's winners and compare them with the on-chain winner list
+ */
+export async function verifyEpochWinners(ctx: ChainContext, epochNumber: bigint): Promise<WinnerVerification> {
+    const { tradeManager } = ctx;
+    const state = Number((await tradeManager.epochs(epochNumber)).state);
+    if (state < 2) {
+        throw new Error(`Epoch ${epochNumber} is not finalized yet (state=${state})`);
+    }
+
+    const ranking = await rankEpoch(ctx, epochNumber);
+    const weights = await getEpochWeights(tradeManager, epochNumber);
+    const expected = ranking.ranked.slice(0, weights.length).map(({ trader, apyBps }) => ({ trader, apyBps }));
+    const actual = (await getEpochWinners(tradeManager, Number(epochNumber))).map(({ trader, apyBps }) => ({ trader, apyBps }));
+
+    const differences: string[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+        const want = expected[i];
+        const got = actual[i];
+        if (!want || !got || want.trader.toLowerCase() !== got.trader.toLowerCase()) {
+            differences.push(`rank ${i + 1}: expected ${want?.trader ?? 'no winner'}, on-chain ${got?.trader ?? 'no winner'}`);
+        } else if (want.apyBps !== got.apyBps) {
+            differences.push(`rank ${i + 1}: ${got.trader} finalized with ${got.apyBps} bps, on-chain APY is ${want.apyBps} bps`);
+        }
+    }
+
+    return {
+        epochNumber: Number(epochNumber),
+        verified: differences.length === 0,
+        expected,
+        actual,
+        differences,
+        mismatches: ranking.mismatches
+    };
+}
@@ -0,0 +1,214 @@
+/**
+ * Execution Reconciliation - what an executed plan actually did
+ *
+ * executeEpochTopStrategiesAggregated keeps going when a call reverts and only emits
+ * StrategyExecutionFailed(epochNumber, target, calldata). After execution:
+ *   - every StrategyExecutionFailed log is matched to its call in the plan (logs follow plan
+ *     order), and through the plan's origins to the winners' nodes it came from
+ *   - the vault's positions are read and compared with the ones the plan simulation expected
+ *     (see planSimulation.ts)
+ * The failed subset can be retried with recoverEpochExecution.ts, and the positions closed with
+ * unwindEpochExecution.ts.
+ */
+
+import { ethers } from 'ethers';
+import { AggregatedCalldata, CallOrigin } from '../storage';
+import { getExecutedPlans } from '../epochDatabase';
+import { ChainContext } from './chainContext';
+import { findEpochStartedLog, queryLogsSince } from './epochEvents';
+import { PlanSimulation } from './planSimulation';
+import {
+    PositionDifference,
+    describePlanCall,
+    findPlanPositions,
+    readVaultPositions,
+    reconcilePositions
+} from './vaultPositions';
+
+export interface FailedCall {
+    index: number;             // In the executed plan
+    label: string;
+    target: string;
+    calldata: string;
+    origins: CallOrigin[];     // Empty when this operator did not build the plan
+}
+
+export interface EpochExecution {
+    txHash: string;
+    blockNumber: number;
+    plan: AggregatedCalldata;
+    failed: FailedCall[];
+    logs: readonly ethers.Log[];  // Receipt logs, for protocol events (e.g. PT received)
+}
+
+export interface ExecutionReconciliation {
+    txHash: string;
+    failed: FailedCall[];
+    simulated: boolean;        // Positions compared with a plan simulation
+    differences: PositionDifference[];
+}
+
+/**
+ * Match StrategyExecutionFailed events (decoded, in log order) to the plan's calls
+ */
+export function decodeExecutionFailures(
+    events: { name: string; args: ethers.Result }[],
+    plan: AggregatedCalldata
+): FailedCall[] {
+    const failed: FailedCall[] = [];
+    let next = 0;
+    for (const event of events) {
+        if (event.name !== 'StrategyExecutionFailed') {
+            continue;
+        }
+        const target = ethers.getAddress(event.args.target);
+        const calldata = String(event.args.calldata_data).toLowerCase();
+        let index = next;
+        while (
+            index < plan.targets.length &&
+            (ethers.getAddress(plan.targets[index]) !== target || plan.calldatas[index].toLowerCase() !== calldata)
+        ) {
+            index++;
+        }
+        if (index === plan.targets.length) {
+            throw new Error(`StrategyExecutionFailed for ${target} does not match any remaining call of the plan`);
+        }
+        failed.push({
+            index,
+            label: describePlanCall(target, plan.calldatas[index]),
+            target,
+            calldata: plan.calldatas[index],
+            origins: plan.origins?.[index] ?? []
+        });
+        next = index + 1;
+    }
+    return failed;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * The plan an execution transaction carried, decoded from its input (with this operator's record
+ * of the winners' nodes behind each call when it built the same plan). Transactions sent through
+ * another contract (e.g. Nexus on a target chain) are refused: only the operator that sent them
+ * knows their plan, so peers could never attest a recovery or unwind built from it.
+ */
+async function getExecutedPlan(ctx: ChainContext, epochNumber: bigint, txHash: string): Promise<AggregatedCalldata> {
+    const { provider, tradeManager, tradeManagerAddress, chainId } = ctx;
+
+    const tx = await provider.getTransaction(txHash);
+    const parsed = tx && tx.to && sameAddress(tx.to, tradeManagerAddress)
+        ? tradeManager.interface.parseTransaction({ data: tx.data })
+        : null;
+    if (parsed?.name !== 'executeEpochTopStrategiesAggregated') {
+        throw new Error(
+            `Execution ${txHash} of epoch ${epochNumber} was not sent directly to the TradeManager (e.g. through Nexus): ` +
+            `its plan can't be rebuilt from the chain, so recover and unwind are not supported on chain ${chainId}`
+        );
+    }
+
+    const plan: AggregatedCalldata = {
+        encoders: [...parsed.args.encoders],
+        targets: [...parsed.args.targets],
+        calldatas: [...parsed.args.calldatas],
+        txHash
+    };
+    // Origins only when the recorded plan is the one that was executed
+    const recorded = getExecutedPlans(Number(epochNumber), chainId).find((executed) => executed.txHash === txHash);
+    const matches = recorded && recorded.calldatas.length === plan.calldatas.length &&
+        recorded.calldatas.every((calldata, i) => calldata.toLowerCase() === plan.calldatas[i].toLowerCase());
+    return matches ? { ...plan, origins: recorded!.origins } : plan;
+}
+
+/**
+ * Every execution transaction of an EXECUTED epoch on this chain (the execution, recoveries and
+ * unwinds), oldest first, rebuilt from the chain so every operator sees the same ones
+ */
+export async function getEpochExecutions(ctx: ChainContext, epochNumber: bigint): Promise<EpochExecution[]> {
+    const { provider, tradeManager } = ctx;
+
+    const state = Number((await tradeManager.epochs(epochNumber)).state);
+    if (state !== 3) {
+        throw new Error(`Epoch is not EXECUTED (state=${state})`);
+    }
+
+    const startedLog = await findEpochStartedLog(tradeManager, epochNumber);
+    if (!startedLog) {
+        throw new Error(`EpochStarted event of epoch ${epochNumber} not found`);
+    }
+    const executedLogs = await queryLogsSince(tradeManager, tradeManager.filters.EpochExecuted(epochNumber), startedLog.blockNumber);
+    if (executedLogs.length === 0) {
+        return [];
+    }
+    const failedLogs = await queryLogsSince(
+        tradeManager,
+        tradeManager.filters.StrategyExecutionFailed(epochNumber),
+        executedLogs[0].blockNumber
+    );
+
+    const executions: EpochExecution[] = [];
+    for (const executedLog of executedLogs) {
+        const txHash = executedLog.transactionHash;
+        const plan = await getExecutedPlan(ctx, epochNumber, txHash);
+        const failed = decodeExecutionFailures(
+            failedLogs
+                .filter((log) => log.transactionHash === txHash)
+                .sort((a, b) => a.index - b.index)
+                .map((log) => ({ name: log.eventName, args: log.args })),
+            plan
+        );
+        const receipt = await provider.getTransactionReceipt(txHash);
+        executions.push({ txHash, blockNumber: executedLog.blockNumber, plan, failed, logs: receipt?.logs ?? [] });
+    }
+    return executions;
+}
+
+/**
+ * An execution transaction's failed calls, and the vault's positions against the simulation
+ */
+export async function reconcileExecution(
+    provider: ethers.Provider,
+    plan: AggregatedCalldata,
+    txHash: string,
+    failed: FailedCall[],
+    simulation?: PlanSimulation
+): Promise<ExecutionReconciliation> {
+    if (!simulation) {
+        return { txHash, failed, simulated: false, differences: [] };
+    }
+    const refs = await findPlanPositions(provider, plan.targets, plan.calldatas);
+    const actual = await readVaultPositions(provider, simulation.vault, refs);
+    return { txHash, failed, simulated: true, differences: reconcilePositions(simulation.positions, actual) };
+}
+
+export function logFailedCalls(failed: FailedCall[]): void {
+    for (const call of failed) {
+        const origins = call.origins.length > 0
+            ? call.origins.map((origin) => `${origin.winner} node ${origin.node}`).join(', ')
+            : 'origins unknown';
+        console.log(`    ❌ ${call.index + 1}. ${call.label} on ${call.target} (${origins})`);
+    }
+}
+
+/**
+ * Log failed calls and position differences
+ */
+export function logReconciliation(reconciliation: ExecutionReconciliation, calls: number): void {
+    console.log(`\n🔍 Reconciling ${reconciliation.txHash}...`);
+    if (reconciliation.failed.length === 0) {
+        console.log(`  ✅ All ${calls} calls succeeded`);
+    } else {
+        console.log(`  ⚠️ ${reconciliation.failed.length}/${calls} calls failed (StrategyExecutionFailed):`);
+        logFailedCalls(reconciliation.failed);
+    }
+    for (const difference of reconciliation.differences) {
+        const format = (value: string) => ethers.formatUnits(value, difference.decimals);
+        console.log(
+            `  ⚠️ Vault ${difference.label}: expected ${format(difference.expected)}, ` +
+            `actual ${format(difference.actual)} (${format(difference.difference)})`
+        );
+    }
+    if (reconciliation.simulated && reconciliation.differences.length === 0) {
+        console.log('  ✅ Vault positions match the simulation');
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Metrics - minimal Prometheus registry (counters, gauges, histograms)
+ *
+ * Metrics are module-level singletons, so any module can record without wiring:
+ *   const reports = counter('arena_apy_reports_total', 'APY reports by result');
+ *   reports.inc({ result: 'sent' });
+ * renderMetrics() produces the Prometheus text exposition format served by the status server.
+ */
+
+export type Labels = { [name: string]: string | number };
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+    name: string;
+    help: string;
+    type: MetricType;
+    render(): string[];
+}
+
+const registry = new Map<string, Metric>();
+const collectors: Array<() => Promise<void> | void> = [];
+
+const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120];
+
+function labelKey(labels: Labels = {}): string {
+    return Object.keys(labels)
+        .sort()
+        .map((name) => `${name}="${String(labels[name]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+        .join(',');
+}
+
+function sample(name: string, key: string, value: number): string {
+    return `${name}${key ? `{${key}}` : ''} ${value}`;
+}
+
+export class Counter implements Metric {
+    readonly type = 'counter' as const;
+    private values = new Map<string, number>();
+
+    constructor(public readonly name: string, public readonly help: string) {}
+
+    inc(labels?: Labels, value = 1): void {
+        const key = labelKey(labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    render(): string[] {
+        return [...this.values].map(([key, value]) => sample(this.name, key, value));
+    }
+}
+
+export class Gauge implements Metric {
+    readonly type = 'gauge' as const;
+    private values = new Map<string, number>();
+
+    constructor(public readonly name: string, public readonly help: string) {}
+
+    set(value: number, labels?: Labels): void {
+        this.values.set(labelKey(labels), value);
+    }
+
+    render(): string[] {
+        return [...this.values].map(([key, value]) => sample(this.name, key, value));
+    }
+}
+
+export class Histogram implements Metric {
+    readonly type = 'histogram' as const;
+    private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+    constructor(public readonly name: string, public readonly help: string, private buckets: number[] = DEFAULT_BUCKETS) {}
+
+    observe(value: number, labels?: Labels): void {
+        const key = labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) entry!.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * Start a timer; calling the returned function records the elapsed seconds
+     */
+    startTimer(labels?: Labels): () => number {
+        const start = process.hrtime.bigint();
+        return () => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe(seconds, labels);
+            return seconds;
+        };
+    }
+
+    render(): string[] {
+        const lines: string[] = [];
+        for (const [key, entry] of this.series) {
+            const prefix = key ? `${key},` : '';
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`);
+            lines.push(sample(`${this.name}_sum`, key, entry.sum));
+            lines.push(sample(`${this.name}_count`, key, entry.count));
+        }
+        return lines;
+    }
+}
+
+function register<T extends Metric>(metric: T): T {
+    const existing = registry.get(metric.name);
+    if (existing) {
+        if (existing.type !== metric.type) {
+            throw new Error(`Metric ${metric.name} already registered as a ${existing.type}`);
+        }
+        return existing as T;
+    }
+    registry.set(metric.name, metric);
+    return metric;
+}
+
+export function counter(name: string, help: string): Counter {
+    return register(new Counter(name, help));
+}
+
+export function gauge(name: string, help: string): Gauge {
+    return register(new Gauge(name, help));
+}
+
+export function histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return register(new Histogram(name, help, buckets));
+}
+
+/**
+ * Register a callback that refreshes gauges right before each scrape
+ */
+export function addCollector(collect: () => Promise<void> | void): void {
+    collectors.push(collect);
+}
+
+/**
+ * Render all metrics in the Prometheus text format
+ */
+export async function renderMetrics(): Promise<string> {
+    for (const collect of collectors) {
+        try {
+            await collect();
+        } catch (error: any) {
+            console.error(`⚠️ Metrics collector failed: ${error?.message || error}`);
+        }
+    }
+
+    const lines: string[] = [];
+    for (const metric of registry.values()) {
+        lines.push(`# HELP ${metric.name} ${metric.help}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,86 @@
+import { ethers } from 'ethers';
+import { NonceManager } from './nonceManager';
+
+/**
+ * Signer stub whose pending nonce is set by the test
+ */
+function signer(pending: number) {
+    const stub = { pending, getNonce: jest.fn(async (): Promise<number> => stub.pending) };
+    return stub;
+}
+
+describe('NonceManager', () => {
+    it('hands concurrent callers distinct sequential nonces from one read', async () => {
+        const node = signer(7);
+        const nonces = new NonceManager(node as unknown as ethers.Signer);
+
+        expect(await Promise.all([nonces.next(), nonces.next(), nonces.next()])).toEqual([7, 8, 9]);
+        expect(node.getNonce).toHaveBeenCalledTimes(1);
+        expect(nonces.inFlight).toBe(3);
+    });
+
+    it('reuses a failed nonce while a later one is in flight', async () => {
+        const node = signer(7);
+        const nonces = new NonceManager(node as unknown as ethers.Signer);
+        const a = await nonces.next();
+        await nonces.next();    // B is sent at 8
+
+        // A's send failed; the node already counts B, so re-reading it would skip 7 for good
+        node.pending = 9;
+        nonces.release(a);
+
+        expect(await nonces.next()).toBe(7);
+        expect(await nonces.next()).toBe(9);
+        expect(node.getNonce).toHaveBeenCalledTimes(1);
+    });
+
+    it('hands out released nonces lowest first', async () => {
+        const nonces = new NonceManager(signer(0) as unknown as ethers.Signer);
+        const [first, second] = [await nonces.next(), await nonces.next()];
+        await nonces.next();
+
+        nonces.release(second);
+        nonces.release(first);
+
+        expect([await nonces.next(), await nonces.next(), await nonces.next()]).toEqual([0, 1, 3]);
+    });
+
+    it('re-syncs only once nothing is in flight', async () => {
+        const node = signer(7);
+        const nonces = new NonceManager(node as unknown as ethers.Signer);
+        const a = await nonces.next();
+        const b = await nonces.next();
+
+        // Another sender used nonces meanwhile
+        node.pending = 12;
+        nonces.resync();
+        nonces.done(a);
+        expect(await nonces.next()).toBe(9);
+
+        nonces.done(b);
+        nonces.done(9);
+        expect(await nonces.next()).toBe(12);
+        expect(node.getNonce).toHaveBeenCalledTimes(2);
+    });
+
+    it('re-reads the node after releasing the only reserved nonce', async () => {
+        const node = signer(7);
+        const nonces = new NonceManager(node as unknown as ethers.Signer);
+
+        nonces.release(await nonces.next());
+
+        expect(nonces.inFlight).toBe(0);
+        expect(await nonces.next()).toBe(7);
+        expect(node.getNonce).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps counting locally after mined transactions', async () => {
+        const node = signer(7);
+        const nonces = new NonceManager(node as unknown as ethers.Signer);
+
+        nonces.done(await nonces.next());
+
+        expect(await nonces.next()).toBe(8);
+        expect(node.getNonce).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Nonce Manager - hands out sequential nonces for one signer
+ *
+ * Concurrent jobs share a single signer, so reading the nonce from the node right before
+ * sending hands two transactions the same nonce. The manager reads the pending nonce once,
+ * then increments locally and tracks every nonce it handed out until the sender settles it:
+ * - release(nonce) after a send that never reached the node: the nonce is handed out again
+ *   before any new one, so transactions already sent at higher nonces don't get stuck behind a gap
+ * - done(nonce) once the transaction at the nonce was mined or given up on
+ * - resync() when the local count may be wrong; the pending nonce is only re-read from the
+ *   node once no reserved nonce is in flight, since it can't account for unsent reservations
+ */
+
+import { ethers } from 'ethers';
+
+export class NonceManager {
+    private nextNonce: number | null = null;
+    private reserved = new Set<number>();   // Handed out, not settled yet
+    private released: number[] = [];        // Handed out but never sent, reused lowest first
+    private stale = false;                  // Re-read the pending nonce once nothing is in flight
+    private lock: Promise<void> = Promise.resolve();
+
+    constructor(private signer: ethers.Signer) {}
+
+    /**
+     * Reserve the next nonce, reusing released nonces first
+     */
+    async next(): Promise<number> {
+        // Serialize reservations so concurrent callers never see the same value
+        const previous = this.lock;
+        let release!: () => void;
+        this.lock = new Promise(resolve => (release = resolve));
+
+        try {
+            await previous;
+            if (this.nextNonce === null) {
+                this.nextNonce = await this.signer.getNonce('pending');
+            }
+            const nonce = this.released.length > 0 ? this.released.shift()! : this.nextNonce++;
+            this.reserved.add(nonce);
+            return nonce;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Return a nonce whose transaction was never sent, so the next reservation fills the gap
+     */
+    release(nonce: number): void {
+        if (!this.reserved.delete(nonce)) return;
+        this.released.push(nonce);
+        this.released.sort((a, b) => a - b);
+        this.syncIfIdle();
+    }
+
+    /**
+     * Settle a nonce whose transaction was mined, or was sent and is no longer waited for
+     */
+    done(nonce: number): void {
+        this.reserved.delete(nonce);
+        this.syncIfIdle();
+    }
+
+    /**
+     * Re-read the pending nonce from the node before the next reservation, as soon as no
+     * reserved nonce is in flight
+     */
+    resync(): void {
+        this.stale = true;
+        this.syncIfIdle();
+    }
+
+    /**
+     * Nonces handed out and not settled yet
+     */
+    get inFlight(): number {
+        return this.reserved.size;
+    }
+
+    private syncIfIdle(): void {
+        // With nothing in flight the node's pending nonce covers every sent transaction, and
+        // released nonces are the lowest unused ones, so the node reports the same gap-free value
+        if (this.reserved.size === 0 && (this.stale || this.released.length > 0)) {
+            this.nextNonce = null;
+            this.released = [];
+            this.stale = false;
+        }
+    }
+}
@@ -0,0 +1,317 @@
+/**
+ * Plan Simulation - replay an aggregated plan against a fork before anyone signs it
+ *
+ * executeEpochTopStrategiesAggregated calls BoringVault.execute(target, calldata, 0) for each
+ * aggregated call and only emits StrategyExecutionFailed when one reverts. Each call is replayed
+ * the same way, in order, from the target chain's TradeManager (impersonated), so later calls
+ * see the state left by earlier ones:
+ *   fork - spawn `anvil --fork-url <target chain RPC>` on a free port, killed when done (default)
+ *   rpc  - PLAN_SIMULATION_RPC: a running anvil fork, or a local deployment of the mocks at the
+ *          plan's addresses; the replay is wrapped in evm_snapshot / evm_revert
+ *   off  - not simulated (plans are signed unchecked)
+ * The result has per-call success, gas and revert reason, and the vault's positions the plan
+ * touches (utils/vaultPositions.ts) before and after. A plan with a reverting call is never signed.
+ */
+
+import { ethers } from 'ethers';
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { AggregatedCalldata } from '../storage';
+import { resolveChain, getTradeManagerAddress } from './chainContext';
+import { PositionChange, comparePositions, describePlanCall, findPlanPositions, readVaultPositions } from './vaultPositions';
+import { decodeRevertReason, getRevertData } from './txSender';
+
+export type PlanSimulationMode = 'fork' | 'rpc' | 'off';
+
+const SIMULATION_MODES: PlanSimulationMode[] = ['fork', 'rpc', 'off'];
+
+export interface PlanSimulationConfig {
+    mode: PlanSimulationMode;
+    rpcUrl?: string;           // rpc mode
+    anvilPath: string;         // fork mode
+    startupTimeoutMs: number;  // fork mode: time for anvil to answer
+}
+
+export interface CallSimulation {
+    index: number;
+    label: string;             // protocol.function, or the selector
+    target: string;
+    success: boolean;
+    gasUsed?: string;          // vault.execute transaction, successful calls only
+    reason?: string;           // Decoded revert reason
+}
+
+export interface PlanSimulation {
+    chainId: number;
+    mode: Exclude<PlanSimulationMode, 'off'>;
+    vault: string;
+    forkBlock: number;
+    calls: CallSimulation[];
+    reverted: number;
+    totalGas: string;
+    positions: PositionChange[];  // Vault positions the plan touches
+}
+
+const FORK_FUNDING = ethers.parseEther('100');
+
+const vaultInterface = new ethers.Interface([
+    'function execute(address target, bytes data, uint256 value) returns (bytes)',
+    'error Unauthorized()',
+    'error FailedInnerCall()',
+    'error FailedCall()',
+    'error AddressEmptyCode(address target)'
+]);
+
+const tradeManagerInterface = new ethers.Interface(['function boringVault() view returns (address)']);
+
+// Custom errors of the mock protocols, for readable revert reasons
+const mockInterfaces = ['MockAave', 'MockMorpho', 'MockPendle', 'MockERC20'].flatMap((name) => {
+    const abiPath = path.resolve(__dirname, `../../abis/${name}.json`);
+    if (!fs.existsSync(abiPath)) {
+        return [];
+    }
+    const abi = JSON.parse(fs.readFileSync(abiPath, 'utf8'));
+    return [new ethers.Interface(Array.isArray(abi) ? abi : abi.abi)];
+});
+
+/**
+ * Simulation settings from PLAN_SIMULATION, PLAN_SIMULATION_RPC, ANVIL_PATH and ANVIL_STARTUP_SECONDS
+ */
+export function getPlanSimulationConfig(): PlanSimulationConfig {
+    const mode = (process.env.PLAN_SIMULATION || 'fork').toLowerCase() as PlanSimulationMode;
+    if (!SIMULATION_MODES.includes(mode)) {
+        throw new Error(`Invalid PLAN_SIMULATION "${mode}" (expected ${SIMULATION_MODES.join(', ')})`);
+    }
+    const rpcUrl = process.env.PLAN_SIMULATION_RPC || undefined;
+    if (mode === 'rpc' && !rpcUrl) {
+        throw new Error('PLAN_SIMULATION=rpc requires PLAN_SIMULATION_RPC');
+    }
+    return {
+        mode,
+        rpcUrl,
+        anvilPath: process.env.ANVIL_PATH || 'anvil',
+        startupTimeoutMs: Number(process.env.ANVIL_STARTUP_SECONDS ?? 30) * 1000
+    };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+/**
+ * Fork the target chain with anvil and wait until it answers
+ */
+async function startFork(
+    forkUrl: string,
+    chainId: number,
+    config: PlanSimulationConfig
+): Promise<{ provider: ethers.JsonRpcProvider; anvil: ChildProcess }> {
+    const port = await getFreePort();
+    const anvil = spawn(config.anvilPath, ['--fork-url', forkUrl, '--port', String(port), '--silent'], {
+        stdio: ['ignore', 'ignore', 'pipe']
+    });
+    let stderr = '';
+    let failure: Error | undefined;
+    anvil.stderr?.on('data', (chunk) => { stderr += chunk.toString(); });
+    anvil.once('error', (error: any) => {
+        failure = error.code === 'ENOENT'
+            ? new Error(`${config.anvilPath} not found: install Foundry, set ANVIL_PATH, or PLAN_SIMULATION=rpc|off`)
+            : error;
+    });
+    anvil.once('exit', (code) => {
+        failure = failure ?? new Error(`anvil exited with code ${code}: ${stderr.trim() || 'no output'}`);
+    });
+
+    const network = ethers.Network.from(chainId);
+    const provider = new ethers.JsonRpcProvider(`http://127.0.0.1:${port}`, network, { staticNetwork: network });
+    const deadline = Date.now() + config.startupTimeoutMs;
+    while (true) {
+        if (failure) {
+            provider.destroy();
+            throw failure;
+        }
+        try {
+            await provider.send('eth_chainId', []);
+            return { provider, anvil };
+        } catch {
+            if (Date.now() > deadline) {
+                provider.destroy();
+                anvil.kill();
+                throw new Error(`anvil did not answer on port ${port} within ${config.startupTimeoutMs / 1000}s`);
+            }
+            await sleep(250);
+        }
+    }
+}
+
+function stopFork(anvil: ChildProcess): void {
+    if (anvil.exitCode === null && !anvil.killed) {
+        anvil.kill();
+    }
+}
+
+/**
+ * Replay the plan from the TradeManager, one vault.execute per call, as the contract does
+ */
+async function replayPlan(
+    provider: ethers.JsonRpcProvider,
+    chainId: number,
+    mode: PlanSimulation['mode'],
+    tradeManagerAddress: string,
+    aggregated: AggregatedCalldata
+): Promise<PlanSimulation> {
+    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerInterface, provider);
+    const vault: string = await tradeManager.boringVault();
+    if (vault === ethers.ZeroAddress) {
+        throw new Error(`BoringVault not set on TradeManager ${tradeManagerAddress}`);
+    }
+
+    await provider.send('anvil_impersonateAccount', [tradeManagerAddress]);
+    await provider.send('anvil_setBalance', [tradeManagerAddress, ethers.toQuantity(FORK_FUNDING)]);
+
+    const refs = await findPlanPositions(provider, aggregated.targets, aggregated.calldatas);
+    const before = await readVaultPositions(provider, vault, refs);
+
+    const simulation: PlanSimulation = {
+        chainId,
+        mode,
+        vault,
+        forkBlock: await provider.getBlockNumber(),
+        calls: [],
+        reverted: 0,
+        totalGas: '0',
+        positions: []
+    };
+
+    let totalGas = 0n;
+    for (const [i, target] of aggregated.targets.entries()) {
+        const call: CallSimulation = { index: i, label: describePlanCall(target, aggregated.calldatas[i]), target, success: false };
+        simulation.calls.push(call);
+        const tx = {
+            from: tradeManagerAddress,
+            to: vault,
+            data: vaultInterface.encodeFunctionData('execute', [target, aggregated.calldatas[i], 0])
+        };
+
+        // eth_call first: it returns the revert data that a mined transaction doesn't
+        try {
+            await provider.call(tx);
+        } catch (error: any) {
+            call.reason = decodeRevertReason(getRevertData(error), [vaultInterface, ...mockInterfaces])
+                ?? error.shortMessage ?? error.message;
+            simulation.reverted++;
+            continue;
+        }
+
+        const hash: string = await provider.send('eth_sendTransaction', [{ ...tx, value: '0x0' }]);
+        const receipt = await provider.waitForTransaction(hash);
+        if (!receipt || receipt.status !== 1) {
+            call.reason = 'Transaction reverted on the fork';
+            simulation.reverted++;
+            continue;
+        }
+        call.success = true;
+        call.gasUsed = receipt.gasUsed.toString();
+        totalGas += receipt.gasUsed;
+    }
+    simulation.totalGas = totalGas.toString();
+
+    simulation.positions = comparePositions(before, await readVaultPositions(provider, vault, refs));
+
+    await provider.send('anvil_stopImpersonatingAccount', [tradeManagerAddress]);
+    return simulation;
+}
+
+/**
+ * Simulate an aggregated plan for a target chain. Undefined when PLAN_SIMULATION=off.
+ */
+export async function simulatePlan(
+    targetChainId: number,
+    tradeManagerAddress: string,
+    aggregated: AggregatedCalldata,
+    config: PlanSimulationConfig = getPlanSimulationConfig()
+): Promise<PlanSimulation | undefined> {
+    if (config.mode === 'off') {
+        console.log(`  ⚠️ Plan simulation is off (PLAN_SIMULATION=off): chain ${targetChainId} calls are not checked`);
+        return undefined;
+    }
+
+    if (config.mode === 'rpc') {
+        const provider = new ethers.JsonRpcProvider(config.rpcUrl, undefined, { staticNetwork: true });
+        const snapshot = await provider.send('evm_snapshot', []);
+        try {
+            const rpcChainId = Number(await provider.send('eth_chainId', []));
+            // A local deployment has its own TradeManager (contracts/deployments/trade-manager/<chainId>.json)
+            const address = rpcChainId === targetChainId ? tradeManagerAddress : getTradeManagerAddress(rpcChainId);
+            return await replayPlan(provider, targetChainId, 'rpc', address, aggregated);
+        } finally {
+            await provider.send('evm_revert', [snapshot]);
+            provider.destroy();
+        }
+    }
+
+    const chain = resolveChain(String(targetChainId));
+    const forkUrl = process.env[chain.rpcEnv];
+    if (!forkUrl) {
+        throw new Error(`${chain.label}: RPC URL to fork not configured (set ${chain.rpcEnv})`);
+    }
+    const { provider, anvil } = await startFork(forkUrl, targetChainId, config);
+    try {
+        const forkChainId = Number(await provider.send('eth_chainId', []));
+        if (forkChainId !== targetChainId) {
+            throw new Error(`${chain.rpcEnv} points to chain ${forkChainId}, expected ${targetChainId}`);
+        }
+        return await replayPlan(provider, targetChainId, 'fork', tradeManagerAddress, aggregated);
+    } finally {
+        provider.destroy();
+        stopFork(anvil);
+    }
+}
+
+/**
+ * Log per-call results and the vault's position changes
+ */
+export function logPlanSimulation(simulation: PlanSimulation): void {
+    console.log(
+        `  Simulated ${simulation.calls.length} calls on chain ${simulation.chainId} ` +
+        `(${simulation.mode}, block ${simulation.forkBlock}, vault ${simulation.vault})`
+    );
+    for (const call of simulation.calls) {
+        console.log(
+            call.success
+                ? `    ✅ ${call.index + 1}. ${call.label} (gas ${call.gasUsed})`
+                : `    ❌ ${call.index + 1}. ${call.label} reverted: ${call.reason}`
+        );
+    }
+    console.log(`    Total gas: ${simulation.totalGas}`);
+    for (const position of simulation.positions) {
+        const format = (value: string) => ethers.formatUnits(value, position.decimals);
+        console.log(`    Vault ${position.label}: ${format(position.before)} → ${format(position.after)}`);
+    }
+}
+
+/**
+ * Refuse a plan with a reverting call
+ */
+export function assertPlanSucceeds(simulation: PlanSimulation): void {
+    if (simulation.reverted > 0) {
+        const failed = simulation.calls
+            .filter((call) => !call.success)
+            .map((call) => `${call.index + 1}. ${call.label}: ${call.reason}`);
+        throw new Error(
+            `Plan for chain ${simulation.chainId} would revert (${simulation.reverted}/${simulation.calls.length} calls): ` +
+            failed.join('; ')
+        );
+    }
+}
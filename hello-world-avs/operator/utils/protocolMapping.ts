@@ -51,7 +51,7 @@ export function loadMockDeployment(chainId: number): MockDeployment {
     return mockDeployment!;
 }
 
-interface ProtocolFunction {
+export interface ProtocolFunction {
     protocol: string;
     functionName: string;
     signature: string;
@@ -163,6 +163,42 @@ export const PROTOCOL_FUNCTIONS: ProtocolFunction[] = [
     },
 ];
 
+/**
+ * ERC20 approve, which strategies use to let a protocol pull the vault's tokens
+ */
+export const ERC20_APPROVE: ProtocolFunction = {
+    protocol: "erc20",
+    functionName: "approve",
+    signature: "approve(address,uint256)",
+    selector: getSelector("approve(address,uint256)"),
+    argNames: ["spender", "amount"]
+};
+
+/**
+ * Amount arguments by name, and the argument naming the token they are denominated in
+ * (Pendle PT amounts: the market, whose PT token is found with getMarketPT). Calls without the
+ * token argument (ERC20 approve) are denominated in their target.
+ */
+export const AMOUNT_ARG_TOKENS: Record<string, string> = {
+    amount: "asset",
+    assets: "loanToken",
+    netTokenIn: "tokenIn",
+    exactPtIn: "market",
+    collateralTokenAmount: "collateralToken"
+};
+
+/**
+ * PT token of a Pendle market in the mock deployment (markets and tokens share their keys), or
+ * null when the market isn't deployed there
+ */
+export function getMarketPT(chainId: number, market: string): string | null {
+    const deployment = loadMockDeployment(chainId);
+    const key = Object.keys(deployment.markets).find(
+        (name) => deployment.markets[name as keyof MockDeployment['markets']].toLowerCase() === market.toLowerCase()
+    );
+    return key ? deployment.tokens[key as keyof MockDeployment['tokens']] ?? null : null;
+}
+
 /**
  * Build selector lookup map
  */
@@ -211,6 +247,25 @@ export function getFunctionFromSelector(selector: string): ProtocolFunction | nu
     return SELECTOR_MAP[normalized] || null;
 }
 
+/**
+ * Function of a strategy node: a protocol function, or ERC20 approve
+ */
+export function getCallFunction(selector: string): ProtocolFunction | null {
+    return selector.toLowerCase() === ERC20_APPROVE.selector ? ERC20_APPROVE : getFunctionFromSelector(selector);
+}
+
+/**
+ * Index of a call's amount argument and of the token argument it is denominated in
+ * (tokenIndex -1: the call's target). Null for functions without an amount.
+ */
+export function getAmountArg(fn: ProtocolFunction): { index: number; tokenIndex: number } | null {
+    const index = fn.argNames.findIndex((name) => name in AMOUNT_ARG_TOKENS);
+    if (index < 0) {
+        return null;
+    }
+    return { index, tokenIndex: fn.argNames.indexOf(AMOUNT_ARG_TOKENS[fn.argNames[index]]) };
+}
+
 /**
  * Get both protocol and function name from address and selector
  */
@@ -0,0 +1,172 @@
+/**
+ * Historical Rate Sources
+ * Pluggable time-series rate (and token price) data used to simulate strategies over the epoch's sim window
+ * All rates in basis points (10000 = 100%), prices in USD, timestamps in unix seconds
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAPYRate } from './apyConfig';
+
+/**
+ * Identifies a rate series: protocol + function, narrowed by market and/or token
+ */
+export interface RateKey {
+    protocol: string;      // e.g., "pendle", "aave"
+    functionName: string;  // e.g., "swapExactTokenForPt", "borrow"
+    market?: string;       // Market address (Pendle markets)
+    token?: string;        // Token address (lending markets)
+}
+
+/**
+ * Simulation window (decrypted from the epoch's encSimStartTime/encSimEndTime)
+ */
+export interface SimWindow {
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * A source of historical rates and token prices. Implementations must be deterministic
+ * for a given (key, timestamp) so every operator computes the same APY.
+ */
+export interface RateSource {
+    name: string;
+    getRate(key: RateKey, timestamp: number): number;
+    getPrice(token: string, timestamp: number): number;
+}
+
+/**
+ * Static rates from apyConfig.ts - same value at every timestamp, every token at par ($1)
+ */
+export class StaticRateSource implements RateSource {
+    name = 'static';
+
+    constructor(private chainId: number) {}
+
+    getRate(key: RateKey, _timestamp: number): number {
+        return getAPYRate(this.chainId, key.protocol, key.functionName, key.market || key.token || '');
+    }
+
+    getPrice(_token: string, _timestamp: number): number {
+        return 1;
+    }
+}
+
+/**
+ * On-disk rate series format:
+ * {
+ *   "series": [
+ *     { "protocol": "aave", "function": "borrow", "token": "0x...", "points": [[1735689600, 480], ...] }
+ *   ],
+ *   "prices": [
+ *     { "token": "0x...", "points": [[1735689600, 0.998], ...] }
+ *   ]
+ * }
+ */
+interface RateSeries {
+    protocol: string;
+    function: string;
+    market?: string;
+    token?: string;
+    points: [number, number][]; // [timestamp, rateBps], sorted by timestamp
+}
+
+interface PriceSeries {
+    token: string;
+    points: [number, number][]; // [timestamp, priceUsd], sorted by timestamp
+}
+
+interface RateSeriesFile {
+    series: RateSeries[];
+    prices?: PriceSeries[];
+}
+
+/**
+ * Step-function lookup: last observation at or before the timestamp
+ */
+function valueAt(points: [number, number][], timestamp: number): number {
+    let value = points[0][1];
+    for (const [t, v] of points) {
+        if (t > timestamp) break;
+        value = v;
+    }
+    return value;
+}
+
+/**
+ * Time-series rates loaded from a JSON file.
+ * The rate/price at a timestamp is the last observation at or before it (step function);
+ * timestamps before the first observation use the first one.
+ * Keys and tokens without a matching series are answered by the fallback source.
+ */
+export class TimeSeriesRateSource implements RateSource {
+    name: string;
+    private series: RateSeries[];
+    private prices: PriceSeries[];
+
+    constructor(filePath: string, private fallback: RateSource) {
+        const data: RateSeriesFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        this.series = (data.series || []).map(s => ({
+            ...s,
+            points: [...s.points].sort((a, b) => a[0] - b[0])
+        }));
+        this.prices = (data.prices || []).map(p => ({
+            ...p,
+            points: [...p.points].sort((a, b) => a[0] - b[0])
+        }));
+        this.name = `timeseries(${path.basename(filePath)})`;
+    }
+
+    private findSeries(key: RateKey): RateSeries | undefined {
+        const protocol = key.protocol.toLowerCase();
+        const fn = key.functionName.toLowerCase();
+        const candidates = this.series.filter(
+            s => s.protocol.toLowerCase() === protocol && s.function.toLowerCase() === fn
+        );
+
+        // Exact market/token match first, then a protocol+function series with no market/token
+        const exact = candidates.find(s =>
+            (key.market && s.market?.toLowerCase() === key.market.toLowerCase()) ||
+            (key.token && s.token?.toLowerCase() === key.token.toLowerCase())
+        );
+        return exact || candidates.find(s => !s.market && !s.token);
+    }
+
+    getRate(key: RateKey, timestamp: number): number {
+        const series = this.findSeries(key);
+        if (!series || series.points.length === 0) {
+            return this.fallback.getRate(key, timestamp);
+        }
+        return valueAt(series.points, timestamp);
+    }
+
+    getPrice(token: string, timestamp: number): number {
+        const series = this.prices.find(p => p.token.toLowerCase() === token.toLowerCase());
+        if (!series || series.points.length === 0) {
+            return this.fallback.getPrice(token, timestamp);
+        }
+        return valueAt(series.points, timestamp);
+    }
+}
+
+/**
+ * Create the rate source for a chain.
+ * Uses RATE_DATA_PATH if set, else operator/data/rates/<chainId>.json if present,
+ * falling back to the static rates in apyConfig.ts.
+ */
+export function createRateSource(chainId: number): RateSource {
+    const staticSource = new StaticRateSource(chainId);
+    const ratePath = process.env.RATE_DATA_PATH
+        ? path.resolve(process.env.RATE_DATA_PATH)
+        : path.resolve(__dirname, `../data/rates/${chainId}.json`);
+
+    if (!fs.existsSync(ratePath)) {
+        console.log(`ℹ️ No historical rate data at ${ratePath}, using static APY config`);
+        return staticSource;
+    }
+
+    const source = new TimeSeriesRateSource(ratePath, staticSource);
+    console.log(`✅ Loaded historical rate data from ${ratePath}`);
+    return source;
+}
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRiskParams, normalizeLltvBps } from './riskConfig';
+
+describe('getRiskParams', () => {
+    const { tokens } = JSON.parse(
+        fs.readFileSync(path.resolve(__dirname, '../../contracts/deployments/mocks/84532.json'), 'utf8')
+    );
+
+    it('finds a collateral by protocol and token in any letter case', () => {
+        expect(getRiskParams(84532, 'AAVE', tokens.USDC.toLowerCase())).toMatchObject({
+            maxLtvBps: 7500,
+            liquidationThresholdBps: 7800,
+            liquidationBonusBps: 450
+        });
+    });
+
+    it('keeps max LTV below the liquidation threshold on Aave and equal to it on Morpho', () => {
+        for (const token of [tokens.USDC, tokens.USDT, tokens.PT_eUSDE, tokens.PT_sUSDE]) {
+            const params = getRiskParams(84532, 'aave', token)!;
+            expect(params.maxLtvBps).toBeLessThan(params.liquidationThresholdBps);
+        }
+        const morpho = getRiskParams(84532, 'morpho', tokens.PT_USR, tokens.USDT)!;
+        expect(morpho).toMatchObject({ loanToken: tokens.USDT, maxLtvBps: morpho.liquidationThresholdBps });
+    });
+
+    it('returns null for collateral that cannot be borrowed against', () => {
+        expect(getRiskParams(84532, 'aave', tokens.PT_USR)).toBeNull();
+        expect(getRiskParams(84532, 'morpho', tokens.USDC, tokens.USDT)).toBeNull();
+        expect(getRiskParams(84532, 'morpho', tokens.PT_USR, tokens.PT_sUSDE)).toBeNull();
+    });
+});
+
+describe('normalizeLltvBps', () => {
+    it('converts a WAD lltv to basis points', () => {
+        expect(normalizeLltvBps(86n * 10n ** 16n)).toBe(8600);
+        expect(normalizeLltvBps(915n * 10n ** 15n)).toBe(9150);
+    });
+
+    it('keeps an lltv already in basis points', () => {
+        expect(normalizeLltvBps(8600n)).toBe(8600);
+        expect(normalizeLltvBps(0n)).toBe(0);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Risk Configuration for lending markets (max LTV, liquidation thresholds, liquidation bonus)
+ * All values in basis points (10000 = 100%)
+ */
+
+import { loadMockDeployment } from './protocolMapping';
+
+export interface RiskParams {
+    protocol: string;
+    collateralToken: string;
+    loanToken?: string;            // Morpho markets are isolated per loan/collateral pair
+    maxLtvBps: number;             // Max debt/collateral when borrowing or withdrawing
+    liquidationThresholdBps: number; // Health factor = collateral * threshold / debt
+    liquidationBonusBps: number;   // Extra collateral seized by liquidators
+}
+
+let RISK_CONFIG_CACHE: RiskParams[] | null = null;
+
+/**
+ * Get risk configuration with real deployed addresses
+ */
+export function getRiskConfig(chainId: number): RiskParams[] {
+    if (RISK_CONFIG_CACHE) return RISK_CONFIG_CACHE;
+
+    const deployment = loadMockDeployment(chainId);
+
+    RISK_CONFIG_CACHE = [
+        // Aave PT collateral (E-mode style parameters for stablecoin PTs)
+        {
+            protocol: "aave",
+            collateralToken: deployment.tokens.PT_eUSDE,
+            maxLtvBps: 8000,
+            liquidationThresholdBps: 8500,
+            liquidationBonusBps: 500
+        },
+        {
+            protocol: "aave",
+            collateralToken: deployment.tokens.PT_sUSDE,
+            maxLtvBps: 8000,
+            liquidationThresholdBps: 8500,
+            liquidationBonusBps: 500
+        },
+
+        // Aave stablecoin collateral
+        {
+            protocol: "aave",
+            collateralToken: deployment.tokens.USDC,
+            maxLtvBps: 7500,
+            liquidationThresholdBps: 7800,
+            liquidationBonusBps: 450
+        },
+        {
+            protocol: "aave",
+            collateralToken: deployment.tokens.USDT,
+            maxLtvBps: 7500,
+            liquidationThresholdBps: 7800,
+            liquidationBonusBps: 450
+        },
+
+        // Morpho PT-USR markets (borrowing is allowed up to LLTV, liquidation at LLTV)
+        {
+            protocol: "morpho",
+            collateralToken: deployment.tokens.PT_USR,
+            loanToken: deployment.tokens.USDC,
+            maxLtvBps: 8600,
+            liquidationThresholdBps: 8600,
+            liquidationBonusBps: 438
+        },
+        {
+            protocol: "morpho",
+            collateralToken: deployment.tokens.PT_USR,
+            loanToken: deployment.tokens.USDT,
+            maxLtvBps: 8600,
+            liquidationThresholdBps: 8600,
+            liquidationBonusBps: 438
+        },
+    ];
+
+    return RISK_CONFIG_CACHE;
+}
+
+/**
+ * Get risk parameters for a collateral token in a protocol (and loan token for Morpho)
+ * Returns null if the token cannot be borrowed against
+ */
+export function getRiskParams(
+    chainId: number,
+    protocol: string,
+    collateralToken: string,
+    loanToken?: string
+): RiskParams | null {
+    const config = getRiskConfig(chainId);
+
+    const params = config.find(
+        r => r.protocol.toLowerCase() === protocol.toLowerCase() &&
+             r.collateralToken.toLowerCase() === collateralToken.toLowerCase() &&
+             (!r.loanToken || !loanToken || r.loanToken.toLowerCase() === loanToken.toLowerCase())
+    );
+
+    return params || null;
+}
+
+/**
+ * Normalize a Morpho lltv argument to basis points.
+ * Morpho encodes lltv as a WAD (0.86e18 = 86%); small values are treated as bps already.
+ */
+export function normalizeLltvBps(lltv: bigint): number {
+    if (lltv > 10000n) {
+        return Number((lltv * 10000n) / 10n ** 18n);
+    }
+    return Number(lltv);
+}
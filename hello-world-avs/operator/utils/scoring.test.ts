@@ -0,0 +1,54 @@
+import {
+    ScoringConfig,
+    assertScoringVerifiable,
+    parseOnChainScoringConfig,
+    sameScoringConfig,
+    toOnChainScoringConfig,
+    validateScoringConfig
+} from './scoring';
+
+describe('on-chain scoring config', () => {
+    it('round-trips through TradeManager.ScoringConfig', () => {
+        const configs: ScoringConfig[] = [
+            { mode: 'apy' },
+            { mode: 'sortino', maxDrawdownCapBps: 1500 },
+            { mode: 'risk-adjusted', leveragePenaltyBps: 200, concentrationPenaltyBps: 50, concentrationThresholdBps: 6000 }
+        ];
+        for (const config of configs) {
+            const onChain = toOnChainScoringConfig(config).map(BigInt);
+            expect(sameScoringConfig(parseOnChainScoringConfig(onChain), config)).toBe(true);
+        }
+    });
+
+    it('reads the zero config of epochs started without one as APY scoring', () => {
+        expect(parseOnChainScoringConfig([0n, 0n, 0n, 0n, 0n])).toEqual({ mode: 'apy' });
+    });
+
+    it('fills in the default concentration threshold before publishing', () => {
+        expect(toOnChainScoringConfig({ mode: 'risk-adjusted', leveragePenaltyBps: 100 })).toEqual([3, 0, 100, 0, 5000]);
+        expect(sameScoringConfig({ mode: 'risk-adjusted' }, { mode: 'risk-adjusted', concentrationThresholdBps: 5000 })).toBe(true);
+        expect(sameScoringConfig({ mode: 'apy' }, { mode: 'apy', maxDrawdownCapBps: 2000 })).toBe(false);
+    });
+
+    it('refuses configs the contract cannot store', () => {
+        expect(validateScoringConfig({ mode: 'apy', maxDrawdownCapBps: 2000 })).toEqual([]);
+        expect(validateScoringConfig({ mode: 'calmar' as any })).toHaveLength(1);
+        expect(validateScoringConfig({ mode: 'apy', maxDrawdownCapBps: 0 })[0]).toContain('maxDrawdownCapBps');
+        expect(validateScoringConfig({ mode: 'risk-adjusted', leveragePenaltyBps: 1.5 })[0]).toContain('leveragePenaltyBps');
+    });
+});
+
+describe('assertScoringVerifiable', () => {
+    it('allows APY scoring for any committee', () => {
+        expect(() => assertScoringVerifiable({ mode: 'apy' }, 3n)).not.toThrow();
+    });
+
+    it('allows local score vectors when one attestation is enough', () => {
+        expect(() => assertScoringVerifiable({ mode: 'sharpe', maxDrawdownCapBps: 2000 }, 1n)).not.toThrow();
+    });
+
+    it('refuses local score vectors when peers must reproduce the ranking', () => {
+        expect(() => assertScoringVerifiable({ mode: 'sortino' }, 2n)).toThrow('ranks on local score vectors');
+        expect(() => assertScoringVerifiable({ mode: 'apy', maxDrawdownCapBps: 2000 }, 2n)).toThrow('2 attestations are required');
+    });
+});
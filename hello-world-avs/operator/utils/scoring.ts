@@ -0,0 +1,234 @@
+/**
+ * Strategy Scoring - risk-adjusted metrics used to rank strategies
+ *
+ * The operator computes a score vector for every simulated strategy and stores it in the
+ * epoch database. The epoch's scoring config then picks which metric drives winner selection:
+ * - apy: simulated APY (the original ranking)
+ * - sharpe / sortino: annualized ratios of the simulated per-step PnL path
+ * - risk-adjusted: APY minus leverage and protocol-concentration penalties
+ * Any mode can cap max drawdown; strategies over the cap are not eligible to win.
+ * The config comes from the epoch config file and is published on-chain with the epoch
+ * (TradeManager.epochScoringConfig), so every operator ranks with the same one.
+ */
+
+import { SimulationResult } from './strategySimulator';
+
+export type ScoringMode = 'apy' | 'sharpe' | 'sortino' | 'risk-adjusted';
+
+export const SCORING_MODES: ScoringMode[] = ['apy', 'sharpe', 'sortino', 'risk-adjusted'];
+
+/**
+ * Per-strategy metrics (persisted in epochDatabase)
+ */
+export interface ScoreVector {
+    apyBps: number;            // Simulated APY after simulator penalties
+    sharpe: number;            // Annualized mean/stddev of per-step returns
+    sortino: number;           // Annualized mean/downside deviation of per-step returns
+    maxDrawdownBps: number;    // Largest peak-to-trough equity drop
+    leverage: number;          // Gross assets / equity
+    concentrationBps: number;  // Herfindahl index of protocol exposure (10000 = single protocol)
+    liquidated: boolean;
+}
+
+/**
+ * Scoring configuration chosen per epoch (TradeManager.ScoringConfig)
+ */
+export interface ScoringConfig {
+    mode: ScoringMode;
+    maxDrawdownCapBps?: number;         // Disqualify strategies with a deeper drawdown
+    leveragePenaltyBps?: number;        // risk-adjusted: APY deducted per 1x of leverage above 1x
+    concentrationPenaltyBps?: number;   // risk-adjusted: APY deducted per 10% of concentration above the threshold
+    concentrationThresholdBps?: number; // risk-adjusted: concentration allowed without penalty (default 5000)
+}
+
+// Ratios are capped so a riskless path (zero deviation) stays comparable and JSON-serializable
+const MAX_RATIO = 100;
+const DEFAULT_CONCENTRATION_THRESHOLD_BPS = 5000;
+const YEAR_SECONDS = 365 * 86400;
+
+/**
+ * Annualized mean / deviation, capped at ±MAX_RATIO
+ */
+function annualizedRatio(mean: number, deviation: number, periodsPerYear: number): number {
+    if (deviation === 0) {
+        return mean > 0 ? MAX_RATIO : mean < 0 ? -MAX_RATIO : 0;
+    }
+    const ratio = (mean / deviation) * Math.sqrt(periodsPerYear);
+    return Math.max(-MAX_RATIO, Math.min(MAX_RATIO, ratio));
+}
+
+/**
+ * Compute the score vector from a simulation result
+ */
+export function computeScoreVector(result: SimulationResult): ScoreVector {
+    const path = result.valuePath;
+
+    // Per-step returns of the equity path
+    const returns: number[] = [];
+    for (let i = 1; i < path.length; i++) {
+        const previous = Number(path[i - 1].value);
+        if (previous <= 0) {
+            returns.push(-1);
+            continue;
+        }
+        returns.push((Number(path[i].value) - previous) / previous);
+    }
+
+    const n = returns.length;
+    const mean = n > 0 ? returns.reduce((sum, r) => sum + r, 0) / n : 0;
+    const variance = n > 0 ? returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / n : 0;
+    const downside = n > 0 ? returns.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / n : 0;
+
+    const duration = path.length > 1 ? path[path.length - 1].timestamp - path[0].timestamp : 0;
+    const periodsPerYear = n > 0 && duration > 0 ? (n * YEAR_SECONDS) / duration : 0;
+
+    // Max drawdown against the running peak (starting notional included)
+    let peak = result.startingNotional;
+    let maxDrawdownBps = 0;
+    for (const point of path) {
+        if (point.value > peak) peak = point.value;
+        if (peak > 0n) {
+            const drawdown = Number(((peak - point.value) * 10000n) / peak);
+            maxDrawdownBps = Math.max(maxDrawdownBps, drawdown);
+        }
+    }
+
+    let concentrationBps = 0;
+    for (const share of Object.values(result.protocolExposure)) {
+        concentrationBps += share * share * 10000;
+    }
+
+    return {
+        apyBps: result.apyBps,
+        sharpe: annualizedRatio(mean, Math.sqrt(variance), periodsPerYear),
+        sortino: annualizedRatio(mean, Math.sqrt(downside), periodsPerYear),
+        maxDrawdownBps,
+        leverage: result.leverage,
+        concentrationBps: Math.round(concentrationBps),
+        liquidated: result.liquidated
+    };
+}
+
+/**
+ * Score a strategy under a scoring config (higher is better).
+ * Returns null if the strategy is not eligible (drawdown over the cap).
+ */
+export function scoreStrategy(scores: ScoreVector, config: ScoringConfig): number | null {
+    if (config.maxDrawdownCapBps !== undefined && scores.maxDrawdownBps > config.maxDrawdownCapBps) {
+        return null;
+    }
+
+    switch (config.mode) {
+        case 'apy':
+            return scores.apyBps;
+        case 'sharpe':
+            return scores.sharpe;
+        case 'sortino':
+            return scores.sortino;
+        case 'risk-adjusted': {
+            const leveragePenalty = (config.leveragePenaltyBps ?? 0) * Math.max(0, scores.leverage - 1);
+            const threshold = config.concentrationThresholdBps ?? DEFAULT_CONCENTRATION_THRESHOLD_BPS;
+            const concentrationPenalty = (config.concentrationPenaltyBps ?? 0) *
+                Math.max(0, scores.concentrationBps - threshold) / 1000;
+            return scores.apyBps - leveragePenalty - concentrationPenalty;
+        }
+        default:
+            throw new Error(`Unknown scoring mode: ${config.mode}`);
+    }
+}
+
+/**
+ * Problems with a scoring config (empty when valid). Bps fields are stored on-chain as uint32,
+ * and a drawdown cap of 0 means no cap there.
+ */
+export function validateScoringConfig(config: ScoringConfig): string[] {
+    const errors: string[] = [];
+    if (!SCORING_MODES.includes(config.mode)) {
+        errors.push(`scoring.mode must be one of ${SCORING_MODES.join(', ')}, got "${config.mode}"`);
+    }
+    const bps = (name: keyof ScoringConfig, min: number, max: number) => {
+        const value = config[name];
+        if (value !== undefined && !(Number.isInteger(value) && (value as number) >= min && (value as number) <= max)) {
+            errors.push(`scoring.${name} must be a whole number of bps between ${min} and ${max}, got ${value}`);
+        }
+    };
+    bps('maxDrawdownCapBps', 1, 10000);
+    bps('leveragePenaltyBps', 0, 2 ** 32 - 1);
+    bps('concentrationPenaltyBps', 0, 2 ** 32 - 1);
+    bps('concentrationThresholdBps', 0, 10000);
+    return errors;
+}
+
+/**
+ * TradeManager.ScoringConfig of a scoring config (mode as its enum value, optional fields filled in)
+ */
+export function toOnChainScoringConfig(config: ScoringConfig): [number, number, number, number, number] {
+    return [
+        SCORING_MODES.indexOf(config.mode),
+        config.maxDrawdownCapBps ?? 0,
+        config.leveragePenaltyBps ?? 0,
+        config.concentrationPenaltyBps ?? 0,
+        config.concentrationThresholdBps ?? DEFAULT_CONCENTRATION_THRESHOLD_BPS
+    ];
+}
+
+/**
+ * Scoring config from TradeManager.scoringConfig() or epochScoringConfig(epoch)
+ */
+export function parseOnChainScoringConfig(value: ArrayLike<bigint | number>): ScoringConfig {
+    const [mode, maxDrawdownCapBps, leveragePenaltyBps, concentrationPenaltyBps, concentrationThresholdBps] =
+        Array.from(value, Number);
+    if (!SCORING_MODES[mode]) {
+        throw new Error(`Invalid on-chain scoring mode ${mode}`);
+    }
+
+    const config: ScoringConfig = { mode: SCORING_MODES[mode] };
+    if (maxDrawdownCapBps > 0) config.maxDrawdownCapBps = maxDrawdownCapBps;
+    if (config.mode === 'risk-adjusted') {
+        config.leveragePenaltyBps = leveragePenaltyBps;
+        config.concentrationPenaltyBps = concentrationPenaltyBps;
+        config.concentrationThresholdBps = concentrationThresholdBps;
+    }
+    return config;
+}
+
+/**
+ * Whether ranking with the config needs this operator's local score vectors (every mode but
+ * "apy", and any drawdown cap). Other operators can't reproduce those from the chain.
+ */
+export function usesLocalScores(config: ScoringConfig): boolean {
+    return config.mode !== 'apy' || config.maxDrawdownCapBps !== undefined;
+}
+
+/**
+ * Refuse a scoring config other operators can't reproduce when finalizing and executing
+ * need more than one operator's attestation
+ */
+export function assertScoringVerifiable(config: ScoringConfig, minAttestations: bigint): void {
+    if (usesLocalScores(config) && minAttestations > 1n) {
+        throw new Error(
+            `Scoring "${describeScoringConfig(config)}" ranks on local score vectors, which other operators can't ` +
+            `reproduce, and ${minAttestations} attestations are required: use "apy" scoring without a drawdown cap`
+        );
+    }
+}
+
+/**
+ * Whether two scoring configs rank the same way
+ */
+export function sameScoringConfig(a: ScoringConfig, b: ScoringConfig): boolean {
+    return toOnChainScoringConfig(a).join() === toOnChainScoringConfig(b).join();
+}
+
+/**
+ * Short human-readable description of a scoring config
+ */
+export function describeScoringConfig(config: ScoringConfig): string {
+    const parts: string[] = [config.mode];
+    if (config.maxDrawdownCapBps !== undefined) parts.push(`maxDD<=${config.maxDrawdownCapBps}bps`);
+    if (config.mode === 'risk-adjusted') {
+        parts.push(`leverage=${config.leveragePenaltyBps ?? 0}bps/x`);
+        parts.push(`concentration=${config.concentrationPenaltyBps ?? 0}bps/10% over ${config.concentrationThresholdBps ?? DEFAULT_CONCENTRATION_THRESHOLD_BPS}`);
+    }
+    return parts.join(', ');
+}
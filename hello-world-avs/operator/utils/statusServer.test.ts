@@ -0,0 +1,71 @@
+import { once } from 'events';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HealthReport, StatusServerOptions, startStatusServer } from './statusServer';
+
+describe('startStatusServer', () => {
+    let server: http.Server | undefined;
+
+    async function start(options: Partial<StatusServerOptions> = {}): Promise<string> {
+        server = startStatusServer({
+            port: 0,
+            health: async (): Promise<HealthReport> => ({ healthy: true }),
+            status: async () => ({ epoch: 3n }),
+            ...options
+        });
+        await once(server, 'listening');
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    function request(url: string, method = 'GET'): Promise<{ status: number; body: string }> {
+        return new Promise((resolve, reject) => {
+            http.request(url, { method }, (res) => {
+                let body = '';
+                res.on('data', (chunk) => (body += chunk));
+                res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+            }).on('error', reject).end();
+        });
+    }
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        if (server) await new Promise((resolve) => server!.close(resolve));
+        server = undefined;
+        jest.restoreAllMocks();
+    });
+
+    it('listens on loopback by default, also when STATUS_HOST is set but empty', async () => {
+        await start({ host: '' });
+
+        expect((server!.address() as AddressInfo).address).toBe('127.0.0.1');
+    });
+
+    it('reports health as 200 or 503', async () => {
+        let healthy = true;
+        const url = await start({ health: async () => ({ healthy, blocksBehind: healthy ? 0 : 80 }) });
+
+        expect(await request(`${url}/health`)).toMatchObject({ status: 200 });
+        healthy = false;
+        const unhealthy = await request(`${url}/health`);
+        expect(unhealthy.status).toBe(503);
+        expect(JSON.parse(unhealthy.body)).toEqual({ healthy: false, blocksBehind: 80 });
+    });
+
+    it('serves status with bigints as strings', async () => {
+        const url = await start();
+
+        expect(JSON.parse((await request(`${url}/status?verbose=1`)).body)).toEqual({ epoch: '3' });
+    });
+
+    it('answers handler errors, unknown routes and other methods without crashing', async () => {
+        const url = await start({ status: async () => { throw new Error('database locked'); } });
+
+        expect(await request(`${url}/status`)).toEqual({ status: 500, body: expect.stringContaining('database locked') });
+        expect(await request(`${url}/nope`)).toMatchObject({ status: 404 });
+        expect(await request(`${url}/health`, 'POST')).toMatchObject({ status: 405 });
+        expect(await request(`${url}/health`)).toMatchObject({ status: 200 });
+    });
+});
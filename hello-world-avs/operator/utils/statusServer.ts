@@ -0,0 +1,71 @@
+/**
+ * Status Server - HTTP health, metrics and status endpoints for the operator daemon
+ *
+ *   GET /health   JSON health report (200 when healthy, 503 otherwise)
+ *   GET /metrics  Prometheus metrics (see metrics.ts)
+ *   GET /status   JSON view of current-epoch processing
+ *
+ * The endpoints are unauthenticated, so the server listens on loopback unless a host is given
+ * (STATUS_HOST), e.g. a private interface a Prometheus server scrapes from.
+ */
+
+import * as http from 'http';
+import { renderMetrics } from './metrics';
+
+export interface HealthReport {
+    healthy: boolean;
+    [detail: string]: any;
+}
+
+export interface StatusServerOptions {
+    port: number;
+    host?: string;                          // Default 127.0.0.1
+    health: () => Promise<HealthReport>;
+    status: () => Promise<any>;
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: any): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2));
+}
+
+/**
+ * Start the status server. Handler errors are returned as 500s and never crash the operator.
+ */
+export function startStatusServer(options: StatusServerOptions): http.Server {
+    const server = http.createServer(async (req, res) => {
+        if (req.method !== 'GET') {
+            sendJson(res, 405, { error: 'Method not allowed' });
+            return;
+        }
+
+        const route = (req.url || '/').split('?')[0];
+
+        try {
+            if (route === '/health') {
+                const report = await options.health();
+                sendJson(res, report.healthy ? 200 : 503, report);
+            } else if (route === '/metrics') {
+                res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+                res.end(await renderMetrics());
+            } else if (route === '/status') {
+                sendJson(res, 200, await options.status());
+            } else {
+                sendJson(res, 404, { error: 'Not found', routes: ['/health', '/metrics', '/status'] });
+            }
+        } catch (error: any) {
+            sendJson(res, 500, { error: error?.message || String(error) });
+        }
+    });
+
+    server.on('error', (error) => {
+        console.error(`⚠️ Status server error: ${error.message}`);
+    });
+
+    const host = options.host || '127.0.0.1';
+    server.listen(options.port, host, () => {
+        console.log(`📊 Status server listening on http://${host}:${options.port} (/health, /metrics, /status)`);
+    });
+
+    return server;
+}
@@ -0,0 +1,70 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StrategyNode } from '../storage';
+import { ERC20_APPROVE, getCallFunction } from './protocolMapping';
+import { scaleAmount, scaleWinnerNodes } from './strategyScaling';
+
+const USDC = 10n ** 6n;
+
+describe('scaleAmount', () => {
+    it('scales a 6-decimal PT amount to the allocation without losing it', () => {
+        // 1,234.567891 PT sold on a 1,000 USDC notional, executed with 2,500 USDC
+        expect(scaleAmount(1_234_567_891n, 2_500n * USDC, 1_000n * USDC, 6)).toBe(3_086_419_727n);
+    });
+
+    it('would zero the same PT amount when it is scaled as an 18-decimal token', () => {
+        expect(scaleAmount(1_234_567_891n, 2_500n * USDC, 1_000n * USDC, 18)).toBe(0n);
+    });
+
+    it('rounds down', () => {
+        // 1.000001 USDC on a third of the notional: 0.333333667 USDC
+        expect(scaleAmount(1_000_001n, 1n * USDC, 3n * USDC, 6)).toBe(333_333n);
+    });
+
+    it('rounds 18-decimal amounts down to 6 decimals', () => {
+        expect(scaleAmount(1_234_567_890_123_456_789n, 2n * USDC, 1n * USDC, 18)).toBe(2_469_135_000_000_000_000n);
+    });
+
+    it('keeps type(uint256).max ("all") as it is', () => {
+        expect(scaleAmount(ethers.MaxUint256, 1n * USDC, 4n * USDC, 18)).toBe(ethers.MaxUint256);
+    });
+});
+
+describe('scaleWinnerNodes', () => {
+    const deployment = JSON.parse(
+        fs.readFileSync(path.resolve(__dirname, '../../contracts/deployments/mocks/84532.json'), 'utf8')
+    );
+    const decimals = new ethers.Interface(['function decimals() view returns (uint8)']);
+
+    // decimals() answers only for the PT token: a market address has no code
+    const provider = {
+        getNetwork: async () => ({ chainId: 84532n }),
+        call: async (tx: { to: string }) => {
+            if (tx.to.toLowerCase() !== deployment.tokens.PT_sUSDE.toLowerCase()) {
+                throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+            }
+            return decimals.encodeFunctionResult('decimals', [6]);
+        }
+    } as unknown as ethers.Provider;
+
+    it("scales swapExactPtForToken in the market's PT decimals", async () => {
+        const fn = getCallFunction(ethers.id('swapExactPtForToken(address,address,uint256,address)').slice(0, 10))!;
+        const node = {
+            selector: fn.selector,
+            target: deployment.protocols.pendle,
+            args: [ethers.ZeroAddress, deployment.markets.PT_sUSDE, 1_000_000_000n, deployment.tokens.USDC]
+        } as unknown as StrategyNode;
+
+        const { nodes, scaling } = await scaleWinnerNodes(provider, ethers.ZeroAddress, [node], 2_000n * USDC, 1_000n * USDC);
+
+        expect(scaling.amounts[0]).toMatchObject({ token: deployment.tokens.PT_sUSDE, decimals: 6, scaled: '2000000000' });
+        expect(nodes[0].args[2]).toBe(2_000_000_000n);
+    });
+
+    it('fails on a token without decimals()', async () => {
+        const node = { selector: ERC20_APPROVE.selector, target: deployment.tokens.USDC, args: [ethers.ZeroAddress, 1n] } as unknown as StrategyNode;
+
+        await expect(scaleWinnerNodes(provider, ethers.ZeroAddress, [node], USDC, USDC)).rejects.toThrow('Cannot read decimals()');
+    });
+});
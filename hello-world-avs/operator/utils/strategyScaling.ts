@@ -0,0 +1,175 @@
+/**
+ * Strategy Scaling - winners' amounts from the simulation notional to their real allocation
+ *
+ * Strategies are simulated with notionalPerTrader, but finalizeEpoch allocates each winner its
+ * weight of the epoch's capital. Every amount argument of a winner's nodes (found by argument
+ * name, see AMOUNT_ARG_TOKENS) is multiplied by allocation / notionalPerTrader:
+ *   - rounded down, so a winner never moves more than its allocation
+ *   - then down to SCALED_DECIMALS decimals of its token, so 18-decimal amounts don't carry
+ *     precision the simulation never had
+ *   - type(uint256).max ("all") is kept as is
+ * Token decimals are read on-chain, and a token without decimals() fails the scaling. Pendle PT
+ * amounts are denominated in the market's PT token (the mock deployment's markets → tokens, else
+ * the Pendle contract's marketToPT): markets are not tokens.
+ */
+
+import { ethers } from 'ethers';
+import { StrategyNode } from '../storage';
+import { getAmountArg, getCallFunction, getMarketPT } from './protocolMapping';
+
+const SCALED_DECIMALS = 6;
+
+const erc20DecimalsABI = ['function decimals() view returns (uint8)'];
+const pendleMarketABI = ['function marketToPT(address market) view returns (address)'];
+
+export interface ScaledAmount {
+    call: string;              // protocol.function
+    arg: string;               // Amount argument name
+    token: string;
+    decimals: number;
+    original: string;          // Token base units
+    scaled: string;
+}
+
+export interface WinnerScaling {
+    trader: string;
+    allocation: string;        // Token base units
+    notional: string;
+    factor: number;            // allocation / notional (for display)
+    amounts: ScaledAmount[];
+    unscaled: number;          // Nodes without a known amount argument
+}
+
+const decimalsCache = new Map<string, number>();
+
+async function getTokenDecimals(provider: ethers.Provider, token: string): Promise<number> {
+    const key = token.toLowerCase();
+    if (!decimalsCache.has(key)) {
+        try {
+            decimalsCache.set(key, Number(await new ethers.Contract(token, erc20DecimalsABI, provider).decimals()));
+        } catch (error: any) {
+            // Guessing would change the amounts operators sign
+            throw new Error(`Cannot read decimals() of ${token}: ${error.shortMessage ?? error.message}`);
+        }
+    }
+    return decimalsCache.get(key)!;
+}
+
+/**
+ * PT token of a Pendle market: from the mock deployment, else from the Pendle contract
+ */
+async function getMarketToken(provider: ethers.Provider, pendle: string, market: string): Promise<string> {
+    const { chainId } = await provider.getNetwork();
+    let pt: string | null = null;
+    try {
+        pt = getMarketPT(Number(chainId), market);
+    } catch {
+        // No mock deployment for this chain
+    }
+    if (!pt) {
+        pt = await new ethers.Contract(pendle, pendleMarketABI, provider).marketToPT(market).catch(() => null);
+    }
+    if (!pt || pt === ethers.ZeroAddress) {
+        throw new Error(`No PT token known for Pendle market ${market}`);
+    }
+    return ethers.getAddress(pt);
+}
+
+function toAddress(value: any): string {
+    return typeof value === 'string'
+        ? ethers.getAddress(`0x${value.trim().replace(/^(0x)+/i, '').padStart(40, '0')}`)
+        : ethers.getAddress(ethers.toBeHex(BigInt(value), 20));
+}
+
+/**
+ * Scale one amount, rounding down to the token's SCALED_DECIMALS
+ */
+export function scaleAmount(amount: bigint, allocation: bigint, notional: bigint, decimals: number): bigint {
+    if (amount === ethers.MaxUint256) {
+        return amount;
+    }
+    const scaled = (amount * allocation) / notional;
+    const unit = decimals > SCALED_DECIMALS ? 10n ** BigInt(decimals - SCALED_DECIMALS) : 1n;
+    return (scaled / unit) * unit;
+}
+
+/**
+ * A winner's nodes with every amount scaled to its allocation (nodes on the chain the
+ * provider is connected to, before mapping to another target chain)
+ */
+export async function scaleWinnerNodes(
+    provider: ethers.Provider,
+    trader: string,
+    nodes: StrategyNode[],
+    allocation: bigint,
+    notional: bigint
+): Promise<{ nodes: StrategyNode[]; scaling: WinnerScaling }> {
+    if (notional <= 0n) {
+        throw new Error(`Invalid notionalPerTrader ${notional}`);
+    }
+
+    const scaling: WinnerScaling = {
+        trader,
+        allocation: allocation.toString(),
+        notional: notional.toString(),
+        factor: Number((allocation * 1_000_000n) / notional) / 1_000_000,
+        amounts: [],
+        unscaled: 0
+    };
+
+    const scaledNodes: StrategyNode[] = [];
+    for (const node of nodes) {
+        const fn = getCallFunction(node.selector);
+        const amountArg = fn && fn.argNames.length === node.args.length ? getAmountArg(fn) : null;
+        if (!fn || !amountArg) {
+            scaling.unscaled++;
+            scaledNodes.push(node);
+            continue;
+        }
+
+        let token = toAddress(amountArg.tokenIndex >= 0 ? node.args[amountArg.tokenIndex] : node.target);
+        if (fn.argNames[amountArg.tokenIndex] === 'market') {
+            token = await getMarketToken(provider, node.target, token);
+        }
+        const decimals = await getTokenDecimals(provider, token);
+        const original = BigInt(node.args[amountArg.index]);
+        const scaled = scaleAmount(original, allocation, notional, decimals);
+
+        const args = [...node.args];
+        args[amountArg.index] = scaled;
+        scaledNodes.push({ ...node, args });
+        scaling.amounts.push({
+            call: `${fn.protocol}.${fn.functionName}`,
+            arg: fn.argNames[amountArg.index],
+            token,
+            decimals,
+            original: original.toString(),
+            scaled: scaled.toString()
+        });
+    }
+
+    return { nodes: scaledNodes, scaling };
+}
+
+/**
+ * Log original vs scaled amounts of a winner
+ */
+export function logScaling(scaling: WinnerScaling): void {
+    console.log(
+        `    Scaling ${scaling.trader} by ${scaling.factor}x ` +
+        `(allocation ${ethers.formatUnits(scaling.allocation, 6)} / notional ${ethers.formatUnits(scaling.notional, 6)} USDC)`
+    );
+    for (const amount of scaling.amounts) {
+        const format = (value: string) => value === ethers.MaxUint256.toString() ? 'max' : ethers.formatUnits(value, amount.decimals);
+        console.log(
+            `      ${amount.call} ${amount.arg}: ${format(amount.original)} → ${format(amount.scaled)} ` +
+            `(${amount.token}, ${amount.decimals} decimals)`
+        );
+        if (amount.scaled === '0' && amount.original !== '0') {
+            console.log(`      ⚠️ ${amount.call} ${amount.arg} rounds down to zero`);
+        }
+    }
+    if (scaling.unscaled > 0) {
+        console.log(`      ⚠️ ${scaling.unscaled} call(s) without a known amount argument left as submitted`);
+    }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RateKey, RateSource } from './rateSource';
+import { DecryptedNode, REJECTED_APY_BPS, SimulationOptions, simulateStrategy } from './strategySimulator';
+
+/**
+ * Rates by "protocol.functionName" (0 for anything else), every token at par
+ */
+class FixedRates implements RateSource {
+    name = 'fixed';
+
+    constructor(private rates: { [key: string]: number }) {}
+
+    getRate(key: RateKey): number {
+        return this.rates[`${key.protocol}.${key.functionName}`] ?? 0;
+    }
+
+    getPrice(): number {
+        return 1;
+    }
+}
+
+describe('simulateStrategy', () => {
+    const deployment = JSON.parse(
+        fs.readFileSync(path.resolve(__dirname, '../../contracts/deployments/mocks/84532.json'), 'utf8')
+    );
+    const { USDC, PT_sUSDE, PT_USR } = deployment.tokens;
+    const { aave, morpho, pendle } = deployment.protocols;
+    const capital = 1_000n * 10n ** 6n;
+    const usd = (amount: number) => BigInt(amount) * 10n ** 6n;
+    const window = { startTime: 1_700_000_000, endTime: 1_700_000_000 + 365 * 86400 };
+
+    const supply = (asset: string, amount: bigint): DecryptedNode =>
+        ({ protocol: 'aave', functionName: 'supply', target: aave, args: { asset, amount } });
+    const borrow = (asset: string, amount: bigint): DecryptedNode =>
+        ({ protocol: 'aave', functionName: 'borrow', target: aave, args: { asset, amount } });
+    const withdraw = (asset: string, amount: bigint): DecryptedNode =>
+        ({ protocol: 'aave', functionName: 'withdraw', target: aave, args: { asset, amount } });
+    const buyPT = (name: 'PT_sUSDE' | 'PT_USR', amount: bigint): DecryptedNode =>
+        ({ protocol: 'pendle', functionName: 'swapExactTokenForPt', target: pendle, args: { market: deployment.markets[name], tokenIn: USDC, netTokenIn: amount } });
+
+    function run(nodes: DecryptedNode[], options: SimulationOptions = {}) {
+        return simulateStrategy(84532, nodes, capital, { window, rateSource: new FixedRates({}), ...options });
+    }
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('counts an ERC20 approve as a feasible step that moves no funds', () => {
+        const supply: DecryptedNode = { protocol: 'aave', functionName: 'supply', target: aave, args: { asset: USDC, amount: capital } };
+        const approve: DecryptedNode = { protocol: 'erc20', functionName: 'approve', target: USDC, args: { spender: aave, amount: capital } };
+
+        const withApprove = simulateStrategy(84532, [approve, supply], capital);
+        const withoutApprove = simulateStrategy(84532, [supply], capital);
+
+        expect(withApprove.infeasibleSteps).toBe(0);
+        expect(withApprove.steps[0]).toMatchObject({ protocol: 'erc20', functionName: 'approve', feasible: true });
+        expect(withApprove.apyBps).toBe(withoutApprove.apyBps);
+    });
+
+    describe('max LTV', () => {
+        // Aave USDC collateral: 75% max LTV
+        it('allows borrowing up to max LTV', () => {
+            const result = run([supply(USDC, capital), borrow(USDC, usd(750))]);
+
+            expect(result.infeasibleSteps).toBe(0);
+            expect(result.leverage).toBeCloseTo(1.75);
+        });
+
+        it('skips a borrow above max LTV and penalizes it', () => {
+            const result = run([supply(USDC, capital), borrow(USDC, usd(751)), supply(USDC, usd(751))]);
+
+            expect(result.steps.map((step) => step.feasible)).toEqual([true, false, false]);
+            expect(result.steps[1].reason).toContain('aave exceeds max LTV');
+            expect(result.rawApyBps).toBe(0);
+            expect(result.apyBps).toBe(-1000);
+            expect(result.minHealthFactor).toBeNull();
+        });
+
+        it('rejects the strategy for a borrow above max LTV under the reject policy', () => {
+            const result = run([supply(USDC, capital), borrow(USDC, usd(751))], { infeasiblePolicy: 'reject' });
+
+            expect(result).toMatchObject({ rejected: true, apyBps: REJECTED_APY_BPS });
+        });
+
+        it('refuses a withdrawal that leaves the debt above max LTV', () => {
+            const result = run([supply(USDC, capital), borrow(USDC, usd(600)), withdraw(USDC, usd(201)), withdraw(USDC, usd(200))]);
+
+            expect(result.steps.map((step) => step.feasible)).toEqual([true, true, false, true]);
+            expect(result.steps[2].reason).toContain('exceeds max LTV');
+        });
+
+        it('caps a Morpho borrow at the lltv the strategy requested', () => {
+            const morphoNodes = (amount: number): DecryptedNode[] => [
+                buyPT('PT_USR', capital),
+                { protocol: 'morpho', functionName: 'supply', target: morpho, args: { collateralToken: PT_USR, collateralTokenAmount: capital } },
+                { protocol: 'morpho', functionName: 'borrow', target: morpho, args: { loanToken: USDC, collateralToken: PT_USR, assets: usd(amount), lltv: 5n * 10n ** 17n } }
+            ];
+
+            expect(run(morphoNodes(500)).infeasibleSteps).toBe(0);
+            expect(run(morphoNodes(501)).steps[2]).toMatchObject({ feasible: false, reason: expect.stringContaining('morpho market') });
+        });
+    });
+
+    describe('liquidation', () => {
+        // Borrow 750 against 1000 USDC (78% threshold: HF 1.04) and hold the loan in PT earning 40%.
+        // A 20% borrow rate pushes the health factor below 1 after about two months.
+        const leveraged = [supply(USDC, capital), borrow(USDC, usd(750)), buyPT('PT_sUSDE', usd(750))];
+        const rates = new FixedRates({ 'aave.borrow': 2_000, 'pendle.swapExactTokenForPt': 4_000 });
+
+        it('keeps an account whose health factor stays above 1', () => {
+            const result = run(leveraged, { rateSource: new FixedRates({ 'pendle.swapExactTokenForPt': 4_000 }) });
+
+            expect(result.liquidated).toBe(false);
+            expect(result.minHealthFactor).toBeCloseTo(1.04);
+            expect(result.apyBps).toBeCloseTo(3_000, -1);  // 40% on 750 held, minus daily rounding
+        });
+
+        it('scores a liquidated strategy at most 0% under the zero policy', () => {
+            const result = run(leveraged, { rateSource: rates });
+
+            expect(result.liquidated).toBe(true);
+            expect(result.liquidations).toHaveLength(1);
+            expect(result.liquidations[0]).toMatchObject({ protocol: 'aave', healthFactor: expect.any(Number) });
+            expect(result.liquidations[0].healthFactor).toBeLessThan(1);
+            expect(result.liquidations[0].timestamp - window.startTime).toBeLessThan(90 * 86400);
+            expect(result.minHealthFactor).toBeLessThan(1);
+            expect(result.rawApyBps).toBeGreaterThan(0);
+            expect(result.apyBps).toBe(0);
+        });
+
+        it('scores what is left after the seizure under the penalize policy', () => {
+            const result = run(leveraged, { rateSource: rates, liquidationPolicy: 'penalize' });
+            const [event] = result.liquidations;
+
+            // Liquidators repay the whole debt and seize it plus the 4.5% bonus from the collateral
+            expect(event.collateralSeized).toBe((event.debtRepaid * 10_450n) / 10_000n);
+            expect(result.apyBps).toBe(result.rawApyBps);
+            expect(result.apyBps).toBeGreaterThan(0);
+            expect(result.apyBps).toBeLessThan(3_000);
+            expect(result.valuePath[result.valuePath.length - 1].value).toBe(result.finalValue);
+        });
+
+        it('applies the infeasible-step penalty on top of a penalized liquidation', () => {
+            const penalized = run(leveraged, { rateSource: rates, liquidationPolicy: 'penalize' });
+            const withSkippedStep = run([...leveraged, borrow(USDC, usd(1))], { rateSource: rates, liquidationPolicy: 'penalize' });
+
+            expect(withSkippedStep.infeasibleSteps).toBe(1);
+            expect(withSkippedStep.apyBps).toBe(penalized.apyBps - 500);
+        });
+    });
+});
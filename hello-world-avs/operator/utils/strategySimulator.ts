@@ -1,8 +1,22 @@
 /**
  * Strategy Simulator - calculates APY from decrypted strategy nodes
+ *
+ * Runs each strategy against a position ledger that starts with notionalPerTrader USDC.
+ * Every node debits/credits token balances, so a strategy can only spend what it holds,
+ * withdraw what it supplied and repay what it owes. Positions then accrue rates over the
+ * sim window and the APY is measured on the starting notional.
+ *
+ * Lending accounts (Aave/Compound per protocol, Morpho per collateral market) must stay within
+ * max LTV when borrowing or withdrawing, and their health factor is tracked over the window.
+ * Accounts whose health factor drops below 1 are liquidated.
+ *
+ * All supported tokens are USD stablecoins (or PTs on them) with 6 decimals, valued at the
+ * rate source's price (par by default). PT yield accrues on held/supplied PT balances.
  */
 
-import { getAPYRate, getOperationType } from './apyConfig';
+import { loadMockDeployment } from './protocolMapping';
+import { RateKey, RateSource, SimWindow, StaticRateSource } from './rateSource';
+import { getRiskParams, normalizeLltvBps } from './riskConfig';
 
 export interface DecryptedNode {
     protocol: string;      // e.g., "pendle", "morpho", "aave"
@@ -16,85 +30,649 @@ export interface DecryptedNode {
     };
 }
 
-interface YieldPosition {
-    amount: bigint;
-    apyBps: number;
-    type: 'supply' | 'borrow' | 'yield' | 'swap';
+/**
+ * How infeasible steps (spending funds the strategy doesn't have) are handled:
+ * - penalize: skip the step and deduct infeasibleStepPenaltyBps from the APY per skipped step
+ * - reject: the whole strategy scores REJECTED_APY_BPS
+ */
+export type InfeasiblePolicy = 'penalize' | 'reject';
+
+/**
+ * How liquidations are scored:
+ * - zero: a strategy that would have been liquidated scores at most 0%
+ * - penalize: liquidators repay the debt by seizing collateral plus the liquidation bonus,
+ *   and the strategy is scored on what is left
+ */
+export type LiquidationPolicy = 'zero' | 'penalize';
+
+export interface SimulationOptions {
+    window?: SimWindow;                  // Decrypted sim window; defaults to one year from now
+    rateSource?: RateSource;             // Defaults to static rates from apyConfig.ts
+    stepSeconds?: number;                // Accrual step (default 1 day)
+    infeasiblePolicy?: InfeasiblePolicy; // Default: penalize
+    infeasibleStepPenaltyBps?: number;   // Default: 500 (5%) per skipped step
+    liquidationPolicy?: LiquidationPolicy; // Default: zero
+}
+
+export interface SimulationStep {
+    index: number;
+    protocol: string;
+    functionName: string;
+    feasible: boolean;
+    reason?: string;
+}
+
+export interface ValuePoint {
+    timestamp: number;
+    value: bigint;         // Net equity (balances + supplied - debt)
+}
+
+export interface LiquidationEvent {
+    timestamp: number;
+    protocol: string;
+    market?: string;           // Morpho collateral token
+    healthFactor: number;
+    debtRepaid: bigint;
+    collateralSeized: bigint;
+}
+
+export interface SimulationResult {
+    apyBps: number;            // Final score in basis points (after penalties)
+    rawApyBps: number;         // APY before infeasible-step penalties
+    startingNotional: bigint;
+    finalValue: bigint;
+    window: SimWindow;
+    steps: SimulationStep[];
+    infeasibleSteps: number;
+    rejected: boolean;
+    valuePath: ValuePoint[];   // Equity sampled every step over the window
+    minHealthFactor: number | null; // Lowest health factor of any borrowing account (null: no debt)
+    liquidations: LiquidationEvent[];
+    liquidated: boolean;
+    leverage: number;          // Gross assets / equity once the strategy is deployed
+    protocolExposure: { [protocol: string]: number }; // Share of gross assets per protocol (0-1)
+}
+
+// APY reported for rejected strategies (-100%: the notional is considered lost)
+export const REJECTED_APY_BPS = -10000;
+
+const DEFAULT_STEP_SECONDS = 86400;
+const DEFAULT_PENALTY_BPS = 500;
+const YEAR_SECONDS = 365 * 86400;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const PRICE_SCALE = 1_000_000n;
+
+type PositionKind = 'wallet' | 'supply' | 'debt';
+
+interface LedgerPosition {
+    kind: PositionKind;
+    protocol: string;      // "wallet" for idle balances
+    token: string;         // Lower-cased token address
+    market?: string;       // Morpho: collateral token of the market
+    amount: bigint;        // Principal in token units
+    accrued: bigint;       // Interest accrued over the window
 }
 
 /**
- * Simulate a strategy and calculate overall APY
+ * Token balances, supplied collateral and debt for one strategy
+ */
+class PositionLedger {
+    positions = new Map<string, LedgerPosition>();
+    morphoLltv = new Map<string, number>(); // Collateral token → lowest lltv borrowed at (bps)
+
+    private key(kind: PositionKind, protocol: string, token: string, market?: string): string {
+        return `${kind}:${protocol}:${market ?? ''}:${token}`;
+    }
+
+    get(kind: PositionKind, protocol: string, token: string, market?: string): bigint {
+        return this.positions.get(this.key(kind, protocol, token.toLowerCase(), market?.toLowerCase()))?.amount ?? 0n;
+    }
+
+    credit(kind: PositionKind, protocol: string, token: string, amount: bigint, market?: string): void {
+        const t = token.toLowerCase();
+        const m = market?.toLowerCase();
+        const k = this.key(kind, protocol, t, m);
+        const position = this.positions.get(k) ?? { kind, protocol, token: t, market: m, amount: 0n, accrued: 0n };
+        position.amount += amount;
+        this.positions.set(k, position);
+    }
+
+    /**
+     * Debit a position; returns an error reason instead of going negative
+     */
+    debit(kind: PositionKind, protocol: string, token: string, amount: bigint, market?: string): string | null {
+        const k = this.key(kind, protocol, token.toLowerCase(), market?.toLowerCase());
+        const position = this.positions.get(k);
+        const available = position?.amount ?? 0n;
+        if (!position || available < amount) {
+            return `insufficient ${kind} ${token} in ${protocol} (have ${available}, need ${amount})`;
+        }
+        position.amount -= amount;
+        if (position.amount === 0n && position.accrued === 0n) {
+            this.positions.delete(k);
+        }
+        return null;
+    }
+
+    remove(position: LedgerPosition): void {
+        this.positions.delete(this.key(position.kind, position.protocol, position.token, position.market));
+    }
+}
+
+/**
+ * Chain-specific context: starting asset, Pendle market → PT token mapping and market data
+ */
+interface SimContext {
+    chainId: number;
+    usdc: string;
+    marketToPT: Map<string, string>;
+    ptToMarket: Map<string, string>;
+    rateSource: RateSource;
+}
+
+function loadSimContext(chainId: number, rateSource: RateSource): SimContext {
+    const deployment = loadMockDeployment(chainId);
+    const marketToPT = new Map<string, string>();
+    const ptToMarket = new Map<string, string>();
+
+    // Markets and PT tokens share keys in the deployment file (e.g., markets.PT_sUSDE ↔ tokens.PT_sUSDE)
+    for (const [name, market] of Object.entries(deployment.markets)) {
+        const pt = (deployment.tokens as Record<string, string>)[name];
+        if (pt) {
+            marketToPT.set(market.toLowerCase(), pt.toLowerCase());
+            ptToMarket.set(pt.toLowerCase(), market.toLowerCase());
+        }
+    }
+
+    return { chainId, usdc: deployment.tokens.USDC.toLowerCase(), marketToPT, ptToMarket, rateSource };
+}
+
+/**
+ * USD value of a position (principal + accrued) at time t
+ */
+function positionValue(position: LedgerPosition, ctx: SimContext, t: number): bigint {
+    const price = BigInt(Math.round(ctx.rateSource.getPrice(position.token, t) * Number(PRICE_SCALE)));
+    return ((position.amount + position.accrued) * price) / PRICE_SCALE;
+}
+
+/**
+ * Net equity: balances + supplied - debt, at time t prices
+ */
+function netValue(ledger: PositionLedger, ctx: SimContext, t: number): bigint {
+    let value = 0n;
+    for (const position of ledger.positions.values()) {
+        const v = positionValue(position, ctx, t);
+        value += position.kind === 'debt' ? -v : v;
+    }
+    return value;
+}
+
+/**
+ * Gross assets (everything but debt) per protocol at time t.
+ * Idle PT counts as Pendle exposure; idle stablecoins count as "wallet".
+ */
+function getProtocolAssets(ledger: PositionLedger, ctx: SimContext, t: number): Map<string, bigint> {
+    const assets = new Map<string, bigint>();
+    for (const position of ledger.positions.values()) {
+        if (position.kind === 'debt') continue;
+        const protocol = position.kind === 'wallet'
+            ? (ctx.ptToMarket.has(position.token) ? 'pendle' : 'wallet')
+            : position.protocol;
+        assets.set(protocol, (assets.get(protocol) ?? 0n) + positionValue(position, ctx, t));
+    }
+    return assets;
+}
+
+/**
+ * A lending account: Aave/Compound positions are cross-collateralized per protocol,
+ * Morpho positions are isolated per collateral token
+ */
+interface AccountHealth {
+    protocol: string;
+    market?: string;
+    collaterals: LedgerPosition[];
+    debts: LedgerPosition[];
+    collateralValue: bigint;
+    debtValue: bigint;
+    borrowLimit: bigint;        // Sum of collateral * max LTV
+    liquidationLimit: bigint;   // Sum of collateral * liquidation threshold
+    liquidationBonusBps: number; // Collateral-weighted bonus
+    healthFactor: number;       // Infinity without debt
+}
+
+function getAccountHealth(
+    ledger: PositionLedger,
+    ctx: SimContext,
+    protocol: string,
+    market: string | undefined,
+    t: number
+): AccountHealth {
+    const collaterals: LedgerPosition[] = [];
+    const debts: LedgerPosition[] = [];
+    for (const position of ledger.positions.values()) {
+        if (position.protocol !== protocol) continue;
+        if (position.kind === 'supply' && (!market || position.token === market)) collaterals.push(position);
+        if (position.kind === 'debt' && (!market || position.market === market)) debts.push(position);
+    }
+
+    const loanToken = debts[0]?.token;
+    const lltvCap = market ? ledger.morphoLltv.get(market) : undefined;
+
+    let collateralValue = 0n;
+    let borrowLimit = 0n;
+    let liquidationLimit = 0n;
+    let weightedBonus = 0n;
+    for (const position of collaterals) {
+        const value = positionValue(position, ctx, t);
+        const params = getRiskParams(ctx.chainId, protocol, position.token, market ? loanToken : undefined);
+        let maxLtv = params?.maxLtvBps ?? 0;
+        let threshold = params?.liquidationThresholdBps ?? 0;
+        if (lltvCap !== undefined) {
+            maxLtv = Math.min(maxLtv, lltvCap);
+            threshold = Math.min(threshold, lltvCap);
+        }
+        collateralValue += value;
+        borrowLimit += (value * BigInt(maxLtv)) / 10000n;
+        liquidationLimit += (value * BigInt(threshold)) / 10000n;
+        weightedBonus += value * BigInt(params?.liquidationBonusBps ?? 0);
+    }
+
+    let debtValue = 0n;
+    for (const position of debts) {
+        debtValue += positionValue(position, ctx, t);
+    }
+
+    return {
+        protocol,
+        market,
+        collaterals,
+        debts,
+        collateralValue,
+        debtValue,
+        borrowLimit,
+        liquidationLimit,
+        liquidationBonusBps: collateralValue > 0n ? Number(weightedBonus / collateralValue) : 0,
+        healthFactor: debtValue > 0n ? Number((liquidationLimit * 10000n) / debtValue) / 10000 : Infinity
+    };
+}
+
+/**
+ * Every account that currently has debt
+ */
+function getBorrowingAccounts(ledger: PositionLedger): { protocol: string; market?: string }[] {
+    const seen = new Map<string, { protocol: string; market?: string }>();
+    for (const position of ledger.positions.values()) {
+        if (position.kind !== 'debt') continue;
+        const market = position.protocol === 'morpho' ? position.market : undefined;
+        seen.set(`${position.protocol}:${market ?? ''}`, { protocol: position.protocol, market });
+    }
+    return [...seen.values()];
+}
+
+/**
+ * Check an account stays within max LTV after a borrow/withdraw
+ */
+function checkBorrowLimit(
+    ledger: PositionLedger,
+    ctx: SimContext,
+    protocol: string,
+    market: string | undefined,
+    t: number
+): string | null {
+    const health = getAccountHealth(ledger, ctx, protocol, market, t);
+    if (health.debtValue > health.borrowLimit) {
+        return `${protocol}${market ? ` market ${market}` : ''} exceeds max LTV (debt ${health.debtValue}, limit ${health.borrowLimit})`;
+    }
+    return null;
+}
+
+/**
+ * Liquidate an account: repay all of its debt by seizing collateral worth debt * (1 + bonus),
+ * pro rata across its collateral (a full liquidation, ignoring partial close factors)
+ */
+function liquidate(ledger: PositionLedger, health: AccountHealth, t: number): LiquidationEvent {
+    const seizeValue = (health.debtValue * BigInt(10000 + health.liquidationBonusBps)) / 10000n;
+    const seized = seizeValue > health.collateralValue ? health.collateralValue : seizeValue;
+    const fraction = health.collateralValue > 0n ? (seized * PRICE_SCALE) / health.collateralValue : 0n;
+
+    for (const position of health.collaterals) {
+        position.amount -= (position.amount * fraction) / PRICE_SCALE;
+        position.accrued -= (position.accrued * fraction) / PRICE_SCALE;
+        if (position.amount === 0n && position.accrued === 0n) ledger.remove(position);
+    }
+    for (const position of health.debts) {
+        ledger.remove(position);
+    }
+
+    return {
+        timestamp: t,
+        protocol: health.protocol,
+        ...(health.market ? { market: health.market } : {}),
+        healthFactor: health.healthFactor,
+        debtRepaid: health.debtValue,
+        collateralSeized: seized
+    };
+}
+
+function toBigInt(value: any): bigint {
+    if (value === undefined || value === null) return 0n;
+    return typeof value === 'bigint' ? value : BigInt(value);
+}
+
+/**
+ * Apply a single node to the ledger at time t. Returns an error reason if the step is infeasible
+ * (in which case the ledger is left unchanged).
+ */
+function applyNode(ledger: PositionLedger, node: DecryptedNode, ctx: SimContext, t: number): string | null {
+    const args = node.args;
+    const protocol = node.protocol.toLowerCase();
+
+    switch (`${protocol}.${node.functionName}`) {
+        case 'pendle.swapExactTokenForPt': {
+            const pt = ctx.marketToPT.get(String(args.market).toLowerCase());
+            if (!pt) return `unknown Pendle market ${args.market}`;
+            const amount = toBigInt(args.netTokenIn);
+            const error = ledger.debit('wallet', 'wallet', args.tokenIn, amount);
+            if (error) return error;
+            ledger.credit('wallet', 'wallet', pt, amount);
+            return null;
+        }
+        case 'pendle.swapExactPtForToken': {
+            const pt = ctx.marketToPT.get(String(args.market).toLowerCase());
+            if (!pt) return `unknown Pendle market ${args.market}`;
+            const amount = toBigInt(args.exactPtIn);
+            const error = ledger.debit('wallet', 'wallet', pt, amount);
+            if (error) return error;
+            ledger.credit('wallet', 'wallet', args.tokenOut, amount);
+            return null;
+        }
+        case 'aave.supply':
+        case 'compound.supply': {
+            const amount = toBigInt(args.amount);
+            const error = ledger.debit('wallet', 'wallet', args.asset, amount);
+            if (error) return error;
+            ledger.credit('supply', protocol, args.asset, amount);
+            return null;
+        }
+        case 'aave.withdraw':
+        case 'compound.withdraw': {
+            let amount = toBigInt(args.amount);
+            if (amount === MAX_UINT256) amount = ledger.get('supply', protocol, args.asset);
+            const error = ledger.debit('supply', protocol, args.asset, amount);
+            if (error) return error;
+            const limitError = checkBorrowLimit(ledger, ctx, protocol, undefined, t);
+            if (limitError) {
+                ledger.credit('supply', protocol, args.asset, amount);
+                return limitError;
+            }
+            ledger.credit('wallet', 'wallet', args.asset, amount);
+            return null;
+        }
+        case 'aave.borrow': {
+            const amount = toBigInt(args.amount);
+            ledger.credit('debt', protocol, args.asset, amount);
+            const limitError = checkBorrowLimit(ledger, ctx, protocol, undefined, t);
+            if (limitError) {
+                ledger.debit('debt', protocol, args.asset, amount);
+                return limitError;
+            }
+            ledger.credit('wallet', 'wallet', args.asset, amount);
+            return null;
+        }
+        case 'aave.repay': {
+            let amount = toBigInt(args.amount);
+            if (amount === MAX_UINT256) amount = ledger.get('debt', protocol, args.asset);
+            if (amount > ledger.get('debt', protocol, args.asset)) {
+                return `repay of ${amount} ${args.asset} exceeds aave debt`;
+            }
+            const error = ledger.debit('wallet', 'wallet', args.asset, amount);
+            if (error) return error;
+            ledger.debit('debt', protocol, args.asset, amount);
+            return null;
+        }
+        case 'morpho.supply': {
+            const amount = toBigInt(args.collateralTokenAmount);
+            const error = ledger.debit('wallet', 'wallet', args.collateralToken, amount);
+            if (error) return error;
+            ledger.credit('supply', protocol, args.collateralToken, amount);
+            return null;
+        }
+        case 'morpho.withdraw': {
+            const amount = toBigInt(args.amount);
+            const market = String(args.asset).toLowerCase();
+            const error = ledger.debit('supply', protocol, args.asset, amount);
+            if (error) return error;
+            const limitError = checkBorrowLimit(ledger, ctx, protocol, market, t);
+            if (limitError) {
+                ledger.credit('supply', protocol, args.asset, amount);
+                return limitError;
+            }
+            ledger.credit('wallet', 'wallet', args.asset, amount);
+            return null;
+        }
+        case 'morpho.borrow': {
+            const amount = toBigInt(args.assets);
+            const market = String(args.collateralToken).toLowerCase();
+            const params = getRiskParams(ctx.chainId, protocol, market, args.loanToken);
+            if (!params) return `no Morpho market for ${args.loanToken}/${args.collateralToken}`;
+
+            // The strategy's lltv can only tighten the market's configured lltv
+            const requested = normalizeLltvBps(toBigInt(args.lltv));
+            const lltv = requested > 0 ? Math.min(requested, params.liquidationThresholdBps) : params.liquidationThresholdBps;
+            const previousLltv = ledger.morphoLltv.get(market);
+            ledger.morphoLltv.set(market, Math.min(previousLltv ?? lltv, lltv));
+
+            ledger.credit('debt', protocol, args.loanToken, amount, market);
+            const limitError = checkBorrowLimit(ledger, ctx, protocol, market, t);
+            if (limitError) {
+                ledger.debit('debt', protocol, args.loanToken, amount, market);
+                if (previousLltv === undefined) ledger.morphoLltv.delete(market);
+                else ledger.morphoLltv.set(market, previousLltv);
+                return limitError;
+            }
+            ledger.credit('wallet', 'wallet', args.loanToken, amount);
+            return null;
+        }
+        case 'morpho.repay': {
+            const amount = toBigInt(args.assets);
+            if (amount > ledger.get('debt', protocol, args.loanToken, args.collateralToken)) {
+                return `repay of ${amount} ${args.loanToken} exceeds morpho debt`;
+            }
+            const error = ledger.debit('wallet', 'wallet', args.loanToken, amount);
+            if (error) return error;
+            ledger.debit('debt', protocol, args.loanToken, amount, args.collateralToken);
+            return null;
+        }
+        case 'erc20.approve':
+            // Allowances don't move funds
+            return null;
+        default:
+            return `unsupported operation ${node.protocol}.${node.functionName}`;
+    }
+}
+
+/**
+ * Rate keys that apply to a position over the window.
+ * PT balances earn the market's implied yield wherever they sit; supplied assets also earn
+ * the protocol's supply rate; debt accrues the borrow rate.
+ */
+function getPositionRateKeys(position: LedgerPosition, ctx: SimContext): RateKey[] {
+    const keys: RateKey[] = [];
+
+    if (position.kind !== 'debt') {
+        const ptMarket = ctx.ptToMarket.get(position.token);
+        if (ptMarket) {
+            keys.push({ protocol: 'pendle', functionName: 'swapExactTokenForPt', market: ptMarket });
+        }
+    }
+    if (position.kind === 'supply') {
+        keys.push({ protocol: position.protocol, functionName: 'supply', token: position.token });
+    }
+    if (position.kind === 'debt') {
+        keys.push({ protocol: position.protocol, functionName: 'borrow', token: position.token });
+    }
+
+    return keys;
+}
+
+/**
+ * Accrue interest for every position over [t, t + dt)
+ */
+function accrue(ledger: PositionLedger, ctx: SimContext, t: number, dt: number): void {
+    for (const position of ledger.positions.values()) {
+        for (const key of getPositionRateKeys(position, ctx)) {
+            const rateBps = ctx.rateSource.getRate(key, t);
+            if (rateBps === 0) continue;
+            // Simple interest on principal; rate scaled by 100 to keep fractional bps
+            position.accrued += (position.amount * BigInt(Math.round(rateBps * 100)) * BigInt(dt)) /
+                (10000n * 100n * BigInt(YEAR_SECONDS));
+        }
+    }
+}
+
+/**
+ * Run a strategy through the position ledger and measure its APY on the starting notional
  * @param chainId - Chain ID to load deployment config
  * @param nodes - Array of decrypted strategy nodes
- * @param initialCapital - Starting capital in wei
- * @returns APY in basis points (10000 = 100%)
+ * @param initialCapital - Starting notional in USDC (6 decimals)
+ * @param options - Sim window, rate source, infeasible-step and liquidation policies
  */
-export function simulate(chainId: number, nodes: DecryptedNode[], initialCapital: bigint): number {
+export function simulateStrategy(
+    chainId: number,
+    nodes: DecryptedNode[],
+    initialCapital: bigint,
+    options: SimulationOptions = {}
+): SimulationResult {
+    const rateSource = options.rateSource ?? new StaticRateSource(chainId);
+    const stepSeconds = options.stepSeconds ?? DEFAULT_STEP_SECONDS;
+    const policy = options.infeasiblePolicy ?? 'penalize';
+    const penaltyBps = options.infeasibleStepPenaltyBps ?? DEFAULT_PENALTY_BPS;
+    const liquidationPolicy = options.liquidationPolicy ?? 'zero';
+    const now = Math.floor(Date.now() / 1000);
+    const window = options.window ?? { startTime: now, endTime: now + YEAR_SECONDS };
+
     console.log("\n=== Strategy Simulation ===");
     console.log(`Chain ID: ${chainId}`);
     console.log(`Initial Capital: ${initialCapital.toString()}`);
     console.log(`Strategy Steps: ${nodes.length}`);
+    console.log(`Rate Source: ${rateSource.name}`);
+    console.log(`Sim Window: ${new Date(window.startTime * 1000).toISOString()} → ${new Date(window.endTime * 1000).toISOString()}`);
 
-    const positions: YieldPosition[] = [];
-    let totalYieldPerYear = 0n;
+    const ctx = loadSimContext(chainId, rateSource);
+    const ledger = new PositionLedger();
+    ledger.credit('wallet', 'wallet', ctx.usdc, initialCapital);
 
-    // Process each node
+    // Execute every node at the start of the window
+    const steps: SimulationStep[] = [];
     for (let i = 0; i < nodes.length; i++) {
         const node = nodes[i];
-        console.log(`\nStep ${i}: ${node.protocol}.${node.functionName}`);
-
-        // Get APY rate for this operation
-        const tokenOrMarket = node.args.market || node.args.token || node.args.collateralToken || node.args.loanToken || '';
-        const apyBps = getAPYRate(chainId, node.protocol, node.functionName, tokenOrMarket);
-        const opType = getOperationType(chainId, node.protocol, node.functionName);
-
-        // Get amount from various possible arg names
-        const amount = node.args.amount ||
-                      node.args.netTokenIn ||
-                      node.args.collateralTokenAmount ||
-                      node.args.assets ||
-                      0n;
-
-        console.log(`  Amount: ${amount.toString()}`);
-        console.log(`  APY: ${apyBps / 100}%`);
-        console.log(`  Type: ${opType}`);
-
-        if (amount > 0n) {
-            positions.push({ amount, apyBps, type: opType });
-
-            // Calculate yield for this position
-            const yearlyYield = (amount * BigInt(apyBps)) / 10000n;
-
-            if (opType === 'borrow') {
-                // Borrowing is a cost (negative yield)
-                totalYieldPerYear -= yearlyYield;
-                console.log(`  Yearly Cost: -${yearlyYield.toString()}`);
-            } else {
-                // Supply/yield is positive
-                totalYieldPerYear += yearlyYield;
-                console.log(`  Yearly Yield: +${yearlyYield.toString()}`);
+        const reason = applyNode(ledger, node, ctx, window.startTime);
+        steps.push({
+            index: i,
+            protocol: node.protocol,
+            functionName: node.functionName,
+            feasible: reason === null,
+            ...(reason ? { reason } : {})
+        });
+        console.log(`\nStep ${i}: ${node.protocol}.${node.functionName} ${reason ? `❌ infeasible: ${reason}` : '✅'}`);
+    }
+
+    const infeasibleSteps = steps.filter(step => !step.feasible).length;
+
+    // Exposure of the deployed strategy
+    const protocolAssets = getProtocolAssets(ledger, ctx, window.startTime);
+    let grossAssets = 0n;
+    for (const value of protocolAssets.values()) grossAssets += value;
+    const startingEquity = netValue(ledger, ctx, window.startTime);
+    const leverage = startingEquity > 0n ? Number((grossAssets * 10000n) / startingEquity) / 10000 : 0;
+    const protocolExposure: { [protocol: string]: number } = {};
+    for (const [protocol, value] of protocolAssets) {
+        if (grossAssets > 0n) protocolExposure[protocol] = Number((value * 10000n) / grossAssets) / 10000;
+    }
+
+    // Accrue positions over the window, checking health factors and sampling equity every step
+    const liquidations: LiquidationEvent[] = [];
+    let minHealthFactor: number | null = null;
+    const trackHealth = (t: number) => {
+        for (const account of getBorrowingAccounts(ledger)) {
+            const health = getAccountHealth(ledger, ctx, account.protocol, account.market, t);
+            minHealthFactor = minHealthFactor === null ? health.healthFactor : Math.min(minHealthFactor, health.healthFactor);
+            if (health.healthFactor < 1) {
+                const event = liquidate(ledger, health, t);
+                liquidations.push(event);
+                console.log(`  💥 Liquidated ${event.protocol}${event.market ? ` (${event.market})` : ''} at ${new Date(t * 1000).toISOString()}, HF=${health.healthFactor.toFixed(4)}`);
             }
         }
+    };
+
+    trackHealth(window.startTime);
+    const valuePath: ValuePoint[] = [{ timestamp: window.startTime, value: netValue(ledger, ctx, window.startTime) }];
+    for (let t = window.startTime; t < window.endTime; t += stepSeconds) {
+        const dt = Math.min(stepSeconds, window.endTime - t);
+        accrue(ledger, ctx, t, dt);
+        trackHealth(t + dt);
+        valuePath.push({ timestamp: t + dt, value: netValue(ledger, ctx, t + dt) });
     }
 
-    // Calculate overall APY relative to the capital actually deployed.
-    // For our testing harness, approximate this as the largest positive position amount
-    // (since on-chain notional is tracked at a different precision than decrypted args).
-    const activeCapital = positions
-        .filter(position => position.type !== 'borrow')
-        .reduce((max, position) => position.amount > max ? position.amount : max, 0n);
+    const finalValue = netValue(ledger, ctx, window.endTime);
+    const duration = BigInt(Math.max(1, window.endTime - window.startTime));
+    const rawApyBps = initialCapital > 0n
+        ? Number(((finalValue - initialCapital) * 10000n * BigInt(YEAR_SECONDS)) / (initialCapital * duration))
+        : 0;
 
-    if (activeCapital === 0n) {
-        console.log("\n⚠️ No positive capital detected, returning 0% APY");
-        return 0;
+    const rejected = infeasibleSteps > 0 && policy === 'reject';
+    const liquidated = liquidations.length > 0;
+    let apyBps = rejected ? REJECTED_APY_BPS : rawApyBps - infeasibleSteps * penaltyBps;
+    if (!rejected && liquidated && liquidationPolicy === 'zero') {
+        apyBps = Math.min(apyBps, 0);
     }
 
-    const overallAPYBps = Number((totalYieldPerYear * 10000n) / activeCapital);
-
     console.log("\n=== Simulation Results ===");
-    console.log(`Total Yearly Yield: ${totalYieldPerYear.toString()}`);
-    console.log(`Active Capital (estimate): ${activeCapital.toString()}`);
-    console.log(`Overall APY: ${overallAPYBps / 100}% (${overallAPYBps} bps)`);
+    console.log(`Final Value: ${finalValue.toString()}`);
+    console.log(`Raw APY: ${rawApyBps / 100}% (${rawApyBps} bps)`);
+    if (infeasibleSteps > 0) {
+        console.log(`⚠️ ${infeasibleSteps} infeasible step(s), policy=${policy}`);
+    }
+    console.log(`Leverage: ${leverage.toFixed(2)}x`);
+    if (minHealthFactor !== null) {
+        console.log(`Min Health Factor: ${(minHealthFactor as number).toFixed(4)}`);
+    }
+    if (liquidated) {
+        console.log(`⚠️ ${liquidations.length} liquidation(s), policy=${liquidationPolicy}`);
+    }
+    console.log(`Overall APY: ${apyBps / 100}% (${apyBps} bps)`);
 
-    return overallAPYBps;
+    return {
+        apyBps,
+        rawApyBps,
+        startingNotional: initialCapital,
+        finalValue,
+        window,
+        steps,
+        infeasibleSteps,
+        rejected,
+        valuePath,
+        minHealthFactor,
+        liquidations,
+        liquidated,
+        leverage,
+        protocolExposure
+    };
+}
+
+/**
+ * Simulate a strategy and calculate overall APY
+ * @param chainId - Chain ID to load deployment config
+ * @param nodes - Array of decrypted strategy nodes
+ * @param initialCapital - Starting capital in wei
+ * @param options - Sim window, rate source, infeasible-step and liquidation policies
+ * @returns APY in basis points (10000 = 100%)
+ */
+export function simulate(
+    chainId: number,
+    nodes: DecryptedNode[],
+    initialCapital: bigint,
+    options: SimulationOptions = {}
+): number {
+    return simulateStrategy(chainId, nodes, initialCapital, options).apyBps;
 }
@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { TransactionError, TxSender, TxSenderOptions } from './txSender';
+
+const target = ethers.getAddress(ethers.id('target').slice(0, 42));
+const contract = new ethers.Contract(target, ['function ping(uint256)']);
+
+type SendOutcome = 'mine' | 'pending' | Error;
+
+/**
+ * Chain stub: every sent transaction is recorded, and `outcome` decides whether it is
+ * mined right away, stays pending (mine it with `mine`) or is rejected by the node
+ */
+function chain(outcome: (tx: ethers.TransactionRequest) => SendOutcome = () => 'mine') {
+    const state = {
+        latest: 5,
+        fees: { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n, gasPrice: null as bigint | null },
+        sent: [] as Array<ethers.TransactionRequest & { hash: string }>,
+        receipts: new Map<string, any>(),
+        mine(hash: string) {
+            const tx = state.sent.find((sent) => sent.hash === hash)!;
+            state.latest = Math.max(state.latest, Number(tx.nonce) + 1);
+            state.receipts.set(hash, {
+                hash, status: 1, blockNumber: 100, gasUsed: 21_000n, gasPrice: 1n, logs: [],
+                confirmations: async () => 1
+            });
+        }
+    };
+    const provider = {
+        getFeeData: async () => state.fees,
+        getTransactionReceipt: async (hash: string) => state.receipts.get(hash) ?? null
+    };
+    const wallet = {
+        address: ethers.getAddress(ethers.id('operator').slice(0, 42)),
+        provider,
+        estimateGas: async () => 100_000n,
+        getNonce: jest.fn(async (tag: string) =>
+            tag === 'latest' ? state.latest : Math.max(state.latest, ...state.sent.map((tx) => Number(tx.nonce) + 1))
+        ),
+        sendTransaction: async (tx: ethers.TransactionRequest) => {
+            const result = outcome(tx);
+            if (result instanceof Error) throw result;
+            const hash = ethers.id(`tx${state.sent.length}`);
+            state.sent.push({ ...tx, hash });
+            if (result === 'mine') state.mine(hash);
+            return { hash };
+        }
+    };
+    return { state, wallet };
+}
+
+function sender(wallet: object, options: TxSenderOptions = {}): TxSender {
+    return new TxSender(wallet as unknown as ethers.Wallet, { stuckTimeoutMs: 5, pollIntervalMs: 1, ...options });
+}
+
+describe('TxSender', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('sends with estimated gas plus headroom and returns the mined result', async () => {
+        const { state, wallet } = chain();
+
+        const result = await sender(wallet, { gasHeadroomBps: 2000 }).send(contract, 'ping', [1n]);
+
+        expect(state.sent[0]).toMatchObject({ nonce: 5, gasLimit: 120_000n, maxFeePerGas: 100n, maxPriorityFeePerGas: 10n });
+        expect(result).toMatchObject({ hash: state.sent[0].hash, nonce: 5, feeBumps: 0, replacedHashes: [] });
+    });
+
+    it('replaces a stuck transaction at the same nonce with bumped fees', async () => {
+        const { state, wallet } = chain(() => (state.sent.length === 0 ? 'pending' : 'mine'));
+
+        const result = await sender(wallet, { feeBumpBps: 1250 }).send(contract, 'ping', [1n]);
+
+        expect(state.sent.map((tx) => tx.nonce)).toEqual([5, 5]);
+        expect(state.sent[1]).toMatchObject({ maxFeePerGas: 112n, maxPriorityFeePerGas: 11n });
+        expect(result).toMatchObject({ hash: state.sent[1].hash, feeBumps: 1, replacedHashes: [state.sent[0].hash] });
+    });
+
+    it('pays the current network fees when they rose above the bump', async () => {
+        const { state, wallet } = chain(() => {
+            if (state.sent.length > 0) return 'mine';
+            state.fees = { maxFeePerGas: 300n, maxPriorityFeePerGas: 5n, gasPrice: null };
+            return 'pending';
+        });
+
+        await sender(wallet).send(contract, 'ping', [1n]);
+
+        expect(state.sent[1]).toMatchObject({ maxFeePerGas: 300n, maxPriorityFeePerGas: 11n });
+    });
+
+    it('bumps legacy gas prices on networks without EIP-1559', async () => {
+        const { state, wallet } = chain(() => (state.sent.length === 0 ? 'pending' : 'mine'));
+        state.fees = { maxFeePerGas: null as any, maxPriorityFeePerGas: null as any, gasPrice: 1_000n };
+
+        await sender(wallet, { feeBumpBps: 1000 }).send(contract, 'ping', [1n]);
+
+        expect(state.sent.map((tx) => tx.gasPrice)).toEqual([1_000n, 1_100n]);
+    });
+
+    it('gives up after the maximum number of fee bumps', async () => {
+        const { state, wallet } = chain(() => 'pending');
+        const txSender = sender(wallet, { maxFeeBumps: 2 });
+
+        await expect(txSender.send(contract, 'ping', [1n])).rejects.toMatchObject({
+            stage: 'timeout',
+            message: expect.stringContaining('not mined after 2 fee bump(s)')
+        });
+        expect(state.sent.map((tx) => tx.nonce)).toEqual([5, 5, 5]);
+        expect(txSender.nonceManager.inFlight).toBe(0);
+    });
+
+    it('reports a nonce taken by another transaction and re-syncs', async () => {
+        const { state, wallet } = chain(() => {
+            if (state.sent.length > 0) return 'mine';
+            state.latest = 6;   // Another sender's transaction was mined at nonce 5
+            return 'pending';
+        });
+        const txSender = sender(wallet);
+
+        await expect(txSender.send(contract, 'ping', [1n])).rejects.toThrow('nonce 5 was used by another transaction');
+        await txSender.send(contract, 'ping', [2n]);
+
+        expect(state.sent.map((tx) => tx.nonce)).toEqual([5, 6]);
+        expect(wallet.getNonce.mock.calls.filter(([tag]) => tag === 'pending')).toHaveLength(2);
+    });
+
+    it('hands the nonce of a failed send to the next transaction while others are in flight', async () => {
+        let rejected = false;
+        const { state, wallet } = chain((tx) => {
+            if (tx.nonce === 5 && !rejected) {
+                rejected = true;
+                return new Error('connection reset');
+            }
+            return tx.nonce === 6 ? 'pending' : 'mine';
+        });
+        const txSender = sender(wallet, { stuckTimeoutMs: 1_000 });
+
+        const a = txSender.send(contract, 'ping', [1n]);
+        const b = txSender.send(contract, 'ping', [2n]);
+        await expect(a).rejects.toMatchObject({ stage: 'send' });
+
+        // Without reusing 5, B's transaction at 6 could never be mined
+        const c = await txSender.send(contract, 'ping', [3n]);
+        state.mine(state.sent.find((tx) => tx.nonce === 6)!.hash);
+
+        expect(c.nonce).toBe(5);
+        expect((await b).nonce).toBe(6);
+        expect(txSender.nonceManager.inFlight).toBe(0);
+    });
+
+    it('does not reuse a nonce the node reports as already used', async () => {
+        let rejected = false;
+        const { state, wallet } = chain(() => {
+            if (rejected) return 'mine';
+            rejected = true;
+            state.latest = 6;   // Another sender's transaction was mined at nonce 5
+            return Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' });
+        });
+        const txSender = sender(wallet);
+
+        await expect(txSender.send(contract, 'ping', [1n])).rejects.toBeInstanceOf(TransactionError);
+        const result = await txSender.send(contract, 'ping', [2n]);
+
+        expect(result.nonce).toBe(6);
+    });
+});
@@ -0,0 +1,426 @@
+/**
+ * Transaction Sender - one place to send operator transactions
+ *
+ * Every transaction from a wallet goes through the same TxSender (see getTxSender), which:
+ * - reserves nonces from a shared NonceManager, so several transactions can be in flight; a
+ *   nonce whose send failed is handed to the next transaction instead of leaving a gap
+ * - estimates gas (plus headroom) instead of a hardcoded gasLimit
+ * - replaces transactions that are not mined in time with bumped fees at the same nonce
+ * - returns a structured result with decoded events, and throws TransactionError with the
+ *   revert reason decoded from the TradeManager ABI (and the target contract's ABI)
+ */
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NonceManager } from './nonceManager';
+import { counter } from './metrics';
+
+const ERROR_SELECTOR = '0x08c379a0';    // Error(string)
+const PANIC_SELECTOR = '0x4e487b71';    // Panic(uint256)
+
+const transactionsTotal = counter('arena_transactions_total', 'Transactions sent, by method and result');
+const gasUsedTotal = counter('arena_tx_gas_used_total', 'Gas used by mined transactions, by method');
+const feesPaidTotal = counter('arena_tx_fees_wei_total', 'Fees paid by mined transactions in wei, by method');
+
+const tradeManagerInterface = new ethers.Interface(
+    JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../abis/TradeManager.json'), 'utf8'))
+);
+
+export interface TxSenderOptions {
+    gasHeadroomBps?: number;    // Added on top of estimateGas (default: TX_GAS_HEADROOM_BPS or 2000 = +20%)
+    stuckTimeoutMs?: number;    // Wait before replacing with higher fees (default: TX_STUCK_TIMEOUT_MS or 60000)
+    feeBumpBps?: number;        // Fee increase per replacement (default: TX_FEE_BUMP_BPS or 1250; nodes require >= 1000)
+    maxFeeBumps?: number;       // Replacements before giving up (default: TX_MAX_FEE_BUMPS or 3)
+    confirmations?: number;     // Confirmations to wait for (default 1)
+    pollIntervalMs?: number;    // Receipt polling interval (default 2000)
+}
+
+export interface TxResult {
+    hash: string;                       // Hash of the transaction that was mined
+    nonce: number;
+    blockNumber: number;
+    gasUsed: bigint;
+    effectiveGasPrice: bigint;
+    feeBumps: number;                   // Replacements sent before it was mined
+    replacedHashes: string[];           // Earlier hashes at the same nonce
+    events: ethers.LogDescription[];    // Receipt logs decoded with the known ABIs
+    receipt: ethers.TransactionReceipt;
+}
+
+export type TxFailureStage = 'estimate' | 'send' | 'revert' | 'timeout';
+
+/**
+ * Transaction failure with the stage it failed at and the decoded revert reason.
+ * `reason` and `data` mirror the fields on ethers errors, so existing handlers keep working.
+ */
+export class TransactionError extends Error {
+    constructor(
+        message: string,
+        public readonly stage: TxFailureStage,
+        public readonly reason?: string,
+        public readonly data?: string,
+        public readonly hash?: string,
+        public readonly receipt?: ethers.TransactionReceipt,
+        public readonly original?: any
+    ) {
+        super(message);
+        this.name = 'TransactionError';
+    }
+}
+
+function envNumber(name: string): number | undefined {
+    const value = process.env[name];
+    return value !== undefined && value !== '' ? Number(value) : undefined;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const bump = (value: bigint, bps: number) => value + (value * BigInt(bps)) / 10000n;
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Find revert data on an ethers error (the location differs between providers and call paths)
+ */
+export function getRevertData(error: any): string | undefined {
+    const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.info?.error?.data?.data];
+    return candidates.find((data) => typeof data === 'string' && data.startsWith('0x'));
+}
+
+/**
+ * Decode revert data into a readable reason: require messages, panics, or custom errors
+ * from the given interfaces (TradeManager is always tried)
+ */
+export function decodeRevertReason(data: string | undefined, interfaces: ethers.Interface[] = []): string | undefined {
+    if (!data || data === '0x') return undefined;
+
+    const selector = data.slice(0, 10);
+    const payload = '0x' + data.slice(10);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    try {
+        if (selector === ERROR_SELECTOR) {
+            return coder.decode(['string'], payload)[0];
+        }
+        if (selector === PANIC_SELECTOR) {
+            return `Panic(0x${coder.decode(['uint256'], payload)[0].toString(16)})`;
+        }
+    } catch {
+        // Malformed payload, fall through to the raw selector
+    }
+
+    for (const iface of [...interfaces, tradeManagerInterface]) {
+        try {
+            const parsed = iface.parseError(data);
+            if (parsed) {
+                return `${parsed.name}(${parsed.args.map((arg) => arg.toString()).join(', ')})`;
+            }
+        } catch {
+            // Not this interface
+        }
+    }
+
+    return `Unknown error ${selector}`;
+}
+
+export class TxSender {
+    public readonly nonceManager: NonceManager;
+    private readonly gasHeadroomBps: number;
+    private readonly stuckTimeoutMs: number;
+    private readonly feeBumpBps: number;
+    private readonly maxFeeBumps: number;
+    private readonly confirmations: number;
+    private readonly pollIntervalMs: number;
+
+    constructor(private wallet: ethers.Wallet, options: TxSenderOptions = {}) {
+        if (!wallet.provider) {
+            throw new Error('TxSender requires a wallet connected to a provider');
+        }
+        this.nonceManager = new NonceManager(wallet);
+        this.gasHeadroomBps = options.gasHeadroomBps ?? envNumber('TX_GAS_HEADROOM_BPS') ?? 2000;
+        this.stuckTimeoutMs = options.stuckTimeoutMs ?? envNumber('TX_STUCK_TIMEOUT_MS') ?? 60000;
+        this.feeBumpBps = Math.max(1000, options.feeBumpBps ?? envNumber('TX_FEE_BUMP_BPS') ?? 1250);
+        this.maxFeeBumps = options.maxFeeBumps ?? envNumber('TX_MAX_FEE_BUMPS') ?? 3;
+        this.confirmations = options.confirmations ?? 1;
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    }
+
+    get address(): string {
+        return this.wallet.address;
+    }
+
+    /**
+     * Call a contract method as a transaction and wait until it is mined
+     *
+     * @param contract - Contract to call (its ABI is used to decode reverts and events)
+     * @param method - Method name or signature
+     * @param args - Method arguments
+     * @param overrides - Optional value/gasLimit; nonce and fees are managed here
+     * @throws TransactionError if estimation, sending or execution fails
+     */
+    async send(
+        contract: ethers.Contract,
+        method: string,
+        args: any[] = [],
+        overrides: ethers.Overrides & { value?: ethers.BigNumberish } = {}
+    ): Promise<TxResult> {
+        try {
+            const result = await this.sendAndWait(contract, method, args, overrides);
+            transactionsTotal.inc({ method, result: 'success' });
+            gasUsedTotal.inc({ method }, Number(result.gasUsed));
+            feesPaidTotal.inc({ method }, Number(result.gasUsed * result.effectiveGasPrice));
+            return result;
+        } catch (error: any) {
+            transactionsTotal.inc({ method, result: error instanceof TransactionError ? error.stage : 'error' });
+            if (error instanceof TransactionError && error.receipt) {
+                // Reverted transactions still pay for gas
+                gasUsedTotal.inc({ method }, Number(error.receipt.gasUsed));
+                feesPaidTotal.inc({ method }, Number(error.receipt.gasUsed * error.receipt.gasPrice));
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Dry-run a contract method: execute it as a call against the latest block and estimate
+     * its gas, without sending anything
+     *
+     * @returns The method's return value and the gas estimate (without headroom)
+     * @throws TransactionError (stage 'estimate') with the decoded reason if it would revert
+     */
+    async simulate(
+        contract: ethers.Contract,
+        method: string,
+        args: any[] = [],
+        overrides: ethers.Overrides & { value?: ethers.BigNumberish } = {}
+    ): Promise<{ result: any; gasEstimate: bigint }> {
+        const fn = contract.getFunction(method);
+        try {
+            const result = await fn.staticCall(...args, { ...overrides, from: this.wallet.address });
+            const gasEstimate = await fn.estimateGas(...args, { ...overrides, from: this.wallet.address });
+            return { result, gasEstimate };
+        } catch (error: any) {
+            throw this.toError(error, 'estimate', method, [contract.interface]);
+        }
+    }
+
+    private async sendAndWait(
+        contract: ethers.Contract,
+        method: string,
+        args: any[],
+        overrides: ethers.Overrides & { value?: ethers.BigNumberish }
+    ): Promise<TxResult> {
+        const interfaces = [contract.interface];
+        const request = await contract.getFunction(method).populateTransaction(...args, overrides);
+        request.from = this.wallet.address;
+
+        // Estimate before reserving a nonce, so a reverting call never leaves a nonce gap
+        if (request.gasLimit === undefined || request.gasLimit === null) {
+            try {
+                const estimate = await this.wallet.estimateGas(request);
+                request.gasLimit = bump(estimate, this.gasHeadroomBps);
+            } catch (error: any) {
+                throw this.toError(error, 'estimate', method, interfaces);
+            }
+        }
+
+        const provider = this.wallet.provider!;
+        const feeData = await provider.getFeeData();
+        const eip1559 = feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null;
+        const fees: ethers.TransactionRequest = eip1559
+            ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+            : { gasPrice: feeData.gasPrice };
+
+        const nonce = await this.nonceManager.next();
+        const hashes: string[] = [];
+
+        try {
+            const tx = await this.wallet.sendTransaction({ ...request, ...fees, nonce });
+            hashes.push(tx.hash);
+            console.log(`  📤 ${method} sent: ${tx.hash} (nonce ${nonce})`);
+        } catch (error: any) {
+            if (error?.code === 'NONCE_EXPIRED') {
+                // Another transaction already used the nonce: don't hand it out again
+                this.nonceManager.resync();
+                this.nonceManager.done(nonce);
+            } else {
+                // The nonce was never used; the next transaction takes it, so nonces sent
+                // meanwhile by other jobs don't wait behind a gap
+                this.nonceManager.release(nonce);
+            }
+            throw this.toError(error, 'send', method, interfaces);
+        }
+
+        try {
+            return await this.waitAndBump(method, request, fees, eip1559, nonce, hashes, interfaces);
+        } finally {
+            // Mined, reverted or given up on: the nonce is no longer in flight
+            this.nonceManager.done(nonce);
+        }
+    }
+
+    /**
+     * Wait for the transaction at `nonce`, replacing it with higher fees while it is not mined
+     */
+    private async waitAndBump(
+        method: string,
+        request: ethers.TransactionRequest,
+        fees: ethers.TransactionRequest,
+        eip1559: boolean,
+        nonce: number,
+        hashes: string[],
+        interfaces: ethers.Interface[]
+    ): Promise<TxResult> {
+        const provider = this.wallet.provider!;
+
+        for (let feeBumps = 0; ; feeBumps++) {
+            const receipt = await this.waitForAny(hashes, this.stuckTimeoutMs);
+
+            if (receipt) {
+                return this.toResult(receipt, request, nonce, hashes, interfaces);
+            }
+
+            if (await this.wallet.getNonce('latest') > nonce) {
+                // The nonce was mined but none of our receipts showed up: give the node a moment
+                // to serve the receipt before concluding another transaction took the nonce
+                const late = await this.waitForAny(hashes, this.pollIntervalMs * 3);
+                if (late) return this.toResult(late, request, nonce, hashes, interfaces);
+                this.nonceManager.resync();
+                throw new TransactionError(
+                    `${method}: nonce ${nonce} was used by another transaction`,
+                    'timeout', undefined, undefined, hashes[hashes.length - 1]
+                );
+            }
+
+            if (feeBumps >= this.maxFeeBumps) {
+                throw new TransactionError(
+                    `${method}: not mined after ${feeBumps} fee bump(s) (last hash ${hashes[hashes.length - 1]})`,
+                    'timeout', undefined, undefined, hashes[hashes.length - 1]
+                );
+            }
+
+            // Replace at the same nonce, paying at least the bump and at least the current network fees
+            const current = await provider.getFeeData();
+            fees = eip1559
+                ? {
+                    maxFeePerGas: max(bump(BigInt(fees.maxFeePerGas!), this.feeBumpBps), current.maxFeePerGas ?? 0n),
+                    maxPriorityFeePerGas: max(bump(BigInt(fees.maxPriorityFeePerGas!), this.feeBumpBps), current.maxPriorityFeePerGas ?? 0n)
+                }
+                : { gasPrice: max(bump(BigInt(fees.gasPrice!), this.feeBumpBps), current.gasPrice ?? 0n) };
+
+            try {
+                const replacement = await this.wallet.sendTransaction({ ...request, ...fees, nonce });
+                hashes.push(replacement.hash);
+                console.log(`  ⛽ ${method} not mined after ${this.stuckTimeoutMs / 1000}s, replaced with higher fees: ${replacement.hash}`);
+            } catch (error: any) {
+                // Usually "nonce too low": an earlier hash was mined in the meantime
+                console.warn(`  ⚠️ Fee bump for ${method} rejected: ${error?.shortMessage || error?.message}`);
+            }
+        }
+    }
+
+    /**
+     * Poll for a receipt of any of the hashes (all share one nonce, at most one can be mined)
+     */
+    private async waitForAny(hashes: string[], timeoutMs: number): Promise<ethers.TransactionReceipt | null> {
+        const provider = this.wallet.provider!;
+        const deadline = Date.now() + timeoutMs;
+
+        while (true) {
+            for (const hash of hashes) {
+                const receipt = await provider.getTransactionReceipt(hash);
+                if (receipt && await receipt.confirmations() >= this.confirmations) {
+                    return receipt;
+                }
+            }
+            if (Date.now() >= deadline) return null;
+            await sleep(this.pollIntervalMs);
+        }
+    }
+
+    private async toResult(
+        receipt: ethers.TransactionReceipt,
+        request: ethers.TransactionRequest,
+        nonce: number,
+        hashes: string[],
+        interfaces: ethers.Interface[]
+    ): Promise<TxResult> {
+        if (receipt.status !== 1) {
+            // Replay the call at the mined block to recover the revert data
+            let data: string | undefined;
+            try {
+                await this.wallet.provider!.call({ ...request, blockTag: receipt.blockNumber });
+            } catch (error: any) {
+                data = getRevertData(error);
+            }
+            const reason = decodeRevertReason(data, interfaces);
+            throw new TransactionError(
+                `Transaction ${receipt.hash} reverted${reason ? `: ${reason}` : ''}`,
+                'revert', reason, data, receipt.hash, receipt
+            );
+        }
+
+        const events: ethers.LogDescription[] = [];
+        for (const log of receipt.logs) {
+            for (const iface of [...interfaces, tradeManagerInterface]) {
+                try {
+                    const parsed = iface.parseLog(log);
+                    if (parsed) {
+                        events.push(parsed);
+                        break;
+                    }
+                } catch {
+                    // Not this interface
+                }
+            }
+        }
+
+        return {
+            hash: receipt.hash,
+            nonce,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed,
+            effectiveGasPrice: receipt.gasPrice,
+            feeBumps: hashes.length - 1,
+            replacedHashes: hashes.filter((hash) => hash !== receipt.hash),
+            events,
+            receipt
+        };
+    }
+
+    private toError(error: any, stage: TxFailureStage, method: string, interfaces: ethers.Interface[]): TransactionError {
+        const data = getRevertData(error);
+        const reason = error?.reason ?? decodeRevertReason(data, interfaces);
+        const message = reason
+            ? `${method} would revert: ${reason}`
+            : `${method} failed (${stage}): ${error?.shortMessage || error?.message || error}`;
+        return new TransactionError(message, stage, reason ?? undefined, data, undefined, undefined, error);
+    }
+}
+
+// One sender per provider and address, so every caller in a process shares the same nonces
+const senders = new WeakMap<ethers.Provider, Map<string, TxSender>>();
+
+/**
+ * Get the shared TxSender for a wallet (created on first use)
+ */
+export function getTxSender(wallet: ethers.Wallet, options?: TxSenderOptions): TxSender {
+    const provider = wallet.provider;
+    if (!provider) {
+        throw new Error('TxSender requires a wallet connected to a provider');
+    }
+
+    let byAddress = senders.get(provider);
+    if (!byAddress) {
+        byAddress = new Map();
+        senders.set(provider, byAddress);
+    }
+
+    const key = wallet.address.toLowerCase();
+    let sender = byAddress.get(key);
+    if (!sender) {
+        sender = new TxSender(wallet, options);
+        byAddress.set(key, sender);
+    }
+    return sender;
+}
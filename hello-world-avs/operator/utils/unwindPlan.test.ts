@@ -0,0 +1,194 @@
+import { ethers } from 'ethers';
+import { AggregatedCalldata } from '../storage';
+import { EpochExecution } from './executionReconciliation';
+import { buildUnwindPlan, getOpenAaveDebts } from './unwindPlan';
+
+const address = (name: string) => ethers.getAddress(ethers.id(name).slice(0, 42));
+
+const vault = address('vault');
+const aave = address('aave');
+const morpho = address('morpho');
+const pendle = address('pendle');
+const USDC = address('USDC');
+const WETH = address('WETH');
+const market = address('market.sUSDE');
+const PT = address('PT-sUSDE');
+
+function encode(signature: string, args: any[]): string {
+    const iface = new ethers.Interface([`function ${signature}`]);
+    return iface.encodeFunctionData(iface.fragments[0] as ethers.FunctionFragment, args);
+}
+
+const approve = (token: string, spender: string, amount: bigint) =>
+    ({ target: token, calldata: encode('approve(address,uint256)', [spender, amount]) });
+const aaveSupply = (asset: string, amount: bigint) =>
+    ({ target: aave, calldata: encode('supply(address,uint256,address,uint16)', [asset, amount, vault, 0]) });
+const aaveBorrow = (asset: string, amount: bigint) =>
+    ({ target: aave, calldata: encode('borrow(address,uint256,uint256,uint16,address)', [asset, amount, 2, 0, vault]) });
+const morphoSupply = (collateral: string, amount: bigint) =>
+    ({ target: morpho, calldata: encode('supply(address,uint256,address)', [collateral, amount, vault]) });
+const morphoBorrow = (loanToken: string, collateral: string, amount: bigint) =>
+    ({ target: morpho, calldata: encode('borrow(address,address,uint256,uint256,address,address)', [loanToken, collateral, 0, amount, vault, vault]) });
+const buyPT = (amountIn: bigint) =>
+    ({ target: pendle, calldata: encode('swapExactTokenForPt(address,address,address,uint256)', [vault, market, USDC, amountIn]) });
+
+const MAX = ethers.MaxUint256;
+const usdcDebt = `aave:debt:${aave}:${USDC}:2`;
+
+const ptSwapped = new ethers.Interface([
+    'event PTSwapped(address indexed user, address indexed market, address tokenIn, uint256 amountIn, address ptOut, uint256 ptAmount)'
+]);
+
+/**
+ * An execution of the calls, with the given indices failed and PTSwapped logs for the PT bought
+ */
+function execution(
+    calls: { target: string; calldata: string }[],
+    options: { failed?: number[]; ptSwaps?: { amountIn: bigint; ptAmount: bigint }[] } = {}
+): EpochExecution {
+    const plan: AggregatedCalldata = {
+        encoders: calls.map(() => address('encoder')),
+        targets: calls.map((call) => call.target),
+        calldatas: calls.map((call) => call.calldata)
+    };
+    const logs = (options.ptSwaps ?? []).map(({ amountIn, ptAmount }) => {
+        const { topics, data } = ptSwapped.encodeEventLog('PTSwapped', [vault, market, USDC, amountIn, PT, ptAmount]);
+        return { address: pendle, topics, data } as unknown as ethers.Log;
+    });
+    return {
+        txHash: ethers.id(JSON.stringify(plan.calldatas)),
+        blockNumber: 1,
+        plan,
+        failed: (options.failed ?? []).map((index) => ({ index, label: '', target: plan.targets[index], calldata: plan.calldatas[index], origins: [] })),
+        logs
+    };
+}
+
+/**
+ * "protocol.function target" of each unwind call
+ */
+function callsOf(plan: AggregatedCalldata, labels: string[]): string[] {
+    return labels.map((label, i) => `${label} ${plan.targets[i]}`);
+}
+
+describe('buildUnwindPlan', () => {
+    it('sells PT, repays debt and withdraws collateral, last-opened first', () => {
+        const executed = execution(
+            [aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n), approve(USDC, pendle, 500n), buyPT(500n)],
+            { ptSwaps: [{ amountIn: 500n, ptAmount: 520n }] }
+        );
+
+        const unwind = buildUnwindPlan([executed], vault, { [usdcDebt]: 612n });
+
+        expect(callsOf(unwind.plan, unwind.labels)).toEqual([
+            `erc20.approve ${PT}`,
+            `pendle.swapExactPtForToken ${pendle}`,
+            `erc20.approve ${USDC}`,
+            `aave.repay ${aave}`,
+            `aave.withdraw ${aave}`
+        ]);
+        expect(unwind.plan.calldatas[1]).toBe(encode('swapExactPtForToken(address,address,uint256,address)', [vault, market, 520n, USDC]));
+        expect(unwind.plan.calldatas[2]).toBe(encode('approve(address,uint256)', [aave, 612n]));
+        expect(unwind.plan.calldatas[3]).toBe(encode('repay(address,uint256,uint256,address)', [USDC, MAX, 2n, vault]));
+        expect(unwind.plan.calldatas[4]).toBe(encode('withdraw(address,uint256,address)', [WETH, MAX, vault]));
+        expect(unwind.ignored).toEqual([]);
+    });
+
+    it('repays debt before withdrawing collateral supplied after the borrow', () => {
+        const executed = execution([aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n), aaveSupply(WETH, 400n)]);
+
+        const unwind = buildUnwindPlan([executed], vault, { [usdcDebt]: 612n });
+
+        expect(unwind.labels).toEqual(['erc20.approve', 'aave.repay', 'aave.withdraw']);
+        expect(unwind.positions.map((position) => position.amount)).toEqual(['600', '1400']);
+    });
+
+    it('withdraws PT collateral before selling it, after repaying the debt it backs', () => {
+        const executed = execution(
+            [approve(USDC, pendle, 500n), buyPT(500n), approve(PT, morpho, 520n), morphoSupply(PT, 520n), morphoBorrow(USDC, PT, 300n)],
+            { ptSwaps: [{ amountIn: 500n, ptAmount: 520n }] }
+        );
+
+        const unwind = buildUnwindPlan([executed], vault);
+
+        expect(unwind.labels).toEqual([
+            'erc20.approve',
+            'morpho.repay',
+            'morpho.withdraw',
+            'erc20.approve',
+            'pendle.swapExactPtForToken'
+        ]);
+        expect(unwind.plan.calldatas[2]).toBe(encode('withdraw(address,uint256,address,address)', [PT, 520n, vault, vault]));
+    });
+
+    it('leaves out positions whose opening call failed', () => {
+        const executed = execution([aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n)], { failed: [1] });
+
+        const unwind = buildUnwindPlan([executed], vault);
+
+        expect(unwind.labels).toEqual(['aave.withdraw']);
+        expect(unwind.positions.map((position) => position.amount)).toEqual(['1000']);
+    });
+
+    it('only closes what a partial unwind left open when it is built again', () => {
+        const executed = execution(
+            [aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n), approve(USDC, pendle, 500n), buyPT(500n)],
+            { ptSwaps: [{ amountIn: 500n, ptAmount: 520n }] }
+        );
+        const first = buildUnwindPlan([executed], vault, { [usdcDebt]: 612n });
+
+        // The PT sale went through; the repay failed, and the withdraw with it
+        const partial = execution(
+            first.plan.calldatas.map((calldata, i) => ({ target: first.plan.targets[i], calldata })),
+            { failed: [3, 4] }
+        );
+        const again = buildUnwindPlan([executed, partial], vault, { [usdcDebt]: 612n });
+
+        expect(again.labels).toEqual(['erc20.approve', 'aave.repay', 'aave.withdraw']);
+        expect(again.plan.calldatas.slice(1)).toEqual(first.plan.calldatas.slice(3));
+
+        // Nothing is left once the re-run succeeds
+        const rerun = execution(again.plan.calldatas.map((calldata, i) => ({ target: again.plan.targets[i], calldata })));
+        const done = buildUnwindPlan([executed, partial, rerun], vault);
+        expect(done.plan.calldatas).toEqual([]);
+        expect(done.positions).toEqual([]);
+    });
+
+    it('withdraws Morpho collateral at the recorded amount, Aave collateral in full', () => {
+        const executed = execution([morphoSupply(WETH, 900n), aaveSupply(USDC, 400n)]);
+
+        const unwind = buildUnwindPlan([executed], vault);
+
+        expect(unwind.plan.calldatas).toEqual([
+            encode('withdraw(address,uint256,address)', [USDC, MAX, vault]),
+            encode('withdraw(address,uint256,address,address)', [WETH, 900n, vault, vault])
+        ]);
+    });
+
+    it('lists the open Aave debts whose live amount the repay allowance covers', () => {
+        const executed = execution([aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n), morphoBorrow(USDC, WETH, 400n)]);
+
+        expect(getOpenAaveDebts([executed], vault)).toEqual([
+            { key: usdcDebt, label: `aave debt ${USDC}`, pool: aave, asset: USDC, interestRateMode: 2n }
+        ]);
+        expect(getOpenAaveDebts([executed, execution([aaveBorrow(USDC, 600n)], { failed: [0] })], vault)).toHaveLength(1);
+    });
+
+    it('refuses to repay an Aave debt without its live debt allowance', () => {
+        const executed = execution([aaveSupply(WETH, 1_000n), aaveBorrow(USDC, 600n)]);
+
+        expect(() => buildUnwindPlan([executed], vault)).toThrow(`No repay allowance for aave debt ${USDC}`);
+    });
+
+    it('is the same plan for the same executions', () => {
+        const executed = execution(
+            [morphoSupply(WETH, 900n), morphoBorrow(USDC, WETH, 400n), aaveSupply(USDC, 400n)]
+        );
+
+        expect(buildUnwindPlan([executed], vault)).toEqual(buildUnwindPlan([executed], vault));
+    });
+
+    it('refuses a PT purchase without its PTSwapped log', () => {
+        expect(() => buildUnwindPlan([execution([buyPT(500n)])], vault)).toThrow('No PTSwapped log');
+    });
+});
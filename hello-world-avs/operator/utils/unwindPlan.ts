@@ -0,0 +1,364 @@
+/**
+ * Unwind Plan - the calls that close the positions an epoch's executions opened
+ *
+ * The successful calls of every execution of the epoch (the execution, recoveries and earlier
+ * unwinds, see executionReconciliation.ts) are replayed on a ledger of the vault's positions:
+ *   aave / compound supply - withdraw    collateral per (protocol, asset)
+ *   aave borrow - repay                  debt per (asset, interest rate mode)
+ *   morpho supply - withdraw             collateral per collateral token
+ *   morpho borrow - repay                debt per (loan token, collateral token)
+ *   pendle swapExactTokenForPt - swapExactPtForToken   PT held per market, as received
+ *                                        (PTSwapped logs of the execution transaction)
+ * Every position left open gets its inverse call, with an ERC20 approve before repays and PT
+ * sales. Aave positions are closed with type(uint256).max, since interest accrued after the
+ * recorded amounts would leave dust debt that fails the health factor check of the withdraw;
+ * the approve before an Aave repay covers the live debt the caller read (getOpenAaveDebts).
+ * Positions are closed last-opened first, the reverse of the order they were built in, so
+ * borrowed funds come back (e.g. PT bought with them is sold) before they are repaid. Two orders
+ * hold whatever the history: debt is repaid before the collateral backing it is withdrawn (Aave:
+ * any collateral on the same pool, Morpho: the market's collateral token), and PT held as
+ * collateral is withdrawn before it is sold. Positions closed by an earlier unwind are no longer
+ * open, so building the plan again after a partial unwind only closes what is left.
+ */
+
+import { ethers } from 'ethers';
+import { AggregatedCalldata } from '../storage';
+import { EpochExecution } from './executionReconciliation';
+import { ERC20_APPROVE, getCallFunction } from './protocolMapping';
+
+export interface OpenPosition {
+    key: string;
+    label: string;             // e.g. "aave collateral 0x…"
+    amount: string;            // Token base units (PT units for Pendle)
+}
+
+/**
+ * An open Aave debt, whose live amount (principal plus accrued interest) the repay allowance covers
+ */
+export interface AaveDebt {
+    key: string;               // Position key, for the allowances passed to buildUnwindPlan
+    label: string;
+    pool: string;
+    asset: string;
+    interestRateMode: bigint;
+}
+
+export interface UnwindPlan {
+    positions: OpenPosition[]; // Open positions, in closing order
+    plan: AggregatedCalldata;
+    labels: string[];          // protocol.function of each call
+    ignored: string[];         // Successful calls the ledger doesn't model
+}
+
+interface Position {
+    key: string;
+    label: string;
+    kind: 'collateral' | 'debt' | 'pt';
+    token: string;             // Collateral asset, loan token, or PT token
+    collateralToken?: string;  // Collateral backing a Morpho debt (Aave: all of the pool's)
+    encoder: string;
+    target: string;
+    amount: bigint;
+    closeAll?: boolean;        // Closed with type(uint256).max (Aave)
+    interestRateMode?: bigint; // Aave debt
+    lastIncrease: number;      // Sequence number of the last call that grew it
+    close: (amount: bigint, vault: string) => { approve?: string; calldata: string };
+}
+
+const pendleEvents = new ethers.Interface([
+    'event PTSwapped(address indexed user, address indexed market, address tokenIn, uint256 amountIn, address ptOut, uint256 ptAmount)'
+]);
+
+function encode(signature: string, args: any[]): string {
+    const iface = new ethers.Interface([`function ${signature}`]);
+    return iface.encodeFunctionData(iface.fragments[0] as ethers.FunctionFragment, args);
+}
+
+/**
+ * PT received by each successful swapExactTokenForPt of an execution, in call order
+ */
+function ptReceived(execution: EpochExecution, vault: string): { target: string; market: string; amountIn: bigint; ptOut: string; ptAmount: bigint }[] {
+    return execution.logs.flatMap((log) => {
+        try {
+            const parsed = pendleEvents.parseLog(log);
+            if (!parsed || ethers.getAddress(parsed.args.user) !== vault) {
+                return [];
+            }
+            return [{
+                target: ethers.getAddress(log.address),
+                market: ethers.getAddress(parsed.args.market),
+                amountIn: BigInt(parsed.args.amountIn),
+                ptOut: ethers.getAddress(parsed.args.ptOut),
+                ptAmount: BigInt(parsed.args.ptAmount)
+            }];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * Open positions of the vault after the epoch's executions, by replaying their successful calls
+ */
+function replayLedger(executions: EpochExecution[], vault: string): { positions: Map<string, Position>; ignored: string[] } {
+    const positions = new Map<string, Position>();
+    const ignored: string[] = [];
+    let sequence = 0;
+
+    const grow = (position: Omit<Position, 'amount' | 'lastIncrease'>, amount: bigint) => {
+        const current = positions.get(position.key) ?? { ...position, amount: 0n, lastIncrease: 0 };
+        current.amount += amount;
+        current.lastIncrease = sequence;
+        positions.set(position.key, current);
+    };
+    const shrink = (key: string, amount: bigint) => {
+        const current = positions.get(key);
+        if (current) {
+            current.amount = amount === ethers.MaxUint256 || amount >= current.amount ? 0n : current.amount - amount;
+        }
+    };
+
+    for (const execution of executions) {
+        const failed = new Set(execution.failed.map((call) => call.index));
+        const received = ptReceived(execution, vault);
+        const { plan } = execution;
+
+        for (const [i, calldata] of plan.calldatas.entries()) {
+            if (failed.has(i)) {
+                continue;
+            }
+            sequence++;
+            const target = ethers.getAddress(plan.targets[i]);
+            const encoder = plan.encoders[i];
+            const fn = getCallFunction(calldata.slice(0, 10));
+            if (!fn) {
+                ignored.push(`${target}:${calldata.slice(0, 10)}`);
+                continue;
+            }
+            const args = new ethers.Interface([`function ${fn.signature}`]).decodeFunctionData(fn.functionName, calldata);
+            const call = `${fn.protocol}.${fn.functionName}`;
+
+            switch (call) {
+                case 'aave.supply':
+                case 'compound.supply': {
+                    const asset = ethers.getAddress(args[0]);
+                    const withdraw = fn.protocol === 'aave' ? 'withdraw(address,uint256,address)' : 'withdraw(address,uint256)';
+                    grow({
+                        key: `${fn.protocol}:collateral:${target}:${asset}`,
+                        label: `${fn.protocol} collateral ${asset}`,
+                        kind: 'collateral',
+                        token: asset,
+                        encoder,
+                        target,
+                        closeAll: fn.protocol === 'aave',
+                        close: (amount, to) => ({
+                            calldata: encode(withdraw, fn.protocol === 'aave' ? [asset, amount, to] : [asset, amount])
+                        })
+                    }, BigInt(args[1]));
+                    break;
+                }
+                case 'aave.withdraw':
+                case 'compound.withdraw':
+                    shrink(`${fn.protocol}:collateral:${target}:${ethers.getAddress(args[0])}`, BigInt(args[1]));
+                    break;
+                case 'aave.borrow': {
+                    const asset = ethers.getAddress(args[0]);
+                    const mode = BigInt(args[2]);
+                    grow({
+                        key: `aave:debt:${target}:${asset}:${mode}`,
+                        label: `aave debt ${asset}`,
+                        kind: 'debt',
+                        token: asset,
+                        encoder,
+                        target,
+                        closeAll: true,
+                        interestRateMode: mode,
+                        close: (amount, onBehalf) => ({
+                            approve: asset,
+                            calldata: encode('repay(address,uint256,uint256,address)', [asset, amount, mode, onBehalf])
+                        })
+                    }, BigInt(args[1]));
+                    break;
+                }
+                case 'aave.repay':
+                    shrink(`aave:debt:${target}:${ethers.getAddress(args[0])}:${BigInt(args[2])}`, BigInt(args[1]));
+                    break;
+                case 'morpho.supply': {
+                    const collateral = ethers.getAddress(args[0]);
+                    grow({
+                        key: `morpho:collateral:${target}:${collateral}`,
+                        label: `morpho collateral ${collateral}`,
+                        kind: 'collateral',
+                        token: collateral,
+                        encoder,
+                        target,
+                        close: (amount, account) => ({
+                            calldata: encode('withdraw(address,uint256,address,address)', [collateral, amount, account, account])
+                        })
+                    }, BigInt(args[1]));
+                    break;
+                }
+                case 'morpho.withdraw':
+                    shrink(`morpho:collateral:${target}:${ethers.getAddress(args[0])}`, BigInt(args[1]));
+                    break;
+                case 'morpho.borrow': {
+                    const loanToken = ethers.getAddress(args[0]);
+                    const collateral = ethers.getAddress(args[1]);
+                    grow({
+                        key: `morpho:debt:${target}:${loanToken}:${collateral}`,
+                        label: `morpho debt ${loanToken}/${collateral}`,
+                        kind: 'debt',
+                        token: loanToken,
+                        collateralToken: collateral,
+                        encoder,
+                        target,
+                        close: (amount, onBehalf) => ({
+                            approve: loanToken,
+                            calldata: encode('repay(address,address,uint256,address)', [loanToken, collateral, amount, onBehalf])
+                        })
+                    }, BigInt(args[3]));
+                    break;
+                }
+                case 'morpho.repay':
+                    shrink(`morpho:debt:${target}:${ethers.getAddress(args[0])}:${ethers.getAddress(args[1])}`, BigInt(args[2]));
+                    break;
+                case 'pendle.swapExactTokenForPt': {
+                    const market = ethers.getAddress(args[1]);
+                    const tokenIn = ethers.getAddress(args[2]);
+                    const swap = received.findIndex((log) =>
+                        log.target === target && log.market === market && log.amountIn === BigInt(args[3])
+                    );
+                    if (swap < 0) {
+                        throw new Error(`No PTSwapped log for ${call} on market ${market} in ${execution.txHash}`);
+                    }
+                    const [{ ptOut, ptAmount }] = received.splice(swap, 1);
+                    grow({
+                        key: `pendle:pt:${target}:${market}`,
+                        label: `pendle PT ${ptOut} (market ${market})`,
+                        kind: 'pt',
+                        token: ptOut,
+                        encoder,
+                        target,
+                        close: (amount, receiver) => ({
+                            approve: ptOut,
+                            calldata: encode('swapExactPtForToken(address,address,uint256,address)', [receiver, market, amount, tokenIn])
+                        })
+                    }, ptAmount);
+                    break;
+                }
+                case 'pendle.swapExactPtForToken':
+                    shrink(`pendle:pt:${target}:${ethers.getAddress(args[1])}`, BigInt(args[2]));
+                    break;
+                case 'erc20.approve':
+                    break;
+                default:
+                    ignored.push(call);
+            }
+        }
+    }
+
+    return { positions, ignored };
+}
+
+/**
+ * Whether position a must be closed before position b
+ */
+function closesBefore(a: Position, b: Position): boolean {
+    if (a.kind === 'debt' && b.kind === 'collateral') {
+        return a.target === b.target && (a.collateralToken === undefined || a.collateralToken === b.token);
+    }
+    return a.kind === 'collateral' && b.kind === 'pt' && a.token === b.token;
+}
+
+/**
+ * Closing order: last-opened first among the positions nothing still open has to be closed before
+ */
+function closingOrder(open: Position[]): Position[] {
+    const pending = [...open];
+    const ordered: Position[] = [];
+    while (pending.length > 0) {
+        // closesBefore only goes debt → collateral → PT, so some position is always ready
+        const ready = pending.filter((b) => !pending.some((a) => a !== b && closesBefore(a, b)));
+        const next = ready.reduce((latest, position) => position.lastIncrease > latest.lastIncrease ? position : latest);
+        ordered.push(next);
+        pending.splice(pending.indexOf(next), 1);
+    }
+    return ordered;
+}
+
+/**
+ * Aave debts the epoch's executions left open, whose live amount the caller reads for
+ * buildUnwindPlan's repay allowances
+ */
+export function getOpenAaveDebts(executions: EpochExecution[], vault: string): AaveDebt[] {
+    const { positions } = replayLedger(executions, ethers.getAddress(vault));
+    return [...positions.values()]
+        .filter((position) => position.interestRateMode !== undefined && position.amount > 0n)
+        .map(({ key, label, target, token, interestRateMode }) => ({
+            key,
+            label,
+            pool: target,
+            asset: token,
+            interestRateMode: interestRateMode!
+        }));
+}
+
+/**
+ * The calls that close every position the epoch's executions left open, in closing order
+ *
+ * @param repayAllowances - Allowance to approve before each Aave repay, by AaveDebt.key: at
+ *   least the live debt, which type(uint256).max repays in full
+ */
+export function buildUnwindPlan(
+    executions: EpochExecution[],
+    vault: string,
+    repayAllowances: { [key: string]: bigint } = {}
+): UnwindPlan {
+    const account = ethers.getAddress(vault);
+    const { positions, ignored } = replayLedger(executions, account);
+    const open = closingOrder([...positions.values()].filter((position) => position.amount > 0n));
+
+    const unwind: UnwindPlan = {
+        positions: open.map(({ key, label, amount }) => ({ key, label, amount: amount.toString() })),
+        plan: { encoders: [], targets: [], calldatas: [] },
+        labels: [],
+        ignored
+    };
+    const push = (encoder: string, target: string, calldata: string) => {
+        unwind.plan.encoders.push(encoder);
+        unwind.plan.targets.push(target);
+        unwind.plan.calldatas.push(calldata);
+        const fn = getCallFunction(calldata.slice(0, 10))!;
+        unwind.labels.push(`${fn.protocol}.${fn.functionName}`);
+    };
+
+    for (const position of open) {
+        const { approve, calldata } = position.close(position.closeAll ? ethers.MaxUint256 : position.amount, account);
+        if (approve) {
+            let allowance = position.amount;
+            if (position.closeAll) {
+                if (repayAllowances[position.key] === undefined) {
+                    throw new Error(`No repay allowance for ${position.label}: read its live debt first (getOpenAaveDebts)`);
+                }
+                allowance = repayAllowances[position.key];
+            }
+            push(position.encoder, approve, encode(ERC20_APPROVE.signature, [position.target, allowance]));
+        }
+        push(position.encoder, position.target, calldata);
+    }
+    return unwind;
+}
+
+/**
+ * Log the open positions and the calls closing them
+ */
+export function logUnwindPlan(unwind: UnwindPlan): void {
+    console.log(`  Open positions: ${unwind.positions.length}`);
+    for (const position of unwind.positions) {
+        console.log(`    - ${position.label}: ${position.amount}`);
+    }
+    unwind.labels.forEach((label, i) => console.log(`  ${i + 1}. ${label} on ${unwind.plan.targets[i]}`));
+    if (unwind.ignored.length > 0) {
+        console.log(`  ⚠️ Not unwound (not modelled): ${unwind.ignored.join(', ')}`);
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Vault Positions - what the BoringVault holds in the tokens and protocol positions a plan touches
+ *
+ * Positions are found from the plan's calls by their protocol function (see protocolMapping.ts):
+ *   token       ERC20 balance: approved tokens, token arguments, and the PT of Pendle markets
+ *   collateral  Aave / Morpho collateral supplied by the vault (getCollateralBalance)
+ *   debt        Aave / Morpho debt of the vault (getDebtBalance)
+ * readAaveDebt reads the live Aave debt an unwind repays in full (see unwindPlan.ts).
+ * Contracts that don't answer the view call (not a token, not a mock protocol) are skipped.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolFunction, getAmountArg, getCallFunction } from './protocolMapping';
+
+export type PositionKind = 'token' | 'collateral' | 'debt';
+
+export interface PositionRef {
+    key: string;
+    kind: PositionKind;
+    protocol?: string;         // collateral and debt
+    contract: string;          // Token, or the protocol holding the position
+    token: string;             // Token the amount is denominated in
+    collateralToken?: string;  // Morpho debt market
+}
+
+export interface VaultPosition extends PositionRef {
+    label: string;             // e.g. "USDC", "aave collateral USDC"
+    decimals: number;
+    amount: string;            // Token base units
+}
+
+export interface PositionChange {
+    key: string;
+    label: string;
+    decimals: number;
+    before: string;
+    after: string;
+}
+
+export interface PositionDifference {
+    key: string;
+    label: string;
+    decimals: number;
+    expected: string;          // After the simulated plan
+    actual: string;            // After the executed plan
+    difference: string;        // actual - expected
+}
+
+// Address arguments that name a token the vault may hold
+const TOKEN_ARGS = new Set(['asset', 'loanToken', 'collateralToken', 'tokenIn', 'tokenOut']);
+
+const erc20Interface = new ethers.Interface([
+    'function balanceOf(address) view returns (uint256)',
+    'function decimals() view returns (uint8)',
+    'function symbol() view returns (string)'
+]);
+
+const lendingInterface = new ethers.Interface([
+    'function getCollateralBalance(address user, address asset) view returns (uint256)',
+    'function getDebtBalance(address user, address asset) view returns (uint256)',
+    'function getDebtBalance(address user, address loanToken, address collateralToken) view returns (uint256)'
+]);
+
+const aavePoolInterface = new ethers.Interface([
+    'function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+]);
+
+const pendleInterface = new ethers.Interface(['function marketToPT(address market) view returns (address)']);
+
+function toAddress(value: any): string | undefined {
+    try {
+        return ethers.getAddress(typeof value === 'string' ? value : ethers.toBeHex(BigInt(value), 20));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Label of a call: protocol.function, or target:selector for unknown functions
+ */
+export function describePlanCall(target: string, calldata: string): string {
+    const fn = getCallFunction(calldata.slice(0, 10));
+    return fn ? `${fn.protocol}.${fn.functionName}` : `${target}:${calldata.slice(0, 10)}`;
+}
+
+/**
+ * Decoded arguments of a known call, by name (null for unknown functions or bad calldata)
+ */
+function decodeCall(calldata: string): { fn: ProtocolFunction; args: { [name: string]: any } } | null {
+    const fn = getCallFunction(calldata.slice(0, 10));
+    if (!fn) {
+        return null;
+    }
+    try {
+        const values = new ethers.Interface([`function ${fn.signature}`]).decodeFunctionData(fn.functionName, calldata);
+        const args: { [name: string]: any } = {};
+        fn.argNames.forEach((name, i) => { args[name] = values[i]; });
+        return { fn, args };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The vault positions a plan's calls move
+ */
+export async function findPlanPositions(
+    provider: ethers.Provider,
+    targets: string[],
+    calldatas: string[]
+): Promise<PositionRef[]> {
+    const refs = new Map<string, PositionRef>();
+    const add = (ref: Omit<PositionRef, 'key'>) => {
+        const key = [ref.kind, ref.protocol, ref.contract, ref.token, ref.collateralToken]
+            .filter((part) => part !== undefined)
+            .join(':')
+            .toLowerCase();
+        refs.set(key, { key, ...ref });
+    };
+    const addToken = (token: string | undefined) => token && add({ kind: 'token', contract: token, token });
+
+    for (const [i, calldata] of calldatas.entries()) {
+        const target = ethers.getAddress(targets[i]);
+        const call = decodeCall(calldata);
+        if (!call) {
+            continue;
+        }
+        if (getAmountArg(call.fn)?.tokenIndex === -1) {
+            addToken(target);
+        }
+        for (const [name, value] of Object.entries(call.args)) {
+            if (TOKEN_ARGS.has(name)) {
+                addToken(toAddress(value));
+            }
+        }
+
+        const { protocol, functionName } = call.fn;
+        const args = call.args;
+        if (protocol === 'pendle' && args.market) {
+            const pt = await new ethers.Contract(target, pendleInterface, provider)
+                .marketToPT(args.market)
+                .catch(() => undefined);
+            addToken(pt && pt !== ethers.ZeroAddress ? ethers.getAddress(pt) : undefined);
+        }
+        if (protocol === 'aave' && args.asset) {
+            const kind = functionName === 'supply' || functionName === 'withdraw' ? 'collateral' : 'debt';
+            add({ kind, protocol, contract: target, token: ethers.getAddress(args.asset) });
+        }
+        if (protocol === 'morpho') {
+            if (functionName === 'supply' || functionName === 'withdraw') {
+                const token = args.collateralToken ?? args.asset;
+                add({ kind: 'collateral', protocol, contract: target, token: ethers.getAddress(token) });
+            } else {
+                add({
+                    kind: 'debt',
+                    protocol,
+                    contract: target,
+                    token: ethers.getAddress(args.loanToken),
+                    collateralToken: ethers.getAddress(args.collateralToken)
+                });
+            }
+        }
+    }
+
+    return [...refs.values()];
+}
+
+const tokenInfoCache = new Map<string, { symbol?: string; decimals: number }>();
+
+async function getTokenInfo(provider: ethers.Provider, token: string): Promise<{ symbol?: string; decimals: number }> {
+    const key = token.toLowerCase();
+    if (!tokenInfoCache.has(key)) {
+        const contract = new ethers.Contract(token, erc20Interface, provider);
+        const decimals = Number(await contract.decimals().catch(() => 18));
+        const symbol: string | undefined = await contract.symbol().catch(() => undefined);
+        tokenInfoCache.set(key, { symbol, decimals });
+    }
+    return tokenInfoCache.get(key)!;
+}
+
+async function readAmount(provider: ethers.Provider, vault: string, ref: PositionRef): Promise<bigint> {
+    if (ref.kind === 'token') {
+        return new ethers.Contract(ref.contract, erc20Interface, provider).balanceOf(vault);
+    }
+    const lending = new ethers.Contract(ref.contract, lendingInterface, provider);
+    if (ref.kind === 'collateral') {
+        return lending.getCollateralBalance(vault, ref.token);
+    }
+    return ref.collateralToken
+        ? lending['getDebtBalance(address,address,address)'](vault, ref.token, ref.collateralToken)
+        : lending['getDebtBalance(address,address)'](vault, ref.token);
+}
+
+/**
+ * The vault's live Aave debt in an asset, accrued interest included: the balance of the reserve's
+ * debt token for the interest rate mode, or getDebtBalance on the mock pool, which has no debt tokens
+ */
+export async function readAaveDebt(
+    provider: ethers.Provider,
+    pool: string,
+    asset: string,
+    interestRateMode: bigint,
+    vault: string,
+    blockTag: ethers.BlockTag = 'latest'
+): Promise<bigint> {
+    let debtToken: string | undefined;
+    try {
+        const reserve = await new ethers.Contract(pool, aavePoolInterface, provider).getReserveData(asset, { blockTag });
+        debtToken = interestRateMode === 1n ? reserve.stableDebtTokenAddress : reserve.variableDebtTokenAddress;
+    } catch {
+        // Not an Aave V3 pool
+    }
+    if (debtToken && debtToken !== ethers.ZeroAddress) {
+        return new ethers.Contract(debtToken, erc20Interface, provider).balanceOf(vault, { blockTag });
+    }
+    return new ethers.Contract(pool, lendingInterface, provider)['getDebtBalance(address,address)'](vault, asset, { blockTag });
+}
+
+/**
+ * Read the vault's positions, keyed by PositionRef.key (positions that can't be read are left out)
+ */
+export async function readVaultPositions(
+    provider: ethers.Provider,
+    vault: string,
+    refs: PositionRef[]
+): Promise<Map<string, VaultPosition>> {
+    const positions = new Map<string, VaultPosition>();
+    for (const ref of refs) {
+        let amount: bigint;
+        try {
+            amount = await readAmount(provider, vault, ref);
+        } catch {
+            continue;
+        }
+        const { symbol, decimals } = await getTokenInfo(provider, ref.token);
+        const name = symbol ?? ref.token;
+        const collateral = ref.collateralToken ? `/${(await getTokenInfo(provider, ref.collateralToken)).symbol ?? ref.collateralToken}` : '';
+        positions.set(ref.key, {
+            ...ref,
+            label: ref.kind === 'token' ? name : `${ref.protocol} ${ref.kind} ${name}${collateral}`,
+            decimals,
+            amount: amount.toString()
+        });
+    }
+    return positions;
+}
+
+/**
+ * Positions before and after a plan
+ */
+export function comparePositions(before: Map<string, VaultPosition>, after: Map<string, VaultPosition>): PositionChange[] {
+    return [...before.values()].map((position) => ({
+        key: position.key,
+        label: position.label,
+        decimals: position.decimals,
+        before: position.amount,
+        after: after.get(position.key)?.amount ?? position.amount
+    }));
+}
+
+/**
+ * Actual positions against the expected ones; only positions that differ are returned
+ */
+export function reconcilePositions(expected: PositionChange[], actual: Map<string, VaultPosition>): PositionDifference[] {
+    const differences: PositionDifference[] = [];
+    for (const position of expected) {
+        const amount = actual.get(position.key)?.amount;
+        if (amount === undefined || amount === position.after) {
+            continue;
+        }
+        differences.push({
+            key: position.key,
+            label: position.label,
+            decimals: position.decimals,
+            expected: position.after,
+            actual: amount,
+            difference: (BigInt(amount) - BigInt(position.after)).toString()
+        });
+    }
+    return differences;
+}
@@ -0,0 +1,69 @@
+import { WorkQueue } from './workQueue';
+
+describe('WorkQueue', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('runs at most `concurrency` jobs at once', async () => {
+        const queue = new WorkQueue('test', { concurrency: 2 });
+        let running = 0;
+        let peak = 0;
+        const job = async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+        };
+
+        ['a', 'b', 'c', 'd'].forEach((id) => queue.add(id, job));
+        await queue.onIdle();
+
+        expect(peak).toBe(2);
+        expect(queue.stats()).toEqual({ queued: 0, running: 0, retrying: 0, completed: 4, failed: 0 });
+    });
+
+    it('ignores a job whose id is already queued or running', async () => {
+        const queue = new WorkQueue('test', { concurrency: 1 });
+        const runs: string[] = [];
+
+        expect(queue.add('strategy-1', async () => { runs.push('first'); })).toBe(true);
+        expect(queue.add('strategy-1', async () => { runs.push('second'); })).toBe(false);
+        await queue.onIdle();
+
+        expect(runs).toEqual(['first']);
+        expect(queue.has('strategy-1')).toBe(false);
+    });
+
+    it('retries a failing job, then counts it as failed', async () => {
+        const queue = new WorkQueue('test', { maxAttempts: 3, backoffMs: 1 });
+        let attempts = 0;
+
+        queue.add('flaky', async () => {
+            attempts++;
+            throw new Error('RPC timeout');
+        });
+        await queue.onIdle();
+
+        expect(attempts).toBe(3);
+        expect(queue.stats()).toMatchObject({ completed: 0, failed: 1 });
+    });
+
+    it('completes a job that succeeds on a retry', async () => {
+        const queue = new WorkQueue('test', { maxAttempts: 3, backoffMs: 1 });
+        let attempts = 0;
+
+        queue.add('flaky', async () => {
+            if (++attempts < 2) throw new Error('RPC timeout');
+        });
+        await queue.onIdle();
+
+        expect(attempts).toBe(2);
+        expect(queue.stats()).toMatchObject({ completed: 1, failed: 0 });
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * Work Queue - bounded-concurrency job queue with retries, plus a non-overlapping poller
+ *
+ * Jobs are keyed by id: adding a job that is already queued or running is a no-op, so
+ * re-delivered events don't process the same strategy twice at once. Failed jobs are retried
+ * with exponential backoff up to maxAttempts.
+ */
+
+export interface WorkQueueOptions {
+    concurrency?: number;   // Jobs running at once (default 2)
+    maxAttempts?: number;   // Attempts per job including the first (default 3)
+    backoffMs?: number;     // Delay before the first retry, doubled per attempt (default 5000)
+    maxBackoffMs?: number;  // Cap on the retry delay (default 60000)
+}
+
+export interface WorkQueueStats {
+    queued: number;
+    running: number;
+    retrying: number;
+    completed: number;
+    failed: number;
+}
+
+interface Job {
+    id: string;
+    run: () => Promise<void>;
+    attempts: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class WorkQueue {
+    private queue: Job[] = [];
+    private active = new Set<string>();     // Queued, running or waiting to retry
+    private running = 0;
+    private retrying = 0;
+    private completed = 0;
+    private failed = 0;
+    private idleWaiters: Array<() => void> = [];
+
+    private readonly concurrency: number;
+    private readonly maxAttempts: number;
+    private readonly backoffMs: number;
+    private readonly maxBackoffMs: number;
+
+    constructor(public readonly name: string, options: WorkQueueOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? 2);
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+        this.backoffMs = options.backoffMs ?? 5000;
+        this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+    }
+
+    /**
+     * Add a job. Returns false if a job with this id is already queued or running.
+     */
+    add(id: string, run: () => Promise<void>): boolean {
+        if (this.active.has(id)) return false;
+
+        this.active.add(id);
+        this.queue.push({ id, run, attempts: 0 });
+        this.drain();
+        return true;
+    }
+
+    has(id: string): boolean {
+        return this.active.has(id);
+    }
+
+    stats(): WorkQueueStats {
+        return {
+            queued: this.queue.length,
+            running: this.running,
+            retrying: this.retrying,
+            completed: this.completed,
+            failed: this.failed
+        };
+    }
+
+    /**
+     * Resolves once no jobs are queued, running or waiting to retry
+     */
+    onIdle(): Promise<void> {
+        if (this.active.size === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.queue.length > 0) {
+            const job = this.queue.shift()!;
+            this.running++;
+            this.execute(job);
+        }
+    }
+
+    private async execute(job: Job): Promise<void> {
+        job.attempts++;
+
+        try {
+            await job.run();
+            this.running--;
+            this.completed++;
+            this.finish(job.id);
+        } catch (error: any) {
+            this.running--;
+            if (job.attempts >= this.maxAttempts) {
+                console.error(`❌ [${this.name}] Job ${job.id} failed after ${job.attempts} attempt(s): ${error?.message || error}`);
+                this.failed++;
+                this.finish(job.id);
+            } else {
+                const delay = Math.min(this.backoffMs * 2 ** (job.attempts - 1), this.maxBackoffMs);
+                console.warn(`⚠️ [${this.name}] Job ${job.id} failed (attempt ${job.attempts}/${this.maxAttempts}), retrying in ${delay / 1000}s`);
+
+                // Wait outside the concurrency slot so other jobs keep running
+                this.retrying++;
+                sleep(delay).then(() => {
+                    this.retrying--;
+                    this.queue.push(job);
+                    this.drain();
+                });
+            }
+        }
+
+        this.drain();
+    }
+
+    private finish(id: string): void {
+        this.active.delete(id);
+        if (this.active.size === 0) {
+            const waiters = this.idleWaiters;
+            this.idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    }
+}
+
+/**
+ * Run a tick on an interval, skipping ticks while the previous one is still running
+ */
+export function startPolling(name: string, tick: () => Promise<void>, intervalMs: number): NodeJS.Timeout {
+    let inFlight = false;
+
+    return setInterval(async () => {
+        if (inFlight) {
+            console.log(`⏭️ [${name}] Previous tick still running, skipping`);
+            return;
+        }
+
+        inFlight = true;
+        try {
+            await tick();
+        } catch (error) {
+            console.error(`Error in ${name}:`, error);
+        } finally {
+            inFlight = false;
+        }
+    }, intervalMs);
+}
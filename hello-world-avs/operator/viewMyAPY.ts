@@ -0,0 +1,61 @@
+/**
+ * Trader script to read your own signed APY for an epoch
+ * The operator grants the submitter decrypt permission on the encrypted APY,
+ * so this unseals it with the trader's key and decodes the offset encoding.
+ *
+ * Usage: ts-node operator/viewMyAPY.ts <epochNumber>
+ */
+
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { initializeCofhe, batchDecrypt, FheTypes } from "./cofheUtils";
+import { getTradeManagerForChain } from "./utils/chainAddressMapping";
+import { decodeSignedAPY, formatAPY } from "./utils/apyEncoding";
+const fs = require('fs');
+const path = require('path');
+dotenv.config();
+
+async function main() {
+    const epochNumber = process.argv[2] ? BigInt(process.argv[2]) : null;
+    if (!epochNumber) {
+        console.error("Usage: ts-node operator/viewMyAPY.ts <epochNumber>");
+        process.exit(1);
+    }
+
+    const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+
+    console.log(`\n🔍 Viewing APY for epoch ${epochNumber}`);
+    console.log(`Trader: ${wallet.address}`);
+
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const tradeManagerAddress = getTradeManagerForChain(chainId);
+    const tradeManagerABI = JSON.parse(
+        fs.readFileSync(path.resolve(__dirname, '../abis/TradeManager.json'), 'utf8')
+    );
+    const tradeManager = new ethers.Contract(tradeManagerAddress, tradeManagerABI, wallet);
+
+    const hasSubmitted = await tradeManager.hasSubmittedStrategy(epochNumber, wallet.address);
+    if (!hasSubmitted) {
+        console.log("  ℹ️ No strategy submitted for this epoch");
+        return;
+    }
+
+    const encryptedAPY = BigInt(await tradeManager.getEncryptedAPY(epochNumber, wallet.address));
+    if (encryptedAPY === 0n) {
+        console.log("  ⏳ APY not reported yet");
+        return;
+    }
+
+    await initializeCofhe(wallet);
+    const [encoded] = await batchDecrypt([
+        { ctHash: encryptedAPY, securityZone: 0, utype: FheTypes.Uint32, signature: '0x' }
+    ]);
+
+    console.log(`\n✅ Your APY: ${formatAPY(decodeSignedAPY(encoded))}`);
+}
+
+main().catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+});